@@ -0,0 +1,27 @@
+import { Form, Link, useLocation, useRouteLoaderData } from "@remix-run/react";
+import type { loader as rootLoader } from "~/root";
+
+// "Sign in" link, or the signed-in email with a sign-out button
+export function AccountMenu() {
+  const data = useRouteLoaderData<typeof rootLoader>("root");
+  const location = useLocation();
+  const user = data?.user;
+
+  if (!user) {
+    const redirectTo = new URLSearchParams({ redirectTo: location.pathname + location.search });
+    return (
+      <Link to={`/login?${redirectTo}`} className="text-blue-600 dark:text-blue-400 hover:underline">
+        Sign in
+      </Link>
+    );
+  }
+
+  return (
+    <Form method="post" action="/logout" className="flex items-center gap-2">
+      <span className="text-slate-500 dark:text-slate-400">{user.email}</span>
+      <button type="submit" className="text-blue-600 dark:text-blue-400 hover:underline">
+        Sign out
+      </button>
+    </Form>
+  );
+}
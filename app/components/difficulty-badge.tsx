@@ -0,0 +1,20 @@
+import { Badge } from "~/components/ui/badge";
+import { cn } from "~/lib/utils";
+import { difficultyColors, type Difficulty } from "~/lib/types";
+
+interface DifficultyBadgeProps {
+  difficulty?: Difficulty | null;
+  className?: string;
+}
+
+// Problems not yet looked up on LeetCode have no difficulty; say so rather than guess
+export function DifficultyBadge({ difficulty, className }: DifficultyBadgeProps) {
+  if (!difficulty) {
+    return (
+      <Badge variant="outline" className={cn("text-slate-500 dark:text-slate-400", className)}>
+        Unknown
+      </Badge>
+    );
+  }
+  return <Badge className={cn(difficultyColors[difficulty], className)}>{difficulty}</Badge>;
+}
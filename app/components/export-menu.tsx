@@ -0,0 +1,122 @@
+import { useEffect, useRef, useState } from "react";
+import { Download } from "lucide-react";
+import { Button } from "~/components/ui/button";
+import {
+  exportColumnLabels,
+  exportFormatLabels,
+  DEFAULT_EXPORT_COLUMNS,
+  EXPORT_COLUMNS,
+  EXPORT_FORMATS,
+  type ExportColumn,
+  type ExportFormat,
+} from "~/lib/export";
+
+interface ExportMenuProps {
+  // The applied filters as query parameters, so the file holds every matching problem
+  filterParams: string;
+  total: number;
+}
+
+// "Export" button on the problems card: pick a format and columns, then download from /export
+export function ExportMenu({ filterParams, total }: ExportMenuProps) {
+  const [open, setOpen] = useState(false);
+  const [format, setFormat] = useState<ExportFormat>("csv");
+  const [columns, setColumns] = useState<Set<ExportColumn>>(() => new Set(DEFAULT_EXPORT_COLUMNS));
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Close on a click outside or Escape
+  useEffect(() => {
+    if (!open) return;
+    const onPointerDown = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) setOpen(false);
+    };
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") setOpen(false);
+    };
+    document.addEventListener("mousedown", onPointerDown);
+    document.addEventListener("keydown", onKeyDown);
+    return () => {
+      document.removeEventListener("mousedown", onPointerDown);
+      document.removeEventListener("keydown", onKeyDown);
+    };
+  }, [open]);
+
+  const toggleColumn = (column: ExportColumn) => {
+    setColumns(prev => {
+      const next = new Set(prev);
+      if (next.has(column)) next.delete(column);
+      else next.add(column);
+      return next;
+    });
+  };
+
+  const params = new URLSearchParams(filterParams);
+  params.set("format", format);
+  EXPORT_COLUMNS.filter(column => columns.has(column)).forEach(column => params.append("column", column));
+
+  return (
+    <div ref={containerRef} className="relative shrink-0">
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => setOpen(prev => !prev)}
+        disabled={total === 0}
+        aria-expanded={open}
+        aria-haspopup="dialog"
+        className="dark:bg-gray-800 dark:border-gray-600 dark:text-slate-200"
+      >
+        <Download className="h-4 w-4" />
+        Export
+      </Button>
+      {open && (
+        <div
+          role="dialog"
+          aria-label="Export problems"
+          className="absolute right-0 z-30 mt-2 w-72 space-y-4 rounded-lg border border-gray-200 bg-white p-4 shadow-lg dark:border-gray-600 dark:bg-gray-800"
+        >
+          <fieldset className="space-y-1.5">
+            <legend className="mb-1 text-sm font-medium text-slate-600 dark:text-slate-300">Format</legend>
+            {EXPORT_FORMATS.map(option => (
+              <label key={option} className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-200">
+                <input
+                  type="radio"
+                  name="export-format"
+                  value={option}
+                  checked={format === option}
+                  onChange={() => setFormat(option)}
+                  className="accent-blue-600"
+                />
+                {exportFormatLabels[option]}
+              </label>
+            ))}
+          </fieldset>
+          <fieldset className="space-y-1.5">
+            <legend className="mb-1 text-sm font-medium text-slate-600 dark:text-slate-300">Columns</legend>
+            <div className="grid grid-cols-2 gap-x-3 gap-y-1.5">
+              {EXPORT_COLUMNS.map(column => (
+                <label key={column} className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-200">
+                  <input
+                    type="checkbox"
+                    checked={columns.has(column)}
+                    onChange={() => toggleColumn(column)}
+                    className="accent-blue-600"
+                  />
+                  {exportColumnLabels[column]}
+                </label>
+              ))}
+            </div>
+            {format !== "csv" && (
+              <p className="text-xs text-slate-400 dark:text-slate-500">The title always leads each item.</p>
+            )}
+          </fieldset>
+          <Button asChild size="sm" className="w-full bg-blue-600 hover:bg-blue-700 text-white">
+            <a href={`/export?${params}`} download onClick={() => setOpen(false)}>
+              <Download className="h-4 w-4" />
+              Download {total} problems
+            </a>
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
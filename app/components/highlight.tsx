@@ -0,0 +1,27 @@
+import { highlightRanges } from "~/lib/search";
+
+interface HighlightProps {
+  text: string;
+  terms: string[];
+}
+
+// Wraps the parts of `text` matched by the search in <mark>
+export function Highlight({ text, terms }: HighlightProps) {
+  const ranges = terms.length > 0 ? highlightRanges(text, terms) : [];
+  if (ranges.length === 0) return <>{text}</>;
+
+  const parts = [];
+  let cursor = 0;
+  ranges.forEach(([start, end]) => {
+    if (start > cursor) parts.push(text.slice(cursor, start));
+    parts.push(
+      <mark key={start} className="bg-yellow-200 text-inherit rounded-sm dark:bg-yellow-700/60">
+        {text.slice(start, end)}
+      </mark>
+    );
+    cursor = end;
+  });
+  if (cursor < text.length) parts.push(text.slice(cursor));
+
+  return <>{parts}</>;
+}
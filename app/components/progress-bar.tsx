@@ -0,0 +1,25 @@
+import { cn } from "~/lib/utils";
+
+interface ProgressBarProps {
+  done: number;
+  total: number;
+  className?: string;
+}
+
+export function ProgressBar({ done, total, className }: ProgressBarProps) {
+  const percent = total > 0 ? Math.round((done / total) * 100) : 0;
+  return (
+    <div className={cn("flex items-center gap-3", className)}>
+      <div
+        role="progressbar"
+        aria-valuemin={0}
+        aria-valuemax={total}
+        aria-valuenow={done}
+        className="h-2 flex-1 overflow-hidden rounded-full bg-slate-200 dark:bg-gray-700"
+      >
+        <div className="h-full rounded-full bg-green-500 dark:bg-green-600" style={{ width: `${percent}%` }} />
+      </div>
+      <span className="text-xs font-mono text-slate-500 dark:text-slate-400">{done}/{total}</span>
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+import type { RatingBucketCount } from "~/lib/facets";
+
+interface RatingBucketsProps {
+  buckets: RatingBucketCount[];
+  // The pending range as typed, so a picked bucket shows as selected
+  ratingMin: string;
+  ratingMax: string;
+  onSelect: (min: number, max: number) => void;
+}
+
+// Quick picks under the rating inputs, each with how many problems it would leave
+export function RatingBuckets({ buckets, ratingMin, ratingMax, onSelect }: RatingBucketsProps) {
+  return (
+    <div className="flex flex-wrap gap-1">
+      {buckets.map(({ min, max, count }) => {
+        const selected = ratingMin === String(min) && ratingMax === String(max);
+        return (
+          <button
+            key={min}
+            type="button"
+            disabled={count === 0 && !selected}
+            onClick={() => onSelect(min, max)}
+            title={`${min}–${max}: ${count} problems`}
+            className={`rounded-md border px-1.5 py-0.5 text-xs font-mono disabled:cursor-not-allowed disabled:opacity-40 ${
+              selected
+                ? "border-blue-600 bg-blue-600 text-white"
+                : "border-gray-300 text-slate-600 hover:bg-slate-100 dark:border-gray-600 dark:text-slate-300 dark:hover:bg-gray-700"
+            }`}
+          >
+            {min} <span className={selected ? "text-blue-100" : "text-slate-400 dark:text-slate-500"}>{count}</span>
+          </button>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+import { cn } from "~/lib/utils";
+
+export interface RatingChartPoint {
+  label: string;
+  rating: number;
+  performance: number;
+}
+
+interface RatingChartProps {
+  points: RatingChartPoint[];
+  className?: string;
+}
+
+const WIDTH = 600;
+const HEIGHT = 200;
+const PADDING = 12;
+
+// Rating after each contest as a line, with that contest's performance as a dot
+export function RatingChart({ points, className }: RatingChartProps) {
+  const values = points.flatMap(point => [point.rating, point.performance]);
+  const min = Math.floor((Math.min(...values) - 100) / 100) * 100;
+  const max = Math.ceil((Math.max(...values) + 100) / 100) * 100;
+
+  const x = (index: number) =>
+    points.length === 1 ? WIDTH / 2 : PADDING + (index / (points.length - 1)) * (WIDTH - 2 * PADDING);
+  const y = (value: number) => HEIGHT - PADDING - ((value - min) / (max - min)) * (HEIGHT - 2 * PADDING);
+
+  return (
+    <div className={cn("flex gap-2", className)}>
+      <div className="flex flex-col justify-between text-xs font-mono text-slate-400 dark:text-slate-500">
+        <span>{max}</span>
+        <span>{min}</span>
+      </div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="h-48 w-full" role="img" aria-label="Virtual rating history">
+        <polyline
+          points={points.map((point, index) => `${x(index)},${y(point.rating)}`).join(" ")}
+          fill="none"
+          strokeWidth={2}
+          className="stroke-blue-600 dark:stroke-blue-400"
+        />
+        {points.map((point, index) => (
+          <g key={index}>
+            <circle cx={x(index)} cy={y(point.performance)} r={4} className="fill-purple-400 dark:fill-purple-500">
+              <title>{`${point.label}: performance ${point.performance}`}</title>
+            </circle>
+            <circle cx={x(index)} cy={y(point.rating)} r={3} className="fill-blue-600 dark:fill-blue-400">
+              <title>{`${point.label}: rating ${point.rating}`}</title>
+            </circle>
+          </g>
+        ))}
+      </svg>
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+import { cn } from "~/lib/utils";
+import type { HistogramBucket } from "~/lib/analytics";
+
+interface RatingHistogramProps {
+  buckets: HistogramBucket[];
+  bucketSize: number;
+  compact?: boolean;
+  className?: string;
+}
+
+// Total problems per rating bucket, with the solved share filled in.
+// The compact variant is a bare SVG since tables render one per row.
+export function RatingHistogram({ buckets, bucketSize, compact = false, className }: RatingHistogramProps) {
+  const max = Math.max(1, ...buckets.map(bucket => bucket.total));
+
+  if (compact) {
+    const scale = (count: number) => Math.round((count / max) * 1000) / 1000;
+    return (
+      <svg viewBox={`0 0 ${buckets.length} 1`} preserveAspectRatio="none" className={cn("h-8 w-full", className)} aria-hidden="true">
+        <g className="fill-slate-300 dark:fill-gray-600">
+          {buckets.map((bucket, index) => bucket.total > 0 && (
+            <rect key={bucket.min} x={index + 0.05} y={1 - scale(bucket.total)} width={0.9} height={scale(bucket.total)} />
+          ))}
+        </g>
+        <g className="fill-green-500 dark:fill-green-600">
+          {buckets.map((bucket, index) => bucket.solved > 0 && (
+            <rect key={bucket.min} x={index + 0.05} y={1 - scale(bucket.solved)} width={0.9} height={scale(bucket.solved)} />
+          ))}
+        </g>
+      </svg>
+    );
+  }
+
+  return (
+    <div className={cn("flex flex-col gap-1", className)}>
+      <div className="flex items-end gap-px h-40">
+        {buckets.map((bucket) => (
+          <div
+            key={bucket.min}
+            className="relative flex-1 bg-slate-200 dark:bg-gray-600 rounded-t-sm"
+            style={{ height: `${(bucket.total / max) * 100}%` }}
+            title={`${bucket.min}–${bucket.min + bucketSize - 1}: ${bucket.solved}/${bucket.total} solved`}
+          >
+            <div
+              className="absolute bottom-0 left-0 right-0 bg-green-500 dark:bg-green-600 rounded-t-sm"
+              style={{ height: bucket.total > 0 ? `${(bucket.solved / bucket.total) * 100}%` : 0 }}
+            />
+          </div>
+        ))}
+      </div>
+      {buckets.length > 0 && (
+        <div className="flex justify-between text-xs font-mono text-slate-400 dark:text-slate-500">
+          <span>{buckets[0].min}</span>
+          <span>{buckets[buckets.length - 1].min + bucketSize}</span>
+        </div>
+      )}
+    </div>
+  );
+}
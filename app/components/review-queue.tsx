@@ -0,0 +1,149 @@
+import { Link, useFetcher } from "@remix-run/react";
+import { useEffect, useMemo, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "~/components/ui/card";
+import { Badge } from "~/components/ui/badge";
+import { todayISODate, type ProblemStatus, type ProgressMap } from "~/lib/progress";
+import {
+  getDueReviews,
+  orderForVariety,
+  reviewGradeColors,
+  reviewGradeLabels,
+  reviewStreak,
+  scheduleReview,
+  REVIEW_GRADES,
+  type ReviewGrade,
+} from "~/lib/review";
+import { useReviews } from "~/hooks/use-reviews";
+import type { loader as candidatesLoader } from "~/routes/review-candidates";
+
+interface ReviewQueueProps {
+  progress: ProgressMap;
+  onStatusChange: (id: number, status: ProblemStatus) => void;
+}
+
+const VISIBLE_REVIEWS = 5;
+
+const isSolved = (status?: ProblemStatus) => status === "solved" || status === "revisit";
+
+// "Due today" panel: solved problems whose SM-2 review date has come, in a varied order
+export function ReviewQueue({ progress, onStatusChange }: ReviewQueueProps) {
+  const { reviews, gradeReview } = useReviews();
+  const { load, data } = useFetcher<typeof candidatesLoader>();
+  const [tagFilter, setTagFilter] = useState("all");
+
+  // The candidates come from the progress cookie, so refetch whenever the solved set changes
+  const solvedKey = useMemo(
+    () => Object.entries(progress)
+      .filter(([, entry]) => isSolved(entry.status))
+      .map(([id]) => id)
+      .join(","),
+    [progress]
+  );
+  useEffect(() => {
+    if (solvedKey) load("/review-candidates");
+  }, [solvedKey, load]);
+
+  const today = todayISODate();
+  const due = useMemo(
+    () => (data && solvedKey ? getDueReviews(data.candidates, reviews, progress, today) : []),
+    [data, solvedKey, reviews, progress, today]
+  );
+  const dueTags = useMemo(
+    () => Array.from(new Set(due.flatMap(review => review.problem.tags))).sort(),
+    [due]
+  );
+  const queue = useMemo(
+    () => orderForVariety(tagFilter === "all" ? due : due.filter(review =>
+      review.problem.tags.includes(tagFilter) || review.problem.subtags.includes(tagFilter)
+    )),
+    [due, tagFilter]
+  );
+
+  if (!solvedKey || !data) return null;
+
+  const overdue = due.filter(review => review.overdueDays > 0).length;
+  const streak = reviewStreak(reviews.reviewDays, today);
+
+  // Forgetting a problem flags it for revisiting; recalling it clears the flag
+  const grade = (id: number, reviewGrade: ReviewGrade) => {
+    gradeReview(id, reviewGrade);
+    const status = progress[id]?.status;
+    if (reviewGrade === "forgot" && status !== "revisit") onStatusChange(id, "revisit");
+    if (reviewGrade !== "forgot" && status === "revisit") onStatusChange(id, "solved");
+  };
+
+  return (
+    <Card className="dark:bg-gray-800 dark:border-gray-700 shadow-lg border border-gray-200 dark:border-gray-600">
+      <CardHeader className="bg-slate-50 dark:bg-gray-700 border-b border-gray-200 dark:border-gray-600 px-6 py-4 rounded-t-lg">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <CardTitle className="dark:text-white">Due Today ({due.length})</CardTitle>
+            <CardDescription className="dark:text-slate-400">
+              {overdue} overdue • {streak}-day review streak
+            </CardDescription>
+          </div>
+          {dueTags.length > 0 && (
+            <select
+              aria-label="Filter reviews by tag"
+              value={tagFilter}
+              onChange={(e) => setTagFilter(e.target.value)}
+              className="px-3 py-2 text-sm border rounded-lg dark:bg-gray-700 dark:border-gray-600 dark:text-white focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400"
+            >
+              <option value="all">All tags</option>
+              {dueTags.map((tag) => (
+                <option key={tag} value={tag}>{tag}</option>
+              ))}
+            </select>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="p-0">
+        {queue.length === 0 ? (
+          <p className="px-6 py-4 text-sm text-slate-500 dark:text-slate-400">
+            {due.length === 0 ? "Nothing due. Come back tomorrow." : "Nothing due for this tag."}
+          </p>
+        ) : (
+          <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+            {queue.slice(0, VISIBLE_REVIEWS).map(({ problem, overdueDays }) => (
+              <li key={problem.ID} className="flex flex-wrap items-center gap-3 px-6 py-3">
+                <div className="min-w-0 flex-1">
+                  <Link
+                    to={`/problems/${problem.TitleSlug}`}
+                    className="font-medium text-blue-600 dark:text-blue-400 hover:underline hover:text-blue-700 dark:hover:text-blue-300"
+                  >
+                    {problem.ID}. {problem.Title}
+                  </Link>
+                  <div className="mt-1 flex flex-wrap items-center gap-1 text-xs text-slate-500 dark:text-slate-400">
+                    <span className="font-mono">{Math.round(problem.Rating)}</span>
+                    {overdueDays > 0 && <span>• {overdueDays}d overdue</span>}
+                    {problem.subtags.slice(0, 2).map((subtag) => (
+                      <Badge key={subtag} variant="secondary" className="text-xs">{subtag}</Badge>
+                    ))}
+                  </div>
+                </div>
+                <div className="flex gap-1">
+                  {REVIEW_GRADES.map((reviewGrade) => (
+                    <button
+                      key={reviewGrade}
+                      type="button"
+                      onClick={() => grade(problem.ID, reviewGrade)}
+                      title={`Next review in ${scheduleReview(reviews.cards[problem.ID], reviewGrade, today).interval}d`}
+                      className={`px-2 py-1 text-xs border rounded-md ${reviewGradeColors[reviewGrade]}`}
+                    >
+                      {reviewGradeLabels[reviewGrade]}
+                    </button>
+                  ))}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+        {queue.length > VISIBLE_REVIEWS && (
+          <p className="px-6 py-2 text-xs text-slate-400 dark:text-slate-500 border-t border-gray-200 dark:border-gray-700">
+            +{queue.length - VISIBLE_REVIEWS} more in the backlog
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,67 @@
+import { Link, useFetcher } from "@remix-run/react";
+import { useEffect } from "react";
+import type { loader as suggestionsLoader } from "~/routes/search-suggestions";
+
+interface SearchSuggestionsProps {
+  query: string;
+  open: boolean;
+  onSelectTag: (tagName: string) => void;
+}
+
+const MIN_QUERY_LENGTH = 2;
+
+// Type-ahead list under the search box: problems open their detail page, tags become filters
+export function SearchSuggestions({ query, open, onSelectTag }: SearchSuggestionsProps) {
+  const { load, data } = useFetcher<typeof suggestionsLoader>();
+  const active = query.trim().length >= MIN_QUERY_LENGTH;
+
+  // Wait for a pause in typing before asking the server
+  useEffect(() => {
+    if (!open || !active) return;
+    const timer = setTimeout(() => load(`/search-suggestions?q=${encodeURIComponent(query.trim())}`), 150);
+    return () => clearTimeout(timer);
+  }, [open, active, query, load]);
+
+  if (!open || !active || !data || (data.problems.length === 0 && data.tags.length === 0)) {
+    return null;
+  }
+
+  return (
+    // Keep focus in the input while clicking a suggestion, so the list doesn't close first
+    <div
+      role="presentation"
+      onMouseDown={(e) => e.preventDefault()}
+      className="absolute left-0 right-0 top-full z-30 mt-1 overflow-hidden rounded-lg border border-gray-200 bg-white shadow-lg dark:border-gray-600 dark:bg-gray-800"
+    >
+      {data.tags.length > 0 && (
+        <div className="flex flex-wrap gap-1 border-b border-gray-200 p-2 dark:border-gray-600">
+          {data.tags.map((tag) => (
+            <button
+              key={tag}
+              type="button"
+              onClick={() => onSelectTag(tag)}
+              className="rounded-md border border-gray-300 px-2 py-0.5 text-xs text-slate-600 hover:bg-blue-600 hover:text-white dark:border-gray-600 dark:text-slate-300"
+            >
+              Tag: {tag}
+            </button>
+          ))}
+        </div>
+      )}
+      <ul className="max-h-64 overflow-y-auto py-1">
+        {data.problems.map((problem) => (
+          <li key={problem.ID}>
+            <Link
+              to={`/problems/${problem.TitleSlug}`}
+              className="flex items-center justify-between gap-3 px-3 py-2 text-sm hover:bg-slate-50 dark:text-slate-200 dark:hover:bg-gray-700"
+            >
+              <span className="truncate">
+                <span className="font-mono text-slate-400 dark:text-slate-500">{problem.ID}.</span> {problem.Title}
+              </span>
+              <span className="font-mono text-xs text-slate-400 dark:text-slate-500">{Math.round(problem.Rating)}</span>
+            </Link>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,305 @@
+import { useEffect, useMemo, useRef, useState, type KeyboardEvent } from "react";
+import { ChevronRight } from "lucide-react";
+import { Input } from "~/components/ui/input";
+import type { TagTreeNode } from "~/lib/taxonomy";
+
+// Top-level tags cycle through these modes; subtags are simply on or off
+export type TagMode = "include" | "require" | "exclude";
+
+const tagModeLabels: Record<TagMode, string> = {
+  include: "any of",
+  require: "all of",
+  exclude: "none of",
+};
+
+const tagModeStyles: Record<TagMode, string> = {
+  include: "bg-blue-600 text-white",
+  require: "bg-green-600 text-white",
+  exclude: "bg-red-600 text-white",
+};
+
+const nextTagMode: Record<TagMode, TagMode> = { include: "require", require: "exclude", exclude: "include" };
+
+interface TagTreePickerProps {
+  tree: TagTreeNode[];
+  // Problems each node would leave, given the rest of the filters; nodes that would leave
+  // none can't be checked
+  counts: Record<string, number>;
+  // Alternative spelling to canonical name, so the search box finds "BFS"
+  aliases: Record<string, string>;
+  getTagMode: (tag: string) => TagMode | null;
+  onTagModeChange: (tag: string, mode: TagMode | null) => void;
+  selectedSubtags: Set<string>;
+  // `descendants` are cleared when the subtag is selected, since it already takes them in
+  onSubtagToggle: (subtag: string, descendants: string[]) => void;
+  className?: string;
+}
+
+interface TreeInfo {
+  parent: Map<string, string | null>;
+  descendants: Map<string, string[]>;
+}
+
+interface Row {
+  node: TagTreeNode;
+  level: number;
+  expanded: boolean;
+}
+
+type CheckState = "checked" | "unchecked" | "mixed";
+
+function indexTree(tree: TagTreeNode[]): TreeInfo {
+  const parent = new Map<string, string | null>();
+  const descendants = new Map<string, string[]>();
+  const visit = (node: TagTreeNode, parentName: string | null): string[] => {
+    parent.set(node.name, parentName);
+    const below = node.children.flatMap(child => [child.name, ...visit(child, node.name)]);
+    descendants.set(node.name, below);
+    return below;
+  };
+  tree.forEach(node => visit(node, null));
+  return { parent, descendants };
+}
+
+function TreeCheckbox({ state }: { state: CheckState }) {
+  const ref = useRef<HTMLInputElement>(null);
+  useEffect(() => {
+    if (ref.current) ref.current.indeterminate = state === "mixed";
+  }, [state]);
+  // The row carries the checked state for assistive tech and handles the click
+  return (
+    <input
+      ref={ref}
+      type="checkbox"
+      checked={state === "checked"}
+      readOnly
+      tabIndex={-1}
+      aria-hidden="true"
+      className="pointer-events-none h-3.5 w-3.5 accent-blue-600"
+    />
+  );
+}
+
+// Collapsible tag tree for the filter panel. Top-level rows set the tag filter (click to
+// turn on, then pick any of / all of / none of); deeper rows are subtags. A node shows as
+// mixed while only something below it is selected. Keyboard: arrows move and expand,
+// Home/End jump, Space checks, Enter cycles a top-level tag's mode.
+export function TagTreePicker({
+  tree,
+  counts,
+  aliases,
+  getTagMode,
+  onTagModeChange,
+  selectedSubtags,
+  onSubtagToggle,
+  className = "",
+}: TagTreePickerProps) {
+  const info = useMemo(() => indexTree(tree), [tree]);
+  const [query, setQuery] = useState("");
+  const [expanded, setExpanded] = useState<Set<string>>(() => {
+    // Open the branches that already hold a selected subtag
+    const open = new Set<string>();
+    selectedSubtags.forEach(subtag => {
+      for (let parent = info.parent.get(subtag); parent; parent = info.parent.get(parent)) open.add(parent);
+    });
+    return open;
+  });
+  const [focused, setFocused] = useState<string | null>(null);
+  const rowRefs = useRef(new Map<string, HTMLDivElement>());
+
+  // Names matching the search, by name or alias, plus every ancestor so they stay reachable
+  const searchMatches = useMemo(() => {
+    const lower = query.trim().toLowerCase();
+    if (!lower) return null;
+    const matches = new Set<string>();
+    const names = [
+      ...Array.from(info.parent.keys()).filter(name => name.toLowerCase().includes(lower)),
+      ...Object.entries(aliases).filter(([alias]) => alias.toLowerCase().includes(lower)).map(([, name]) => name),
+    ];
+    names.forEach(name => {
+      for (let current: string | null | undefined = name; current; current = info.parent.get(current)) matches.add(current);
+    });
+    return matches;
+  }, [query, aliases, info]);
+
+  const rows = useMemo(() => {
+    const result: Row[] = [];
+    const walk = (nodes: TagTreeNode[], level: number) => {
+      nodes.forEach(node => {
+        if (searchMatches && !searchMatches.has(node.name)) return;
+        // While searching, branches leading to a match open by themselves
+        const open = expanded.has(node.name) || (searchMatches !== null && node.children.some(child => searchMatches.has(child.name)));
+        result.push({ node, level, expanded: open });
+        if (open) walk(node.children, level + 1);
+      });
+    };
+    walk(tree, 1);
+    return result;
+  }, [tree, expanded, searchMatches]);
+
+  const focusedName = rows.some(row => row.node.name === focused) ? focused : rows[0]?.node.name ?? null;
+
+  const isTopLevel = (name: string) => info.parent.get(name) === null;
+  const isCoveredByAncestor = (name: string) => {
+    for (let parent = info.parent.get(name); parent && !isTopLevel(parent); parent = info.parent.get(parent)) {
+      if (selectedSubtags.has(parent)) return true;
+    }
+    return false;
+  };
+
+  const checkState = (name: string): CheckState => {
+    const selected = isTopLevel(name) ? getTagMode(name) !== null : selectedSubtags.has(name) || isCoveredByAncestor(name);
+    if (selected) return "checked";
+    return info.descendants.get(name)?.some(descendant => selectedSubtags.has(descendant)) ? "mixed" : "unchecked";
+  };
+
+  // Unchecking always works; checking needs something left to show
+  const isDisabled = (name: string) => (counts[name] ?? 0) === 0 && checkState(name) === "unchecked";
+
+  const toggleChecked = (name: string) => {
+    if (isDisabled(name)) return;
+    if (isTopLevel(name)) {
+      onTagModeChange(name, getTagMode(name) ? null : "include");
+    } else if (!isCoveredByAncestor(name)) {
+      onSubtagToggle(name, info.descendants.get(name) ?? []);
+    }
+  };
+
+  const setOpen = (name: string, open: boolean) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (open) next.add(name);
+      else next.delete(name);
+      return next;
+    });
+  };
+
+  const moveFocus = (name: string | undefined) => {
+    if (!name) return;
+    setFocused(name);
+    rowRefs.current.get(name)?.focus();
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLDivElement>, row: Row, index: number) => {
+    const { name, children } = row.node;
+    switch (event.key) {
+      case "ArrowDown":
+        moveFocus(rows[index + 1]?.node.name);
+        break;
+      case "ArrowUp":
+        moveFocus(rows[index - 1]?.node.name);
+        break;
+      case "Home":
+        moveFocus(rows[0]?.node.name);
+        break;
+      case "End":
+        moveFocus(rows[rows.length - 1]?.node.name);
+        break;
+      case "ArrowRight":
+        if (children.length === 0) return;
+        if (row.expanded) moveFocus(children[0].name);
+        else setOpen(name, true);
+        break;
+      case "ArrowLeft":
+        if (row.expanded && children.length > 0) setOpen(name, false);
+        else moveFocus(info.parent.get(name) ?? undefined);
+        break;
+      case " ":
+        toggleChecked(name);
+        break;
+      case "Enter": {
+        if (!isTopLevel(name)) {
+          toggleChecked(name);
+          break;
+        }
+        // Same cycle the tag badges used: off -> any of -> all of -> none of -> off
+        const mode = getTagMode(name);
+        onTagModeChange(name, mode === null ? "include" : mode === "exclude" ? null : nextTagMode[mode]);
+        break;
+      }
+      default:
+        return;
+    }
+    event.preventDefault();
+  };
+
+  return (
+    <div className={`space-y-2 ${className}`}>
+      <Input
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder="Search tags..."
+        aria-label="Search tags"
+        className="h-8 text-sm dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+      />
+      <div role="tree" aria-label="Tags" aria-multiselectable="true" className="max-h-72 overflow-y-auto rounded-md border border-gray-200 dark:border-gray-600 py-1">
+        {rows.length === 0 && (
+          <p className="px-3 py-2 text-sm text-slate-500 dark:text-slate-400">No tags match &quot;{query}&quot;</p>
+        )}
+        {rows.map((row, index) => {
+          const { name, children } = row.node;
+          const state = checkState(name);
+          const mode = isTopLevel(name) ? getTagMode(name) : null;
+          const count = counts[name] ?? 0;
+          const disabled = isDisabled(name);
+          return (
+            <div
+              key={name}
+              ref={(element) => {
+                if (element) rowRefs.current.set(name, element);
+                else rowRefs.current.delete(name);
+              }}
+              role="treeitem"
+              aria-level={row.level}
+              aria-expanded={children.length > 0 ? row.expanded : undefined}
+              aria-checked={state === "mixed" ? "mixed" : state === "checked"}
+              aria-selected={state === "checked"}
+              aria-disabled={disabled || undefined}
+              tabIndex={name === focusedName ? 0 : -1}
+              onFocus={() => setFocused(name)}
+              onClick={() => toggleChecked(name)}
+              onKeyDown={(e) => handleKeyDown(e, row, index)}
+              style={{ paddingLeft: `${(row.level - 1) * 1.25 + 0.25}rem` }}
+              className={`flex items-center gap-1.5 py-1 pr-3 text-sm hover:bg-slate-100 focus:outline-none focus-visible:bg-blue-50 focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-blue-500 dark:hover:bg-gray-700 dark:focus-visible:bg-gray-700 ${
+                disabled ? "cursor-not-allowed text-slate-400 dark:text-slate-500" : "cursor-pointer text-slate-700 dark:text-slate-200"
+              }`}
+            >
+              <button
+                type="button"
+                tabIndex={-1}
+                aria-hidden="true"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  setOpen(name, !row.expanded);
+                }}
+                className={`flex h-5 w-5 shrink-0 items-center justify-center rounded text-slate-400 hover:text-slate-700 dark:hover:text-slate-200 ${children.length === 0 ? "invisible" : ""}`}
+              >
+                <ChevronRight className={`h-3.5 w-3.5 transition-transform ${row.expanded ? "rotate-90" : ""}`} />
+              </button>
+              <TreeCheckbox state={state} />
+              <span className={`min-w-0 truncate ${mode === "exclude" ? "line-through" : ""} ${row.level === 1 ? "font-medium" : ""}`}>{name}</span>
+              {mode && (
+                <button
+                  type="button"
+                  tabIndex={-1}
+                  title="Cycle: any of → all of → none of"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onTagModeChange(name, nextTagMode[mode]);
+                  }}
+                  className={`shrink-0 rounded px-1.5 text-[10px] font-medium uppercase tracking-wide ${tagModeStyles[mode]}`}
+                >
+                  {tagModeLabels[mode]}
+                </button>
+              )}
+              <span className="ml-auto shrink-0 pl-2 font-mono text-xs text-slate-400 dark:text-slate-500">{count}</span>
+            </div>
+          );
+        })}
+      </div>
+      <p className="text-xs text-slate-400 dark:text-slate-500">
+        Counts update as you change filters. Space checks, Enter cycles any of / all of / none of.
+      </p>
+    </div>
+  );
+}
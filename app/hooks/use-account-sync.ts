@@ -0,0 +1,73 @@
+import { useEffect } from "react";
+import { useRevalidator } from "@remix-run/react";
+import { ACCOUNT_STATE_URL, setAccountSync } from "~/lib/account-sync";
+import { loadProgress, writeProgressCookie } from "~/lib/progress";
+import { loadTheme } from "~/lib/theme";
+import { USER_STATE_KEYS, userStateStorageKeys, type UserState } from "~/lib/user-state";
+
+// The account this browser last synced with. Anything else, including none, means its
+// localStorage hasn't been folded into the signed-in account yet.
+const SYNCED_ACCOUNT_STORAGE_KEY = "leetcode-dashboard-account";
+
+function readLocalState(): UserState {
+  return Object.fromEntries(USER_STATE_KEYS.map(key => [key, localStorage.getItem(userStateStorageKeys[key])]));
+}
+
+// The account's copy replaces localStorage. Open hooks hear about it through the same storage
+// event they already use to follow other tabs. Returns whether progress changed.
+function applyAccountState(state: UserState): boolean {
+  let progressChanged = false;
+  USER_STATE_KEYS.forEach(key => {
+    const storageKey = userStateStorageKeys[key];
+    const value = state[key] ?? null;
+    if (localStorage.getItem(storageKey) === value) return;
+
+    if (value === null) localStorage.removeItem(storageKey);
+    else localStorage.setItem(storageKey, value);
+    if (key === "progress") progressChanged = true;
+    window.dispatchEvent(new StorageEvent("storage", { key: storageKey }));
+  });
+
+  if (progressChanged) writeProgressCookie(loadProgress());
+  document.documentElement.classList.toggle("dark", loadTheme() === "dark");
+  return progressChanged;
+}
+
+// Signed in: pull the account's state (merging this browser's data in on its first sign-in),
+// then push every later save. Signed out: localStorage is on its own again.
+export function useAccountSync(email: string | null) {
+  const { revalidate } = useRevalidator();
+
+  useEffect(() => {
+    if (!email) {
+      localStorage.removeItem(SYNCED_ACCOUNT_STORAGE_KEY);
+      return;
+    }
+
+    let cancelled = false;
+    const sync = async () => {
+      const firstSync = localStorage.getItem(SYNCED_ACCOUNT_STORAGE_KEY) !== email;
+      const response = firstSync
+        ? await fetch(ACCOUNT_STATE_URL, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ values: readLocalState(), migrate: true }),
+          })
+        : await fetch(ACCOUNT_STATE_URL);
+      if (!response.ok) throw new Error(`${response.status} ${response.statusText}`);
+      const { state } = (await response.json()) as { state: UserState };
+      if (cancelled) return;
+
+      localStorage.setItem(SYNCED_ACCOUNT_STORAGE_KEY, email);
+      // The loaders filter by the progress cookie, which may have just changed
+      if (applyAccountState(state)) revalidate();
+      setAccountSync(true);
+    };
+    sync().catch(e => console.error("Failed to load your account data:", e));
+
+    return () => {
+      cancelled = true;
+      setAccountSync(false);
+    };
+  }, [email, revalidate]);
+}
@@ -0,0 +1,52 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  applyProgressUpdate,
+  loadProgress,
+  saveProgress,
+  writeProgressCookie,
+  PROGRESS_STORAGE_KEY,
+  type ProblemProgress,
+  type ProgressMap,
+} from "~/lib/progress";
+
+export function useProgress() {
+  const [progress, setProgress] = useState<ProgressMap>({});
+  // Mirrors the latest state so updates can be persisted synchronously,
+  // letting callers revalidate loaders against the fresh cookie right away
+  const progressRef = useRef<ProgressMap>({});
+
+  useEffect(() => {
+    const saved = loadProgress();
+    progressRef.current = saved;
+    setProgress(saved);
+    // Re-sync the cookie in case it was cleared independently of localStorage
+    writeProgressCookie(saved);
+
+    // Keep other open tabs in step
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === null || event.key === PROGRESS_STORAGE_KEY) {
+        progressRef.current = loadProgress();
+        setProgress(progressRef.current);
+      }
+    };
+    window.addEventListener("storage", handleStorage);
+    return () => window.removeEventListener("storage", handleStorage);
+  }, []);
+
+  const updateProgress = useCallback((id: number, update: Partial<ProblemProgress>) => {
+    const next = applyProgressUpdate(progressRef.current, id, update);
+    progressRef.current = next;
+    saveProgress(next);
+    setProgress(next);
+  }, []);
+
+  // Bulk changes such as an import; `update` gets the latest saved map
+  const replaceProgress = useCallback((update: (current: ProgressMap) => ProgressMap) => {
+    const next = update(progressRef.current);
+    progressRef.current = next;
+    saveProgress(next);
+    setProgress(next);
+  }, []);
+
+  return { progress, updateProgress, replaceProgress };
+}
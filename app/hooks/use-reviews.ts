@@ -0,0 +1,45 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { todayISODate } from "~/lib/progress";
+import {
+  loadReviewState,
+  saveReviewState,
+  scheduleReview,
+  REVIEW_STORAGE_KEY,
+  type ReviewGrade,
+  type ReviewState,
+} from "~/lib/review";
+
+const EMPTY_STATE: ReviewState = { cards: {}, reviewDays: [] };
+
+export function useReviews() {
+  const [reviews, setReviews] = useState<ReviewState>(EMPTY_STATE);
+  const reviewsRef = useRef<ReviewState>(EMPTY_STATE);
+
+  useEffect(() => {
+    reviewsRef.current = loadReviewState();
+    setReviews(reviewsRef.current);
+
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === null || event.key === REVIEW_STORAGE_KEY) {
+        reviewsRef.current = loadReviewState();
+        setReviews(reviewsRef.current);
+      }
+    };
+    window.addEventListener("storage", handleStorage);
+    return () => window.removeEventListener("storage", handleStorage);
+  }, []);
+
+  const gradeReview = useCallback((id: number, grade: ReviewGrade) => {
+    const today = todayISODate();
+    const { cards, reviewDays } = reviewsRef.current;
+    const next: ReviewState = {
+      cards: { ...cards, [id]: scheduleReview(cards[id], grade, today) },
+      reviewDays: reviewDays.includes(today) ? reviewDays : [...reviewDays, today],
+    };
+    reviewsRef.current = next;
+    saveReviewState(next);
+    setReviews(next);
+  }, []);
+
+  return { reviews, gradeReview };
+}
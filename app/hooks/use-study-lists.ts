@@ -0,0 +1,50 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import {
+  deleteStudyList,
+  loadStudyLists,
+  saveStudyLists,
+  STUDY_LISTS_STORAGE_KEY,
+  type StudyList,
+} from "~/lib/study-lists";
+
+export function useStudyLists() {
+  const [lists, setLists] = useState<StudyList[]>([]);
+  const [loaded, setLoaded] = useState(false);
+  const listsRef = useRef<StudyList[]>([]);
+
+  useEffect(() => {
+    listsRef.current = loadStudyLists();
+    setLists(listsRef.current);
+    setLoaded(true);
+
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === null || event.key === STUDY_LISTS_STORAGE_KEY) {
+        listsRef.current = loadStudyLists();
+        setLists(listsRef.current);
+      }
+    };
+    window.addEventListener("storage", handleStorage);
+    return () => window.removeEventListener("storage", handleStorage);
+  }, []);
+
+  const persist = useCallback((next: StudyList[]) => {
+    listsRef.current = next;
+    saveStudyLists(next);
+    setLists(next);
+  }, []);
+
+  // Replaces the list with the same id, or adds it at the end
+  const saveList = useCallback((list: StudyList) => {
+    const current = listsRef.current;
+    const index = current.findIndex(existing => existing.id === list.id);
+    persist(index === -1 ? [...current, list] : current.map(existing => existing.id === list.id ? list : existing));
+  }, [persist]);
+
+  const deleteList = useCallback((id: string) => {
+    persist(listsRef.current.map(list => list.id === id ? deleteStudyList(list) : list));
+  }, [persist]);
+
+  const visible = useMemo(() => lists.filter(list => !list.deletedAt), [lists]);
+
+  return { lists: visible, loaded, saveList, deleteList };
+}
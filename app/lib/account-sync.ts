@@ -0,0 +1,46 @@
+import type { UserStateKey } from "~/lib/user-state";
+
+// Pushes localStorage writes to the signed-in account. Saves are batched for a second so a
+// run of status clicks becomes one request, and whatever is still pending goes out as a
+// beacon when the page is hidden. Does nothing until useAccountSync turns it on.
+
+const SYNC_DELAY_MS = 1000;
+export const ACCOUNT_STATE_URL = "/account/state";
+
+let enabled = false;
+let timer: ReturnType<typeof setTimeout> | null = null;
+const pending = new Map<UserStateKey, string | null>();
+
+function flush(useBeacon = false) {
+  if (timer) clearTimeout(timer);
+  timer = null;
+  if (pending.size === 0) return;
+
+  const body = JSON.stringify({ values: Object.fromEntries(pending) });
+  pending.clear();
+  if (useBeacon && navigator.sendBeacon(ACCOUNT_STATE_URL, new Blob([body], { type: "application/json" }))) return;
+  fetch(ACCOUNT_STATE_URL, { method: "POST", headers: { "Content-Type": "application/json" }, body, keepalive: true })
+    .catch(e => console.error("Failed to sync to your account:", e));
+}
+
+const flushOnHide = () => {
+  if (document.visibilityState === "hidden") flush(true);
+};
+
+export function pushUserState(key: UserStateKey, value: string | null) {
+  if (!enabled) return;
+  pending.set(key, value);
+  if (timer) clearTimeout(timer);
+  timer = setTimeout(flush, SYNC_DELAY_MS);
+}
+
+export function setAccountSync(on: boolean) {
+  if (on === enabled) return;
+  enabled = on;
+  if (on) {
+    document.addEventListener("visibilitychange", flushOnHide);
+  } else {
+    flush();
+    document.removeEventListener("visibilitychange", flushOnHide);
+  }
+}
@@ -0,0 +1,61 @@
+import { createHash } from "node:crypto";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { AccountError, consumeLoginToken, createLoginToken, createUser, verifyLogin } from "~/lib/accounts.server";
+import { getDatabase } from "~/lib/db.server";
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+const storedTokens = () => getDatabase().prepare("SELECT token_hash, email FROM login_tokens").all() as { token_hash: string; email: string }[];
+
+describe("login tokens", () => {
+  it("stores only a hash of the token", () => {
+    const { email, token } = createLoginToken("  Hash@Example.com ");
+    expect(email).toBe("hash@example.com");
+    const row = storedTokens().find(stored => stored.email === email);
+    expect(row?.token_hash).toBe(createHash("sha256").update(token).digest("base64url"));
+    expect(storedTokens().some(stored => stored.token_hash === token)).toBe(false);
+  });
+
+  it("signs in once, creating the account on first use", () => {
+    const { token } = createLoginToken("once@example.com");
+    const user = consumeLoginToken(token);
+    expect(user.email).toBe("once@example.com");
+    expect(() => consumeLoginToken(token)).toThrow(AccountError);
+    // A later link reaches the same account
+    expect(consumeLoginToken(createLoginToken("once@example.com").token).id).toBe(user.id);
+  });
+
+  it("expires after 15 minutes", () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-05-01T12:00:00Z"));
+    const fresh = createLoginToken("late@example.com").token;
+    const stale = createLoginToken("late@example.com").token;
+    vi.setSystemTime(new Date("2026-05-01T12:14:00Z"));
+    expect(consumeLoginToken(fresh).email).toBe("late@example.com");
+    vi.setSystemTime(new Date("2026-05-01T12:16:00Z"));
+    expect(() => consumeLoginToken(stale)).toThrow("This sign-in link has expired or was already used");
+  });
+
+  it("rejects tokens it never issued", () => {
+    expect(() => consumeLoginToken("made-up")).toThrow(AccountError);
+    expect(() => consumeLoginToken("")).toThrow(AccountError);
+  });
+});
+
+describe("passwords", () => {
+  it("checks the password against a salted hash", () => {
+    createUser("pw@example.com", "correct horse");
+    expect(verifyLogin("PW@example.com", "correct horse").email).toBe("pw@example.com");
+    expect(() => verifyLogin("pw@example.com", "wrong horse")).toThrow("Wrong email or password");
+    const { password_hash } = getDatabase().prepare("SELECT password_hash FROM users WHERE email = ?").get("pw@example.com") as { password_hash: string };
+    expect(password_hash).toMatch(/^scrypt\$/);
+    expect(password_hash).not.toContain("correct horse");
+  });
+
+  it("has no password to match for link-only accounts", () => {
+    consumeLoginToken(createLoginToken("link@example.com").token);
+    expect(() => verifyLogin("link@example.com", "anything")).toThrow(AccountError);
+  });
+});
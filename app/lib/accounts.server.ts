@@ -0,0 +1,111 @@
+import { createHash, randomBytes, scryptSync, timingSafeEqual } from "node:crypto";
+import { getDatabase } from "~/lib/db.server";
+
+// Email and password accounts, plus one-time sign-in links for anyone who'd rather not keep a
+// password. A link signs into the account with that email, creating it if needed.
+
+export class AccountError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AccountError";
+  }
+}
+
+export interface User {
+  id: number;
+  email: string;
+  createdAt: string;
+  migratedAt: string | null;
+}
+
+interface UserRow {
+  id: number;
+  email: string;
+  password_hash: string | null;
+  created_at: string;
+  migrated_at: string | null;
+}
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+const LOGIN_TOKEN_TTL_MS = 15 * 60 * 1000;
+
+const toUser = (row: UserRow): User => ({ id: row.id, email: row.email, createdAt: row.created_at, migratedAt: row.migrated_at });
+
+export function normalizeEmail(value: string): string {
+  const email = value.trim().toLowerCase();
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) throw new AccountError("Enter a valid email address");
+  return email;
+}
+
+// scrypt with a per-user salt, stored as "scrypt$salt$hash"
+function hashPassword(password: string): string {
+  const salt = randomBytes(16).toString("base64url");
+  return `scrypt$${salt}$${scryptSync(password, salt, 64).toString("base64url")}`;
+}
+
+function checkPassword(password: string, stored: string): boolean {
+  const [scheme, salt, hash] = stored.split("$");
+  if (scheme !== "scrypt" || !salt || !hash) return false;
+  const expected = Buffer.from(hash, "base64url");
+  const actual = scryptSync(password, salt, expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+const findUserRow = (email: string) =>
+  getDatabase().prepare("SELECT * FROM users WHERE email = ?").get(email) as UserRow | undefined;
+
+export function getUserById(id: number): User | null {
+  const row = getDatabase().prepare("SELECT * FROM users WHERE id = ?").get(id) as UserRow | undefined;
+  return row ? toUser(row) : null;
+}
+
+function insertUser(email: string, passwordHash: string | null): User {
+  const row = getDatabase()
+    .prepare("INSERT INTO users (email, password_hash, created_at) VALUES (?, ?, ?) RETURNING *")
+    .get(email, passwordHash, new Date().toISOString()) as UserRow;
+  return toUser(row);
+}
+
+export function createUser(emailInput: string, password: string): User {
+  const email = normalizeEmail(emailInput);
+  if (password.length < MIN_PASSWORD_LENGTH) throw new AccountError(`Use a password of at least ${MIN_PASSWORD_LENGTH} characters`);
+  if (findUserRow(email)) throw new AccountError("An account with this email already exists; sign in instead");
+  return insertUser(email, hashPassword(password));
+}
+
+export function verifyLogin(emailInput: string, password: string): User {
+  const row = findUserRow(normalizeEmail(emailInput));
+  // Link-only accounts have no password to match
+  if (!row?.password_hash || !checkPassword(password, row.password_hash)) {
+    throw new AccountError("Wrong email or password");
+  }
+  return toUser(row);
+}
+
+// Only a hash of the token is stored, so a copy of the database can't be used to sign in
+const hashToken = (token: string) => createHash("sha256").update(token).digest("base64url");
+
+export function createLoginToken(emailInput: string): { email: string; token: string } {
+  const email = normalizeEmail(emailInput);
+  const token = randomBytes(32).toString("base64url");
+  const db = getDatabase();
+  db.prepare("DELETE FROM login_tokens WHERE expires_at < ?").run(new Date().toISOString());
+  db.prepare("INSERT INTO login_tokens (token_hash, email, expires_at) VALUES (?, ?, ?)")
+    .run(hashToken(token), email, new Date(Date.now() + LOGIN_TOKEN_TTL_MS).toISOString());
+  return { email, token };
+}
+
+// Single use: the token is deleted whether or not it is still valid
+export function consumeLoginToken(token: string): User {
+  const db = getDatabase();
+  return db.transaction(() => {
+    const row = db.prepare("DELETE FROM login_tokens WHERE token_hash = ? RETURNING email, expires_at")
+      .get(hashToken(token)) as { email: string; expires_at: string } | undefined;
+    if (!row || row.expires_at < new Date().toISOString()) {
+      throw new AccountError("This sign-in link has expired or was already used");
+    }
+    const existing = findUserRow(row.email);
+    return existing ? toUser(existing) : insertUser(row.email, null);
+  })();
+}
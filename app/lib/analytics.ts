@@ -0,0 +1,121 @@
+import type { ProblemStatus } from "~/lib/progress";
+import type { Taxonomy } from "~/lib/taxonomy";
+import type { LeetCodeProblem } from "~/lib/types";
+
+export interface HistogramBucket {
+  min: number;
+  total: number;
+  solved: number;
+}
+
+export interface TopicStats {
+  name: string;
+  total: number;
+  solved: number;
+  attempted: number;
+  highestSolved: number | null;
+  histogram: HistogramBucket[];
+}
+
+export const BUCKET_SIZE = 200;
+
+const isSolved = (status?: ProblemStatus) => status === "solved" || status === "revisit";
+
+// Shared bucket edges so every topic's histogram uses the same axis
+export function getBucketEdges(problems: LeetCodeProblem[], bucketSize = BUCKET_SIZE): number[] {
+  if (problems.length === 0) return [];
+
+  const ratings = problems.map(problem => problem.Rating);
+  const start = Math.floor(Math.min(...ratings) / bucketSize) * bucketSize;
+  const end = Math.floor(Math.max(...ratings) / bucketSize) * bucketSize;
+
+  const edges: number[] = [];
+  for (let edge = start; edge <= end; edge += bucketSize) edges.push(edge);
+  return edges;
+}
+
+export function computeTopicStats(
+  name: string,
+  problems: LeetCodeProblem[],
+  statuses: Map<number, ProblemStatus>,
+  edges: number[],
+  bucketSize = BUCKET_SIZE
+): TopicStats {
+  const histogram = edges.map(min => ({ min, total: 0, solved: 0 }));
+  const stats: TopicStats = { name, total: 0, solved: 0, attempted: 0, highestSolved: null, histogram };
+
+  problems.forEach(problem => {
+    const status = statuses.get(problem.ID);
+    const bucket = histogram[Math.floor((problem.Rating - (edges[0] ?? 0)) / bucketSize)];
+
+    stats.total++;
+    if (bucket) bucket.total++;
+
+    if (isSolved(status)) {
+      stats.solved++;
+      if (bucket) bucket.solved++;
+      stats.highestSolved = Math.max(stats.highestSolved ?? 0, Math.round(problem.Rating));
+    } else if (status === "attempted") {
+      stats.attempted++;
+    }
+  });
+
+  return stats;
+}
+
+const byTotal = (a: TopicStats, b: TopicStats) => b.total - a.total || a.name.localeCompare(b.name);
+
+const statsByName = (
+  problemsByName: Map<string, LeetCodeProblem[]>,
+  statuses: Map<number, ProblemStatus>,
+  edges: number[]
+) => Array.from(problemsByName, ([name, tagged]) => computeTopicStats(name, tagged, statuses, edges)).sort(byTotal);
+
+const addTo = (problemsByName: Map<string, LeetCodeProblem[]>, name: string, problem: LeetCodeProblem) => {
+  const tagged = problemsByName.get(name) ?? [];
+  tagged.push(problem);
+  problemsByName.set(name, tagged);
+};
+
+// One row per top-level tag of the taxonomy; a problem counts towards a tag when it
+// carries the tag or anything defined below it
+export function computeTagStats(
+  problems: LeetCodeProblem[],
+  statuses: Map<number, ProblemStatus>,
+  edges: number[],
+  taxonomy: Taxonomy
+): TopicStats[] {
+  const topLevel = new Set(taxonomy.roots());
+  const problemsByTag = new Map<string, LeetCodeProblem[]>();
+  problems.forEach(problem => {
+    const roots = new Set(taxonomy.problemNodes(problem).flatMap(node => {
+      const root = taxonomy.root(node.slug) ?? node;
+      return topLevel.has(root) ? [root.name] : [];
+    }));
+    roots.forEach(name => addTo(problemsByTag, name, problem));
+  });
+
+  return statsByName(problemsByTag, statuses, edges);
+}
+
+// One row per node below the given tag, at any depth
+export function computeSubtagStats(
+  tagName: string,
+  problems: LeetCodeProblem[],
+  statuses: Map<number, ProblemStatus>,
+  edges: number[],
+  taxonomy: Taxonomy
+): TopicStats[] {
+  const tag = taxonomy.resolve(tagName);
+  if (!tag) return [];
+  const below = new Set(taxonomy.descendants(tag.slug));
+
+  const problemsBySubtag = new Map<string, LeetCodeProblem[]>();
+  problems.forEach(problem => {
+    taxonomy.problemNodes(problem)
+      .filter(node => below.has(node))
+      .forEach(node => addTo(problemsBySubtag, node.name, problem));
+  });
+
+  return statsByName(problemsBySubtag, statuses, edges);
+}
@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import { apiResponse, ApiRequestError, handleApiRequest, parseIntegerParam } from "~/lib/api.server";
+import { API_VERSION } from "~/lib/openapi";
+import { loader as problemsLoader } from "~/routes/api.problems._index";
+
+const request = (headers: Record<string, string> = {}, url = "http://localhost/api/problems") => new Request(url, { headers });
+const etagOf = (response: Response) => response.headers.get("ETag") ?? "";
+
+describe("apiResponse", () => {
+  it("tags the body with a strong ETag that follows its content", async () => {
+    const response = apiResponse(request(), { id: 1 });
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ id: 1 });
+    expect(etagOf(response)).toMatch(/^"[\w-]+"$/);
+    expect(response.headers.get("Cache-Control")).toBe("public, max-age=300");
+    expect(response.headers.get("X-API-Version")).toBe(API_VERSION);
+    expect(etagOf(apiResponse(request(), { id: 1 }))).toBe(etagOf(response));
+    expect(etagOf(apiResponse(request(), { id: 2 }))).not.toBe(etagOf(response));
+  });
+
+  it("answers 304 when If-None-Match holds the current ETag", async () => {
+    const etag = etagOf(apiResponse(request(), { id: 1 }));
+    for (const ifNoneMatch of [etag, `W/${etag}`, `"stale", ${etag}`, `"stale",W/${etag} `, "*"]) {
+      const response = apiResponse(request({ "If-None-Match": ifNoneMatch }), { id: 1 });
+      expect(response.status, ifNoneMatch).toBe(304);
+      expect(await response.text()).toBe("");
+      expect(etagOf(response)).toBe(etag);
+    }
+  });
+
+  it("sends the body for stale or malformed validators", () => {
+    const etag = etagOf(apiResponse(request(), { id: 1 }));
+    for (const ifNoneMatch of ['"stale"', etag.slice(1, -1), `${etag.slice(0, -1)}x"`, ""]) {
+      expect(apiResponse(request({ "If-None-Match": ifNoneMatch }), { id: 1 }).status, ifNoneMatch).toBe(200);
+    }
+  });
+
+  it("never caches answers that change on every call", () => {
+    const etag = etagOf(apiResponse(request(), { id: 1 }));
+    const response = apiResponse(request({ "If-None-Match": etag }), { id: 1 }, { cache: false });
+    expect(response.status).toBe(200);
+    expect(response.headers.get("ETag")).toBeNull();
+    expect(response.headers.get("Cache-Control")).toBe("no-store");
+  });
+});
+
+describe("parseIntegerParam", () => {
+  const parse = (query: string) => parseIntegerParam(new URLSearchParams(query), "pageSize", 50, 1, 200);
+
+  it("falls back when the parameter is missing or empty", () => {
+    expect(parse("")).toBe(50);
+    expect(parse("pageSize=")).toBe(50);
+  });
+
+  it("reads whole numbers within the bounds", () => {
+    expect(parse("pageSize=1")).toBe(1);
+    expect(parse("pageSize=200")).toBe(200);
+    expect(parse("pageSize=1e2")).toBe(100);
+  });
+
+  it.each(["0", "201", "-5", "2.5", "ten", "Infinity"])("rejects pageSize=%s", value => {
+    expect(() => parse(`pageSize=${value}`)).toThrow(new ApiRequestError("pageSize must be a whole number from 1 to 200"));
+  });
+});
+
+describe("handleApiRequest", () => {
+  it("turns request errors into JSON error responses", async () => {
+    const response = handleApiRequest(() => {
+      throw new ApiRequestError("Nope", 422);
+    });
+    expect(response.status).toBe(422);
+    expect(response.headers.get("Cache-Control")).toBe("no-store");
+    expect(await response.json()).toEqual({ error: { status: 422, message: "Nope" } });
+  });
+
+  it("rethrows anything else", () => {
+    expect(() => handleApiRequest(() => {
+      throw new TypeError("bug");
+    })).toThrow(TypeError);
+  });
+});
+
+describe("GET /api/problems", () => {
+  const get = async (query: string) => {
+    const response = await problemsLoader({ request: request({}, `http://localhost/api/problems?${query}`), params: {}, context: {} });
+    return { status: response.status, body: await response.json() };
+  };
+
+  it("rejects out-of-range paging parameters", async () => {
+    expect(await get("pageSize=500")).toEqual({ status: 400, body: { error: { status: 400, message: "pageSize must be a whole number from 1 to 200" } } });
+    expect((await get("page=0")).status).toBe(400);
+  });
+
+  it("answers pages past the end with no problems instead of the last page", async () => {
+    const { body: first } = await get("difficulty=Hard&pageSize=200");
+    expect(first.problems.length).toBeGreaterThan(0);
+    const { status, body } = await get(`difficulty=Hard&pageSize=200&page=${first.totalPages + 1}`);
+    expect(status).toBe(200);
+    expect(body).toMatchObject({ problems: [], total: first.total, page: first.totalPages + 1, totalPages: first.totalPages });
+  });
+});
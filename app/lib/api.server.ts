@@ -0,0 +1,72 @@
+import { createHash } from "node:crypto";
+import type { ApiError } from "~/lib/api";
+import { parseFilterParams, type AppliedFilters } from "~/lib/filters";
+import { API_VERSION } from "~/lib/openapi";
+
+// The dataset only changes with a deploy, so clients may reuse responses for a while and
+// then revalidate with the ETag
+const CACHE_CONTROL = "public, max-age=300";
+
+export class ApiRequestError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = "ApiRequestError";
+  }
+}
+
+const baseHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "X-API-Version": API_VERSION,
+};
+
+// Matches the ETag against If-None-Match, weak or strong, and answers 304 when it's current.
+// `cache: false` is for answers that differ on every call, such as /api/random.
+export function apiResponse(request: Request, data: unknown, { cache = true } = {}): Response {
+  const body = JSON.stringify(data);
+  if (!cache) {
+    return new Response(body, {
+      headers: { ...baseHeaders, "Content-Type": "application/json; charset=utf-8", "Cache-Control": "no-store" },
+    });
+  }
+
+  const etag = `"${createHash("sha1").update(body).digest("base64url")}"`;
+  const headers = { ...baseHeaders, ETag: etag, "Cache-Control": CACHE_CONTROL };
+  const ifNoneMatch = request.headers.get("If-None-Match");
+  if (ifNoneMatch && (ifNoneMatch.trim() === "*" || ifNoneMatch.split(",").some(tag => tag.trim().replace(/^W\//, "") === etag))) {
+    return new Response(null, { status: 304, headers });
+  }
+  return new Response(body, { headers: { ...headers, "Content-Type": "application/json; charset=utf-8" } });
+}
+
+export function apiError(status: number, message: string): Response {
+  const body: ApiError = { error: { status, message } };
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...baseHeaders, "Content-Type": "application/json; charset=utf-8", "Cache-Control": "no-store" },
+  });
+}
+
+// Runs a loader body and turns ApiRequestErrors into error responses
+export function handleApiRequest(handler: () => Response): Response {
+  try {
+    return handler();
+  } catch (error) {
+    if (error instanceof ApiRequestError) return apiError(error.status, error.message);
+    throw error;
+  }
+}
+
+// The index's filter parameters. The API has no notion of a user, so `progress` is ignored.
+export function parseApiFilters(params: URLSearchParams): AppliedFilters {
+  return { ...parseFilterParams(params), progress: "all" };
+}
+
+export function parseIntegerParam(params: URLSearchParams, name: string, fallback: number, min: number, max: number): number {
+  const value = params.get(name);
+  if (value === null || value === "") return fallback;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < min || parsed > max) {
+    throw new ApiRequestError(`${name} must be a whole number from ${min} to ${max}`);
+  }
+  return parsed;
+}
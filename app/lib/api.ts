@@ -0,0 +1,117 @@
+import type { Contest, ContestKind } from "~/lib/contests";
+import type { Taxonomy, TaxonomyNode } from "~/lib/taxonomy";
+import type { Difficulty, LeetCodeProblem } from "~/lib/types";
+
+// Response shapes of the public JSON API under /api. These are a stable contract for other
+// tools, kept apart from the dataset's field names; app/lib/openapi.ts describes the same
+// shapes and its version goes up whenever one of them changes.
+
+export const API_DEFAULT_PAGE_SIZE = 50;
+export const API_MAX_PAGE_SIZE = 200;
+
+export interface ApiProblem {
+  id: number;
+  title: string;
+  titleZH: string;
+  slug: string;
+  url: string;
+  rating: number;
+  // Null until the problem has been looked up on LeetCode
+  difficulty: Difficulty | null;
+  contest: {
+    slug: string;
+    title: string;
+    // Position within the contest, e.g. "Q3"
+    index: string;
+  };
+  // LeetCode tags as in the dataset, each with the subtags found under it
+  tags: { name: string; subtags: string[] }[];
+}
+
+export interface ApiProblemPage {
+  problems: ApiProblem[];
+  total: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+  // Why the tagQuery parameter was ignored, if it was
+  tagQueryErrors: string[];
+}
+
+export interface ApiTag {
+  slug: string;
+  name: string;
+  aliases: string[];
+  // One of LeetCode's topic tags rather than a subtag name
+  leetcode: boolean;
+  problemCount: number;
+  children: ApiTag[];
+}
+
+export interface ApiContestSummary {
+  slug: string;
+  title: string;
+  titleZH: string;
+  kind: ContestKind;
+  number: number;
+  averageRating: number;
+  problemCount: number;
+}
+
+export interface ApiContest extends ApiContestSummary {
+  totalRating: number;
+  problems: ApiProblem[];
+}
+
+export interface ApiError {
+  error: {
+    status: number;
+    message: string;
+  };
+}
+
+export function toApiProblem(problem: LeetCodeProblem): ApiProblem {
+  return {
+    id: problem.ID,
+    title: problem.Title,
+    titleZH: problem.TitleZH,
+    slug: problem.TitleSlug,
+    url: `https://leetcode.com/problems/${problem.TitleSlug}/`,
+    rating: problem.Rating,
+    difficulty: problem.problemDetails?.difficulty ?? null,
+    contest: { slug: problem.ContestSlug, title: problem.ContestID_en, index: problem.ProblemIndex },
+    tags: (problem.topicTags ?? []).map(tag => ({ name: tag.name, subtags: tag.subtags ?? [] })),
+  };
+}
+
+export function toApiTags(taxonomy: Taxonomy): ApiTag[] {
+  const toTag = (node: TaxonomyNode): ApiTag => ({
+    slug: node.slug,
+    name: node.name,
+    aliases: node.aliases,
+    leetcode: node.leetcode,
+    problemCount: node.problemCount,
+    children: taxonomy.children(node.slug).map(toTag),
+  });
+  return taxonomy.roots().map(toTag);
+}
+
+export function toApiContestSummary(contest: Contest): ApiContestSummary {
+  return {
+    slug: contest.slug,
+    title: contest.title,
+    titleZH: contest.titleZH,
+    kind: contest.kind,
+    number: contest.number,
+    averageRating: contest.averageRating,
+    problemCount: contest.problems.length,
+  };
+}
+
+export function toApiContest(contest: Contest): ApiContest {
+  return {
+    ...toApiContestSummary(contest),
+    totalRating: contest.totalRating,
+    problems: contest.problems.map(toApiProblem),
+  };
+}
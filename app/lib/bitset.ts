@@ -0,0 +1,72 @@
+// Fixed-size set of document indexes, 32 per word. Set operations return new bitsets so
+// cached ones can be combined freely.
+export class Bitset {
+  readonly words: Uint32Array;
+
+  constructor(readonly size: number, words?: Uint32Array) {
+    this.words = words ?? new Uint32Array(Math.ceil(size / 32));
+  }
+
+  static full(size: number): Bitset {
+    const bitset = new Bitset(size);
+    bitset.words.fill(0xffffffff);
+    // Keep the bits past `size` clear so counts stay exact
+    const tail = size % 32;
+    if (tail > 0) bitset.words[bitset.words.length - 1] = (1 << tail) - 1;
+    return bitset;
+  }
+
+  static from(size: number, indexes: Iterable<number>): Bitset {
+    const bitset = new Bitset(size);
+    for (const index of indexes) bitset.add(index);
+    return bitset;
+  }
+
+  add(index: number) {
+    this.words[index >>> 5] |= 1 << (index & 31);
+  }
+
+  has(index: number): boolean {
+    return (this.words[index >>> 5] & (1 << (index & 31))) !== 0;
+  }
+
+  and(other: Bitset): Bitset {
+    return this.combine(other, (a, b) => a & b);
+  }
+
+  or(other: Bitset): Bitset {
+    return this.combine(other, (a, b) => a | b);
+  }
+
+  andNot(other: Bitset): Bitset {
+    return this.combine(other, (a, b) => a & ~b);
+  }
+
+  count(): number {
+    let total = 0;
+    for (let word of this.words) {
+      // Population count without a lookup table
+      word -= (word >>> 1) & 0x55555555;
+      word = (word & 0x33333333) + ((word >>> 2) & 0x33333333);
+      total += (((word + (word >>> 4)) & 0x0f0f0f0f) * 0x01010101) >>> 24;
+    }
+    return total;
+  }
+
+  // Set indexes in ascending order
+  toArray(): number[] {
+    const indexes: number[] = [];
+    this.words.forEach((word, i) => {
+      for (let bits = word; bits !== 0; bits &= bits - 1) {
+        indexes.push(i * 32 + (31 - Math.clz32(bits & -bits)));
+      }
+    });
+    return indexes;
+  }
+
+  private combine(other: Bitset, op: (a: number, b: number) => number): Bitset {
+    const words = new Uint32Array(this.words.length);
+    for (let i = 0; i < words.length; i++) words[i] = op(this.words[i], other.words[i]);
+    return new Bitset(this.size, words);
+  }
+}
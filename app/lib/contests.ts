@@ -0,0 +1,73 @@
+import type { LeetCodeProblem } from "~/lib/types";
+
+export type ContestKind = "weekly" | "biweekly";
+
+export interface Contest {
+  slug: string;
+  title: string;
+  titleZH: string;
+  kind: ContestKind;
+  number: number;
+  // In ProblemIndex order (Q1 first)
+  problems: LeetCodeProblem[];
+  totalRating: number;
+  averageRating: number;
+}
+
+export const CONTEST_KINDS: ContestKind[] = ["weekly", "biweekly"];
+
+export const contestKindLabels: Record<ContestKind, string> = {
+  weekly: "Weekly",
+  biweekly: "Biweekly",
+};
+
+export const CONTEST_SORTS = ["newest", "oldest", "hardest", "easiest"] as const;
+export type ContestSort = typeof CONTEST_SORTS[number];
+
+export const contestSortLabels: Record<ContestSort, string> = {
+  newest: "Newest first",
+  oldest: "Oldest first",
+  hardest: "Hardest first",
+  easiest: "Easiest first",
+};
+
+const problemIndexNumber = (problem: LeetCodeProblem) => parseInt(problem.ProblemIndex.slice(1), 10) || 0;
+
+// Slugs look like "weekly-contest-408" or "biweekly-contest-135"
+export function groupContests(problems: LeetCodeProblem[]): Contest[] {
+  const bySlug = new Map<string, LeetCodeProblem[]>();
+  problems.forEach(problem => {
+    const list = bySlug.get(problem.ContestSlug) ?? [];
+    list.push(problem);
+    bySlug.set(problem.ContestSlug, list);
+  });
+
+  return Array.from(bySlug, ([slug, contestProblems]) => {
+    const sorted = [...contestProblems].sort((a, b) => problemIndexNumber(a) - problemIndexNumber(b));
+    const totalRating = sorted.reduce((sum, problem) => sum + problem.Rating, 0);
+    return {
+      slug,
+      title: sorted[0].ContestID_en,
+      titleZH: sorted[0].ContestID_zh,
+      kind: slug.startsWith("biweekly") ? "biweekly" as const : "weekly" as const,
+      number: parseInt(slug.slice(slug.lastIndexOf("-") + 1), 10) || 0,
+      problems: sorted,
+      totalRating: Math.round(totalRating),
+      averageRating: Math.round(totalRating / sorted.length),
+    };
+  });
+}
+
+// Weekly and biweekly numbering run separately, so recency goes by the newest problem ID
+const newestProblemId = (contest: Contest) => Math.max(...contest.problems.map(problem => problem.ID));
+
+export function sortContests(contests: Contest[], sort: ContestSort): Contest[] {
+  return [...contests].sort((a, b) => {
+    switch (sort) {
+      case "oldest": return newestProblemId(a) - newestProblemId(b);
+      case "hardest": return b.averageRating - a.averageRating;
+      case "easiest": return a.averageRating - b.averageRating;
+      default: return newestProblemId(b) - newestProblemId(a);
+    }
+  });
+}
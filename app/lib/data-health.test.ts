@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { checkDataset, summarizeIssues } from "~/lib/data-health";
+import { problem } from "~/lib/test-fixtures";
+import type { TopicTag } from "~/lib/types";
+
+const details = (ID: number) => ({ title: `Problem ${ID}`, difficulty: "Medium" as const, questionId: String(ID) });
+const tagged = (ID: number, topicTags: TopicTag[]) => problem(ID, { topicTags, problemDetails: details(ID) });
+
+describe("checkDataset", () => {
+  it("passes clean data through untouched", () => {
+    const problems = [tagged(1, [{ name: "Graph", subtags: ["BFS"] }]), tagged(2, [{ name: "Tree", subtags: ["BFS"] }])];
+    expect(checkDataset(problems)).toEqual({ problems, issues: [] });
+  });
+
+  it("rejects data that isn't an array", () => {
+    const { problems, issues } = checkDataset({ problems: [] });
+    expect(problems).toEqual([]);
+    expect(issues).toEqual([expect.objectContaining({ kind: "invalid-field", severity: "error", message: "Dataset is not an array" })]);
+  });
+
+  it("keeps the first of repeated IDs and flags repeated slugs", () => {
+    const first = tagged(1, [{ name: "Array" }]);
+    const sameSlug = { ...tagged(2, [{ name: "Array" }]), TitleSlug: "problem-1" };
+    const { problems, issues } = checkDataset([first, { ...first, Title: "Copy" }, sameSlug]);
+    expect(problems).toEqual([first, sameSlug]);
+    expect(issues).toEqual([
+      { kind: "duplicate", severity: "error", index: 1, problemId: 1, field: "ID", message: "ID 1 appears more than once; only the first is kept" },
+      { kind: "duplicate", severity: "error", index: 2, problemId: 2, field: "TitleSlug", message: '"problem-1" is also the slug of problem 1' },
+    ]);
+  });
+
+  it("reports repeated tags, repeated or blank subtags and mismatched titles", () => {
+    const entry = {
+      ...tagged(1, [{ name: "Graph", subtags: ["BFS", "BFS", " "] }, { name: "Graph" }]),
+      problemDetails: { ...details(1), title: "Problem  1" },
+    };
+    const { issues } = checkDataset([entry, tagged(2, [{ name: "Tree", subtags: ["BFS"] }])]);
+    expect(issues.map(({ kind, severity, message }) => ({ kind, severity, message }))).toEqual([
+      { kind: "duplicate", severity: "warning", message: '"Graph" lists the same subtag twice' },
+      { kind: "invalid-field", severity: "error", message: '"Graph" has a blank subtag' },
+      { kind: "duplicate", severity: "warning", message: 'Tag "Graph" is listed twice' },
+      { kind: "title-mismatch", severity: "warning", message: '"Problem 1" vs "Problem  1" in problemDetails' },
+    ]);
+  });
+
+  it("warns about subtags only one problem uses, at that problem", () => {
+    const problems = [
+      tagged(1, [{ name: "Graph", subtags: ["BFS", "Dijkstra"] }, { name: "Tree", subtags: ["Dijkstra"] }]),
+      tagged(2, [{ name: "Tree", subtags: ["BFS"] }]),
+      tagged(3, [{ name: "Array", subtags: ["Prefx Sum"] }]),
+    ];
+    expect(checkDataset(problems).issues).toEqual([
+      { kind: "rare-subtag", severity: "warning", index: 0, problemId: 1, field: "topicTags", message: '"Dijkstra" is used by no other problem' },
+      { kind: "rare-subtag", severity: "warning", index: 2, problemId: 3, field: "topicTags", message: '"Prefx Sum" is used by no other problem' },
+    ]);
+  });
+});
+
+describe("summarizeIssues", () => {
+  it("counts issues by severity and kind, listing every kind", () => {
+    const { issues } = checkDataset([tagged(1, [{ name: "Graph", subtags: [""] }]), tagged(1, []), "not a problem"]);
+    expect(summarizeIssues(3, 1, issues)).toEqual({
+      total: 3,
+      loaded: 1,
+      errors: 3,
+      warnings: 1,
+      byKind: {
+        "missing-field": 1,
+        "invalid-field": 2,
+        "invalid-difficulty": 0,
+        duplicate: 1,
+        "rare-subtag": 0,
+        "title-mismatch": 0,
+      },
+    });
+  });
+});
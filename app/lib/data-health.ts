@@ -0,0 +1,121 @@
+import { validateProblem, type DataIssue, type DataIssueKind } from "~/lib/schema";
+import type { LeetCodeProblem } from "~/lib/types";
+
+export const dataIssueKindLabels: Record<DataIssueKind, string> = {
+  "missing-field": "Missing fields",
+  "invalid-field": "Invalid fields",
+  "invalid-difficulty": "Invalid difficulties",
+  duplicate: "Duplicates",
+  "rare-subtag": "Single-use subtags",
+  "title-mismatch": "Title mismatches",
+};
+
+export interface CheckedDataset {
+  problems: LeetCodeProblem[];
+  issues: DataIssue[];
+}
+
+// Validates every entry, then looks across them. Rejected entries and later duplicates are
+// left out of `problems`, so the app only ever sees data matching LeetCodeProblem.
+export function checkDataset(raw: unknown): CheckedDataset {
+  if (!Array.isArray(raw)) {
+    return {
+      problems: [],
+      issues: [{ kind: "invalid-field", severity: "error", index: 0, problemId: null, field: "", message: "Dataset is not an array" }],
+    };
+  }
+
+  const problems: LeetCodeProblem[] = [];
+  const issues: DataIssue[] = [];
+  const seenIds = new Set<number>();
+  const seenSlugs = new Map<string, number>();
+  const indexById = new Map<number, number>();
+
+  raw.forEach((entry, index) => {
+    const { problem, issues: entryIssues } = validateProblem(entry, index);
+    issues.push(...entryIssues);
+    if (!problem) return;
+
+    const report = (kind: DataIssueKind, field: string, message: string, severity: DataIssue["severity"] = "warning") =>
+      issues.push({ kind, severity, index, problemId: problem.ID, field, message });
+
+    if (seenIds.has(problem.ID)) {
+      report("duplicate", "ID", `ID ${problem.ID} appears more than once; only the first is kept`, "error");
+      return;
+    }
+    const slugOwner = seenSlugs.get(problem.TitleSlug);
+    if (slugOwner !== undefined) {
+      report("duplicate", "TitleSlug", `"${problem.TitleSlug}" is also the slug of problem ${slugOwner}`, "error");
+    }
+    seenIds.add(problem.ID);
+    indexById.set(problem.ID, index);
+    seenSlugs.set(problem.TitleSlug, problem.ID);
+
+    const tagNames = new Set<string>();
+    problem.topicTags?.forEach(tag => {
+      if (tagNames.has(tag.name)) report("duplicate", "topicTags", `Tag "${tag.name}" is listed twice`);
+      tagNames.add(tag.name);
+      if (new Set(tag.subtags).size !== (tag.subtags?.length ?? 0)) {
+        report("duplicate", "topicTags", `"${tag.name}" lists the same subtag twice`);
+      }
+      tag.subtags?.forEach(subtag => {
+        if (!subtag.trim()) report("invalid-field", "topicTags", `"${tag.name}" has a blank subtag`, "error");
+      });
+    });
+
+    // Whitespace-only differences are as worth fixing as renames, so compare exactly
+    const detailsTitle = problem.problemDetails?.title;
+    if (detailsTitle !== undefined && detailsTitle !== problem.Title) {
+      report("title-mismatch", "problemDetails.title", `"${problem.Title}" vs "${detailsTitle}" in problemDetails`);
+    }
+
+    problems.push(problem);
+  });
+
+  // A subtag no other problem carries leads nowhere when filtered on, which usually
+  // means a typo or a one-off name for a technique that already has one
+  const subtagUsers = new Map<string, number[]>();
+  problems.forEach(problem => {
+    const subtags = new Set(problem.topicTags?.flatMap(tag => tag.subtags ?? []).filter(subtag => subtag.trim()));
+    subtags.forEach(subtag => {
+      const users = subtagUsers.get(subtag) ?? [];
+      users.push(problem.ID);
+      subtagUsers.set(subtag, users);
+    });
+  });
+  subtagUsers.forEach((ids, subtag) => {
+    if (ids.length > 1) return;
+    issues.push({
+      kind: "rare-subtag",
+      severity: "warning",
+      index: indexById.get(ids[0]) ?? 0,
+      problemId: ids[0],
+      field: "topicTags",
+      message: `"${subtag}" is used by no other problem`,
+    });
+  });
+
+  return { problems, issues };
+}
+
+export interface DataHealthSummary {
+  total: number;
+  loaded: number;
+  errors: number;
+  warnings: number;
+  byKind: Record<DataIssueKind, number>;
+}
+
+export function summarizeIssues(total: number, loaded: number, issues: DataIssue[]): DataHealthSummary {
+  const byKind = Object.fromEntries(
+    Object.keys(dataIssueKindLabels).map(kind => [kind, 0])
+  ) as Record<DataIssueKind, number>;
+  issues.forEach(issue => byKind[issue.kind]++);
+  return {
+    total,
+    loaded,
+    errors: issues.filter(issue => issue.severity === "error").length,
+    warnings: issues.filter(issue => issue.severity === "warning").length,
+    byKind,
+  };
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { DatasetFormatError, mergeDataset, parseRawRatings } from "~/lib/dataset";
+import type { LeetCodeProblem } from "~/lib/types";
+
+const existing: LeetCodeProblem = {
+  ID: 3000,
+  Rating: 1500.5,
+  Title: "Old Title",
+  TitleZH: "旧标题",
+  TitleSlug: "old-title",
+  ContestSlug: "weekly-contest-379",
+  ProblemIndex: "Q1",
+  ContestID_en: "Weekly Contest 379",
+  ContestID_zh: "第 379 场周赛",
+  topicTags: [{ name: "Array", slug: "array", subtags: ["Prefix Sum"] }],
+};
+
+describe("parseRawRatings", () => {
+  it("leaves out fields the file doesn't have", () => {
+    const [rating] = parseRawRatings([{ ID: 1, Rating: 1200, TitleSlug: "two-sum", Title: "Two Sum", ContestID_zh: null }]);
+    expect(rating).toEqual({ ID: 1, Rating: 1200, TitleSlug: "two-sum", Title: "Two Sum" });
+  });
+
+  it("rejects entries without an ID, rating or slug", () => {
+    expect(() => parseRawRatings([{ ID: "1", Rating: 1200, TitleSlug: "x" }])).toThrow(DatasetFormatError);
+    expect(() => parseRawRatings({})).toThrow(DatasetFormatError);
+  });
+
+  it("rejects a file that lists an ID twice", () => {
+    const raw = [
+      { ID: 1, Rating: 1200, TitleSlug: "two-sum" },
+      { ID: 2, Rating: 1300, TitleSlug: "add-two-numbers" },
+      { ID: 1, Rating: 1250, TitleSlug: "two-sum" },
+    ];
+    expect(() => parseRawRatings(raw)).toThrow(new DatasetFormatError("Rating 3 repeats ID 1 from rating 1"));
+  });
+});
+
+describe("mergeDataset", () => {
+  it("keeps stored values for fields an older ratings file lacks", () => {
+    const ratings = parseRawRatings([{ ID: 3000, Rating: 1510, TitleSlug: "old-title", Title: "New Title" }]);
+    const { problems, report } = mergeDataset([existing], ratings);
+    expect(problems[0]).toEqual({ ...existing, Rating: 1510, Title: "New Title" });
+    expect(report.changed[0].fields).toEqual(["Rating", "Title"]);
+  });
+
+  it("fills blanks for new problems missing text fields", () => {
+    const ratings = parseRawRatings([{ ID: 1, Rating: 1200, TitleSlug: "two-sum" }]);
+    const { problems, report } = mergeDataset([], ratings);
+    expect(problems[0]).toMatchObject({ ID: 1, Title: "", ContestID_zh: "", ContestSlug: "" });
+    expect(report.added).toHaveLength(1);
+  });
+
+  it("keeps problems the ratings file no longer lists", () => {
+    const ratings = parseRawRatings([{ ID: 1, Rating: 1200, TitleSlug: "two-sum" }]);
+    const { problems, report } = mergeDataset([existing], ratings);
+    expect(problems.map(problem => problem.ID)).toEqual([3000, 1]);
+    expect(problems[0]).toBe(existing);
+    expect(report.missing).toEqual([existing]);
+    expect(report.removed).toEqual([]);
+  });
+
+  it("removes them only when pruning", () => {
+    const ratings = parseRawRatings([{ ID: 1, Rating: 1200, TitleSlug: "two-sum" }]);
+    const { problems, report } = mergeDataset([existing], ratings, [], { prune: true });
+    expect(problems.map(problem => problem.ID)).toEqual([1]);
+    expect(report.missing).toEqual([]);
+    expect(report.removed).toEqual([existing]);
+  });
+});
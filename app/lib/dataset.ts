@@ -0,0 +1,197 @@
+import { DIFFICULTIES, type LeetCodeProblem, type ProblemDetails, type TopicTag } from "~/lib/types";
+
+// Merging a fresh ratings file (and optionally a LeetCode tag dump) into the dataset.
+// The ratings file owns the contest fields; everything added later by hand or by the
+// enhancer (subtags, enhancedAt, problemDetails) is carried over from the existing entry.
+
+export const RATING_FIELDS = [
+  "Rating",
+  "ID",
+  "Title",
+  "TitleZH",
+  "TitleSlug",
+  "ContestSlug",
+  "ProblemIndex",
+  "ContestID_en",
+  "ContestID_zh",
+] as const;
+
+// Older ratings files lack some of the contest fields, so only these three are guaranteed
+export type RawRating = Pick<LeetCodeProblem, "ID" | "Rating" | "TitleSlug"> &
+  Partial<Pick<LeetCodeProblem, typeof RATING_FIELDS[number]>>;
+
+// One question from LeetCode's problemset GraphQL query
+export interface TagDumpQuestion {
+  titleSlug: string;
+  title?: string;
+  questionId?: string;
+  difficulty?: string;
+  topicTags?: TopicTag[];
+}
+
+export class DatasetFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DatasetFormatError";
+  }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+export function parseRawRatings(raw: unknown): RawRating[] {
+  if (!Array.isArray(raw)) {
+    throw new DatasetFormatError("Ratings file must be a JSON array");
+  }
+  // 1-based position of each ID's first entry; a repeated ID would silently overwrite the first
+  const seen = new Map<number, number>();
+  return raw.map((entry, index) => {
+    if (!isRecord(entry) || typeof entry.ID !== "number" || typeof entry.Rating !== "number" || typeof entry.TitleSlug !== "string") {
+      throw new DatasetFormatError(`Rating ${index + 1} needs a numeric "ID" and "Rating" and a "TitleSlug"`);
+    }
+    const first = seen.get(entry.ID);
+    if (first !== undefined) {
+      throw new DatasetFormatError(`Rating ${index + 1} repeats ID ${entry.ID} from rating ${first}`);
+    }
+    seen.set(entry.ID, index + 1);
+    // Fields the file doesn't have are left out, so merging keeps the existing values
+    const rating: Record<string, unknown> = {};
+    RATING_FIELDS.forEach(field => {
+      if (entry[field] !== undefined && entry[field] !== null) rating[field] = entry[field];
+    });
+    return rating as unknown as RawRating;
+  });
+}
+
+// The first "questions" array in a query response, e.g. data.problemsetQuestionList.questions
+const findQuestions = (value: unknown): unknown[] | null => {
+  if (Array.isArray(value)) return value;
+  if (!isRecord(value)) return null;
+  if (Array.isArray(value.questions)) return value.questions;
+  for (const child of Object.values(value)) {
+    const found = isRecord(child) ? findQuestions(child) : null;
+    if (found) return found;
+  }
+  return null;
+};
+
+// Accepts a bare array of questions, a problemset query response, or an array of
+// single-question responses ({ data: { question } })
+export function parseTagDump(raw: unknown): TagDumpQuestion[] {
+  const list = findQuestions(raw);
+  if (!list) {
+    throw new DatasetFormatError("Tag dump must be an array of questions or a problemset query response");
+  }
+
+  return list.map((entry, index) => {
+    const question = isRecord(entry) && isRecord(entry.data) && isRecord(entry.data.question) ? entry.data.question : entry;
+    if (!isRecord(question) || typeof question.titleSlug !== "string") {
+      throw new DatasetFormatError(`Tag dump question ${index + 1} has no "titleSlug"`);
+    }
+    return question as unknown as TagDumpQuestion;
+  });
+}
+
+// Tags already on the problem keep their subtags and position; tags only the dump knows are appended.
+// Nothing is dropped, since enhanced tags never appear in LeetCode's dump.
+export function mergeTopicTags(existing: TopicTag[] | undefined, dumped: TopicTag[]): TopicTag[] {
+  const merged = (existing ?? []).map(tag => {
+    const match = dumped.find(candidate => candidate.name === tag.name);
+    return match?.slug && !tag.slug ? { ...tag, slug: match.slug } : tag;
+  });
+  dumped.forEach(tag => {
+    if (!merged.some(candidate => candidate.name === tag.name)) {
+      merged.push({ name: tag.name, slug: tag.slug, __typename: tag.__typename });
+    }
+  });
+  return merged;
+}
+
+function mergeProblemDetails(existing: ProblemDetails | undefined, question: TagDumpQuestion, title: string): ProblemDetails | undefined {
+  const difficulty = DIFFICULTIES.find(level => level.toLowerCase() === question.difficulty?.toLowerCase());
+  if (!difficulty) return existing;
+  return {
+    ...existing,
+    title: question.title ?? existing?.title ?? title,
+    difficulty,
+    questionId: question.questionId ?? existing?.questionId ?? "",
+  };
+}
+
+export interface ProblemChange {
+  problem: LeetCodeProblem;
+  fields: string[];
+  previousRating: number;
+}
+
+export interface MergeReport {
+  added: LeetCodeProblem[];
+  changed: ProblemChange[];
+  // Problems the ratings file no longer lists: kept as they are, or removed when pruning
+  missing: LeetCodeProblem[];
+  removed: LeetCodeProblem[];
+}
+
+export interface MergeOptions {
+  // Drop problems the ratings file no longer lists. Off by default, since a partial or
+  // truncated ratings file would otherwise delete their tags and progress links.
+  prune?: boolean;
+}
+
+const sameJson = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+export function mergeDataset(
+  existing: LeetCodeProblem[],
+  ratings: RawRating[],
+  tagDump: TagDumpQuestion[] = [],
+  { prune = false }: MergeOptions = {}
+): { problems: LeetCodeProblem[]; report: MergeReport } {
+  const existingById = new Map(existing.map(problem => [problem.ID, problem]));
+  const questionsBySlug = new Map(tagDump.map(question => [question.titleSlug, question]));
+  const report: MergeReport = { added: [], changed: [], missing: [], removed: [] };
+
+  const problems = ratings.map(rating => {
+    const previous = existingById.get(rating.ID);
+    // New problems get every rating field, blank where the file has none, in the usual key order
+    const problem = (previous
+      ? { ...previous, ...rating }
+      : Object.fromEntries(RATING_FIELDS.map(field => [field, rating[field] ?? ""]))) as LeetCodeProblem;
+
+    const question = questionsBySlug.get(rating.TitleSlug);
+    if (question?.topicTags) {
+      problem.topicTags = mergeTopicTags(previous?.topicTags, question.topicTags);
+    }
+    if (question) {
+      const details = mergeProblemDetails(previous?.problemDetails, question, problem.Title);
+      if (details) problem.problemDetails = details;
+    }
+
+    if (!previous) {
+      report.added.push(problem);
+    } else {
+      const fields = Object.keys(problem).filter(field =>
+        !sameJson(problem[field as keyof LeetCodeProblem], previous[field as keyof LeetCodeProblem])
+      );
+      if (fields.length > 0) report.changed.push({ problem, fields, previousRating: previous.Rating });
+    }
+    return problem;
+  });
+
+  const listed = new Set(ratings.map(rating => rating.ID));
+  existing.forEach(problem => {
+    if (listed.has(problem.ID)) return;
+    if (prune) {
+      report.removed.push(problem);
+    } else {
+      report.missing.push(problem);
+      problems.push(problem);
+    }
+  });
+
+  // Hardest first, the order the files have always been in
+  problems.sort((a, b) => b.Rating - a.Rating);
+  return { problems, report };
+}
+
+// Both copies of the dataset are written with this, so they stay byte-identical
+export const serializeDataset = (problems: LeetCodeProblem[]) => JSON.stringify(problems, null, 2);
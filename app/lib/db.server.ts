@@ -0,0 +1,45 @@
+import { mkdirSync } from "node:fs";
+import { dirname } from "node:path";
+import Database from "better-sqlite3";
+
+// Accounts and their synced state live in one SQLite file, created on first use.
+// DATABASE_PATH moves it, e.g. onto a mounted volume in production.
+const DATABASE_PATH = process.env.DATABASE_PATH ?? ".data/stepcode.db";
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS users (
+    id INTEGER PRIMARY KEY,
+    email TEXT NOT NULL UNIQUE,
+    -- Null for accounts that only ever signed in by email link
+    password_hash TEXT,
+    created_at TEXT NOT NULL,
+    -- Set once the first browser's localStorage has been folded in
+    migrated_at TEXT
+  );
+
+  CREATE TABLE IF NOT EXISTS login_tokens (
+    token_hash TEXT PRIMARY KEY,
+    email TEXT NOT NULL,
+    expires_at TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS user_state (
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    key TEXT NOT NULL,
+    value TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    PRIMARY KEY (user_id, key)
+  );
+`;
+
+let db: Database.Database | null = null;
+
+export function getDatabase(): Database.Database {
+  if (db) return db;
+  if (DATABASE_PATH !== ":memory:") mkdirSync(dirname(DATABASE_PATH), { recursive: true });
+  db = new Database(DATABASE_PATH);
+  db.pragma("journal_mode = WAL");
+  db.pragma("foreign_keys = ON");
+  db.exec(SCHEMA);
+  return db;
+}
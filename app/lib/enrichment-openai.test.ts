@@ -0,0 +1,158 @@
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { EnrichmentError, enrichProblems } from "~/lib/enrichment";
+import { createOpenAICompatibleProvider, parseSuggestionReply } from "~/lib/enrichment-openai";
+import { problem } from "~/lib/test-fixtures";
+
+// A chat completions endpoint answering each request with the next canned reply
+interface StubReply {
+  status?: number;
+  body: unknown;
+}
+
+let server: Server;
+let baseUrl: string;
+let replies: StubReply[] = [];
+let requests: { path?: string; authorization?: string; body: Record<string, unknown> }[] = [];
+
+const completion = (content: string) => ({ choices: [{ message: { role: "assistant", content } }] });
+const reply = (content: unknown) => ({ body: completion(typeof content === "string" ? content : JSON.stringify(content)) });
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    let data = "";
+    req.on("data", chunk => (data += chunk));
+    req.on("end", () => {
+      requests.push({ path: req.url, authorization: req.headers.authorization, body: JSON.parse(data) });
+      const { status = 200, body } = replies.shift() ?? { status: 500, body: { error: "no reply queued" } };
+      res.writeHead(status, { "Content-Type": "application/json" });
+      res.end(typeof body === "string" ? body : JSON.stringify(body));
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1/`;
+});
+
+afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+beforeEach(() => {
+  replies = [];
+  requests = [];
+});
+
+const provider = (overrides = {}) => createOpenAICompatibleProvider({ baseUrl, model: "stub", timeoutMs: 5000, ...overrides });
+
+describe("parseSuggestionReply", () => {
+  it("reads fenced JSON and caps the subtags per tag", () => {
+    const content = '```json\n{"tags": [{"name": "Graph", "subtags": ["BFS", "DFS", "Dijkstra"]}]}\n```';
+    expect(parseSuggestionReply(content, 2)).toEqual([{ tag: "Graph", subtags: ["BFS", "DFS"] }]);
+  });
+
+  it("drops malformed entries and non-string subtags", () => {
+    const content = JSON.stringify({ tags: [{ name: 3, subtags: [] }, { name: "Array" }, { name: "Math", subtags: ["GCD", 7] }, "Tree"] });
+    expect(parseSuggestionReply(content)).toEqual([{ tag: "Math", subtags: ["GCD"] }]);
+  });
+
+  it("rejects replies that aren't JSON or have no tags", () => {
+    expect(() => parseSuggestionReply("Sure! Here are the subtags:")).toThrow("Model reply is not JSON");
+    expect(() => parseSuggestionReply('{"subtags": []}')).toThrow('Model reply has no "tags" array');
+    expect(() => parseSuggestionReply("[]")).toThrow(EnrichmentError);
+  });
+});
+
+describe("createOpenAICompatibleProvider", () => {
+  it("sends the problem and reads a well-formed reply", async () => {
+    replies.push(reply({ tags: [{ name: "Graph", subtags: ["Dijkstra"] }] }));
+    const suggestions = await provider({ apiKey: "secret", vocabulary: ["Dijkstra"] })
+      .suggest(problem(1, { topicTags: [{ name: "Graph", slug: "graph" }] }));
+
+    expect(suggestions).toEqual([{ tag: "Graph", subtags: ["Dijkstra"] }]);
+    expect(requests).toHaveLength(1);
+    const [{ path, authorization, body }] = requests;
+    expect(path).toBe("/v1/chat/completions");
+    expect(authorization).toBe("Bearer secret");
+    expect(body).toMatchObject({ model: "stub", temperature: 0, response_format: { type: "json_object" } });
+    const messages = body.messages as { role: string; content: string }[];
+    expect(JSON.parse(messages[1].content)).toEqual({ title: "Problem 1", rating: 1500, tags: ["Graph"], vocabulary: ["Dijkstra"] });
+  });
+
+  it("leaves out the authorization header without a key", async () => {
+    replies.push(reply({ tags: [] }));
+    await provider().suggest(problem(1));
+    expect(requests[0].authorization).toBeUndefined();
+  });
+
+  it("fails on malformed model output", async () => {
+    replies.push(reply("{not json"));
+    await expect(provider().suggest(problem(1))).rejects.toThrow("Model reply is not JSON");
+  });
+
+  it("fails on a response without a message", async () => {
+    replies.push({ body: { choices: [] } }, { body: "<html>Bad Gateway</html>" });
+    await expect(provider().suggest(problem(1))).rejects.toThrow("Response has no choices[0].message.content");
+    await expect(provider().suggest(problem(1))).rejects.toThrow("Response has no choices[0].message.content");
+  });
+
+  it.each([429, 500])("fails with the status on HTTP %i", async status => {
+    replies.push({ status, body: { error: "nope" } });
+    await expect(provider().suggest(problem(1))).rejects.toThrow(new RegExp(`answered ${status}`));
+  });
+});
+
+describe("enrichProblems with the OpenAI-compatible provider", () => {
+  it("adds suggested subtags, including under tags the problem didn't have", async () => {
+    replies.push(reply({ tags: [{ name: "Graph", subtags: ["Dijkstra"] }, { name: "Heap (Priority Queue)", subtags: ["Lazy Deletion"] }] }));
+    const problems = [problem(1, { topicTags: [{ name: "Graph", slug: "graph", subtags: ["BFS"] }] })];
+    const { problems: enriched, enriched: ids, failed } = await enrichProblems(problems, provider());
+
+    expect(ids).toEqual([1]);
+    expect(failed).toEqual([]);
+    expect(enriched[0].isEnhanced).toBe(true);
+    expect(enriched[0].topicTags).toEqual([
+      { name: "Graph", slug: "graph", subtags: ["BFS", "Dijkstra"] },
+      { name: "Heap (Priority Queue)", subtags: ["Lazy Deletion"] },
+    ]);
+  });
+
+  it("records failures and keeps going", async () => {
+    replies.push({ status: 429, body: { error: "rate limited" } }, reply("not json"), reply({ tags: [{ name: "Array", subtags: ["Prefix Sum"] }] }));
+    const problems = [1, 2, 3].map(id => problem(id, { topicTags: [{ name: "Array", slug: "array" }] }));
+    const result = await enrichProblems(problems, provider());
+
+    expect(result.enriched).toEqual([3]);
+    expect(result.failed.map(({ id }) => id)).toEqual([1, 2]);
+    expect(result.failed[0].message).toMatch(/answered 429/);
+    expect(result.problems.slice(0, 2)).toEqual(problems.slice(0, 2));
+    expect(result.stoppedEarly).toBeUndefined();
+  });
+
+  it("stops once the server keeps failing", async () => {
+    const problems = Array.from({ length: 8 }, (_, i) => problem(i + 1));
+    replies.push(...problems.map(() => ({ status: 500, body: { error: "down" } })));
+    const result = await enrichProblems(problems, provider());
+
+    expect(requests).toHaveLength(5);
+    expect(result.failed).toHaveLength(5);
+    expect(result.stoppedEarly).toBe("openai-compatible (stub) failed 5 problems in a row");
+  });
+
+  // The enrich script's --dry-run prints the result and skips writing, so the run itself
+  // must leave the dataset it was given alone
+  it("doesn't touch the input dataset on a dry run", async () => {
+    replies.push(reply({ tags: [{ name: "Graph", subtags: ["Dijkstra"] }] }));
+    const problems = [
+      problem(1, { topicTags: [{ name: "Graph", slug: "graph", subtags: ["BFS"] }] }),
+      problem(2, { topicTags: [{ name: "Array", slug: "array" }], isEnhanced: true, enhancedAt: "2099-01-01T00:00:00.000Z" }),
+    ];
+    const before = structuredClone(problems);
+    const progress: boolean[] = [];
+    const result = await enrichProblems(problems, provider(), { onProgress: ({ changed }) => progress.push(changed) });
+
+    expect(problems).toEqual(before);
+    expect(result.problems[0]).not.toBe(problems[0]);
+    expect(result.problems[1]).toBe(problems[1]);
+    expect(result.skipped).toBe(1);
+    expect(progress).toEqual([true]);
+  });
+});
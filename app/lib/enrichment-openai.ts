@@ -0,0 +1,106 @@
+import { EnrichmentError, type EnrichmentProvider, type SubtagSuggestion } from "~/lib/enrichment";
+import type { LeetCodeProblem } from "~/lib/types";
+
+// Adapter for any server speaking the OpenAI chat completions API: llama.cpp, vLLM,
+// Ollama, LM Studio, or a stub in tests. Only the documented request/response fields are
+// used, so nothing here is tied to one vendor.
+
+export interface OpenAICompatibleOptions {
+  // e.g. http://localhost:11434/v1
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+  // Existing subtag names, offered to the model so it reuses them instead of inventing synonyms
+  vocabulary?: string[];
+  timeoutMs?: number;
+  // Per tag; models tend to pad the list otherwise
+  maxSubtags?: number;
+}
+
+const SYSTEM_PROMPT = [
+  "You classify competitive programming problems.",
+  "Given a LeetCode problem's title and topic tags, name the specific techniques (subtags) each tag covers for this problem.",
+  'Reply with JSON only, shaped {"tags": [{"name": "<topic tag>", "subtags": ["<subtag>", ...]}]}.',
+  "Use the given topic tag names exactly. Prefer subtag names from the vocabulary when one fits.",
+].join(" ");
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Some models wrap JSON in a ```json fence even when asked not to
+const stripFence = (content: string) => content.trim().replace(/^```(?:json)?\s*/i, "").replace(/\s*```$/, "");
+
+export function parseSuggestionReply(content: string, maxSubtags = 4): SubtagSuggestion[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(stripFence(content));
+  } catch {
+    throw new EnrichmentError("Model reply is not JSON");
+  }
+  if (!isRecord(parsed) || !Array.isArray(parsed.tags)) {
+    throw new EnrichmentError('Model reply has no "tags" array');
+  }
+  return parsed.tags.flatMap(tag => {
+    if (!isRecord(tag) || typeof tag.name !== "string" || !Array.isArray(tag.subtags)) return [];
+    const subtags = tag.subtags.filter((subtag): subtag is string => typeof subtag === "string").slice(0, maxSubtags);
+    return [{ tag: tag.name, subtags }];
+  });
+}
+
+export function createOpenAICompatibleProvider({
+  baseUrl,
+  model,
+  apiKey,
+  vocabulary = [],
+  timeoutMs = 60_000,
+  maxSubtags = 4,
+}: OpenAICompatibleOptions): EnrichmentProvider {
+  const url = `${baseUrl.replace(/\/+$/, "")}/chat/completions`;
+
+  return {
+    name: `openai-compatible (${model})`,
+    async suggest(problem: LeetCodeProblem) {
+      const question = {
+        title: problem.Title,
+        rating: Math.round(problem.Rating),
+        tags: (problem.topicTags ?? []).map(tag => tag.name),
+        ...(vocabulary.length > 0 && { vocabulary }),
+      };
+
+      let response: Response;
+      try {
+        response = await fetch(url, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            ...(apiKey && { Authorization: `Bearer ${apiKey}` }),
+          },
+          body: JSON.stringify({
+            model,
+            temperature: 0,
+            response_format: { type: "json_object" },
+            messages: [
+              { role: "system", content: SYSTEM_PROMPT },
+              { role: "user", content: JSON.stringify(question) },
+            ],
+          }),
+          signal: AbortSignal.timeout(timeoutMs),
+        });
+      } catch (error) {
+        throw new EnrichmentError(`Could not reach ${url}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+      if (!response.ok) {
+        throw new EnrichmentError(`${url} answered ${response.status} ${response.statusText}`);
+      }
+
+      const body: unknown = await response.json().catch(() => null);
+      const content = isRecord(body) && Array.isArray(body.choices) && isRecord(body.choices[0]) && isRecord(body.choices[0].message)
+        ? body.choices[0].message.content
+        : undefined;
+      if (typeof content !== "string") {
+        throw new EnrichmentError("Response has no choices[0].message.content");
+      }
+      return parseSuggestionReply(content, maxSubtags);
+    },
+  };
+}
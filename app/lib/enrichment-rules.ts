@@ -0,0 +1,73 @@
+import type { EnrichmentProvider, SubtagSuggestion } from "~/lib/enrichment";
+import type { LeetCodeProblem } from "~/lib/types";
+
+// Deterministic provider: keyword rules over the problem title. Coarser than a model, but
+// free, offline and reproducible, so it's the default and what reruns fall back on.
+
+export interface SubtagRule {
+  tag: string;
+  subtag: string;
+  // Whole words or phrases, matched case-insensitively against the title
+  keywords: string[];
+  // Only for problems already carrying one of these tags; defaults to `tag` itself
+  whenTags?: string[];
+}
+
+// Subtag names follow the ones already in the dataset, so rule output merges cleanly
+export const DEFAULT_SUBTAG_RULES: SubtagRule[] = [
+  { tag: "Array", subtag: "Subarray", keywords: ["subarray", "subarrays"] },
+  { tag: "Array", subtag: "Subsequence", keywords: ["subsequence", "subsequences"] },
+  { tag: "Array", subtag: "Prefix Sum", keywords: ["range sum", "subarray sum", "subarray sums", "prefix"], whenTags: ["Array", "Prefix Sum"] },
+  { tag: "String", subtag: "Palindromes", keywords: ["palindrome", "palindromes", "palindromic"] },
+  { tag: "String", subtag: "Substring Problems", keywords: ["substring", "substrings"] },
+  { tag: "String", subtag: "String Matching", keywords: ["match", "matching", "pattern", "occurrence", "occurrences"] },
+  { tag: "Hash Table", subtag: "Frequency Map", keywords: ["frequency", "frequencies", "most frequent", "occurrences", "anagram", "anagrams"] },
+  { tag: "Math", subtag: "Number Theory", keywords: ["gcd", "lcm", "prime", "primes", "divisor", "divisors", "divisible", "factors"] },
+  { tag: "Math", subtag: "Modular Arithmetic", keywords: ["modulo", "mod"] },
+  { tag: "Math", subtag: "Combinatorics", keywords: ["number of ways", "arrangements", "permutations", "combinations"] },
+  { tag: "Math", subtag: "Geometry", keywords: ["rectangle", "rectangles", "square", "squares", "circle", "circles", "triangle", "points"] },
+  { tag: "Bit Manipulation", subtag: "XOR Tricks", keywords: ["xor"] },
+  { tag: "Bit Manipulation", subtag: "Basic Bit Operations", keywords: ["bitwise", "bits", "bit"] },
+  { tag: "Dynamic Programming", subtag: "DP on Strings", keywords: ["string", "strings", "word", "words"], whenTags: ["Dynamic Programming"] },
+  { tag: "Dynamic Programming", subtag: "DP on Subsequences", keywords: ["subsequence", "subsequences"] },
+  { tag: "Graph", subtag: "Shortest Path", keywords: ["shortest path", "network delay", "cheapest", "minimum cost to reach", "minimum time to reach"] },
+  { tag: "Graph", subtag: "Topological Sort", keywords: ["course schedule", "prerequisites", "order", "sequence reconstruction"] },
+  { tag: "Graph", subtag: "Connected Components", keywords: ["connected", "components", "islands", "provinces", "groups"], whenTags: ["Graph", "Union Find", "Depth-First Search", "Breadth-First Search"] },
+  { tag: "Union Find", subtag: "Disjoint Set Union", keywords: ["connected", "components", "groups", "redundant connection", "accounts merge"] },
+  { tag: "Tree", subtag: "Binary Tree", keywords: ["binary tree"] },
+  { tag: "Tree", subtag: "Tree Traversals", keywords: ["traversal", "inorder", "preorder", "postorder", "level order", "serialize"] },
+  { tag: "Binary Search", subtag: "Binary Search on Answer", keywords: ["minimize the maximum", "maximize the minimum", "minimum time", "minimized maximum", "kth smallest"] },
+  { tag: "Stack", subtag: "Monotonic Stack", keywords: ["next greater", "next smaller", "largest rectangle", "visible", "daily temperatures", "stock span"] },
+  { tag: "Heap (Priority Queue)", subtag: "Min Heap", keywords: ["kth largest", "k closest", "top k", "smallest", "minimum cost"] },
+  { tag: "Heap (Priority Queue)", subtag: "Max Heap", keywords: ["kth smallest", "largest", "maximum"] },
+  { tag: "Greedy", subtag: "Interval Scheduling", keywords: ["interval", "intervals", "meeting", "meetings", "overlapping", "arrows"] },
+  { tag: "Sliding Window", subtag: "Fixed Window Problems", keywords: ["size k", "k consecutive", "length k"] },
+  { tag: "Matrix", subtag: "Matrix Traversal", keywords: ["grid", "matrix", "board", "spiral", "diagonal"] },
+  { tag: "Two Pointers", subtag: "Fast and Slow Pointers", keywords: ["cycle", "middle", "duplicate number"] },
+  { tag: "Simulation", subtag: "Process Simulation", keywords: ["simulate", "simulation", "robot", "process"] },
+];
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+export function createRulesProvider(rules: SubtagRule[] = DEFAULT_SUBTAG_RULES): EnrichmentProvider {
+  const compiled = rules.map(rule => ({
+    ...rule,
+    pattern: new RegExp(`\\b(${rule.keywords.map(escapeRegExp).join("|")})\\b`, "i"),
+    whenTags: rule.whenTags ?? [rule.tag],
+  }));
+
+  return {
+    name: "rules",
+    async suggest(problem: LeetCodeProblem) {
+      const tagNames = new Set((problem.topicTags ?? []).map(tag => tag.name));
+      const bySubtag = new Map<string, string[]>();
+
+      compiled.forEach(rule => {
+        if (!rule.whenTags.some(tag => tagNames.has(tag)) || !rule.pattern.test(problem.Title)) return;
+        bySubtag.set(rule.tag, [...bySubtag.get(rule.tag) ?? [], rule.subtag]);
+      });
+
+      return Array.from(bySubtag, ([tag, subtags]): SubtagSuggestion => ({ tag, subtags }));
+    },
+  };
+}
@@ -0,0 +1,135 @@
+import type { LeetCodeProblem, TopicTag } from "~/lib/types";
+
+// Tag enrichment: a provider proposes subtags for a problem's topic tags, and the pipeline
+// writes them back with isEnhanced/enhancedAt set. Runs are incremental, so only problems
+// that were never enhanced (or were enhanced before a cut-off) go to the provider.
+
+export interface SubtagSuggestion {
+  // A topic tag name; tags the problem doesn't have yet are added
+  tag: string;
+  subtags: string[];
+}
+
+export interface EnrichmentProvider {
+  name: string;
+  suggest(problem: LeetCodeProblem): Promise<SubtagSuggestion[]>;
+}
+
+export class EnrichmentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "EnrichmentError";
+  }
+}
+
+export interface EnrichmentOptions {
+  // ISO timestamp; problems enhanced before it count as stale
+  staleBefore?: string;
+  // Re-enrich everything selected, enhanced or not
+  force?: boolean;
+  // Only these problems
+  ids?: Set<number>;
+  limit?: number;
+  // Replace the subtags of suggested tags instead of adding to them
+  replace?: boolean;
+  onProgress?: (progress: EnrichmentProgress) => void;
+}
+
+export interface EnrichmentProgress {
+  problem: LeetCodeProblem;
+  done: number;
+  total: number;
+  changed: boolean;
+  error?: string;
+}
+
+export interface EnrichmentResult {
+  problems: LeetCodeProblem[];
+  enriched: number[];
+  failed: { id: number; message: string }[];
+  // Up to date and left alone
+  skipped: number;
+  // Due, but past `limit`
+  deferred: number;
+  // Why the run stopped early, if it did; everything enriched until then is kept
+  stoppedEarly?: string;
+}
+
+// A provider that fails this many problems in a row is assumed to be down
+const MAX_CONSECUTIVE_FAILURES = 5;
+
+export function needsEnrichment(problem: LeetCodeProblem, { staleBefore, force }: Pick<EnrichmentOptions, "staleBefore" | "force"> = {}): boolean {
+  if (force || !problem.isEnhanced || !problem.enhancedAt) return true;
+  return staleBefore !== undefined && problem.enhancedAt < staleBefore;
+}
+
+const unique = (values: string[]) => Array.from(new Set(values.map(value => value.trim()).filter(Boolean)));
+
+export function applySuggestions(
+  problem: LeetCodeProblem,
+  suggestions: SubtagSuggestion[],
+  enhancedAt: string,
+  replace = false
+): LeetCodeProblem {
+  const topicTags: TopicTag[] = (problem.topicTags ?? []).map(tag => ({ ...tag }));
+
+  suggestions.forEach(({ tag: name, subtags }) => {
+    const suggested = unique(subtags);
+    const tag = topicTags.find(candidate => candidate.name === name);
+    if (!tag) {
+      if (suggested.length > 0) topicTags.push({ name, subtags: suggested });
+      return;
+    }
+    const merged = replace ? suggested : unique([...(tag.subtags ?? []), ...suggested]);
+    if (merged.length > 0) tag.subtags = merged;
+    else delete tag.subtags;
+  });
+
+  return { ...problem, topicTags, isEnhanced: true, enhancedAt };
+}
+
+// One problem at a time: local models usually serve a single request stream anyway
+export async function enrichProblems(
+  problems: LeetCodeProblem[],
+  provider: EnrichmentProvider,
+  { ids, limit, replace, onProgress, ...staleness }: EnrichmentOptions = {}
+): Promise<EnrichmentResult> {
+  const due = problems.filter(problem => (!ids || ids.has(problem.ID)) && needsEnrichment(problem, staleness));
+  const queue = due.slice(0, limit);
+  const updated = new Map<number, LeetCodeProblem>();
+  const result: EnrichmentResult = {
+    problems,
+    enriched: [],
+    failed: [],
+    skipped: problems.length - due.length,
+    deferred: due.length - queue.length,
+  };
+
+  let consecutiveFailures = 0;
+  for (const [index, problem] of queue.entries()) {
+    try {
+      const suggestions = await provider.suggest(problem);
+      const enriched = applySuggestions(problem, suggestions, new Date().toISOString(), replace);
+      updated.set(problem.ID, enriched);
+      result.enriched.push(problem.ID);
+      consecutiveFailures = 0;
+      onProgress?.({
+        problem: enriched,
+        done: index + 1,
+        total: queue.length,
+        changed: JSON.stringify(enriched.topicTags) !== JSON.stringify(problem.topicTags ?? []),
+      });
+    } catch (error) {
+      if (!(error instanceof EnrichmentError)) throw error;
+      result.failed.push({ id: problem.ID, message: error.message });
+      onProgress?.({ problem, done: index + 1, total: queue.length, changed: false, error: error.message });
+      if (++consecutiveFailures >= MAX_CONSECUTIVE_FAILURES) {
+        result.stoppedEarly = `${provider.name} failed ${consecutiveFailures} problems in a row`;
+        break;
+      }
+    }
+  }
+
+  result.problems = problems.map(problem => updated.get(problem.ID) ?? problem);
+  return result;
+}
@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import { exportProblems, parseExportColumns, type ExportOptions } from "~/lib/export";
+import { problem } from "~/lib/test-fixtures";
+
+const problems = [
+  problem(1, {
+    Title: 'Say "Hi", World',
+    Rating: 1499.6,
+    TitleSlug: "say-hi-world",
+    topicTags: [{ name: "Hash Table", subtags: ["Two Pointers", "Prefix Sum"] }, { name: "String", subtags: ["Two Pointers"] }],
+    problemDetails: { title: 'Say "Hi", World', difficulty: "Easy", questionId: "1" },
+  }),
+  problem(2, { Title: "Line one\nline two | *bold* _x_ [y] <b>", TitleSlug: "line-two", topicTags: [{ name: "Math::Geometry" }] }),
+  problem(3, { Title: "=HYPERLINK(\"http://evil\")", TitleSlug: "formula" }),
+  problem(4, { Title: "+1 Plus", TitleSlug: "plus" }),
+  problem(5, { Title: "-1 Minus", TitleSlug: "minus" }),
+  problem(6, { Title: "@SUM(A1)", TitleSlug: "at" }),
+];
+
+const date = new Date("2026-05-01T12:00:00Z");
+const body = (options: ExportOptions, list = problems) => exportProblems(list, options, date).body;
+
+describe("exportProblems as CSV", () => {
+  const csv = (columns: ExportOptions["columns"], list = problems) => body({ format: "csv", columns }, list);
+
+  it("writes a BOM, the picked columns in their fixed order and CRLF rows", () => {
+    const { filename, contentType } = exportProblems([], { format: "csv", columns: [] }, date);
+    expect([filename, contentType]).toEqual(["leetcode-problems-2026-05-01.csv", "text/csv; charset=utf-8"]);
+    expect(csv(["rating", "id", "difficulty"], problems.slice(0, 2))).toBe("\uFEFFID,Difficulty,Rating\r\n1,Easy,1500\r\n2,,1500\r\n");
+  });
+
+  it("quotes commas, quotes and line breaks", () => {
+    expect(csv(["title", "tags", "subtags", "link"], problems.slice(0, 2)).split("\r\n")).toEqual([
+      "\uFEFFTitle,Tags,Subtags,Link",
+      '"Say ""Hi"", World","Hash Table, String","Two Pointers, Prefix Sum",https://leetcode.com/problems/say-hi-world/',
+      '"Line one\nline two | *bold* _x_ [y] <b>",Math::Geometry,,https://leetcode.com/problems/line-two/',
+      "",
+    ]);
+  });
+
+  it("keeps cells that look like formulas as text", () => {
+    expect(csv(["title"], problems.slice(2)).split("\r\n")).toEqual([
+      "\uFEFFTitle",
+      `"'=HYPERLINK(""http://evil"")"`,
+      "'+1 Plus",
+      "'-1 Minus",
+      "'@SUM(A1)",
+      "",
+    ]);
+    expect(csv(["title"], [problem(7, { Title: "\tTabbed" })])).toBe("\uFEFFTitle\r\n'\tTabbed\r\n");
+  });
+
+  it("fills the status column from progress", () => {
+    const statuses = new Map([[1, "solved" as const]]);
+    expect(body({ format: "csv", columns: ["id", "status"], statuses }, problems.slice(0, 2))).toBe("\uFEFFID,Status\r\n1,Solved\r\n2,Unsolved\r\n");
+  });
+});
+
+describe("exportProblems as Markdown", () => {
+  it("escapes Markdown syntax and keeps each problem on one line", () => {
+    const markdown = body({ format: "markdown", columns: ["id", "title", "link", "tags"] }, problems.slice(0, 3));
+    expect(markdown).toBe([
+      "# LeetCode problems (3)",
+      "",
+      '- [ ] [1. Say "Hi", World](https://leetcode.com/problems/say-hi-world/) · Hash Table, String',
+      "- [ ] [2. Line one line two \\| \\*bold\\* \\_x\\_ \\[y\\] \\<b\\>](https://leetcode.com/problems/line-two/) · Math::Geometry",
+      '- [ ] [3. =HYPERLINK("http://evil")](https://leetcode.com/problems/formula/)',
+      "",
+    ].join("\n"));
+  });
+
+  it("checks off solved problems only with the status column", () => {
+    const statuses = new Map([[1, "solved" as const]]);
+    expect(body({ format: "markdown", columns: ["title", "status"], statuses }, problems.slice(0, 1))).toContain("- [x] Say \"Hi\", World · Solved");
+    expect(body({ format: "markdown", columns: ["title"], statuses }, problems.slice(0, 1))).toContain("- [ ] Say \"Hi\", World\n");
+  });
+});
+
+describe("exportProblems as an Anki deck", () => {
+  it("writes tab-separated notes with HTML-escaped fields and a tags column", () => {
+    const deck = body({ format: "anki", columns: ["id", "title", "difficulty", "link"] }, problems.slice(0, 2)).split("\n");
+    expect(deck.slice(0, 4)).toEqual(["#separator:tab", "#html:true", "#notetype:Basic", "#tags column:3"]);
+    expect(deck[4].split("\t")).toEqual([
+      "1. Say &quot;Hi&quot;, World",
+      'Difficulty: Easy<br>Link: <a href="https://leetcode.com/problems/say-hi-world/">https://leetcode.com/problems/say-hi-world/</a>',
+      "Hash_Table String Two_Pointers Prefix_Sum",
+    ]);
+    // Line breaks would start a new note; "::" would nest the tag
+    expect(deck[5].split("\t")).toEqual([
+      "2. Line one line two | *bold* _x_ [y] &lt;b&gt;",
+      'Difficulty: <br>Link: <a href="https://leetcode.com/problems/line-two/">https://leetcode.com/problems/line-two/</a>',
+      "Math_Geometry",
+    ]);
+    expect(deck).toHaveLength(7);
+    expect(deck[6]).toBe("");
+  });
+});
+
+describe("parseExportColumns", () => {
+  it("drops unknown and repeated names and uses the fixed order", () => {
+    expect(parseExportColumns(["link", "nope", "id", "link"])).toEqual(["id", "link"]);
+  });
+});
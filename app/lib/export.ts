@@ -0,0 +1,158 @@
+import { statusLabels, type ProblemStatus } from "~/lib/progress";
+import type { LeetCodeProblem } from "~/lib/types";
+
+// Turns a filtered problem list into files for spreadsheets, notes and flashcards. The
+// export route runs it over every matching problem, not just the page on screen.
+
+export type ExportFormat = "csv" | "markdown" | "anki";
+
+export const EXPORT_FORMATS: ExportFormat[] = ["csv", "markdown", "anki"];
+
+export const exportFormatLabels: Record<ExportFormat, string> = {
+  csv: "CSV",
+  markdown: "Markdown checklist",
+  anki: "Anki deck",
+};
+
+const exportFormatFiles: Record<ExportFormat, { extension: string; contentType: string }> = {
+  csv: { extension: "csv", contentType: "text/csv; charset=utf-8" },
+  markdown: { extension: "md", contentType: "text/markdown; charset=utf-8" },
+  // Anki's "Import File" reads tab-separated text with header lines
+  anki: { extension: "txt", contentType: "text/plain; charset=utf-8" },
+};
+
+export type ExportColumn = "id" | "title" | "titleZH" | "difficulty" | "rating" | "contest" | "tags" | "subtags" | "link" | "status";
+
+// In output order
+export const EXPORT_COLUMNS: ExportColumn[] = ["id", "title", "titleZH", "difficulty", "rating", "contest", "tags", "subtags", "link", "status"];
+
+export const exportColumnLabels: Record<ExportColumn, string> = {
+  id: "ID",
+  title: "Title",
+  titleZH: "Chinese title",
+  difficulty: "Difficulty",
+  rating: "Rating",
+  contest: "Contest",
+  tags: "Tags",
+  subtags: "Subtags",
+  link: "Link",
+  status: "Status",
+};
+
+export const DEFAULT_EXPORT_COLUMNS: ExportColumn[] = ["id", "title", "difficulty", "rating", "tags", "subtags", "link"];
+
+export interface ExportOptions {
+  format: ExportFormat;
+  // Unknown or repeated names are ignored; order follows EXPORT_COLUMNS
+  columns: ExportColumn[];
+  // The user's progress, for the status column
+  statuses?: Map<number, ProblemStatus>;
+}
+
+export interface ExportFile {
+  filename: string;
+  contentType: string;
+  body: string;
+}
+
+const problemUrl = (problem: LeetCodeProblem) => `https://leetcode.com/problems/${problem.TitleSlug}/`;
+
+const subtagsOf = (problem: LeetCodeProblem) =>
+  Array.from(new Set((problem.topicTags ?? []).flatMap(tag => tag.subtags ?? [])));
+
+function cellValue(problem: LeetCodeProblem, column: ExportColumn, statuses: Map<number, ProblemStatus>): string {
+  switch (column) {
+    case "id": return String(problem.ID);
+    case "title": return problem.Title;
+    case "titleZH": return problem.TitleZH;
+    case "difficulty": return problem.problemDetails?.difficulty ?? "";
+    case "rating": return String(Math.round(problem.Rating));
+    case "contest": return `${problem.ContestID_en} ${problem.ProblemIndex}`;
+    case "tags": return (problem.topicTags ?? []).map(tag => tag.name).join(", ");
+    case "subtags": return subtagsOf(problem).join(", ");
+    case "link": return problemUrl(problem);
+    case "status": return statusLabels[statuses.get(problem.ID) ?? "unsolved"];
+  }
+}
+
+export function parseExportColumns(names: string[]): ExportColumn[] {
+  return EXPORT_COLUMNS.filter(column => names.includes(column));
+}
+
+// Spreadsheets evaluate cells starting with these as formulas, so a title such as
+// "=HYPERLINK(...)" would run on open; a leading apostrophe keeps them text
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+// RFC 4180: quote fields holding separators, quotes or line breaks
+const csvField = (value: string) => {
+  const text = FORMULA_START.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+function toCsv(problems: LeetCodeProblem[], columns: ExportColumn[], statuses: Map<number, ProblemStatus>): string {
+  const rows = [
+    columns.map(column => exportColumnLabels[column]),
+    ...problems.map(problem => columns.map(column => cellValue(problem, column, statuses))),
+  ];
+  // The byte order mark makes Excel read the Chinese titles as UTF-8
+  return "\uFEFF" + rows.map(row => row.map(csvField).join(",")).join("\r\n") + "\r\n";
+}
+
+// Line breaks would end the list item, so they become spaces
+const escapeMarkdown = (text: string) => text.replace(/\s*[\r\n]+\s*/g, " ").replace(/([\\`*_[\]<>|])/g, "\\$1");
+
+// Checklists and flashcards always lead with the title, numbered when the ID column is picked
+const heading = (problem: LeetCodeProblem, columns: ExportColumn[]) =>
+  columns.includes("id") ? `${problem.ID}. ${problem.Title}` : problem.Title;
+
+// One checkbox per problem; the title links to LeetCode when the link column is picked.
+// With the status column, solved problems come pre-checked.
+function toMarkdown(problems: LeetCodeProblem[], columns: ExportColumn[], statuses: Map<number, ProblemStatus>): string {
+  const details = columns.filter(column => column !== "id" && column !== "title" && column !== "link");
+  const lines = problems.map(problem => {
+    const checked = columns.includes("status") && statuses.get(problem.ID) === "solved" ? "x" : " ";
+    const title = escapeMarkdown(heading(problem, columns));
+    const label = columns.includes("link") ? `[${title}](${problemUrl(problem)})` : title;
+    const extra = details
+      .map(column => cellValue(problem, column, statuses))
+      .filter(Boolean)
+      .map(escapeMarkdown);
+    return `- [${checked}] ${label}${extra.length > 0 ? ` · ${extra.join(" · ")}` : ""}`;
+  });
+  return `# LeetCode problems (${problems.length})\n\n${lines.join("\n")}\n`;
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+// Anki tags can't hold spaces
+const ankiTag = (name: string) => name.trim().replace(/\s+/g, "_").replace(/::/g, "_");
+
+// Front: the title. Back: the other picked columns, one per line. The problem's tags and
+// subtags also become Anki tags so the deck can be browsed by topic.
+function toAnki(problems: LeetCodeProblem[], columns: ExportColumn[], statuses: Map<number, ProblemStatus>): string {
+  const back = columns.filter(column => column !== "id" && column !== "title");
+  const header = ["#separator:tab", "#html:true", "#notetype:Basic", "#tags column:3"];
+  const notes = problems.map(problem => {
+    const front = escapeHtml(heading(problem, columns));
+    const lines = back.map(column => {
+      const value = cellValue(problem, column, statuses);
+      const html = column === "link" ? `<a href="${escapeHtml(value)}">${escapeHtml(value)}</a>` : escapeHtml(value);
+      return `${exportColumnLabels[column]}: ${html}`;
+    });
+    const tags = [...(problem.topicTags ?? []).map(tag => tag.name), ...subtagsOf(problem)].map(ankiTag);
+    // Tabs and line breaks would split the note
+    return [front, lines.join("<br>"), Array.from(new Set(tags)).join(" ")].map(field => field.replace(/[\t\r\n]+/g, " ")).join("\t");
+  });
+  return [...header, ...notes].join("\n") + "\n";
+}
+
+export function exportProblems(problems: LeetCodeProblem[], { format, columns, statuses = new Map() }: ExportOptions, date = new Date()): ExportFile {
+  const picked = parseExportColumns(columns.length > 0 ? columns : DEFAULT_EXPORT_COLUMNS);
+  const body =
+    format === "csv" ? toCsv(problems, picked, statuses)
+    : format === "markdown" ? toMarkdown(problems, picked, statuses)
+    : toAnki(problems, picked, statuses);
+  const { extension, contentType } = exportFormatFiles[format];
+  return { filename: `leetcode-problems-${date.toISOString().slice(0, 10)}.${extension}`, contentType, body };
+}
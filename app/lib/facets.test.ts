@@ -0,0 +1,140 @@
+import { describe, expect, it } from "vitest";
+import { FilterEngine, type FilterContext } from "~/lib/facets";
+import { createDefaultFilters, type AppliedFilters } from "~/lib/filters";
+import { canonicalizeTagQuery, parseTagQuery } from "~/lib/tag-query";
+import { buildTaxonomy } from "~/lib/taxonomy";
+import { problem } from "~/lib/test-fixtures";
+import type { Difficulty } from "~/lib/types";
+
+const details = (ID: number, difficulty: Difficulty) => ({ title: `Problem ${ID}`, difficulty, questionId: String(ID) });
+
+const problems = [
+  problem(1, { Rating: 1210, problemDetails: details(1, "Easy"), topicTags: [{ name: "Array", slug: "array" }, { name: "Hash Table", slug: "hash-table" }] }),
+  problem(2, {
+    Rating: 1650,
+    problemDetails: details(2, "Medium"),
+    topicTags: [{ name: "Graph", slug: "graph", subtags: ["Dijkstra"] }, { name: "Breadth-First Search", slug: "breadth-first-search" }],
+  }),
+  problem(3, {
+    Rating: 1890,
+    ContestSlug: "weekly-contest-2",
+    problemDetails: details(3, "Medium"),
+    topicTags: [{ name: "Shortest Path", slug: "shortest-path" }, { name: "Array", slug: "array" }],
+  }),
+  problem(4, {
+    Rating: 2320,
+    ContestSlug: "weekly-contest-2",
+    problemDetails: details(4, "Hard"),
+    topicTags: [{ name: "Dynamic Programming", slug: "dynamic-programming", subtags: ["Bitmask"] }],
+  }),
+  // Difficulty not looked up yet
+  problem(5, { Rating: 1400, topicTags: [{ name: "BFS" }] }),
+];
+
+const { taxonomy } = buildTaxonomy(problems);
+const engine = new FilterEngine(problems, taxonomy);
+
+const context = (overrides: Partial<FilterContext> = {}): FilterContext => ({ statuses: new Map(), searchIds: null, tagQuery: null, ...overrides });
+const filters = (overrides: Partial<AppliedFilters> = {}): AppliedFilters => ({ ...createDefaultFilters(), ...overrides });
+const matchIds = (applied: AppliedFilters, ctx = context()) => engine.match(applied, ctx).map(p => p.ID);
+
+describe("FilterEngine.match", () => {
+  it("returns every problem in dataset order without filters", () => {
+    expect(matchIds(filters())).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it("filters by difficulty, skipping problems without one", () => {
+    expect(matchIds(filters({ difficulty: "Medium" }))).toEqual([2, 3]);
+  });
+
+  it("filters by contest and an inclusive, rounded rating range", () => {
+    expect(matchIds(filters({ contest: "weekly-contest-2" }))).toEqual([3, 4]);
+    expect(matchIds(filters({ ratingMin: 1400, ratingMax: 1890 }))).toEqual([2, 3, 5]);
+  });
+
+  it("counts aliases and child tags under the canonical parent", () => {
+    // "BFS" is an alias; "Shortest Path" sits under Graph
+    expect(matchIds(filters({ tags: new Set(["Breadth-First Search"]) }))).toEqual([2, 5]);
+    expect(matchIds(filters({ tags: new Set(["Graph"]) }))).toEqual([2, 3]);
+    expect(matchIds(filters({ subtags: new Set(["Graph > Dijkstra"]) }))).toEqual([2]);
+  });
+
+  it("combines included, required and excluded tags", () => {
+    expect(matchIds(filters({ tags: new Set(["Array", "Graph"]) }))).toEqual([1, 2, 3]);
+    expect(matchIds(filters({ requiredTags: new Set(["Array"]), excludedTags: new Set(["Graph"]) }))).toEqual([1]);
+  });
+
+  it("evaluates tag queries", () => {
+    const tagQuery = canonicalizeTagQuery(parseTagQuery("Graph AND NOT Array"), name => taxonomy.resolve(name)?.name);
+    expect(matchIds(filters({ tagQuery: "Graph AND NOT Array" }), context({ tagQuery }))).toEqual([2]);
+  });
+
+  it("applies search results and progress", () => {
+    expect(matchIds(filters(), context({ searchIds: [4, 1, 99] }))).toEqual([1, 4]);
+    const statuses = new Map([[1, "solved" as const], [3, "attempted" as const]]);
+    expect(matchIds(filters({ progress: "hide-solved" }), context({ statuses }))).toEqual([2, 3, 4, 5]);
+    expect(matchIds(filters({ progress: "only-attempted" }), context({ statuses }))).toEqual([3]);
+  });
+
+  it("resolves aliases on both sides of a tag > subtag pair", () => {
+    expect(matchIds(filters({ subtags: new Set(["graph > dijkstra"]) }))).toEqual([2]);
+    expect(matchIds(filters({ subtags: new Set(["Dynamic Programming > Bitmask"]) }))).toEqual([4]);
+    expect(matchIds(filters({ subtags: new Set(["DP > Bitmask"]) }))).toEqual([4]);
+  });
+
+  it("matches nothing for names no problem carries, without changing later matches", () => {
+    const fresh = new FilterEngine(problems, taxonomy);
+    const names = Array.from({ length: 50 }, (_, i) => `Made Up ${i}`);
+    expect(fresh.match(filters({ tags: new Set(names), subtags: new Set(names.map(name => `Graph > ${name}`)) }), context())).toEqual([]);
+    expect(fresh.match(filters({ requiredTags: new Set(["Array", "Made Up 0"]) }), context())).toEqual([]);
+    expect(fresh.match(filters({ excludedTags: new Set(["Made Up 1"]) }), context()).map(p => p.ID)).toEqual([1, 2, 3, 4, 5]);
+    const tagQuery = parseTagQuery("NOT (Made Up 2 OR Graph) OR Made Up 3");
+    expect(fresh.match(filters({ tagQuery: "NOT (Made Up 2 OR Graph) OR Made Up 3" }), context({ tagQuery })).map(p => p.ID)).toEqual([1, 4, 5]);
+    expect(fresh.match(filters({ tags: new Set(["BFS"]) }), context()).map(p => p.ID)).toEqual([2, 5]);
+  });
+
+  it("returns nothing for unknown tags and contests", () => {
+    expect(matchIds(filters({ tags: new Set(["No Such Tag"]) }))).toEqual([]);
+    expect(matchIds(filters({ contest: "weekly-contest-999" }))).toEqual([]);
+    expect(matchIds(filters(), context({ searchIds: [] }))).toEqual([]);
+  });
+});
+
+describe("FilterEngine.facets", () => {
+  it("counts each option against every other filter", () => {
+    const facets = engine.facets(filters({ difficulty: "Medium", tags: new Set(["Array"]) }), context());
+    expect(facets.total).toBe(1);
+    // Difficulty counts ignore the difficulty filter but keep the tag filter
+    expect(facets.difficulties).toEqual({ all: 2, Easy: 1, Medium: 1, Hard: 0 });
+    // Top-level tag counts ignore the "any of" tags but keep the difficulty
+    expect(facets.tags["Graph"]).toBe(2);
+    expect(facets.tags["Array"]).toBe(1);
+    expect(facets.tags["Dynamic Programming"]).toBe(0);
+  });
+
+  it("buckets ratings while ignoring the rating filter", () => {
+    const facets = engine.facets(filters({ ratingMin: 1600, ratingMax: 1799 }), context());
+    expect(facets.total).toBe(1);
+    expect(facets.ratingBuckets).toEqual([
+      { min: 1200, max: 1399, count: 1 },
+      { min: 1400, max: 1599, count: 1 },
+      { min: 1600, max: 1799, count: 1 },
+      { min: 1800, max: 1999, count: 1 },
+      { min: 2000, max: 2199, count: 0 },
+      { min: 2200, max: 2399, count: 1 },
+    ]);
+  });
+
+  it("reports zeros when nothing matches", () => {
+    const facets = engine.facets(filters({ contest: "weekly-contest-999" }), context());
+    expect(facets.total).toBe(0);
+    expect(facets.difficulties).toEqual({ all: 0, Easy: 0, Medium: 0, Hard: 0 });
+    expect(Object.values(facets.tags).every(count => count === 0)).toBe(true);
+  });
+
+  it("has no buckets for an empty dataset", () => {
+    const empty = new FilterEngine([], buildTaxonomy([]).taxonomy);
+    expect(empty.match(filters(), context())).toEqual([]);
+    expect(empty.facets(filters(), context())).toMatchObject({ total: 0, ratingBuckets: [] });
+  });
+});
@@ -0,0 +1,198 @@
+import { Bitset } from "~/lib/bitset";
+import { DEFAULT_RATING_MAX, DEFAULT_RATING_MIN, type AppliedFilters } from "~/lib/filters";
+import { matchesProgressFilter, type ProblemStatus } from "~/lib/progress";
+import { problemTagNames, type TagQueryNode } from "~/lib/tag-query";
+import type { Taxonomy } from "~/lib/taxonomy";
+import { DIFFICULTIES, type Difficulty, type LeetCodeProblem } from "~/lib/types";
+
+// Filtering over precomputed bitsets, one per difficulty, contest and tag name, so a filter
+// is a handful of word-wise ANDs instead of a pass over every problem. Facet counts reuse
+// the same constraints: each option is counted against every filter except its own group,
+// which is what the result would be if that option were picked.
+
+export const FACET_BUCKET_SIZE = 200;
+
+// Whole rating points, both ends inclusive, so picking a bucket is expressible as a rating filter
+export interface RatingBucketCount {
+  min: number;
+  max: number;
+  count: number;
+}
+
+export interface FacetCounts {
+  // Problems matching every filter
+  total: number;
+  // Keyed by difficulty, plus "all" for no difficulty filter
+  difficulties: Record<Difficulty | "all", number>;
+  // Per taxonomy node name: top-level tags as an "any of" choice, deeper nodes as a subtag
+  tags: Record<string, number>;
+  ratingBuckets: RatingBucketCount[];
+}
+
+// Inputs that depend on more than the filters themselves
+export interface FilterContext {
+  statuses: Map<number, ProblemStatus>;
+  // IDs the search term matched; null without a search term
+  searchIds: number[] | null;
+  // The badge selection is handled here; this is the typed query, already canonical
+  tagQuery: TagQueryNode | null;
+}
+
+type FilterGroup = "search" | "contest" | "difficulty" | "tagQuery" | "includedTags" | "otherTags" | "subtags" | "rating" | "progress";
+
+export class FilterEngine {
+  private all: Bitset;
+  private indexById = new Map<number, number>();
+  private byDifficulty = new Map<Difficulty, Bitset>();
+  private byContest = new Map<string, Bitset>();
+  private byTagName = new Map<string, Bitset>();
+  private tagNames: Set<string>[];
+  // Every name and "tag > subtag" pair some problem carries; only these get a cached bitset
+  private knownTagNames = new Set<string>();
+  private none: Bitset;
+  private buckets: { min: number; max: number; bitset: Bitset }[] = [];
+  // Ratings are compared as displayed, rounded to whole points
+  private ratings: number[];
+
+  constructor(private problems: LeetCodeProblem[], private taxonomy: Taxonomy, bucketSize = FACET_BUCKET_SIZE) {
+    const size = problems.length;
+    this.all = Bitset.full(size);
+    this.none = new Bitset(size);
+    this.tagNames = problems.map(problem => problemTagNames(problem, taxonomy));
+    this.tagNames.forEach(names => names.forEach(name => this.knownTagNames.add(name)));
+    this.ratings = problems.map(problem => Math.round(problem.Rating));
+
+    const contests = new Map<string, number[]>();
+    const difficulties = new Map<Difficulty, number[]>();
+    problems.forEach((problem, index) => {
+      this.indexById.set(problem.ID, index);
+      contests.set(problem.ContestSlug, (contests.get(problem.ContestSlug) ?? []).concat(index));
+      const difficulty = problem.problemDetails?.difficulty;
+      if (difficulty) difficulties.set(difficulty, (difficulties.get(difficulty) ?? []).concat(index));
+    });
+    contests.forEach((indexes, slug) => this.byContest.set(slug, Bitset.from(size, indexes)));
+    DIFFICULTIES.forEach(difficulty => this.byDifficulty.set(difficulty, Bitset.from(size, difficulties.get(difficulty) ?? [])));
+
+    if (size > 0) {
+      const start = Math.floor(Math.min(...this.ratings) / bucketSize) * bucketSize;
+      const end = Math.floor(Math.max(...this.ratings) / bucketSize) * bucketSize;
+      for (let min = start; min <= end; min += bucketSize) {
+        const max = min + bucketSize - 1;
+        this.buckets.push({ min, max, bitset: this.ratingBitset(rating => rating >= min && rating <= max) });
+      }
+    }
+  }
+
+  // Tag, subtag or "tag > subtag" name, with the same meaning as in tag queries. Names may
+  // be aliases, e.g. from an old link. Names no problem carries come from the URL and match
+  // nothing; they share one empty bitset so they can't grow the cache.
+  private tagBitset(name: string): Bitset {
+    const key = name
+      .split(" > ")
+      .map(part => (this.taxonomy.resolve(part)?.name ?? part).toLowerCase())
+      .join(" > ");
+    if (!this.knownTagNames.has(key)) return this.none;
+
+    let bitset = this.byTagName.get(key);
+    if (!bitset) {
+      bitset = new Bitset(this.problems.length);
+      for (let i = 0; i < this.tagNames.length; i++) {
+        if (this.tagNames[i].has(key)) bitset.add(i);
+      }
+      this.byTagName.set(key, bitset);
+    }
+    return bitset;
+  }
+
+  private ratingBitset(includes: (rating: number) => boolean): Bitset {
+    return Bitset.from(this.problems.length, this.ratings.flatMap((rating, index) => (includes(rating) ? [index] : [])));
+  }
+
+  private evaluate(node: TagQueryNode): Bitset {
+    switch (node.type) {
+      case "tag": return this.tagBitset(node.name);
+      case "not": return this.all.andNot(this.evaluate(node.operand));
+      case "and": return node.operands.map(operand => this.evaluate(operand)).reduce((a, b) => a.and(b), this.all);
+      case "or": return node.operands.map(operand => this.evaluate(operand)).reduce((a, b) => a.or(b), new Bitset(this.problems.length));
+    }
+  }
+
+  private anyOf(names: Iterable<string>): Bitset {
+    return Array.from(names).reduce((bitset, name) => bitset.or(this.tagBitset(name)), new Bitset(this.problems.length));
+  }
+
+  // One bitset per active filter group; groups without a filter are left out
+  private constraints(filters: AppliedFilters, { statuses, searchIds, tagQuery }: FilterContext): Map<FilterGroup, Bitset> {
+    const size = this.problems.length;
+    const groups = new Map<FilterGroup, Bitset>();
+
+    if (searchIds) {
+      groups.set("search", Bitset.from(size, searchIds.flatMap(id => this.indexById.get(id) ?? [])));
+    }
+    if (filters.contest) {
+      groups.set("contest", this.byContest.get(filters.contest) ?? new Bitset(size));
+    }
+    // Problems whose difficulty isn't known yet match no difficulty filter
+    if (filters.difficulty !== "all") {
+      groups.set("difficulty", this.byDifficulty.get(filters.difficulty as Difficulty) ?? new Bitset(size));
+    }
+    if (tagQuery) {
+      groups.set("tagQuery", this.evaluate(tagQuery));
+    }
+    if (filters.tags.size > 0) {
+      groups.set("includedTags", this.anyOf(filters.tags));
+    }
+    if (filters.requiredTags.size > 0 || filters.excludedTags.size > 0) {
+      const required = Array.from(filters.requiredTags).reduce((bitset, name) => bitset.and(this.tagBitset(name)), this.all);
+      groups.set("otherTags", required.andNot(this.anyOf(filters.excludedTags)));
+    }
+    if (filters.subtags.size > 0) {
+      groups.set("subtags", this.anyOf(filters.subtags));
+    }
+    if (filters.ratingMin > DEFAULT_RATING_MIN || filters.ratingMax < DEFAULT_RATING_MAX) {
+      groups.set("rating", this.ratingBitset(rating => rating >= filters.ratingMin && rating <= filters.ratingMax));
+    }
+    if (filters.progress !== "all") {
+      const matching = this.problems.flatMap((problem, index) =>
+        matchesProgressFilter(filters.progress, statuses.get(problem.ID) ?? "unsolved") ? [index] : []
+      );
+      groups.set("progress", Bitset.from(size, matching));
+    }
+    return groups;
+  }
+
+  private intersect(groups: Map<FilterGroup, Bitset>, ...skip: FilterGroup[]): Bitset {
+    let result = this.all;
+    groups.forEach((bitset, group) => {
+      if (!skip.includes(group)) result = result.and(bitset);
+    });
+    return result;
+  }
+
+  // Matching problems in dataset order
+  match(filters: AppliedFilters, context: FilterContext): LeetCodeProblem[] {
+    return this.intersect(this.constraints(filters, context)).toArray().map(index => this.problems[index]);
+  }
+
+  facets(filters: AppliedFilters, context: FilterContext): FacetCounts {
+    const groups = this.constraints(filters, context);
+
+    const withoutDifficulty = this.intersect(groups, "difficulty");
+    const difficulties = { all: withoutDifficulty.count() } as Record<Difficulty | "all", number>;
+    this.byDifficulty.forEach((bitset, difficulty) => (difficulties[difficulty] = withoutDifficulty.and(bitset).count()));
+
+    const withoutIncluded = this.intersect(groups, "includedTags");
+    const withoutSubtags = this.intersect(groups, "subtags");
+    const tags: Record<string, number> = {};
+    const roots = new Set(this.taxonomy.roots());
+    this.taxonomy.nodes.forEach(node => {
+      const base = roots.has(node) ? withoutIncluded : withoutSubtags;
+      tags[node.name] = base.and(this.tagBitset(node.name)).count();
+    });
+
+    const withoutRating = this.intersect(groups, "rating");
+    const ratingBuckets = this.buckets.map(({ min, max, bitset }) => ({ min, max, count: withoutRating.and(bitset).count() }));
+
+    return { total: this.intersect(groups).count(), difficulties, tags, ratingBuckets };
+  }
+}
@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildFilterParams,
+  createDefaultFilters,
+  DEFAULT_RATING_MAX,
+  DEFAULT_RATING_MIN,
+  DEFAULT_SORT,
+  hasFilterParams,
+  parseFilterParams,
+  parsePageParam,
+  removeFilter,
+  type AppliedFilters,
+} from "~/lib/filters";
+
+const filters = (overrides: Partial<AppliedFilters> = {}): AppliedFilters => ({ ...createDefaultFilters(), ...overrides });
+
+describe("filter params", () => {
+  it("writes nothing for the defaults", () => {
+    const params = buildFilterParams(createDefaultFilters());
+    expect(params.toString()).toBe("");
+    expect(hasFilterParams(params)).toBe(false);
+    expect(parseFilterParams(params)).toEqual(createDefaultFilters());
+  });
+
+  it("round-trips every filter", () => {
+    const applied = filters({
+      searchTerm: "two sum",
+      difficulty: "Hard",
+      tags: new Set(["Graph", "Tree"]),
+      requiredTags: new Set(["Array"]),
+      excludedTags: new Set(["Math"]),
+      subtags: new Set(["Graph > Dijkstra"]),
+      tagQuery: "dp and not greedy",
+      contest: "weekly-contest-408",
+      ratingMin: 1600,
+      ratingMax: 2400,
+      sortBy: "rating-desc,id-asc",
+      progress: "hide-solved",
+    });
+    const params = buildFilterParams(applied, 3);
+    expect(hasFilterParams(params)).toBe(true);
+    expect(parseFilterParams(params)).toEqual(applied);
+    expect(parsePageParam(params)).toBe(3);
+  });
+
+  it("survives a trip through the URL string", () => {
+    const applied = filters({ searchTerm: "a&b=c", tags: new Set(["Heap (Priority Queue)"]) });
+    const params = new URLSearchParams(buildFilterParams(applied).toString());
+    expect(parseFilterParams(params)).toEqual(applied);
+  });
+
+  it("falls back to defaults for values it doesn't know", () => {
+    const parsed = parseFilterParams(new URLSearchParams("difficulty=Impossible&sortBy=votes-desc&progress=maybe&ratingMin=abc&ratingMax="));
+    expect(parsed.difficulty).toBe("all");
+    expect(parsed.sortBy).toBe(DEFAULT_SORT);
+    expect(parsed.progress).toBe("all");
+    expect(parsed.ratingMin).toBe(DEFAULT_RATING_MIN);
+    expect(parsed.ratingMax).toBe(DEFAULT_RATING_MAX);
+  });
+
+  it("keeps the valid keys of a partly unknown sort", () => {
+    expect(parseFilterParams(new URLSearchParams("sortBy=votes-desc,id-desc")).sortBy).toBe("id-desc");
+  });
+
+  it("ignores empty tag values and trims text", () => {
+    const parsed = parseFilterParams(new URLSearchParams("tag=&tag=Graph&search=%20%20dp%20&contest=%20"));
+    expect(parsed.tags).toEqual(new Set(["Graph"]));
+    expect(parsed.searchTerm).toBe("dp");
+    expect(parsed.contest).toBe("");
+  });
+
+  it("reads page 1 for missing, invalid or out-of-range pages", () => {
+    expect(parsePageParam(new URLSearchParams())).toBe(1);
+    expect(parsePageParam(new URLSearchParams("page=abc"))).toBe(1);
+    expect(parsePageParam(new URLSearchParams("page=-2"))).toBe(1);
+    expect(buildFilterParams(createDefaultFilters(), 1).has("page")).toBe(false);
+  });
+});
+
+describe("removeFilter", () => {
+  it("removes one tag and leaves the others", () => {
+    const applied = filters({ tags: new Set(["Graph", "Tree"]) });
+    expect(removeFilter(applied, "tag", "Graph").tags).toEqual(new Set(["Tree"]));
+    expect(applied.tags).toEqual(new Set(["Graph", "Tree"]));
+  });
+
+  it("resets both rating bounds", () => {
+    const next = removeFilter(filters({ ratingMin: 1500, ratingMax: 2000 }), "rating");
+    expect([next.ratingMin, next.ratingMax]).toEqual([DEFAULT_RATING_MIN, DEFAULT_RATING_MAX]);
+  });
+});
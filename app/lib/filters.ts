@@ -0,0 +1,208 @@
+import { pushUserState } from "~/lib/account-sync";
+import { PROGRESS_FILTERS, type ProgressFilter } from "~/lib/progress";
+import { formatSort, parseSort } from "~/lib/query";
+import { DIFFICULTIES } from "~/lib/types";
+
+export interface AppliedFilters {
+  searchTerm: string;
+  difficulty: string;
+  tags: Set<string>;
+  requiredTags: Set<string>;
+  excludedTags: Set<string>;
+  subtags: Set<string>;
+  tagQuery: string;
+  // ContestSlug, e.g. "weekly-contest-408"
+  contest: string;
+  ratingMin: number;
+  ratingMax: number;
+  // One of SORT_OPTIONS, or several keys for tie-breaking, e.g. "rating-desc,id-asc"
+  sortBy: string;
+  progress: ProgressFilter;
+}
+
+export const DEFAULT_RATING_MIN = 0;
+export const DEFAULT_RATING_MAX = 4000;
+export const DEFAULT_SORT = "rating-asc";
+
+export const SORT_OPTIONS = [
+  "rating-asc",
+  "rating-desc",
+  "id-asc",
+  "id-desc",
+  "title-asc",
+  "title-desc",
+  "relevance",
+] as const;
+
+// Query parameter names shared by the loader and the filter panel
+const PARAMS = {
+  search: "search",
+  difficulty: "difficulty",
+  tag: "tag",
+  requiredTag: "requireTag",
+  excludedTag: "excludeTag",
+  subtag: "subtag",
+  tagQuery: "tagQuery",
+  contest: "contest",
+  ratingMin: "ratingMin",
+  ratingMax: "ratingMax",
+  sortBy: "sortBy",
+  progress: "progress",
+  page: "page",
+};
+
+export function createDefaultFilters(): AppliedFilters {
+  return {
+    searchTerm: "",
+    difficulty: "all",
+    tags: new Set(),
+    requiredTags: new Set(),
+    excludedTags: new Set(),
+    subtags: new Set(),
+    tagQuery: "",
+    contest: "",
+    ratingMin: DEFAULT_RATING_MIN,
+    ratingMax: DEFAULT_RATING_MAX,
+    sortBy: DEFAULT_SORT,
+    progress: "all",
+  };
+}
+
+const parseRating = (value: string | null, fallback: number) => {
+  if (!value) return fallback;
+  const parsed = parseInt(value, 10);
+  return Number.isNaN(parsed) ? fallback : parsed;
+};
+
+export function parseFilterParams(params: URLSearchParams): AppliedFilters {
+  const difficulty = params.get(PARAMS.difficulty) || "all";
+  const sortBy = params.get(PARAMS.sortBy) || DEFAULT_SORT;
+  const progress = params.get(PARAMS.progress) || "all";
+
+  return {
+    searchTerm: params.get(PARAMS.search)?.trim() || "",
+    difficulty: (DIFFICULTIES as string[]).includes(difficulty) ? difficulty : "all",
+    tags: new Set(params.getAll(PARAMS.tag).filter(Boolean)),
+    requiredTags: new Set(params.getAll(PARAMS.requiredTag).filter(Boolean)),
+    excludedTags: new Set(params.getAll(PARAMS.excludedTag).filter(Boolean)),
+    subtags: new Set(params.getAll(PARAMS.subtag).filter(Boolean)),
+    tagQuery: params.get(PARAMS.tagQuery)?.trim() || "",
+    contest: params.get(PARAMS.contest)?.trim() || "",
+    ratingMin: parseRating(params.get(PARAMS.ratingMin), DEFAULT_RATING_MIN),
+    ratingMax: parseRating(params.get(PARAMS.ratingMax), DEFAULT_RATING_MAX),
+    sortBy: formatSort(parseSort(sortBy)) || DEFAULT_SORT,
+    progress: (PROGRESS_FILTERS as string[]).includes(progress) ? progress as ProgressFilter : "all",
+  };
+}
+
+// The removable chips above the results, one per applied filter value
+export type FilterChip =
+  | "search"
+  | "difficulty"
+  | "tagQuery"
+  | "tag"
+  | "requiredTag"
+  | "excludedTag"
+  | "subtag"
+  | "contest"
+  | "rating"
+  | "progress";
+
+// A copy of `filters` without one chip; `value` picks the tag for the tag chips
+export function removeFilter(filters: AppliedFilters, chip: FilterChip, value?: string): AppliedFilters {
+  const without = (names: Set<string>) => new Set(Array.from(names).filter(name => name !== value));
+  const next = { ...filters };
+  switch (chip) {
+    case "search": next.searchTerm = ""; break;
+    case "difficulty": next.difficulty = "all"; break;
+    case "tagQuery": next.tagQuery = ""; break;
+    case "tag": next.tags = without(filters.tags); break;
+    case "requiredTag": next.requiredTags = without(filters.requiredTags); break;
+    case "excludedTag": next.excludedTags = without(filters.excludedTags); break;
+    case "subtag": next.subtags = without(filters.subtags); break;
+    case "contest": next.contest = ""; break;
+    case "rating":
+      next.ratingMin = DEFAULT_RATING_MIN;
+      next.ratingMax = DEFAULT_RATING_MAX;
+      break;
+    case "progress": next.progress = "all"; break;
+  }
+  return next;
+}
+
+export function parsePageParam(params: URLSearchParams): number {
+  const page = parseInt(params.get(PARAMS.page) || "1", 10);
+  return Number.isNaN(page) || page < 1 ? 1 : page;
+}
+
+// Only non-default values are written so URLs stay short
+export function buildFilterParams(filters: AppliedFilters, page = 1): URLSearchParams {
+  const params = new URLSearchParams();
+
+  if (filters.searchTerm) params.set(PARAMS.search, filters.searchTerm);
+  if (filters.difficulty !== "all") params.set(PARAMS.difficulty, filters.difficulty);
+  filters.tags.forEach(tag => params.append(PARAMS.tag, tag));
+  filters.requiredTags.forEach(tag => params.append(PARAMS.requiredTag, tag));
+  filters.excludedTags.forEach(tag => params.append(PARAMS.excludedTag, tag));
+  filters.subtags.forEach(subtag => params.append(PARAMS.subtag, subtag));
+  if (filters.tagQuery) params.set(PARAMS.tagQuery, filters.tagQuery);
+  if (filters.contest) params.set(PARAMS.contest, filters.contest);
+  if (filters.ratingMin > DEFAULT_RATING_MIN) params.set(PARAMS.ratingMin, String(filters.ratingMin));
+  if (filters.ratingMax < DEFAULT_RATING_MAX) params.set(PARAMS.ratingMax, String(filters.ratingMax));
+  if (filters.sortBy !== DEFAULT_SORT) params.set(PARAMS.sortBy, filters.sortBy);
+  if (filters.progress !== "all") params.set(PARAMS.progress, filters.progress);
+  if (page > 1) params.set(PARAMS.page, String(page));
+
+  return params;
+}
+
+export function hasFilterParams(params: URLSearchParams): boolean {
+  return Object.values(PARAMS).some(name => params.has(name));
+}
+
+// localStorage keeps the last applied view so a bare visit to "/" can pick up where the user left off.
+// The URL always wins when it carries filters.
+export const FILTERS_STORAGE_KEY = "leetcode-dashboard-filters";
+
+export function saveFilters(filters: AppliedFilters) {
+  const value = JSON.stringify({
+    ...filters,
+    tags: Array.from(filters.tags),
+    requiredTags: Array.from(filters.requiredTags),
+    excludedTags: Array.from(filters.excludedTags),
+    subtags: Array.from(filters.subtags),
+  });
+  localStorage.setItem(FILTERS_STORAGE_KEY, value);
+  pushUserState("filters", value);
+}
+
+export function loadSavedFilters(): AppliedFilters | null {
+  const savedFilters = localStorage.getItem(FILTERS_STORAGE_KEY);
+  if (!savedFilters) return null;
+
+  try {
+    const filters = JSON.parse(savedFilters);
+    return {
+      searchTerm: filters.searchTerm || "",
+      difficulty: filters.difficulty || "all",
+      tags: new Set(filters.tags || []),
+      requiredTags: new Set(filters.requiredTags || []),
+      excludedTags: new Set(filters.excludedTags || []),
+      subtags: new Set(filters.subtags || []),
+      tagQuery: filters.tagQuery || "",
+      contest: filters.contest || "",
+      ratingMin: filters.ratingMin || DEFAULT_RATING_MIN,
+      ratingMax: filters.ratingMax || DEFAULT_RATING_MAX,
+      sortBy: filters.sortBy || DEFAULT_SORT,
+      progress: PROGRESS_FILTERS.includes(filters.progress) ? filters.progress : "all",
+    };
+  } catch (e) {
+    console.error("Failed to load saved filters:", e);
+    return null;
+  }
+}
+
+export function clearSavedFilters() {
+  localStorage.removeItem(FILTERS_STORAGE_KEY);
+  pushUserState("filters", null);
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { executeGraphQL, MAX_QUERY_DEPTH } from "~/lib/graphql.server";
+
+// contests { questions { contest { questions { ... } } } }, `levels` fields deep
+const cyclicQuery = (levels: number) => {
+  let selection = "title";
+  for (let level = levels - 1; level >= 2; level--) {
+    selection = level % 2 === 0 ? `questions { ${selection} }` : `contest { ${selection} }`;
+  }
+  return `{ contests { ${selection} } }`;
+};
+
+describe("executeGraphQL depth limit", () => {
+  it("runs queries up to the limit", async () => {
+    const result = await executeGraphQL({ query: `{ problem(id: 1) { contest { questions { title } } } }` });
+    expect(result.errors).toBeUndefined();
+    expect(result.data).toBeDefined();
+  });
+
+  it("rejects deeper queries before running them", async () => {
+    const result = await executeGraphQL({ query: cyclicQuery(MAX_QUERY_DEPTH + 1) });
+    expect(result.data).toBeUndefined();
+    expect(result.errors?.[0].message).toBe(`Query nests ${MAX_QUERY_DEPTH + 1} levels deep; the limit is ${MAX_QUERY_DEPTH}`);
+  });
+
+  it("counts fields inside fragments", async () => {
+    const query = `
+      query { contests { ...Deep } }
+      fragment Deep on Contest { questions { contest { questions { contest { questions { title } } } } } }
+    `;
+    const result = await executeGraphQL({ query });
+    expect(result.data).toBeUndefined();
+    expect(result.errors?.[0].message).toMatch(/levels deep/);
+  });
+
+  it("doesn't count introspection", async () => {
+    const result = await executeGraphQL({ query: `{ __schema { types { fields { type { ofType { ofType { ofType { name } } } } } } } }` });
+    expect(result.errors).toBeUndefined();
+  });
+
+  it("reports syntax errors without data", async () => {
+    const result = await executeGraphQL({ query: "{ problems(" });
+    expect(result.data).toBeUndefined();
+    expect(result.errors).toHaveLength(1);
+  });
+});
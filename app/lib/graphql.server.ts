@@ -0,0 +1,324 @@
+import {
+  buildSchema,
+  execute,
+  GraphQLError,
+  GraphQLObjectType,
+  Kind,
+  parse,
+  specifiedRules,
+  validate,
+  type ExecutionResult,
+  type FragmentDefinitionNode,
+  type GraphQLFieldResolver,
+  type SelectionSetNode,
+  type ValidationRule,
+} from "graphql";
+import { API_DEFAULT_PAGE_SIZE, API_MAX_PAGE_SIZE } from "~/lib/api";
+import type { Contest } from "~/lib/contests";
+import { createDefaultFilters, DEFAULT_RATING_MAX, DEFAULT_RATING_MIN, type AppliedFilters } from "~/lib/filters";
+import { filterProblems, getContestBySlug, getContests, getProblemById, getProblemBySlug, getTaxonomy } from "~/lib/problems.server";
+import { parseSort } from "~/lib/query";
+import { DIFFICULTIES, type LeetCodeProblem, type TopicTag } from "~/lib/types";
+
+// Read-only GraphQL over the dataset, shaped after LeetCode's own schema so that scripts
+// written against leetcode.com/graphql (question, problemsetQuestionList, topicTags, ...)
+// work with little more than a new URL. `problems` adds rating filters and cursor paging.
+
+const typeDefs = /* GraphQL */ `
+  type Query {
+    "By LeetCode ID or title slug"
+    problem(id: Int, titleSlug: String): Problem
+    "LeetCode's name for a single problem lookup"
+    question(titleSlug: String!): Problem
+    "Cursor-paged problems; orderBy takes the same keys as the dashboard, e.g. \\"rating-desc,id-asc\\""
+    problems(filters: QuestionListFilterInput, orderBy: String, first: Int, after: String): ProblemConnection!
+    "Offset-paged problems in LeetCode's shape"
+    problemsetQuestionList(categorySlug: String, limit: Int, skip: Int, filters: QuestionListFilterInput): QuestionList!
+    questionList(categorySlug: String, limit: Int, skip: Int, filters: QuestionListFilterInput): QuestionList!
+    contest(slug: String!): Contest
+    "Newest first"
+    contests: [Contest!]!
+  }
+
+  input QuestionListFilterInput {
+    "Easy, Medium or Hard, in any case"
+    difficulty: String
+    "Tag names, aliases or slugs; a problem needs all of them"
+    tags: [String!]
+    ratingMin: Int
+    ratingMax: Int
+    searchKeywords: String
+    contestSlug: String
+  }
+
+  type Problem {
+    questionId: String!
+    questionFrontendId: String!
+    title: String!
+    translatedTitle: String!
+    titleSlug: String!
+    "Null until the problem has been looked up on LeetCode"
+    difficulty: String
+    rating: Float!
+    contest: Contest!
+    "Position within the contest, e.g. Q3"
+    problemIndex: String!
+    topicTags: [TopicTag!]!
+    problemDetails: ProblemDetails
+    isEnhanced: Boolean!
+    enhancedAt: String
+  }
+
+  type TopicTag {
+    name: String!
+    slug: String
+    subtags: [String!]!
+  }
+
+  type ProblemDetails {
+    title: String!
+    difficulty: String
+    questionId: String!
+    hasUserSubmission: Boolean
+  }
+
+  type Contest {
+    titleSlug: String!
+    title: String!
+    translatedTitle: String!
+    "weekly or biweekly"
+    kind: String!
+    number: Int!
+    averageRating: Int!
+    totalRating: Int!
+    questions: [Problem!]!
+  }
+
+  type ProblemConnection {
+    totalCount: Int!
+    edges: [ProblemEdge!]!
+    pageInfo: PageInfo!
+  }
+
+  type ProblemEdge {
+    cursor: String!
+    node: Problem!
+  }
+
+  type PageInfo {
+    hasNextPage: Boolean!
+    hasPreviousPage: Boolean!
+    startCursor: String
+    endCursor: String
+  }
+
+  type QuestionList {
+    totalNum: Int!
+    hasMore: Boolean!
+    data: [Problem!]!
+  }
+`;
+
+interface FilterInput {
+  difficulty?: string | null;
+  tags?: string[] | null;
+  ratingMin?: number | null;
+  ratingMax?: number | null;
+  searchKeywords?: string | null;
+  contestSlug?: string | null;
+}
+
+// Cursors are opaque to clients; they encode the position in the ordered result
+const encodeCursor = (offset: number) => Buffer.from(`offset:${offset}`).toString("base64url");
+
+function decodeCursor(cursor: string): number {
+  const match = /^offset:(\d+)$/.exec(Buffer.from(cursor, "base64url").toString());
+  if (!match) throw new GraphQLError(`Invalid cursor "${cursor}"`);
+  return parseInt(match[1], 10);
+}
+
+function pageSize(value: number | null | undefined, name: string): number {
+  if (value === null || value === undefined) return API_DEFAULT_PAGE_SIZE;
+  if (value < 0 || value > API_MAX_PAGE_SIZE) throw new GraphQLError(`${name} must be from 0 to ${API_MAX_PAGE_SIZE}`);
+  return value;
+}
+
+function toFilters(input: FilterInput | null | undefined, orderBy?: string | null): AppliedFilters {
+  const filters = createDefaultFilters();
+  if (orderBy) {
+    if (parseSort(orderBy).length === 0) throw new GraphQLError(`Unknown orderBy "${orderBy}"`);
+    filters.sortBy = orderBy;
+  }
+  if (!input) return filters;
+
+  if (input.difficulty) {
+    const difficulty = DIFFICULTIES.find(name => name.toLowerCase() === input.difficulty?.toLowerCase());
+    if (!difficulty) throw new GraphQLError(`Unknown difficulty "${input.difficulty}"`);
+    filters.difficulty = difficulty;
+  }
+  (input.tags ?? []).forEach(tag => {
+    const node = getTaxonomy().resolve(tag);
+    if (!node) throw new GraphQLError(`Unknown tag "${tag}"`);
+    filters.requiredTags.add(node.name);
+  });
+  filters.ratingMin = input.ratingMin ?? DEFAULT_RATING_MIN;
+  filters.ratingMax = input.ratingMax ?? DEFAULT_RATING_MAX;
+  filters.searchTerm = input.searchKeywords?.trim() ?? "";
+  filters.contest = input.contestSlug ?? "";
+  return filters;
+}
+
+interface ListArgs {
+  limit?: number | null;
+  skip?: number | null;
+  filters?: FilterInput | null;
+}
+
+function questionList(_: unknown, { limit, skip, filters }: ListArgs) {
+  const matching = filterProblems(toFilters(filters));
+  const start = Math.max(0, skip ?? 0);
+  const end = start + pageSize(limit, "limit");
+  return { totalNum: matching.length, hasMore: end < matching.length, data: matching.slice(start, end) };
+}
+
+// Each resolver is typed for its own source and arguments; the schema checks them at runtime
+type Resolvers = Record<string, Record<string, GraphQLFieldResolver<never, unknown, never>>>;
+
+const resolvers = {
+  Query: {
+    problem: (_: unknown, { id, titleSlug }: { id?: number | null; titleSlug?: string | null }) => {
+      if (id !== null && id !== undefined) return getProblemById(id) ?? null;
+      if (titleSlug) return getProblemBySlug(titleSlug) ?? null;
+      throw new GraphQLError("problem needs an id or a titleSlug");
+    },
+    question: (_: unknown, { titleSlug }: { titleSlug: string }) => getProblemBySlug(titleSlug) ?? null,
+    problems: (
+      _: unknown,
+      { filters, orderBy, first, after }: { filters?: FilterInput | null; orderBy?: string | null; first?: number | null; after?: string | null }
+    ) => {
+      const matching = filterProblems(toFilters(filters, orderBy));
+      const start = after ? decodeCursor(after) + 1 : 0;
+      const edges = matching
+        .slice(start, start + pageSize(first, "first"))
+        .map((node, index) => ({ cursor: encodeCursor(start + index), node }));
+      return {
+        totalCount: matching.length,
+        edges,
+        pageInfo: {
+          hasNextPage: start + edges.length < matching.length,
+          hasPreviousPage: start > 0,
+          startCursor: edges[0]?.cursor ?? null,
+          endCursor: edges[edges.length - 1]?.cursor ?? null,
+        },
+      };
+    },
+    problemsetQuestionList: questionList,
+    questionList,
+    contest: (_: unknown, { slug }: { slug: string }) => getContestBySlug(slug) ?? null,
+    contests: () => getContests(),
+  },
+  Problem: {
+    questionId: (problem: LeetCodeProblem) => problem.problemDetails?.questionId ?? String(problem.ID),
+    questionFrontendId: (problem: LeetCodeProblem) => String(problem.ID),
+    title: (problem: LeetCodeProblem) => problem.Title,
+    translatedTitle: (problem: LeetCodeProblem) => problem.TitleZH,
+    titleSlug: (problem: LeetCodeProblem) => problem.TitleSlug,
+    difficulty: (problem: LeetCodeProblem) => problem.problemDetails?.difficulty ?? null,
+    rating: (problem: LeetCodeProblem) => problem.Rating,
+    contest: (problem: LeetCodeProblem) => getContestBySlug(problem.ContestSlug),
+    problemIndex: (problem: LeetCodeProblem) => problem.ProblemIndex,
+    topicTags: (problem: LeetCodeProblem) => problem.topicTags ?? [],
+    problemDetails: (problem: LeetCodeProblem) => problem.problemDetails ?? null,
+    isEnhanced: (problem: LeetCodeProblem) => problem.isEnhanced ?? false,
+    enhancedAt: (problem: LeetCodeProblem) => problem.enhancedAt ?? null,
+  },
+  TopicTag: {
+    slug: (tag: TopicTag) => tag.slug ?? null,
+    subtags: (tag: TopicTag) => tag.subtags ?? [],
+  },
+  Contest: {
+    titleSlug: (contest: Contest) => contest.slug,
+    translatedTitle: (contest: Contest) => contest.titleZH,
+    questions: (contest: Contest) => contest.problems,
+  },
+} as Resolvers;
+
+let schema: ReturnType<typeof buildSchema> | null = null;
+
+// Fields without a resolver here read the property of the same name
+function getSchema() {
+  if (schema) return schema;
+  schema = buildSchema(typeDefs);
+  Object.entries(resolvers).forEach(([typeName, fields]) => {
+    const type = schema?.getType(typeName);
+    if (!(type instanceof GraphQLObjectType)) throw new Error(`No object type ${typeName} in the GraphQL schema`);
+    const typeFields = type.getFields();
+    Object.entries(fields).forEach(([fieldName, resolve]) => {
+      if (!typeFields[fieldName]) throw new Error(`No field ${typeName}.${fieldName} in the GraphQL schema`);
+      typeFields[fieldName].resolve = resolve as GraphQLFieldResolver<unknown, unknown>;
+    });
+  });
+  return schema;
+}
+
+// Contest.questions and Problem.contest lead back to each other, and each level multiplies
+// the response, so queries are capped by how deeply their fields nest
+export const MAX_QUERY_DEPTH = 6;
+
+function depthLimit(maxDepth: number): ValidationRule {
+  return context => {
+    const fragments = new Map(
+      context.getDocument().definitions
+        .filter((definition): definition is FragmentDefinitionNode => definition.kind === Kind.FRAGMENT_DEFINITION)
+        .map(fragment => [fragment.name.value, fragment])
+    );
+
+    // Deepest field below `selectionSet`; fragments count as if written inline. Introspection
+    // (__schema, __type) nests deeply by design and isn't counted.
+    const depthOf = (selectionSet: SelectionSetNode, depth: number, visiting: Set<string>): number =>
+      selectionSet.selections.reduce((deepest, selection) => {
+        if (selection.kind === Kind.FIELD) {
+          if (selection.name.value.startsWith("__")) return deepest;
+          const below = selection.selectionSet ? depthOf(selection.selectionSet, depth + 1, visiting) : depth + 1;
+          return Math.max(deepest, below);
+        }
+        if (selection.kind === Kind.INLINE_FRAGMENT) return Math.max(deepest, depthOf(selection.selectionSet, depth, visiting));
+        const name = selection.name.value;
+        const fragment = fragments.get(name);
+        // Unknown and cyclic fragments are reported by the standard rules
+        if (!fragment || visiting.has(name)) return deepest;
+        return Math.max(deepest, depthOf(fragment.selectionSet, depth, new Set(visiting).add(name)));
+      }, depth);
+
+    return {
+      OperationDefinition(operation) {
+        const depth = depthOf(operation.selectionSet, 0, new Set());
+        if (depth > maxDepth) {
+          context.reportError(new GraphQLError(`Query nests ${depth} levels deep; the limit is ${maxDepth}`, { nodes: operation }));
+        }
+      },
+    };
+  };
+}
+
+export interface GraphQLRequest {
+  query: string;
+  variables?: Record<string, unknown> | null;
+  operationName?: string | null;
+}
+
+// Results without `data` mean the query never ran: a syntax error, or a failed validation
+// such as the depth limit
+export async function executeGraphQL({ query, variables, operationName }: GraphQLRequest): Promise<ExecutionResult> {
+  const schema = getSchema();
+  let document;
+  try {
+    document = parse(query);
+  } catch (e) {
+    if (e instanceof GraphQLError) return { errors: [e] };
+    throw e;
+  }
+  const errors = validate(schema, document, [...specifiedRules, depthLimit(MAX_QUERY_DEPTH)]);
+  if (errors.length > 0) return { errors };
+  return execute({ schema, document, variableValues: variables, operationName });
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { buildLadder, matchesLadderTag } from "~/lib/ladder";
+import { buildTaxonomy } from "~/lib/taxonomy";
+import { problem } from "~/lib/test-fixtures";
+
+const problems = [
+  problem(1, { Rating: 1400, topicTags: [{ name: "Graph", slug: "graph", subtags: ["Dijkstra"] }] }),
+  // Only a child of Graph
+  problem(2, { Rating: 1500, topicTags: [{ name: "Shortest Path", slug: "shortest-path" }] }),
+  // Only an alias of Breadth-First Search
+  problem(3, { Rating: 1600, topicTags: [{ name: "BFS" }] }),
+  problem(4, { Rating: 1700, topicTags: [{ name: "Breadth-First Search", slug: "breadth-first-search" }, { name: "Array", slug: "array" }] }),
+  problem(5, { Rating: 1800, topicTags: [{ name: "Array", slug: "array" }] }),
+];
+
+const { taxonomy } = buildTaxonomy(problems);
+
+describe("matchesLadderTag", () => {
+  it("counts child tags under their parent", () => {
+    expect(problems.filter(p => matchesLadderTag(p, "Graph", taxonomy)).map(p => p.ID)).toEqual([1, 2]);
+  });
+
+  it("resolves aliases on both sides", () => {
+    expect(problems.filter(p => matchesLadderTag(p, "Breadth-First Search", taxonomy)).map(p => p.ID)).toEqual([3, 4]);
+    expect(problems.filter(p => matchesLadderTag(p, "BFS", taxonomy)).map(p => p.ID)).toEqual([3, 4]);
+  });
+
+  it("matches nothing for unknown tags", () => {
+    expect(problems.some(p => matchesLadderTag(p, "No Such Tag", taxonomy))).toBe(false);
+  });
+});
+
+describe("buildLadder", () => {
+  it("climbs through problems tagged only with a child", () => {
+    const ladder = buildLadder(problems, { tag: "Graph", step: 100 }, taxonomy);
+    expect([ladder.from, ladder.to]).toEqual([1400, 1500]);
+    expect(ladder.rungs.map(rung => rung.problem.ID)).toEqual([1, 2]);
+    expect(ladder.gaps).toEqual([]);
+  });
+
+  it("leaves gaps for bands with no problem", () => {
+    const ladder = buildLadder(problems, { tag: "Breadth-First Search", step: 100, from: 1500, to: 1800 }, taxonomy);
+    expect(ladder.rungs.map(rung => rung.problem.ID)).toEqual([3, 4]);
+    expect(ladder.gaps).toEqual([1500, 1800]);
+  });
+});
@@ -0,0 +1,123 @@
+import type { Taxonomy } from "~/lib/taxonomy";
+import type { LeetCodeProblem } from "~/lib/types";
+
+// A ladder climbs one topic in fixed rating steps: one problem per band of `step` points,
+// e.g. 1400, 1500, 1600... with each band covering target ± step / 2.
+export const LADDER_STEPS = [50, 100, 150, 200];
+export const DEFAULT_LADDER_STEP = 100;
+
+export interface LadderOptions {
+  // A top-level tag ("Graph") or a subtag ("Shortest Path")
+  tag: string;
+  step?: number;
+  // Rung targets; default to the topic's own rating range
+  from?: number;
+  to?: number;
+  // Problems the learner skipped; their bands fall back to the next best pick
+  skip?: Set<number>;
+}
+
+export interface LadderRung {
+  target: number;
+  problem: LeetCodeProblem;
+  // Subtags in common with the previous rung
+  sharedSubtags: string[];
+  // Other problems in the same band that could stand in for this one
+  alternatives: number;
+}
+
+export interface Ladder {
+  tag: string;
+  step: number;
+  from: number;
+  to: number;
+  rungs: LadderRung[];
+  // Targets with no problem left in their band
+  gaps: number[];
+}
+
+// Like the filter engine, a problem belongs to a topic when any of its tags resolves to the
+// topic or to something below it, so aliases and child tags count
+export const matchesLadderTag = (problem: LeetCodeProblem, tag: string, taxonomy: Taxonomy) => {
+  const topic = taxonomy.resolve(tag);
+  return topic !== undefined &&
+    taxonomy.problemNodes(problem).some(node => node === topic || taxonomy.ancestors(node.slug).includes(topic));
+};
+
+// For a top-level tag, only its own subtags say how alike two rungs are; for a subtag
+// ladder, every subtag the problems carry counts
+const ladderSubtags = (problem: LeetCodeProblem, tag: string, taxonomy: Taxonomy) => {
+  const topics = problem.topicTags ?? [];
+  const own = topics.filter(topic => taxonomy.resolve(topic.name)?.name === tag);
+  return new Set((own.length > 0 ? own : topics).flatMap(topic => topic.subtags ?? []));
+};
+
+const roundToStep = (rating: number, step: number) => Math.round(rating / step) * step;
+
+export function buildLadder(
+  problems: LeetCodeProblem[],
+  { tag, step = DEFAULT_LADDER_STEP, from, to, skip }: LadderOptions,
+  taxonomy: Taxonomy
+): Ladder {
+  const pool = problems.filter(problem => matchesLadderTag(problem, tag, taxonomy) && !skip?.has(problem.ID));
+  const ratings = pool.map(problem => problem.Rating);
+  const start = from ?? (ratings.length > 0 ? roundToStep(Math.min(...ratings), step) : 0);
+  const end = Math.max(start, to ?? (ratings.length > 0 ? roundToStep(Math.max(...ratings), step) : start));
+
+  const bands: { target: number; candidates: LeetCodeProblem[] }[] = [];
+  const gaps: number[] = [];
+  for (let target = start; target <= end; target += step) {
+    const candidates = pool.filter(problem => problem.Rating >= target - step / 2 && problem.Rating < target + step / 2);
+    if (candidates.length > 0) bands.push({ target, candidates });
+    else gaps.push(target);
+  }
+
+  // Pick one problem per band so the whole climb shares as many subtags as possible
+  // between neighbours, preferring problems close to each band's target. A greedy walk
+  // would lock in the first rung before knowing where the ladder goes, so this is a
+  // best-path search over the bands instead.
+  const subtags = new Map(pool.map(problem => [problem.ID, ladderSubtags(problem, tag, taxonomy)]));
+  const shared = (a: LeetCodeProblem, b: LeetCodeProblem) =>
+    Array.from(subtags.get(a.ID) ?? []).filter(subtag => subtags.get(b.ID)?.has(subtag)).sort();
+  const closeness = (problem: LeetCodeProblem, target: number) => -Math.abs(problem.Rating - target) / step;
+
+  let scores = bands[0]?.candidates.map(problem => closeness(problem, bands[0].target)) ?? [];
+  const previousPick: number[][] = [];
+  for (let i = 1; i < bands.length; i++) {
+    const before = bands[i - 1].candidates;
+    const picks: number[] = [];
+    scores = bands[i].candidates.map(problem => {
+      let best = 0;
+      let bestScore = -Infinity;
+      before.forEach((previous, index) => {
+        const score = scores[index] + Math.min(shared(previous, problem).length, 2);
+        if (score > bestScore) {
+          bestScore = score;
+          best = index;
+        }
+      });
+      picks.push(best);
+      return bestScore + closeness(problem, bands[i].target);
+    });
+    previousPick[i] = picks;
+  }
+
+  const chosen: number[] = [];
+  let index = scores.indexOf(Math.max(...scores));
+  for (let i = bands.length - 1; i >= 0; i--) {
+    chosen[i] = index;
+    index = previousPick[i]?.[index] ?? 0;
+  }
+
+  const rungs = bands.map((band, i): LadderRung => {
+    const problem = band.candidates[chosen[i]];
+    return {
+      target: band.target,
+      problem,
+      sharedSubtags: i > 0 ? shared(bands[i - 1].candidates[chosen[i - 1]], problem) : [],
+      alternatives: band.candidates.length - 1,
+    };
+  });
+
+  return { tag, step, from: start, to: end, rungs, gaps };
+}
@@ -0,0 +1,20 @@
+import { mkdirSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+
+// Local stand-in for a mail service: each message is written to MAIL_OUTBOX as a text file
+// and echoed to the server log, so sign-in links work without any mail setup.
+const MAIL_OUTBOX = process.env.MAIL_OUTBOX ?? ".data/mail";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export function sendMail({ to, subject, text }: MailMessage) {
+  mkdirSync(MAIL_OUTBOX, { recursive: true });
+  const sentAt = new Date().toISOString();
+  const file = join(MAIL_OUTBOX, `${sentAt.replace(/[:.]/g, "-")}-${to.replace(/[^a-z0-9@.-]/gi, "_")}.txt`);
+  writeFileSync(file, `To: ${to}\nDate: ${sentAt}\nSubject: ${subject}\n\n${text}\n`);
+  console.info(`Mail to ${to}: ${subject} (${file})\n${text}`);
+}
@@ -0,0 +1,245 @@
+import { API_DEFAULT_PAGE_SIZE, API_MAX_PAGE_SIZE } from "~/lib/api";
+import { DEFAULT_RATING_MAX, DEFAULT_RATING_MIN, DEFAULT_SORT } from "~/lib/filters";
+import { DIFFICULTIES } from "~/lib/types";
+
+// Describes the shapes in app/lib/api.ts. Bump the minor version for additions and the major
+// version for anything that could break an existing client.
+export const API_VERSION = "1.0.0";
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+const paramRef = (name: string) => ({ $ref: `#/components/parameters/${name}` });
+
+const stringArray = { type: "array", items: { type: "string" } };
+
+const tagParam = (name: string, description: string) => ({
+  name,
+  in: "query",
+  description,
+  schema: stringArray,
+  style: "form",
+  explode: true,
+});
+
+const errorResponses = {
+  "400": { description: "Invalid parameter", content: { "application/json": { schema: ref("Error") } } },
+};
+
+const notFound = {
+  "404": { description: "Not found", content: { "application/json": { schema: ref("Error") } } },
+};
+
+const cached = (description: string, schema: object) => ({
+  description,
+  headers: {
+    ETag: { schema: { type: "string" } },
+    "Cache-Control": { schema: { type: "string" } },
+  },
+  content: { "application/json": { schema } },
+});
+
+const notModified = { "304": { description: "Unchanged since the ETag sent in If-None-Match" } };
+
+const filterParams = [
+  "search",
+  "difficulty",
+  "tag",
+  "requireTag",
+  "excludeTag",
+  "subtag",
+  "tagQuery",
+  "contest",
+  "ratingMin",
+  "ratingMax",
+].map(paramRef);
+
+export const openApiDocument = {
+  openapi: "3.1.0",
+  info: {
+    title: "LeetCode Problems Dashboard API",
+    version: API_VERSION,
+    description:
+      "Read-only access to the problem dataset. Filters take the same parameters as the dashboard's URL. " +
+      "Responses carry an ETag; send it back in If-None-Match to get a 304 while the data is unchanged.",
+  },
+  paths: {
+    "/api/problems": {
+      get: {
+        summary: "Filtered, sorted and paged problems",
+        parameters: [...filterParams, paramRef("sortBy"), paramRef("page"), paramRef("pageSize")],
+        responses: { "200": cached("One page of problems", ref("ProblemPage")), ...notModified, ...errorResponses },
+      },
+    },
+    "/api/problems/{id}": {
+      get: {
+        summary: "One problem by its LeetCode ID",
+        parameters: [{ name: "id", in: "path", required: true, schema: { type: "integer" } }],
+        responses: { "200": cached("The problem", ref("Problem")), ...notModified, ...errorResponses, ...notFound },
+      },
+    },
+    "/api/random": {
+      get: {
+        summary: "A random problem matching the filters",
+        description: "Not cached; every call picks again.",
+        parameters: filterParams,
+        responses: {
+          "200": { description: "The problem", content: { "application/json": { schema: ref("Problem") } } },
+          ...errorResponses,
+          "404": { description: "No problem matches the filters", content: { "application/json": { schema: ref("Error") } } },
+        },
+      },
+    },
+    "/api/tags": {
+      get: {
+        summary: "The tag taxonomy as a tree",
+        responses: { "200": cached("Top-level tags with everything below them", { type: "array", items: ref("Tag") }), ...notModified },
+      },
+    },
+    "/api/contests": {
+      get: {
+        summary: "All contests, newest first",
+        responses: { "200": cached("Contests", { type: "array", items: ref("ContestSummary") }), ...notModified },
+      },
+    },
+    "/api/contests/{slug}": {
+      get: {
+        summary: "One contest with its problems",
+        parameters: [{ name: "slug", in: "path", required: true, schema: { type: "string" }, example: "weekly-contest-408" }],
+        responses: { "200": cached("The contest", ref("Contest")), ...notModified, ...notFound },
+      },
+    },
+    "/api/openapi.json": {
+      get: {
+        summary: "This document",
+        responses: { "200": cached("OpenAPI document", { type: "object" }), ...notModified },
+      },
+    },
+  },
+  components: {
+    parameters: {
+      search: { name: "search", in: "query", description: "Free-text search over titles, tags and IDs", schema: { type: "string" } },
+      difficulty: { name: "difficulty", in: "query", schema: { type: "string", enum: DIFFICULTIES } },
+      tag: tagParam("tag", "Any of these tags (or their aliases)"),
+      requireTag: tagParam("requireTag", "All of these tags"),
+      excludeTag: tagParam("excludeTag", "None of these tags"),
+      subtag: tagParam("subtag", "Any of these subtags, or anything below them in the taxonomy"),
+      tagQuery: {
+        name: "tagQuery",
+        in: "query",
+        description: "Boolean tag expression, e.g. \"Graph AND NOT Tree\"",
+        schema: { type: "string" },
+      },
+      contest: { name: "contest", in: "query", schema: { type: "string" }, example: "weekly-contest-408" },
+      ratingMin: { name: "ratingMin", in: "query", schema: { type: "integer", default: DEFAULT_RATING_MIN } },
+      ratingMax: { name: "ratingMax", in: "query", schema: { type: "integer", default: DEFAULT_RATING_MAX } },
+      sortBy: {
+        name: "sortBy",
+        in: "query",
+        description:
+          "Comma-separated keys in priority order: rating, id or title with -asc or -desc, or relevance " +
+          "(needs a search). Remaining ties go by rating, then dataset order.",
+        schema: { type: "string", default: DEFAULT_SORT },
+        example: "rating-desc,id-asc",
+      },
+      page: {
+        name: "page",
+        in: "query",
+        description: "Pages past totalPages return no problems",
+        schema: { type: "integer", minimum: 1, default: 1 },
+      },
+      pageSize: { name: "pageSize", in: "query", schema: { type: "integer", minimum: 1, maximum: API_MAX_PAGE_SIZE, default: API_DEFAULT_PAGE_SIZE } },
+    },
+    schemas: {
+      Problem: {
+        type: "object",
+        required: ["id", "title", "titleZH", "slug", "url", "rating", "difficulty", "contest", "tags"],
+        properties: {
+          id: { type: "integer" },
+          title: { type: "string" },
+          titleZH: { type: "string" },
+          slug: { type: "string" },
+          url: { type: "string", format: "uri" },
+          rating: { type: "number" },
+          difficulty: { type: ["string", "null"], enum: [...DIFFICULTIES, null] },
+          contest: {
+            type: "object",
+            required: ["slug", "title", "index"],
+            properties: {
+              slug: { type: "string" },
+              title: { type: "string" },
+              index: { type: "string", example: "Q3" },
+            },
+          },
+          tags: {
+            type: "array",
+            items: {
+              type: "object",
+              required: ["name", "subtags"],
+              properties: { name: { type: "string" }, subtags: stringArray },
+            },
+          },
+        },
+      },
+      ProblemPage: {
+        type: "object",
+        required: ["problems", "total", "page", "pageSize", "totalPages", "tagQueryErrors"],
+        properties: {
+          problems: { type: "array", items: ref("Problem") },
+          total: { type: "integer" },
+          page: { type: "integer" },
+          pageSize: { type: "integer" },
+          totalPages: { type: "integer" },
+          tagQueryErrors: { ...stringArray, description: "Why tagQuery was ignored, if it was" },
+        },
+      },
+      Tag: {
+        type: "object",
+        required: ["slug", "name", "aliases", "leetcode", "problemCount", "children"],
+        properties: {
+          slug: { type: "string" },
+          name: { type: "string" },
+          aliases: stringArray,
+          leetcode: { type: "boolean", description: "One of LeetCode's topic tags rather than a subtag" },
+          problemCount: { type: "integer" },
+          children: { type: "array", items: ref("Tag") },
+        },
+      },
+      ContestSummary: {
+        type: "object",
+        required: ["slug", "title", "titleZH", "kind", "number", "averageRating", "problemCount"],
+        properties: {
+          slug: { type: "string" },
+          title: { type: "string" },
+          titleZH: { type: "string" },
+          kind: { type: "string", enum: ["weekly", "biweekly"] },
+          number: { type: "integer" },
+          averageRating: { type: "integer" },
+          problemCount: { type: "integer" },
+        },
+      },
+      Contest: {
+        allOf: [
+          ref("ContestSummary"),
+          {
+            type: "object",
+            required: ["totalRating", "problems"],
+            properties: {
+              totalRating: { type: "integer" },
+              problems: { type: "array", items: ref("Problem") },
+            },
+          },
+        ],
+      },
+      Error: {
+        type: "object",
+        required: ["error"],
+        properties: {
+          error: {
+            type: "object",
+            required: ["status", "message"],
+            properties: { status: { type: "integer" }, message: { type: "string" } },
+          },
+        },
+      },
+    },
+  },
+};
@@ -0,0 +1,289 @@
+import problemsData from "~/data/problems.json";
+import { groupContests, sortContests, type Contest } from "~/lib/contests";
+import { checkDataset, summarizeIssues, type DataHealthSummary } from "~/lib/data-health";
+import { FilterEngine, type FacetCounts, type FilterContext } from "~/lib/facets";
+import type { AppliedFilters } from "~/lib/filters";
+import type { ProblemStatus } from "~/lib/progress";
+import { paginate, parseSort, sortProblems, type ProblemQuery, type SortKey } from "~/lib/query";
+import { SearchIndex, type SearchResults } from "~/lib/search";
+import { canonicalizeTagQuery, checkTagQuery, type TagQueryNode } from "~/lib/tag-query";
+import type { DataIssue } from "~/lib/schema";
+import { buildTaxonomy, type TagTreeNode, type Taxonomy, type TaxonomyIssue } from "~/lib/taxonomy";
+import type { Difficulty, LeetCodeProblem } from "~/lib/types";
+
+export const PAGE_SIZE = 50;
+
+// Checked once when the server starts; anything that doesn't fit the schema is left out
+// and listed on /admin/data-health
+const { problems, issues: dataIssues } = checkDataset(problemsData);
+
+const dataErrors = dataIssues.filter(issue => issue.severity === "error").length;
+if (dataErrors > 0) {
+  console.warn(`problems.json has ${dataErrors} data errors, see /admin/data-health`);
+}
+
+// Built from the loaded problems, so every tag name in the dataset has a node
+const { taxonomy, issues: taxonomyIssues } = buildTaxonomy(problems);
+
+export function getTaxonomy(): Taxonomy {
+  return taxonomy;
+}
+
+export function getAllProblems(): LeetCodeProblem[] {
+  return problems;
+}
+
+export interface DataHealth {
+  summary: DataHealthSummary;
+  issues: DataIssue[];
+  taxonomyIssues: TaxonomyIssue[];
+}
+
+export function getDataHealth(): DataHealth {
+  const total = Array.isArray(problemsData) ? problemsData.length : 0;
+  return { summary: summarizeIssues(total, problems.length, dataIssues), issues: dataIssues, taxonomyIssues };
+}
+
+export interface TagIndex {
+  // Top-level tags of the taxonomy
+  allTags: string[];
+  // Everything below each top-level tag, at any depth
+  subtagsByTag: Record<string, string[]>;
+  // Alternative spelling to canonical name
+  aliases: Record<string, string>;
+  tree: TagTreeNode[];
+}
+
+let tagIndex: TagIndex | null = null;
+
+// The plain-data view of the taxonomy that loaders send to the client
+export function getTagIndex(): TagIndex {
+  if (tagIndex) return tagIndex;
+
+  const roots = taxonomy.roots();
+  const subtagsByTag: Record<string, string[]> = {};
+  roots.forEach(root => {
+    subtagsByTag[root.name] = taxonomy.descendants(root.slug).map(node => node.name).sort();
+  });
+  const aliases: Record<string, string> = {};
+  taxonomy.nodes.forEach(node => node.aliases.forEach(alias => (aliases[alias] = node.name)));
+
+  tagIndex = { allTags: roots.map(root => root.name), subtagsByTag, aliases, tree: taxonomy.tree() };
+  return tagIndex;
+}
+
+let contests: Contest[] | null = null;
+
+// Newest first
+export function getContests(): Contest[] {
+  contests ??= sortContests(groupContests(problems), "newest");
+  return contests;
+}
+
+let contestsBySlug: Map<string, Contest> | null = null;
+
+export function getContestBySlug(slug: string): Contest | undefined {
+  contestsBySlug ??= new Map(getContests().map(contest => [contest.slug, contest]));
+  return contestsBySlug.get(slug);
+}
+
+let knownTagNames: string[] | null = null;
+
+// Canonical names and their aliases
+export function getKnownTagNames(): string[] {
+  knownTagNames ??= taxonomy.names();
+  return knownTagNames;
+}
+
+let searchIndex: SearchIndex | null = null;
+const SEARCH_CACHE_SIZE = 32;
+const searchCache = new Map<string, SearchResults>();
+
+// One page load runs the same query several times (filtering, ranking, highlighting), and
+// requests from different users interleave, so the most recently used results are kept.
+// A Map iterates in insertion order, so re-inserting on a hit makes the first key the oldest.
+export function searchProblems(query: string): SearchResults {
+  const cached = searchCache.get(query);
+  if (cached) {
+    searchCache.delete(query);
+    searchCache.set(query, cached);
+    return cached;
+  }
+
+  searchIndex ??= new SearchIndex(problems, taxonomy);
+  const results = searchIndex.search(query);
+  searchCache.set(query, results);
+  if (searchCache.size > SEARCH_CACHE_SIZE) {
+    const oldest = searchCache.keys().next().value;
+    if (oldest !== undefined) searchCache.delete(oldest);
+  }
+  return results;
+}
+
+export interface SearchSuggestions {
+  problems: Pick<LeetCodeProblem, "ID" | "Title" | "TitleSlug" | "Rating">[];
+  tags: string[];
+}
+
+// Type-ahead: the best few problems plus tags whose name or an alias contains the query.
+// Tags always come back under their canonical name.
+export function suggestSearch(query: string, limit = 6): SearchSuggestions {
+  const trimmed = query.trim();
+  if (!trimmed) return { problems: [], tags: [] };
+
+  const lower = trimmed.toLowerCase();
+  const tags = taxonomy.nodes
+    .map(node => ({ node, spellings: [node.name, ...node.aliases].map(name => name.toLowerCase()) }))
+    .filter(({ spellings }) => spellings.some(name => name.includes(lower)))
+    .sort((a, b) =>
+      Number(b.spellings.some(name => name.startsWith(lower))) - Number(a.spellings.some(name => name.startsWith(lower))) ||
+      a.node.name.length - b.node.name.length
+    )
+    .map(({ node }) => node.name)
+    .slice(0, 4);
+
+  return {
+    problems: searchProblems(trimmed).matches
+      .slice(0, limit)
+      .map(({ problem }) => ({ ID: problem.ID, Title: problem.Title, TitleSlug: problem.TitleSlug, Rating: problem.Rating })),
+    tags,
+  };
+}
+
+// The typed part of the tag filter, with aliases turned into canonical names. A query that
+// fails to parse or names unknown tags is reported and left out rather than silently
+// matching nothing. The badge selection is applied by the filter engine directly.
+export function resolveTagQuery(filters: AppliedFilters): { node: TagQueryNode | null; errors: string[] } {
+  if (!filters.tagQuery) return { node: null, errors: [] };
+  const resolve = (name: string) => taxonomy.resolve(name)?.name;
+  const { node, errors } = checkTagQuery(filters.tagQuery, getKnownTagNames(), resolve);
+  return { node: node && canonicalizeTagQuery(node, resolve), errors };
+}
+
+let filterEngine: FilterEngine | null = null;
+
+const filterContext = (filters: AppliedFilters, statuses: Map<number, ProblemStatus>): FilterContext => ({
+  statuses,
+  searchIds: filters.searchTerm ? searchProblems(filters.searchTerm).matches.map(({ problem }) => problem.ID) : null,
+  tagQuery: resolveTagQuery(filters).node,
+});
+
+// `statuses` is the user's progress (see getProgressStatuses); without it every problem counts as unsolved.
+// `sort` defaults to the order in the filters.
+export function filterProblems(
+  filters: AppliedFilters,
+  statuses = new Map<number, ProblemStatus>(),
+  sort: SortKey[] = parseSort(filters.sortBy)
+): LeetCodeProblem[] {
+  filterEngine ??= new FilterEngine(problems, taxonomy);
+  const filtered = filterEngine.match(filters, filterContext(filters, statuses));
+  // Relevance only means something with a search term; otherwise it falls back to rating
+  const relevance = filters.searchTerm
+    ? new Map(searchProblems(filters.searchTerm).matches.map(({ problem, score }) => [problem.ID, score]))
+    : null;
+  return sortProblems(filtered, sort, relevance);
+}
+
+// How many problems each filter option would leave, given the rest of `filters`
+export function getFacetCounts(filters: AppliedFilters, statuses = new Map<number, ProblemStatus>()): FacetCounts {
+  filterEngine ??= new FilterEngine(problems, taxonomy);
+  return filterEngine.facets(filters, filterContext(filters, statuses));
+}
+
+export interface ProblemPage {
+  problems: LeetCodeProblem[];
+  total: number;
+  page: number;
+  totalPages: number;
+  tagQueryErrors: string[];
+  // Index terms the search matched, for highlighting
+  searchTerms: string[];
+}
+
+export function queryProblems({ filters, sort, page, pageSize }: ProblemQuery, statuses?: Map<number, ProblemStatus>): ProblemPage {
+  const { items, total, page: currentPage, totalPages } = paginate(filterProblems(filters, statuses, sort), page, pageSize);
+
+  return {
+    problems: items,
+    total,
+    page: currentPage,
+    totalPages,
+    tagQueryErrors: resolveTagQuery(filters).errors,
+    searchTerms: filters.searchTerm ? searchProblems(filters.searchTerm).terms : [],
+  };
+}
+
+let problemsBySlug: Map<string, LeetCodeProblem> | null = null;
+
+export function getProblemBySlug(slug: string): LeetCodeProblem | undefined {
+  if (!problemsBySlug) {
+    problemsBySlug = new Map(problems.map(problem => [problem.TitleSlug, problem]));
+  }
+  return problemsBySlug.get(slug);
+}
+
+let problemsById: Map<number, LeetCodeProblem> | null = null;
+
+export function getProblemById(id: number): LeetCodeProblem | undefined {
+  problemsById ??= new Map(problems.map(problem => [problem.ID, problem]));
+  return problemsById.get(id);
+}
+
+export interface ProblemSummary {
+  ID: number;
+  Title: string;
+  TitleSlug: string;
+  Rating: number;
+  difficulty: Difficulty | null;
+  tags: string[];
+}
+
+// Slim records in the requested order; unknown IDs are skipped
+export function getProblemSummaries(ids: number[]): ProblemSummary[] {
+  return ids.flatMap(id => {
+    const problem = getProblemById(id);
+    if (!problem) return [];
+    return [{
+      ID: problem.ID,
+      Title: problem.Title,
+      TitleSlug: problem.TitleSlug,
+      Rating: problem.Rating,
+      difficulty: problem.problemDetails?.difficulty ?? null,
+      tags: (problem.topicTags ?? []).map(tag => tag.name),
+    }];
+  });
+}
+
+const collectSubtags = (problem: LeetCodeProblem) => {
+  const subtags = new Set<string>();
+  problem.topicTags?.forEach(tag => tag.subtags?.forEach(subtag => subtags.add(subtag)));
+  return subtags;
+};
+
+export interface SimilarProblem {
+  problem: LeetCodeProblem;
+  sharedSubtags: string[];
+}
+
+// Problems sharing at least one subtag within +/- ratingBand, most shared subtags first, then closest rating
+export function getSimilarProblems(target: LeetCodeProblem, limit = 10, ratingBand = 200): SimilarProblem[] {
+  const targetSubtags = collectSubtags(target);
+  if (targetSubtags.size === 0) return [];
+
+  const candidates: SimilarProblem[] = [];
+  problems.forEach(problem => {
+    if (problem.ID === target.ID || Math.abs(problem.Rating - target.Rating) > ratingBand) return;
+
+    const sharedSubtags = Array.from(collectSubtags(problem)).filter(subtag => targetSubtags.has(subtag));
+    if (sharedSubtags.length > 0) {
+      candidates.push({ problem, sharedSubtags: sharedSubtags.sort() });
+    }
+  });
+
+  return candidates
+    .sort((a, b) =>
+      b.sharedSubtags.length - a.sharedSubtags.length ||
+      Math.abs(a.problem.Rating - target.Rating) - Math.abs(b.problem.Rating - target.Rating)
+    )
+    .slice(0, limit);
+}
@@ -0,0 +1,22 @@
+import { describe, expect, it } from "vitest";
+import { encodeProgressDigest } from "~/lib/progress";
+import { getProgressStatuses } from "~/lib/progress.server";
+
+const withCookie = (cookie: string) => new Request("http://localhost/", { headers: { Cookie: cookie } });
+
+describe("getProgressStatuses", () => {
+  it("reads the statuses mirrored into the cookie", () => {
+    const digest = encodeProgressDigest({
+      1: { status: "solved", updatedAt: "2026-01-01T00:00:00.000Z" },
+      42: { status: "revisit", updatedAt: "2026-01-01T00:00:00.000Z" },
+    });
+    const statuses = getProgressStatuses(withCookie(`theme=dark; stepcode-progress=${encodeURIComponent(digest)}`));
+    expect(Array.from(statuses)).toEqual([[1, "solved"], [42, "revisit"]]);
+  });
+
+  it("treats a missing or malformed cookie as no progress", () => {
+    expect(getProgressStatuses(new Request("http://localhost/")).size).toBe(0);
+    expect(getProgressStatuses(withCookie("stepcode-progress=%E0")).size).toBe(0);
+    expect(getProgressStatuses(withCookie("stepcode-progress=!!!.@@")).size).toBe(0);
+  });
+});
@@ -0,0 +1,18 @@
+import { decodeProgressDigest, PROGRESS_COOKIE, type ProblemStatus } from "~/lib/progress";
+
+// Reads the status digest the browser mirrors from localStorage (see writeProgressCookie)
+export function getProgressStatuses(request: Request): Map<number, ProblemStatus> {
+  const cookieHeader = request.headers.get("Cookie") ?? "";
+  const cookie = cookieHeader
+    .split(";")
+    .map(part => part.trim())
+    .find(part => part.startsWith(`${PROGRESS_COOKIE}=`));
+
+  if (!cookie) return new Map();
+  try {
+    return decodeProgressDigest(decodeURIComponent(cookie.slice(PROGRESS_COOKIE.length + 1)));
+  } catch {
+    // Badly escaped, like a malformed digest, just means no known progress
+    return new Map();
+  }
+}
@@ -0,0 +1,42 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { applyProgressUpdate, todayISODate, toLocalISODate } from "~/lib/progress";
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("toLocalISODate", () => {
+  it("formats the local calendar date", () => {
+    expect(toLocalISODate(new Date(2026, 0, 5, 23, 59))).toBe("2026-01-05");
+    expect(toLocalISODate(new Date(2026, 11, 31, 0, 1))).toBe("2026-12-31");
+  });
+});
+
+describe("todayISODate", () => {
+  it("rolls over at local midnight", () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(2026, 2, 14, 23, 30));
+    expect(todayISODate()).toBe("2026-03-14");
+    vi.setSystemTime(new Date(2026, 2, 15, 0, 30));
+    expect(todayISODate()).toBe("2026-03-15");
+  });
+});
+
+describe("applyProgressUpdate", () => {
+  it("stamps the local solved date the first time a problem is solved", () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(2026, 5, 1, 0, 15));
+    const solved = applyProgressUpdate({}, 7, { status: "solved" });
+    expect(solved[7]).toMatchObject({ status: "solved", solvedAt: "2026-06-01" });
+    vi.setSystemTime(new Date(2026, 5, 3, 12));
+    expect(applyProgressUpdate(solved, 7, { notes: "two pointers" })[7].solvedAt).toBe("2026-06-01");
+  });
+
+  it("shrinks entries that carry nothing to their timestamp", () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-06-01T10:00:00Z"));
+    const progress = applyProgressUpdate({}, 7, { status: "solved", notes: "" });
+    vi.setSystemTime(new Date("2026-06-02T10:00:00Z"));
+    expect(applyProgressUpdate(progress, 7, { status: "unsolved" })).toEqual({ 7: { status: "unsolved", updatedAt: "2026-06-02T10:00:00.000Z" } });
+  });
+});
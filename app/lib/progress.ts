@@ -0,0 +1,158 @@
+import { pushUserState } from "~/lib/account-sync";
+
+export type ProblemStatus = "unsolved" | "attempted" | "solved" | "revisit";
+
+export const PROBLEM_STATUSES: ProblemStatus[] = ["unsolved", "attempted", "solved", "revisit"];
+
+export const statusLabels: Record<ProblemStatus, string> = {
+  unsolved: "Unsolved",
+  attempted: "Attempted",
+  solved: "Solved",
+  revisit: "Revisit",
+};
+
+export const statusColors: Record<ProblemStatus, string> = {
+  unsolved: "text-slate-600 bg-slate-100 border-slate-300 dark:text-slate-300 dark:bg-gray-700 dark:border-gray-600",
+  attempted: "text-orange-700 bg-orange-100 border-orange-300 dark:text-orange-300 dark:bg-orange-900/30 dark:border-orange-700",
+  solved: "text-green-700 bg-green-100 border-green-300 dark:text-green-300 dark:bg-green-900/30 dark:border-green-700",
+  revisit: "text-purple-700 bg-purple-100 border-purple-300 dark:text-purple-300 dark:bg-purple-900/30 dark:border-purple-700",
+};
+
+export interface ProblemProgress {
+  status: ProblemStatus;
+  solvedAt?: string; // YYYY-MM-DD
+  notes?: string;
+  updatedAt: string;
+}
+
+// Keyed by LeetCodeProblem.ID
+export type ProgressMap = Record<number, ProblemProgress>;
+
+export type ProgressFilter = "all" | "hide-solved" | "only-solved" | "only-attempted" | "only-revisit";
+
+export const PROGRESS_FILTERS: ProgressFilter[] = ["all", "hide-solved", "only-solved", "only-attempted", "only-revisit"];
+
+export const progressFilterLabels: Record<ProgressFilter, string> = {
+  "all": "All Problems",
+  "hide-solved": "Hide Solved",
+  "only-solved": "Only Solved",
+  "only-attempted": "Only Attempted",
+  "only-revisit": "Only Revisit",
+};
+
+export function matchesProgressFilter(filter: ProgressFilter, status: ProblemStatus): boolean {
+  switch (filter) {
+    case "hide-solved": return status !== "solved";
+    case "only-solved": return status === "solved";
+    case "only-attempted": return status === "attempted";
+    case "only-revisit": return status === "revisit";
+    default: return true;
+  }
+}
+
+// YYYY-MM-DD in the user's time zone, so days roll over at local midnight rather than UTC's
+export const toLocalISODate = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+
+export const todayISODate = () => toLocalISODate(new Date());
+
+// Applies a partial update, stamping the solved date the first time a problem is marked solved.
+// Entries that carry no information (unsolved, no notes) shrink to their status and timestamp
+// rather than going away, so clearing a problem on one device outlasts an older copy of it
+// when the account merges in another device's progress.
+export function applyProgressUpdate(progress: ProgressMap, id: number, update: Partial<ProblemProgress>): ProgressMap {
+  const current = progress[id] ?? { status: "unsolved", updatedAt: "" };
+  const next: ProblemProgress = { ...current, ...update, updatedAt: new Date().toISOString() };
+
+  if (next.status === "solved" && !next.solvedAt) {
+    next.solvedAt = todayISODate();
+  }
+  if (!next.notes) {
+    delete next.notes;
+  }
+
+  const cleared = next.status === "unsolved" && !next.notes;
+  return { ...progress, [id]: cleared ? { status: "unsolved", updatedAt: next.updatedAt } : next };
+}
+
+export const PROGRESS_STORAGE_KEY = "leetcode-dashboard-progress";
+
+export function loadProgress(): ProgressMap {
+  const saved = localStorage.getItem(PROGRESS_STORAGE_KEY);
+  if (!saved) return {};
+
+  try {
+    return JSON.parse(saved) as ProgressMap;
+  } catch (e) {
+    console.error("Failed to load saved progress:", e);
+    return {};
+  }
+}
+
+export function saveProgress(progress: ProgressMap) {
+  const value = JSON.stringify(progress);
+  localStorage.setItem(PROGRESS_STORAGE_KEY, value);
+  pushUserState("progress", value);
+  writeProgressCookie(progress);
+}
+
+// The full progress map stays in localStorage. The server only needs each problem's status
+// to filter, so that is mirrored into a cookie as one bitset per status, indexed by problem ID.
+// That keeps the cookie well under the 4KB limit no matter how many problems are tracked.
+export const PROGRESS_COOKIE = "stepcode-progress";
+
+const DIGEST_STATUSES: ProblemStatus[] = ["attempted", "solved", "revisit"];
+
+const encodeBitset = (ids: number[]) => {
+  if (ids.length === 0) return "";
+  const bytes = new Uint8Array(Math.floor(Math.max(...ids) / 8) + 1);
+  ids.forEach(id => {
+    bytes[id >> 3] |= 1 << (id & 7);
+  });
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+};
+
+const decodeBitset = (encoded: string) => {
+  const ids: number[] = [];
+  if (!encoded) return ids;
+
+  const binary = atob(encoded.replace(/-/g, "+").replace(/_/g, "/"));
+  for (let byte = 0; byte < binary.length; byte++) {
+    const bits = binary.charCodeAt(byte);
+    for (let bit = 0; bit < 8; bit++) {
+      if (bits & (1 << bit)) ids.push(byte * 8 + bit);
+    }
+  }
+  return ids;
+};
+
+export function encodeProgressDigest(progress: ProgressMap): string {
+  return DIGEST_STATUSES.map(status =>
+    encodeBitset(
+      Object.entries(progress)
+        .filter(([, entry]) => entry.status === status)
+        .map(([id]) => Number(id))
+    )
+  ).join(".");
+}
+
+export function decodeProgressDigest(digest: string): Map<number, ProblemStatus> {
+  const statuses = new Map<number, ProblemStatus>();
+  try {
+    digest.split(".").forEach((encoded, index) => {
+      const status = DIGEST_STATUSES[index];
+      if (status) decodeBitset(encoded).forEach(id => statuses.set(id, status));
+    });
+  } catch {
+    // A malformed cookie just means no known progress
+    return new Map();
+  }
+  return statuses;
+}
+
+export function writeProgressCookie(progress: ProgressMap) {
+  document.cookie = `${PROGRESS_COOKIE}=${encodeProgressDigest(progress)}; path=/; max-age=31536000; samesite=lax`;
+}
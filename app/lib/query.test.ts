@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_SORT_KEYS, describeSort, formatSort, paginate, parseSort, sortProblems } from "~/lib/query";
+import { problem } from "~/lib/test-fixtures";
+import type { LeetCodeProblem } from "~/lib/types";
+
+const ids = (problems: LeetCodeProblem[]) => problems.map(p => p.ID);
+
+describe("parseSort", () => {
+  it("reads keys in priority order", () => {
+    expect(parseSort("rating-desc,id-asc")).toEqual([
+      { field: "rating", direction: "desc" },
+      { field: "id", direction: "asc" },
+    ]);
+  });
+
+  it("takes relevance bare and ranks best matches first", () => {
+    expect(parseSort("relevance,title-asc")).toEqual([
+      { field: "relevance", direction: "desc" },
+      { field: "title", direction: "asc" },
+    ]);
+    expect(parseSort("relevance-asc")).toEqual([]);
+  });
+
+  it("drops unknown fields, bad directions and repeats", () => {
+    expect(parseSort("votes-desc")).toEqual([]);
+    expect(parseSort("rating-sideways,rating-up-desc")).toEqual([]);
+    expect(parseSort("id-asc,id-desc, title-desc ,")).toEqual([
+      { field: "id", direction: "asc" },
+      { field: "title", direction: "desc" },
+    ]);
+    expect(parseSort("")).toEqual([]);
+  });
+
+  it("round-trips through formatSort", () => {
+    const value = "relevance,rating-desc,id-asc";
+    expect(formatSort(parseSort(value))).toBe(value);
+  });
+});
+
+describe("describeSort", () => {
+  it("lists keys with their direction", () => {
+    expect(describeSort(parseSort("rating-desc,id-asc"))).toBe("rating (descending), then ID (ascending)");
+  });
+});
+
+describe("sortProblems", () => {
+  const problems = [problem(3, { Rating: 1500, Title: "Charlie" }), problem(1, { Rating: 1800, Title: "Alpha" }), problem(2, { Rating: 1500, Title: "Bravo" }), problem(4, { Rating: 1200, Title: "Alpha" })];
+
+  it("sorts by one key and leaves the input alone", () => {
+    const input = [...problems];
+    expect(ids(sortProblems(problems, parseSort("id-desc")))).toEqual([4, 3, 2, 1]);
+    expect(problems).toEqual(input);
+  });
+
+  it("breaks ties with later keys", () => {
+    expect(ids(sortProblems(problems, parseSort("rating-asc,id-desc")))).toEqual([4, 3, 2, 1]);
+    expect(ids(sortProblems(problems, parseSort("title-asc,rating-desc")))).toEqual([1, 4, 2, 3]);
+  });
+
+  it("falls back to rating, then input order, for remaining ties", () => {
+    expect(ids(sortProblems(problems, parseSort("title-asc")))).toEqual([4, 1, 2, 3]);
+    expect(ids(sortProblems(problems, DEFAULT_SORT_KEYS))).toEqual([4, 3, 2, 1]);
+    expect(ids(sortProblems(problems, []))).toEqual([4, 3, 2, 1]);
+  });
+
+  it("ranks by relevance only when scores are given", () => {
+    const scores = new Map([[1, 5], [2, 9]]);
+    expect(ids(sortProblems(problems, parseSort("relevance"), scores))).toEqual([2, 1, 4, 3]);
+    expect(ids(sortProblems(problems, parseSort("relevance")))).toEqual([4, 3, 2, 1]);
+  });
+
+  it("handles an empty list", () => {
+    expect(sortProblems([], parseSort("rating-desc"))).toEqual([]);
+  });
+});
+
+describe("paginate", () => {
+  const items = Array.from({ length: 25 }, (_, i) => i);
+
+  it("returns the requested page", () => {
+    expect(paginate(items, 2, 10)).toEqual({ items: [10, 11, 12, 13, 14, 15, 16, 17, 18, 19], total: 25, page: 2, totalPages: 3 });
+    expect(paginate(items, 3, 10).items).toEqual([20, 21, 22, 23, 24]);
+  });
+
+  it("clamps pages out of range", () => {
+    expect(paginate(items, 9, 10)).toMatchObject({ page: 3, items: [20, 21, 22, 23, 24] });
+    expect(paginate(items, 0, 10)).toMatchObject({ page: 1, items: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9] });
+    expect(paginate(items, -4, 10).page).toBe(1);
+  });
+
+  it("has one empty page when there are no results", () => {
+    expect(paginate([], 1, 10)).toEqual({ items: [], total: 0, page: 1, totalPages: 1 });
+    expect(paginate([], 5, 10).page).toBe(1);
+  });
+});
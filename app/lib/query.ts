@@ -0,0 +1,119 @@
+import type { AppliedFilters } from "~/lib/filters";
+import type { LeetCodeProblem } from "~/lib/types";
+
+// Ordering and paging for problem lists. Nothing here reads the dataset or the request,
+// so the page loader, resource routes and scripts all go through the same rules; which
+// problems match is decided by the filter engine (see facets.ts).
+
+export type SortField = "rating" | "id" | "title" | "relevance";
+export type SortDirection = "asc" | "desc";
+
+export interface SortKey {
+  field: SortField;
+  direction: SortDirection;
+}
+
+// Everything needed to produce one page of results
+export interface ProblemQuery {
+  filters: AppliedFilters;
+  // In priority order; later keys only break ties between earlier ones
+  sort: SortKey[];
+  page: number;
+  pageSize: number;
+}
+
+export interface QueryPage<T> {
+  items: T[];
+  total: number;
+  page: number;
+  totalPages: number;
+}
+
+// What a query falls back to, and what breaks any ties the requested keys leave
+export const DEFAULT_SORT_KEYS: SortKey[] = [{ field: "rating", direction: "asc" }];
+
+const SORT_FIELDS: SortField[] = ["rating", "id", "title", "relevance"];
+
+const sortFieldLabels: Record<SortField, string> = {
+  rating: "rating",
+  id: "ID",
+  title: "title",
+  relevance: "relevance",
+};
+
+// "rating-desc,id-asc" -> keys in priority order. Relevance is written bare and always
+// ranks the best match first. Unknown or repeated fields are dropped.
+export function parseSort(value: string): SortKey[] {
+  const keys: SortKey[] = [];
+  value.split(",").forEach(part => {
+    const [field, direction, ...rest] = part.trim().split("-");
+    if (rest.length > 0 || !SORT_FIELDS.includes(field as SortField) || keys.some(key => key.field === field)) return;
+    if (field === "relevance") {
+      if (direction === undefined) keys.push({ field, direction: "desc" });
+    } else if (direction === "asc" || direction === "desc") {
+      keys.push({ field: field as SortField, direction });
+    }
+  });
+  return keys;
+}
+
+export function formatSort(keys: SortKey[]): string {
+  return keys.map(({ field, direction }) => (field === "relevance" ? field : `${field}-${direction}`)).join(",");
+}
+
+// e.g. "rating (descending), then ID (ascending)"
+export function describeSort(keys: SortKey[]): string {
+  return keys
+    .map(({ field, direction }) =>
+      field === "relevance" ? sortFieldLabels[field] : `${sortFieldLabels[field]} (${direction === "asc" ? "ascending" : "descending"})`
+    )
+    .join(", then ");
+}
+
+function compareBy(field: SortField, a: LeetCodeProblem, b: LeetCodeProblem, relevance: Map<number, number>): number {
+  switch (field) {
+    case "rating": return a.Rating - b.Rating;
+    case "id": return a.ID - b.ID;
+    case "title": return a.Title.localeCompare(b.Title);
+    // Higher scores are better matches, so "desc" puts them first
+    case "relevance": return (relevance.get(a.ID) ?? 0) - (relevance.get(b.ID) ?? 0);
+  }
+}
+
+// Returns a new array; the input is left as it was. Problems that tie on every key keep
+// their input order. Relevance needs the search scores and is skipped without them.
+export function sortProblems(
+  problems: LeetCodeProblem[],
+  keys: SortKey[],
+  relevance: Map<number, number> | null = null
+): LeetCodeProblem[] {
+  const active = keys.filter(key => key.field !== "relevance" || relevance);
+  const tieBreakers = DEFAULT_SORT_KEYS.filter(key => !active.some(({ field }) => field === key.field));
+  const order = [...active, ...tieBreakers];
+  const scores = relevance ?? new Map<number, number>();
+
+  return [...problems].sort((a, b) => {
+    for (const { field, direction } of order) {
+      const result = compareBy(field, a, b, scores);
+      if (result !== 0) return direction === "asc" ? result : -result;
+    }
+    return 0;
+  });
+}
+
+export function toProblemQuery(filters: AppliedFilters, page: number, pageSize: number): ProblemQuery {
+  return { filters, sort: parseSort(filters.sortBy), page, pageSize };
+}
+
+// Out-of-range pages (e.g. a stale bookmark) fall back to the nearest page that exists
+export function paginate<T>(items: T[], page: number, pageSize: number): QueryPage<T> {
+  const totalPages = Math.max(1, Math.ceil(items.length / pageSize));
+  const currentPage = Math.min(Math.max(1, page), totalPages);
+  const startIndex = (currentPage - 1) * pageSize;
+  return {
+    items: items.slice(startIndex, startIndex + pageSize),
+    total: items.length,
+    page: currentPage,
+    totalPages,
+  };
+}
@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import type { ProblemStatus } from "~/lib/progress";
+import { estimateRating, recommendProblems, solveProbability, type SolveOutcome } from "~/lib/recommend";
+import { problem } from "~/lib/test-fixtures";
+
+const outcomes = (rating: number, solved: number, failed: number): SolveOutcome[] => [
+  ...Array.from({ length: solved }, () => ({ rating, solved: true })),
+  ...Array.from({ length: failed }, () => ({ rating, solved: false })),
+];
+
+describe("solveProbability", () => {
+  it("is even at equal ratings and 10:1 at 400 points", () => {
+    expect(solveProbability(1500, 1500)).toBe(0.5);
+    expect(solveProbability(1900, 1500)).toBeCloseTo(10 / 11);
+    expect(solveProbability(1500, 1900)).toBeCloseTo(1 / 11);
+  });
+});
+
+describe("estimateRating", () => {
+  it("sits at the prior without results or with balanced ones", () => {
+    expect(estimateRating([])).toBe(1500);
+    expect(estimateRating(outcomes(1500, 1, 1))).toBe(1500);
+    expect(estimateRating(outcomes(1500, 20, 20))).toBe(1500);
+  });
+
+  it("approaches the likelihood maximum with many results", () => {
+    // Three in four solved at 1500 puts the maximum at 1500 + 400·log10(3) ≈ 1691; the prior pulls it in a little
+    expect(estimateRating(outcomes(1500, 75, 25))).toBe(1688);
+  });
+
+  it("keeps a few results from reaching the ends of the scale", () => {
+    expect(estimateRating(outcomes(1500, 10, 0))).toBe(1962);
+    expect(estimateRating(outcomes(3000, 1, 0))).toBe(2198);
+    expect(estimateRating(outcomes(1000, 0, 1))).toBe(1074);
+  });
+
+  it("rises with each solve and falls with each failure", () => {
+    const estimates = [0, 1, 2, 3, 4].map(solved => estimateRating(outcomes(1800, solved, 4 - solved)));
+    expect(estimates).toEqual([...estimates].sort((a, b) => a - b));
+    expect(new Set(estimates).size).toBe(5);
+  });
+});
+
+describe("recommendProblems", () => {
+  const problems = [
+    problem(1, { Rating: 1400, topicTags: [{ name: "Graph" }] }),
+    problem(2, { Rating: 1500, topicTags: [{ name: "Array" }] }),
+    problem(3, { Rating: 1600, topicTags: [{ name: "Graph" }] }),
+    problem(10, { Rating: 1600, topicTags: [{ name: "Graph", subtags: ["BFS"] }] }),
+    problem(11, { Rating: 1600, topicTags: [{ name: "Array" }] }),
+    problem(12, { Rating: 1620, topicTags: [{ name: "Graph" }] }),
+    problem(13, { Rating: 1550, topicTags: [{ name: "Math" }] }),
+    problem(14, { Rating: 1900, topicTags: [{ name: "Graph" }] }),
+    problem(15, { Rating: 1450, topicTags: [{ name: "Array" }] }),
+  ];
+  const statuses = new Map<number, ProblemStatus>([[1, "attempted"], [2, "solved"], [3, "attempted"], [15, "revisit"], [14, "unsolved"]]);
+
+  it("estimates from solved and attempted problems only", () => {
+    const { estimate } = recommendProblems(problems, statuses);
+    expect(estimate).toEqual({ rating: estimateRating([
+      { rating: 1400, solved: false },
+      { rating: 1500, solved: true },
+      { rating: 1600, solved: false },
+      { rating: 1450, solved: true },
+    ]), solved: 2, failed: 2 });
+  });
+
+  it("picks unsolved problems in the window above the estimate, weak topics first, spreading topics", () => {
+    const { estimate, recommendations } = recommendProblems(problems, statuses);
+    expect(estimate.rating).toBe(1490);
+    // 1 is below the window, 14 above it; 2 and 15 are solved. 10 scores as high as 3 at first,
+    // but once Graph has been picked it drops behind Math and Array.
+    expect(recommendations.map(({ problem: { ID }, score }) => [ID, score])).toEqual([[3, 0.83], [13, 0.62], [11, 0.53], [10, 0.42], [12, 0.26]]);
+  });
+
+  it("explains each pick", () => {
+    const [first, ...rest] = recommendProblems(problems, statuses).recommendations;
+    expect(first.reasons).toEqual([
+      "Rated 1600, 110 above your estimated 1490 (35% expected solve chance)",
+      "Practises Graph, where you've solved 0 of 2 tracked problems",
+      "You attempted this before without solving it",
+    ]);
+    expect(rest.find(({ problem: { ID } }) => ID === 13)?.reasons[1]).toBe("Practises Math, which you haven't tracked any problems in yet");
+  });
+
+  it("stops at the requested count and widens with the window", () => {
+    expect(recommendProblems(problems, statuses, { count: 2 }).recommendations).toHaveLength(2);
+    expect(recommendProblems(problems, statuses, { ratingWindow: 500 }).recommendations.map(({ problem: { ID } }) => ID)).toContain(14);
+  });
+
+  it("recommends around the prior for a new user", () => {
+    const { estimate, recommendations } = recommendProblems(problems, new Map());
+    expect(estimate).toEqual({ rating: 1500, solved: 0, failed: 0 });
+    expect(recommendations.every(({ problem: { Rating } }) => Rating >= 1500 && Rating <= 1700)).toBe(true);
+  });
+});
@@ -0,0 +1,173 @@
+import type { ProblemStatus } from "~/lib/progress";
+import type { LeetCodeProblem } from "~/lib/types";
+
+// Same logistic curve the contest ratings are built on: a solver rated R solves a
+// problem rated D with probability 1 / (1 + 10^((D - R) / 400))
+export const solveProbability = (rating: number, problemRating: number) =>
+  1 / (1 + Math.pow(10, (problemRating - rating) / 400));
+
+// Weak prior so a handful of results can't push the estimate to the ends of the scale
+const PRIOR_RATING = 1500;
+const PRIOR_DEVIATION = 350;
+
+export interface RatingEstimate {
+  rating: number;
+  solved: number;
+  failed: number;
+}
+
+export interface SolveOutcome {
+  rating: number;
+  solved: boolean;
+}
+
+// Maximum a posteriori rating for a set of solve/fail outcomes. The log-likelihood
+// gradient is monotonically decreasing in the rating, so bisection finds its root.
+export function estimateRating(outcomes: SolveOutcome[]): number {
+  const gradient = (rating: number) => {
+    const likelihood = outcomes.reduce(
+      (sum, { rating: problemRating, solved }) => sum + (solved ? 1 : 0) - solveProbability(rating, problemRating),
+      0
+    );
+    return likelihood * Math.LN10 / 400 - (rating - PRIOR_RATING) / (PRIOR_DEVIATION * PRIOR_DEVIATION);
+  };
+
+  let low = 0;
+  let high = 4000;
+  for (let i = 0; i < 50; i++) {
+    const mid = (low + high) / 2;
+    if (gradient(mid) > 0) low = mid;
+    else high = mid;
+  }
+  return Math.round((low + high) / 2);
+}
+
+// "Graph" for a top-level tag, "Graph > Shortest Path" for a subtag
+export const topicKeys = (problem: LeetCodeProblem) =>
+  (problem.topicTags ?? []).flatMap(tag => [
+    tag.name,
+    ...(tag.subtags ?? []).map(subtag => `${tag.name} > ${subtag}`),
+  ]);
+
+interface TopicRecord {
+  solved: number;
+  failed: number;
+}
+
+// Laplace-smoothed failure rate; a topic never tried sits at 0.5, between strong and weak
+const topicWeakness = (record?: TopicRecord) =>
+  record ? 1 - (record.solved + 1) / (record.solved + record.failed + 2) : 0.5;
+
+export interface Recommendation {
+  problem: LeetCodeProblem;
+  score: number;
+  reasons: string[];
+}
+
+export interface RecommendationOptions {
+  count?: number;
+  // How far above the estimated rating to look
+  ratingWindow?: number;
+}
+
+export interface RecommendationResult {
+  estimate: RatingEstimate;
+  recommendations: Recommendation[];
+}
+
+const isSolved = (status?: ProblemStatus) => status === "solved" || status === "revisit";
+
+export function recommendProblems(
+  problems: LeetCodeProblem[],
+  statuses: Map<number, ProblemStatus>,
+  { count = 10, ratingWindow = 200 }: RecommendationOptions = {}
+): RecommendationResult {
+  const outcomes: SolveOutcome[] = [];
+  const topics = new Map<string, TopicRecord>();
+
+  problems.forEach(problem => {
+    const status = statuses.get(problem.ID);
+    if (!status || status === "unsolved") return;
+
+    const solved = isSolved(status);
+    outcomes.push({ rating: problem.Rating, solved });
+    topicKeys(problem).forEach(key => {
+      const record = topics.get(key) ?? { solved: 0, failed: 0 };
+      if (solved) record.solved++;
+      else record.failed++;
+      topics.set(key, record);
+    });
+  });
+
+  const rating = estimateRating(outcomes);
+  const estimate: RatingEstimate = {
+    rating,
+    solved: outcomes.filter(outcome => outcome.solved).length,
+    failed: outcomes.filter(outcome => !outcome.solved).length,
+  };
+
+  // Aim for the middle of the window: hard enough to stretch, likely enough to finish
+  const target = rating + ratingWindow / 2;
+  const candidates = problems
+    .filter(problem =>
+      !isSolved(statuses.get(problem.ID)) &&
+      problem.Rating >= rating &&
+      problem.Rating <= rating + ratingWindow
+    )
+    .map(problem => {
+      const keys = topicKeys(problem);
+      const weakest = keys.reduce<string | null>(
+        (worst, key) => worst === null || topicWeakness(topics.get(key)) > topicWeakness(topics.get(worst)) ? key : worst,
+        null
+      );
+      return {
+        problem,
+        weakest,
+        weakness: weakest ? topicWeakness(topics.get(weakest)) : 0,
+        closeness: 1 - Math.abs(problem.Rating - target) / ratingWindow,
+      };
+    });
+
+  // Greedy pick; every pick dampens its topic so the list isn't all one subject
+  const picks: Recommendation[] = [];
+  const pickedTopics = new Map<string, number>();
+  const remaining = [...candidates];
+
+  while (picks.length < count && remaining.length > 0) {
+    let bestIndex = 0;
+    let bestScore = -Infinity;
+    remaining.forEach((candidate, index) => {
+      const repeats = candidate.weakest ? pickedTopics.get(candidate.weakest) ?? 0 : 0;
+      const score = (0.6 * candidate.weakness + 0.4 * candidate.closeness) / (1 + repeats);
+      if (score > bestScore) {
+        bestScore = score;
+        bestIndex = index;
+      }
+    });
+
+    const [best] = remaining.splice(bestIndex, 1);
+    if (best.weakest) {
+      pickedTopics.set(best.weakest, (pickedTopics.get(best.weakest) ?? 0) + 1);
+    }
+
+    const reasons = [
+      `Rated ${Math.round(best.problem.Rating)}, ${Math.round(best.problem.Rating - rating)} above your estimated ${rating} ` +
+        `(${Math.round(solveProbability(rating, best.problem.Rating) * 100)}% expected solve chance)`,
+    ];
+    if (best.weakest) {
+      const record = topics.get(best.weakest);
+      reasons.push(
+        record
+          ? `Practises ${best.weakest}, where you've solved ${record.solved} of ${record.solved + record.failed} tracked problems`
+          : `Practises ${best.weakest}, which you haven't tracked any problems in yet`
+      );
+    }
+    if (statuses.get(best.problem.ID) === "attempted") {
+      reasons.push("You attempted this before without solving it");
+    }
+
+    picks.push({ problem: best.problem, score: Math.round(bestScore * 100) / 100, reasons });
+  }
+
+  return { estimate, recommendations: picks };
+}
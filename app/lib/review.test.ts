@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import { addDays, reviewStreak, scheduleReview, type ReviewCard, type ReviewGrade } from "~/lib/review";
+
+const review = (grades: ReviewGrade[], start = "2026-03-01") =>
+  grades.reduce<{ card: ReviewCard | undefined; today: string }>(
+    ({ card, today }, grade) => {
+      const next = scheduleReview(card, grade, today);
+      return { card: next, today: next.due };
+    },
+    { card: undefined, today: start }
+  ).card as ReviewCard;
+
+describe("scheduleReview", () => {
+  it("starts new cards at 1 day, then 6, then interval × ease", () => {
+    const first = scheduleReview(undefined, "good", "2026-03-01");
+    expect(first).toEqual({ ease: 2.5, interval: 1, repetitions: 1, lapses: 0, due: "2026-03-02", lastReviewed: "2026-03-01" });
+
+    const second = scheduleReview(first, "good", "2026-03-02");
+    expect(second).toMatchObject({ interval: 6, repetitions: 2, due: "2026-03-08" });
+
+    const third = scheduleReview(second, "good", "2026-03-08");
+    expect(third).toMatchObject({ interval: 15, repetitions: 3, due: "2026-03-23" });
+
+    // 15 × 2.5 = 37.5, rounded
+    expect(scheduleReview(third, "good", "2026-03-23")).toMatchObject({ interval: 38, repetitions: 4, due: "2026-04-30" });
+  });
+
+  it("adjusts the ease by grade before using it", () => {
+    expect(scheduleReview(undefined, "easy", "2026-03-01").ease).toBeCloseTo(2.6);
+    expect(scheduleReview(undefined, "good", "2026-03-01").ease).toBe(2.5);
+    expect(scheduleReview(undefined, "hard", "2026-03-01").ease).toBeCloseTo(2.36);
+    expect(scheduleReview(undefined, "forgot", "2026-03-01").ease).toBeCloseTo(1.96);
+    // The third interval uses the ease after this review: 6 × 2.36
+    expect(review(["good", "good", "hard"]).interval).toBe(14);
+  });
+
+  it("resets the interval and repetitions on a lapse but keeps counting lapses", () => {
+    const lapsed = scheduleReview(review(["good", "good", "good"]), "forgot", "2026-03-23");
+    expect(lapsed).toEqual({ ease: expect.closeTo(1.96), interval: 1, repetitions: 0, lapses: 1, due: "2026-03-24", lastReviewed: "2026-03-23" });
+
+    const relearned = scheduleReview(lapsed, "good", "2026-03-24");
+    expect(relearned).toMatchObject({ interval: 1, repetitions: 1, lapses: 1 });
+    expect(scheduleReview(relearned, "good", "2026-03-25")).toMatchObject({ interval: 6, repetitions: 2, lapses: 1 });
+    expect(scheduleReview(lapsed, "forgot", "2026-03-24").lapses).toBe(2);
+  });
+
+  it("never lets the ease drop below 1.3", () => {
+    const card = review(["forgot", "forgot", "forgot", "hard", "hard"]);
+    expect(card.ease).toBe(1.3);
+    expect(scheduleReview(card, "forgot", card.due).ease).toBe(1.3);
+    // At the floor, later intervals still grow
+    const grown = review(["forgot", "forgot", "forgot", "good", "good", "good"]);
+    expect(grown).toMatchObject({ ease: 1.3, interval: 8, repetitions: 3 });
+  });
+
+  it("counts due dates in calendar days across months and years", () => {
+    expect(addDays("2026-01-31", 1)).toBe("2026-02-01");
+    expect(addDays("2028-02-28", 1)).toBe("2028-02-29");
+    expect(addDays("2026-12-30", 6)).toBe("2027-01-05");
+    expect(addDays("2026-03-01", -1)).toBe("2026-02-28");
+  });
+});
+
+describe("reviewStreak", () => {
+  const today = "2026-03-10";
+
+  it("counts back from today when today has a review", () => {
+    expect(reviewStreak(["2026-03-08", "2026-03-09", "2026-03-10"], today)).toBe(3);
+  });
+
+  it("counts back from yesterday until today's review is done", () => {
+    expect(reviewStreak(["2026-03-08", "2026-03-09"], today)).toBe(2);
+  });
+
+  it("is zero when neither today nor yesterday has a review", () => {
+    expect(reviewStreak(["2026-03-07", "2026-03-08"], today)).toBe(0);
+    expect(reviewStreak([], today)).toBe(0);
+  });
+
+  it("stops at the first missed day and ignores repeats and order", () => {
+    expect(reviewStreak(["2026-03-10", "2026-03-06", "2026-03-09", "2026-03-10", "2026-03-07"], today)).toBe(2);
+  });
+
+  it("runs across month boundaries", () => {
+    expect(reviewStreak(["2026-02-27", "2026-02-28", "2026-03-01"], "2026-03-01")).toBe(3);
+  });
+});
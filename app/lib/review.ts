@@ -0,0 +1,169 @@
+import { pushUserState } from "~/lib/account-sync";
+import type { ProgressMap } from "~/lib/progress";
+
+// SM-2 spaced repetition over solved problems. Each grade maps to an SM-2 quality score;
+// anything below 3 counts as a lapse and restarts the interval.
+export type ReviewGrade = "forgot" | "hard" | "good" | "easy";
+
+export const REVIEW_GRADES: ReviewGrade[] = ["forgot", "hard", "good", "easy"];
+
+export const reviewGradeLabels: Record<ReviewGrade, string> = {
+  forgot: "Forgot",
+  hard: "Hard",
+  good: "Good",
+  easy: "Easy",
+};
+
+export const reviewGradeColors: Record<ReviewGrade, string> = {
+  forgot: "text-red-700 bg-red-100 border-red-300 hover:bg-red-200 dark:text-red-300 dark:bg-red-900/30 dark:border-red-700",
+  hard: "text-orange-700 bg-orange-100 border-orange-300 hover:bg-orange-200 dark:text-orange-300 dark:bg-orange-900/30 dark:border-orange-700",
+  good: "text-green-700 bg-green-100 border-green-300 hover:bg-green-200 dark:text-green-300 dark:bg-green-900/30 dark:border-green-700",
+  easy: "text-blue-700 bg-blue-100 border-blue-300 hover:bg-blue-200 dark:text-blue-300 dark:bg-blue-900/30 dark:border-blue-700",
+};
+
+const GRADE_QUALITY: Record<ReviewGrade, number> = { forgot: 1, hard: 3, good: 4, easy: 5 };
+
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+
+export interface ReviewCard {
+  ease: number;
+  // Days until the next review
+  interval: number;
+  repetitions: number;
+  lapses: number;
+  due: string; // YYYY-MM-DD
+  lastReviewed: string; // YYYY-MM-DD
+}
+
+export interface ReviewState {
+  // Keyed by LeetCodeProblem.ID
+  cards: Record<number, ReviewCard>;
+  // Every day with at least one review, for the streak
+  reviewDays: string[];
+}
+
+export const addDays = (date: string, days: number) => {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + days);
+  return next.toISOString().slice(0, 10);
+};
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((new Date(`${to}T00:00:00Z`).getTime() - new Date(`${from}T00:00:00Z`).getTime()) / 86400000);
+
+export function scheduleReview(card: ReviewCard | undefined, grade: ReviewGrade, today: string): ReviewCard {
+  const quality = GRADE_QUALITY[grade];
+  const current = card ?? { ease: INITIAL_EASE, interval: 0, repetitions: 0, lapses: 0, due: today, lastReviewed: today };
+  const ease = Math.max(MIN_EASE, current.ease + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02));
+
+  if (quality < 3) {
+    return { ease, interval: 1, repetitions: 0, lapses: current.lapses + 1, due: addDays(today, 1), lastReviewed: today };
+  }
+
+  const repetitions = current.repetitions + 1;
+  const interval = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(current.interval * ease);
+  return { ease, interval, repetitions, lapses: current.lapses, due: addDays(today, interval), lastReviewed: today };
+}
+
+export interface ReviewCandidate {
+  ID: number;
+  Title: string;
+  TitleSlug: string;
+  Rating: number;
+  tags: string[];
+  subtags: string[];
+}
+
+export interface DueReview {
+  problem: ReviewCandidate;
+  due: string;
+  overdueDays: number;
+}
+
+// Problems never reviewed come due the day after they were solved; ones marked
+// "revisit" are due right away.
+export function dueDate(id: number, cards: ReviewState["cards"], progress: ProgressMap, today: string): string {
+  const card = cards[id];
+  if (card) return card.due;
+  const entry = progress[id];
+  if (entry?.status === "revisit" || !entry?.solvedAt) return today;
+  return addDays(entry.solvedAt, 1);
+}
+
+export function getDueReviews(
+  candidates: ReviewCandidate[],
+  state: ReviewState,
+  progress: ProgressMap,
+  today: string
+): DueReview[] {
+  return candidates
+    .map(problem => {
+      const due = dueDate(problem.ID, state.cards, progress, today);
+      return { problem, due, overdueDays: daysBetween(due, today) };
+    })
+    .filter(review => review.overdueDays >= 0);
+}
+
+// Most overdue first, but each pick is penalised for repeating the previous picks' subtags
+// or sitting close to the previous rating, so a session doesn't drill one pattern.
+export function orderForVariety(reviews: DueReview[]): DueReview[] {
+  const remaining = [...reviews];
+  const ordered: DueReview[] = [];
+
+  while (remaining.length > 0) {
+    const recent = ordered.slice(-2);
+    let bestIndex = 0;
+    let bestScore = -Infinity;
+
+    remaining.forEach((review, index) => {
+      const sharedSubtags = recent.reduce(
+        (count, previous) => count + review.problem.subtags.filter(subtag => previous.problem.subtags.includes(subtag)).length,
+        0
+      );
+      const previous = recent[recent.length - 1];
+      const ratingPenalty = previous ? Math.max(0, 1 - Math.abs(review.problem.Rating - previous.problem.Rating) / 300) : 0;
+      const score = Math.min(review.overdueDays, 14) - 2 * sharedSubtags - 2 * ratingPenalty;
+      if (score > bestScore) {
+        bestScore = score;
+        bestIndex = index;
+      }
+    });
+
+    ordered.push(...remaining.splice(bestIndex, 1));
+  }
+  return ordered;
+}
+
+// Consecutive review days ending today, or yesterday if today's session hasn't happened yet
+export function reviewStreak(reviewDays: string[], today: string): number {
+  const days = new Set(reviewDays);
+  let day = days.has(today) ? today : addDays(today, -1);
+  let streak = 0;
+  while (days.has(day)) {
+    streak++;
+    day = addDays(day, -1);
+  }
+  return streak;
+}
+
+export const REVIEW_STORAGE_KEY = "leetcode-dashboard-reviews";
+
+export function loadReviewState(): ReviewState {
+  const saved = localStorage.getItem(REVIEW_STORAGE_KEY);
+  if (!saved) return { cards: {}, reviewDays: [] };
+
+  try {
+    const state = JSON.parse(saved) as Partial<ReviewState>;
+    return { cards: state.cards ?? {}, reviewDays: state.reviewDays ?? [] };
+  } catch (e) {
+    console.error("Failed to load review schedule:", e);
+    return { cards: {}, reviewDays: [] };
+  }
+}
+
+export function saveReviewState(state: ReviewState) {
+  const value = JSON.stringify(state);
+  localStorage.setItem(REVIEW_STORAGE_KEY, value);
+  pushUserState("reviews", value);
+}
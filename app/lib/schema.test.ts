@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { validateProblem } from "~/lib/schema";
+import { problem } from "~/lib/test-fixtures";
+
+const valid = problem(1, {
+  topicTags: [{ name: "Array", slug: "array", subtags: ["Prefix Sum"] }],
+  problemDetails: { title: "Problem 1", difficulty: "Easy", questionId: "1" },
+});
+
+const kinds = (value: unknown) => validateProblem(value, 0).issues.map(({ kind, severity, field }) => ({ kind, severity, field }));
+
+describe("validateProblem", () => {
+  it("accepts a complete entry as it is", () => {
+    expect(validateProblem(valid, 0)).toEqual({ problem: valid, issues: [] });
+  });
+
+  it("rejects entries that aren't objects or lack a required field", () => {
+    expect(validateProblem([valid], 4)).toEqual({
+      problem: null,
+      issues: [{ kind: "invalid-field", severity: "error", index: 4, problemId: null, field: "", message: "Entry is not an object" }],
+    });
+    const { problem: rejected, issues } = validateProblem({ ...valid, Rating: Number.NaN, Title: undefined, ContestSlug: null }, 7);
+    expect(rejected).toBeNull();
+    expect(issues).toEqual([
+      { kind: "invalid-field", severity: "error", index: 7, problemId: 1, field: "Rating", message: '"Rating" should be a number' },
+      { kind: "missing-field", severity: "error", index: 7, problemId: 1, field: "Title", message: 'Missing required field "Title"' },
+      { kind: "missing-field", severity: "error", index: 7, problemId: 1, field: "ContestSlug", message: 'Missing required field "ContestSlug"' },
+    ]);
+  });
+
+  it("drops bad optional fields and keeps the rest", () => {
+    const { problem: kept, issues } = validateProblem({ ...valid, isEnhanced: "yes", enhancedAt: "2026-01-01" }, 0);
+    expect(kept).toEqual({ ...valid, enhancedAt: "2026-01-01" });
+    expect(issues.map(issue => issue.message)).toEqual(['"isEnhanced" should be a boolean']);
+  });
+
+  it("drops malformed tags one by one", () => {
+    const topicTags = [{ name: "Array" }, { name: "  " }, "Graph", { name: "Tree", subtags: ["DFS", 3] }];
+    const { problem: kept, issues } = validateProblem({ ...valid, topicTags }, 0);
+    expect(kept?.topicTags).toEqual([{ name: "Array" }]);
+    expect(issues.map(({ field, message }) => ({ field, message }))).toEqual([
+      { field: "topicTags[1]", message: "Tag has no name" },
+      { field: "topicTags[2]", message: "Tag has no name" },
+      { field: "topicTags[3].subtags", message: 'Subtags of "Tree" should be a list of names' },
+    ]);
+    expect(validateProblem({ ...valid, topicTags: "Array" }, 0).problem).not.toHaveProperty("topicTags");
+  });
+
+  it("warns about missing tags and details but keeps the problem", () => {
+    expect(kinds({ ...valid, topicTags: undefined, problemDetails: undefined })).toEqual([
+      { kind: "missing-field", severity: "warning", field: "topicTags" },
+      { kind: "missing-field", severity: "warning", field: "problemDetails" },
+    ]);
+    expect(kinds({ ...valid, topicTags: [], problemDetails: { title: "Problem 1", questionId: "1" } })).toEqual([
+      { kind: "missing-field", severity: "warning", field: "topicTags" },
+      { kind: "missing-field", severity: "warning", field: "problemDetails.difficulty" },
+    ]);
+  });
+
+  it("drops broken details and unknown difficulties", () => {
+    expect(validateProblem({ ...valid, problemDetails: { title: "Problem 1" } }, 0).problem).not.toHaveProperty("problemDetails");
+    const { problem: kept, issues } = validateProblem({ ...valid, problemDetails: { title: "Problem 1", difficulty: "Insane", questionId: "1" } }, 0);
+    expect(kept?.problemDetails).toEqual({ title: "Problem 1", difficulty: undefined, questionId: "1" });
+    expect(issues).toEqual([expect.objectContaining({ kind: "invalid-difficulty", message: '"Insane" is not one of Easy, Medium, Hard' })]);
+  });
+});
@@ -0,0 +1,122 @@
+import { DIFFICULTIES, type LeetCodeProblem, type ProblemDetails } from "~/lib/types";
+
+// Runtime checks for one dataset entry against LeetCodeProblem / TopicTag / ProblemDetails.
+// Entries missing a required field can't be shown and are rejected; a bad optional field
+// is reported and dropped so the rest of the problem stays usable.
+
+export type DataIssueKind =
+  | "missing-field"
+  | "invalid-field"
+  | "invalid-difficulty"
+  | "duplicate"
+  | "rare-subtag"
+  | "title-mismatch";
+
+export type DataIssueSeverity = "error" | "warning";
+
+export interface DataIssue {
+  kind: DataIssueKind;
+  severity: DataIssueSeverity;
+  // Position in the data file, for entries too broken to have an ID
+  index: number;
+  problemId: number | null;
+  field: string;
+  message: string;
+}
+
+type FieldType = "string" | "number" | "boolean";
+
+const REQUIRED_FIELDS: Record<string, FieldType> = {
+  Rating: "number",
+  ID: "number",
+  Title: "string",
+  TitleZH: "string",
+  TitleSlug: "string",
+  ContestSlug: "string",
+  ProblemIndex: "string",
+  ContestID_en: "string",
+  ContestID_zh: "string",
+};
+
+const OPTIONAL_FIELDS: Record<string, FieldType> = {
+  isEnhanced: "boolean",
+  enhancedAt: "string",
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === "string");
+
+export interface ValidatedProblem {
+  problem: LeetCodeProblem | null;
+  issues: DataIssue[];
+}
+
+export function validateProblem(value: unknown, index: number): ValidatedProblem {
+  const issues: DataIssue[] = [];
+  const problemId = isRecord(value) && typeof value.ID === "number" ? value.ID : null;
+  const report = (kind: DataIssueKind, severity: DataIssueSeverity, field: string, message: string) =>
+    issues.push({ kind, severity, index, problemId, field, message });
+
+  if (!isRecord(value)) {
+    report("invalid-field", "error", "", "Entry is not an object");
+    return { problem: null, issues };
+  }
+
+  Object.entries(REQUIRED_FIELDS).forEach(([field, type]) => {
+    if (value[field] === undefined || value[field] === null) {
+      report("missing-field", "error", field, `Missing required field "${field}"`);
+    } else if (typeof value[field] !== type || (type === "number" && !Number.isFinite(value[field]))) {
+      report("invalid-field", "error", field, `"${field}" should be a ${type}`);
+    }
+  });
+  if (issues.length > 0) return { problem: null, issues };
+
+  const problem = { ...value } as unknown as LeetCodeProblem;
+  const drop = (field: keyof LeetCodeProblem) => delete problem[field];
+
+  Object.entries(OPTIONAL_FIELDS).forEach(([field, type]) => {
+    if (value[field] !== undefined && typeof value[field] !== type) {
+      report("invalid-field", "error", field, `"${field}" should be a ${type}`);
+      drop(field as keyof LeetCodeProblem);
+    }
+  });
+
+  if (value.topicTags === undefined || (Array.isArray(value.topicTags) && value.topicTags.length === 0)) {
+    report("missing-field", "warning", "topicTags", "No topic tags");
+  } else if (!Array.isArray(value.topicTags)) {
+    report("invalid-field", "error", "topicTags", '"topicTags" should be an array');
+    drop("topicTags");
+  } else {
+    const tags = value.topicTags.filter((tag, position) => {
+      const field = `topicTags[${position}]`;
+      if (!isRecord(tag) || typeof tag.name !== "string" || !tag.name.trim()) {
+        report("invalid-field", "error", field, "Tag has no name");
+        return false;
+      }
+      if (tag.subtags !== undefined && !isStringArray(tag.subtags)) {
+        report("invalid-field", "error", `${field}.subtags`, `Subtags of "${tag.name}" should be a list of names`);
+        return false;
+      }
+      return true;
+    });
+    problem.topicTags = tags as LeetCodeProblem["topicTags"];
+  }
+
+  const details = value.problemDetails;
+  if (details === undefined) {
+    report("missing-field", "warning", "problemDetails", "Not looked up on LeetCode yet, so the difficulty is unknown");
+  } else if (!isRecord(details) || typeof details.title !== "string" || typeof details.questionId !== "string") {
+    report("invalid-field", "error", "problemDetails", '"problemDetails" needs a "title" and "questionId"');
+    drop("problemDetails");
+  } else if (details.difficulty === undefined) {
+    report("missing-field", "warning", "problemDetails.difficulty", "Difficulty is unknown");
+  } else if (!(DIFFICULTIES as unknown[]).includes(details.difficulty)) {
+    report("invalid-difficulty", "error", "problemDetails.difficulty", `"${String(details.difficulty)}" is not one of ${DIFFICULTIES.join(", ")}`);
+    problem.problemDetails = { ...(details as unknown as ProblemDetails), difficulty: undefined };
+  }
+
+  return { problem, issues };
+}
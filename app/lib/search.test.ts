@@ -0,0 +1,117 @@
+import { describe, expect, it } from "vitest";
+import { editDistance, highlightRanges, SearchIndex, tokenize } from "~/lib/search";
+import { buildTaxonomy } from "~/lib/taxonomy";
+import { problem } from "~/lib/test-fixtures";
+
+const problems = [
+  problem(1, { Title: "Two Sum", TitleZH: "两数之和", TitleSlug: "two-sum", topicTags: [{ name: "Array" }, { name: "Hash Table" }] }),
+  problem(743, {
+    Title: "Network Delay Time",
+    TitleZH: "网络延迟时间",
+    TitleSlug: "network-delay-time",
+    topicTags: [{ name: "Graph", subtags: ["Dijkstra"] }, { name: "Breadth-First Search" }],
+  }),
+  problem(907, {
+    Title: "Sum of Subarray Minimums",
+    TitleZH: "子数组的最小值之和",
+    TitleSlug: "sum-of-subarray-minimums",
+    topicTags: [{ name: "Array", subtags: ["Two Pointers"] }, { name: "Stack", subtags: ["Monotonic Stack"] }],
+  }),
+  problem(3235, {
+    Title: "Check if the Rectangle Corner Is Reachable",
+    TitleZH: "判断矩形的两个角落是否可达",
+    TitleSlug: "check-if-the-rectangle-corner-is-reachable",
+    ContestID_en: "Weekly Contest 408",
+    ContestSlug: "weekly-contest-408",
+    topicTags: [{ name: "Geometry" }],
+  }),
+];
+
+const index = new SearchIndex(problems);
+const ids = (query: string, searchIndex = index) => searchIndex.search(query).matches.map(match => match.problem.ID);
+
+describe("editDistance", () => {
+  it("counts insertions, deletions and substitutions", () => {
+    expect(editDistance("kitten", "sitting")).toBe(3);
+    expect(editDistance("", "graph")).toBe(5);
+    expect(editDistance("graph", "graph")).toBe(0);
+  });
+
+  it("counts an adjacent swap as one edit", () => {
+    expect(editDistance("djikstra", "dijkstra")).toBe(1);
+    expect(editDistance("ab", "ba")).toBe(1);
+  });
+
+  it("doesn't edit a swapped pair again, unlike full Damerau-Levenshtein", () => {
+    // "ca" → "ac" → "abc" would be 2, but optimal string alignment can't insert between a swapped pair
+    expect(editDistance("ca", "abc")).toBe(3);
+  });
+});
+
+describe("tokenize", () => {
+  it("splits Latin text into lower-case words and numbers", () => {
+    expect(tokenize("Two Sum II - Input Array Is Sorted (LCP 01)")).toEqual(["two", "sum", "ii", "input", "array", "is", "sorted", "lcp", "01"]);
+  });
+
+  it("splits Chinese runs into overlapping bigrams and keeps single characters", () => {
+    expect(tokenize("判断矩形")).toEqual(["判断", "断矩", "矩形"]);
+    expect(tokenize("和")).toEqual(["和"]);
+    expect(tokenize("LCP 猜数字 和")).toEqual(["lcp", "猜数", "数字", "和"]);
+  });
+});
+
+describe("SearchIndex", () => {
+  it("finds Chinese titles by any bigram inside them", () => {
+    expect(ids("矩形")).toEqual([3235]);
+    expect(ids("最小值")).toEqual([907]);
+    expect(ids("之和")).toEqual([1, 907]);
+  });
+
+  it("requires every word to match", () => {
+    expect(ids("sum minimums")).toEqual([907]);
+    expect(ids("sum graph")).toEqual([]);
+  });
+
+  it("matches prefixes and typos in long words but not in short ones", () => {
+    expect(ids("netw")).toEqual([743]);
+    expect(ids("djikstra")).toEqual([743]);
+    expect(ids("recatngle")).toEqual([3235]);
+    expect(ids("sun")).toEqual([]);
+  });
+
+  it("ranks exact IDs, then title phrases, then tags", () => {
+    expect(ids("743")).toEqual([743]);
+    // Both titles have "sum"; only one is the whole phrase
+    expect(ids("two sum")).toEqual([1, 907]);
+    expect(ids("sum")).toEqual([1, 907]);
+    // A title word beats the same word in a tag
+    expect(ids("stack")).toEqual([907]);
+    expect(ids("two")).toEqual([1, 907]);
+    const [title, tag] = index.search("two").matches;
+    expect(title.score).toBeGreaterThan(tag.score);
+  });
+
+  it("scores exact words above prefixes and prefixes above typos", () => {
+    const score = (query: string) => index.search(query).matches[0]?.score;
+    expect(score("network")).toBeGreaterThan(score("netwo"));
+    expect(score("netwo")).toBeGreaterThan(score("netwrok"));
+  });
+
+  it("searches contests and, with a taxonomy, tag aliases", () => {
+    expect(ids("weekly contest 408")).toEqual([3235]);
+    const withAliases = new SearchIndex(problems, buildTaxonomy(problems).taxonomy);
+    expect(ids("bfs", withAliases)).toEqual([743]);
+  });
+
+  it("returns the matched vocabulary terms", () => {
+    expect(index.search("djikstra netw").terms.sort()).toEqual(["dijkstra", "network"]);
+    expect(index.search("").matches).toEqual([]);
+  });
+});
+
+describe("highlightRanges", () => {
+  it("marks every occurrence and merges overlaps", () => {
+    expect(highlightRanges("Sum of Subarray Sums", ["sum", "subarray", "arr"])).toEqual([[0, 3], [7, 15], [16, 19]]);
+    expect(highlightRanges("Two Sum", [""])).toEqual([]);
+  });
+});
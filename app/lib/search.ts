@@ -0,0 +1,196 @@
+import type { Taxonomy } from "~/lib/taxonomy";
+import type { LeetCodeProblem } from "~/lib/types";
+
+// In-memory inverted index over the fields people actually search by. Latin text is split
+// into lower-case words; Chinese text into overlapping character bigrams, so "矩形" finds
+// "判断矩形的两个角落是否可达" without a dictionary-based segmenter.
+
+type SearchField = "id" | "title" | "titleZH" | "slug" | "contest" | "tag";
+
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  id: 6,
+  title: 3,
+  titleZH: 3,
+  slug: 2,
+  contest: 2,
+  tag: 1.5,
+};
+
+// How much a non-exact vocabulary match is worth relative to an exact one
+const PREFIX_QUALITY = 0.7;
+const FUZZY_QUALITY = 0.4;
+
+const CJK_RUN = /[\u3400-\u9fff\uf900-\ufaff]+/g;
+const LATIN_WORD = /[a-z0-9]+/g;
+
+export function tokenize(text: string): string[] {
+  const lower = text.toLowerCase();
+  const tokens = Array.from(lower.matchAll(LATIN_WORD), match => match[0]);
+
+  for (const [run] of lower.matchAll(CJK_RUN)) {
+    if (run.length === 1) tokens.push(run);
+    for (let i = 0; i < run.length - 1; i++) tokens.push(run.slice(i, i + 2));
+  }
+  return tokens;
+}
+
+const isCJK = (token: string) => /^[\u3400-\u9fff\uf900-\ufaff]/.test(token);
+
+// Optimal string alignment distance: like Levenshtein, but a swapped pair ("djikstra") is one edit
+export const editDistance = (a: string, b: string) => {
+  const d = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[a.length][b.length];
+};
+
+// Short words and numbers must match exactly; longer words tolerate one typo, very long ones two
+const maxTypos = (token: string) =>
+  isCJK(token) || /^\d+$/.test(token) || token.length < 5 ? 0 : token.length < 9 ? 1 : 2;
+
+interface Posting {
+  doc: number;
+  field: SearchField;
+}
+
+export interface SearchMatch {
+  problem: LeetCodeProblem;
+  score: number;
+}
+
+export interface SearchResults {
+  matches: SearchMatch[];
+  // Vocabulary terms that matched, for highlighting
+  terms: string[];
+}
+
+export class SearchIndex {
+  private postings = new Map<string, Posting[]>();
+  private vocabulary: string[] = [];
+  private tagNames = new Set<string>();
+  // Lower-cased tag names per document, for exact tag hits
+  private docTags: Set<string>[] = [];
+
+  // With a taxonomy, tags are indexed under their canonical names and aliases, so "bfs"
+  // finds Breadth-First Search problems and vice versa
+  constructor(private problems: LeetCodeProblem[], taxonomy?: Taxonomy) {
+    problems.forEach((problem, doc) => {
+      const tags = taxonomy
+        ? taxonomy.problemNodes(problem).flatMap(node => [node.name, ...node.aliases])
+        : (problem.topicTags ?? []).flatMap(tag => [tag.name, ...(tag.subtags ?? [])]);
+      const fields: [SearchField, string][] = [
+        ["id", String(problem.ID)],
+        ["title", problem.Title],
+        ["titleZH", problem.TitleZH],
+        ["slug", problem.TitleSlug.replace(/-/g, " ")],
+        ["contest", `${problem.ContestID_en} ${problem.ContestID_zh} ${problem.ContestSlug.replace(/-/g, " ")}`],
+        ["tag", tags.join(" ")],
+      ];
+
+      this.docTags[doc] = new Set(tags.map(tag => tag.toLowerCase()));
+      this.docTags[doc].forEach(tag => this.tagNames.add(tag));
+
+      fields.forEach(([field, text]) => {
+        new Set(tokenize(text)).forEach(token => {
+          const list = this.postings.get(token) ?? [];
+          list.push({ doc, field });
+          this.postings.set(token, list);
+        });
+      });
+    });
+    this.vocabulary = Array.from(this.postings.keys());
+  }
+
+  // Vocabulary terms a query token can stand for, with their match quality
+  private expand(token: string): Map<string, number> {
+    const expansions = new Map<string, number>();
+    if (this.postings.has(token)) expansions.set(token, 1);
+
+    const typos = maxTypos(token);
+    this.vocabulary.forEach(term => {
+      if (term === token) return;
+      if (term.startsWith(token) && (token.length >= 2 || isCJK(token))) {
+        // Completing most of a word counts for more than its first two letters
+        const quality = PREFIX_QUALITY * (0.5 + 0.5 * token.length / term.length);
+        expansions.set(term, Math.max(expansions.get(term) ?? 0, quality));
+      } else if (typos > 0 && Math.abs(term.length - token.length) <= typos && editDistance(token, term) <= typos) {
+        expansions.set(term, Math.max(expansions.get(term) ?? 0, FUZZY_QUALITY));
+      }
+    });
+    return expansions;
+  }
+
+  // Every query token must match something; scores add up across tokens
+  search(query: string): SearchResults {
+    const queryTokens = Array.from(new Set(tokenize(query)));
+    if (queryTokens.length === 0) return { matches: [], terms: [] };
+
+    let scores: Map<number, number> | null = null;
+    const terms = new Set<string>();
+
+    for (const token of queryTokens) {
+      const tokenScores = new Map<number, number>();
+      this.expand(token).forEach((quality, term) => {
+        this.postings.get(term)?.forEach(({ doc, field }) => {
+          const score = FIELD_WEIGHTS[field] * quality;
+          if (score > (tokenScores.get(doc) ?? 0)) tokenScores.set(doc, score);
+        });
+        terms.add(term);
+      });
+
+      const previous: Map<number, number> | null = scores;
+      scores = new Map<number, number>();
+      for (const [doc, score] of tokenScores) {
+        if (previous === null) scores.set(doc, score);
+        else if (previous.has(doc)) scores.set(doc, (previous.get(doc) ?? 0) + score);
+      }
+      if (scores.size === 0) return { matches: [], terms: [] };
+    }
+
+    // Whole-phrase hits on a title or an exact tag name beat scattered word matches
+    const phrase = query.trim().toLowerCase();
+    const isTagName = this.tagNames.has(phrase);
+    const matches = Array.from(scores ?? [], ([doc, score]) => {
+      const problem = this.problems[doc];
+      const titleHit = problem.Title.toLowerCase().includes(phrase) || problem.TitleZH.includes(phrase);
+      const tagHit = isTagName && this.docTags[doc].has(phrase);
+      return { problem, score: score + (titleHit ? 5 : 0) + (tagHit ? 3 : 0) };
+    }).sort((a, b) => b.score - a.score || a.problem.ID - b.problem.ID);
+
+    return { matches, terms: Array.from(terms) };
+  }
+}
+
+// Character ranges of `text` covered by any of the terms, merged and in order
+export function highlightRanges(text: string, terms: string[]): [number, number][] {
+  const lower = text.toLowerCase();
+  const ranges: [number, number][] = [];
+
+  terms.forEach(term => {
+    if (!term) return;
+    let index = lower.indexOf(term);
+    while (index !== -1) {
+      ranges.push([index, index + term.length]);
+      index = lower.indexOf(term, index + term.length);
+    }
+  });
+
+  ranges.sort((a, b) => a[0] - b[0]);
+  return ranges.reduce<[number, number][]>((merged, range) => {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) last[1] = Math.max(last[1], range[1]);
+    else merged.push([...range]);
+    return merged;
+  }, []);
+}
+
+export const hasCJK = (terms: string[]) => terms.some(isCJK);
@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { safeRedirect } from "~/lib/session.server";
+
+describe("safeRedirect", () => {
+  it("keeps same-site paths with their query and hash", () => {
+    expect(safeRedirect("/lists/abc?tab=1#top")).toBe("/lists/abc?tab=1#top");
+    expect(safeRedirect("/")).toBe("/");
+  });
+
+  it("falls back for anything that could leave the site", () => {
+    [
+      "https://evil.com",
+      "//evil.com",
+      "/\\evil.com",
+      "/\\/evil.com",
+      "\\\\evil.com",
+      "/\t/evil.com",
+      "/\n/evil.com",
+      "evil.com",
+      "",
+    ].forEach(to => expect(safeRedirect(to, "/home")).toBe("/home"));
+  });
+
+  it("falls back for missing and non-string values", () => {
+    expect(safeRedirect(null)).toBe("/");
+    expect(safeRedirect(undefined)).toBe("/");
+    expect(safeRedirect(new File([], "x"))).toBe("/");
+  });
+});
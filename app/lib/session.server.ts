@@ -0,0 +1,50 @@
+import { createCookieSessionStorage, redirect } from "@remix-run/node";
+import { getUserById, type User } from "~/lib/accounts.server";
+
+// The session cookie holds only the signed user ID; everything else is looked up per request.
+// Set SESSION_SECRET in production; the fallback only keeps local development working.
+const SESSION_SECRET = process.env.SESSION_SECRET;
+
+if (!SESSION_SECRET && process.env.NODE_ENV === "production") {
+  throw new Error("SESSION_SECRET must be set to sign session cookies");
+}
+
+const sessionStorage = createCookieSessionStorage<{ userId: number }>({
+  cookie: {
+    name: "stepcode-session",
+    httpOnly: true,
+    path: "/",
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    secrets: [SESSION_SECRET ?? "stepcode-development-secret"],
+    maxAge: 60 * 60 * 24 * 30,
+  },
+});
+
+export async function getSessionUser(request: Request): Promise<User | null> {
+  const session = await sessionStorage.getSession(request.headers.get("Cookie"));
+  const userId = session.get("userId");
+  return userId === undefined ? null : getUserById(userId);
+}
+
+export async function createUserSession(request: Request, user: User, redirectTo: string) {
+  const session = await sessionStorage.getSession(request.headers.get("Cookie"));
+  session.set("userId", user.id);
+  return redirect(redirectTo, { headers: { "Set-Cookie": await sessionStorage.commitSession(session) } });
+}
+
+export async function destroyUserSession(request: Request, redirectTo: string) {
+  const session = await sessionStorage.getSession(request.headers.get("Cookie"));
+  return redirect(redirectTo, { headers: { "Set-Cookie": await sessionStorage.destroySession(session) } });
+}
+
+// Any origin will do; it's only there to see whether a path stays on it
+const REDIRECT_BASE = "http://stepcode.invalid";
+
+// Only same-site paths, so a crafted ?redirectTo= can't send people elsewhere after signing in.
+// Browsers read "\" as "/" and skip tabs and newlines, so "/\evil.com" would leave the site too.
+export function safeRedirect(to: FormDataEntryValue | string | null | undefined, fallback = "/"): string {
+  // eslint-disable-next-line no-control-regex
+  if (typeof to !== "string" || !to.startsWith("/") || /[\\\u0000-\u001f\u007f]/.test(to)) return fallback;
+  return new URL(to, REDIRECT_BASE).origin === REDIRECT_BASE ? to : fallback;
+}
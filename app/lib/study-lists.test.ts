@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildShareParams,
+  createStudyList,
+  exportStudyList,
+  parseShareIds,
+  parseStoredStudyLists,
+  parseStudyListJson,
+  StudyListFormatError,
+} from "~/lib/study-lists";
+
+const ramp = createStudyList("Sliding window ramp 1400→2200", [{ id: 1004, note: "warm-up" }, { id: 424 }, { id: 3 }], "Easy to hard");
+
+describe("parseStudyListJson", () => {
+  it("reads back an exported list as a new copy", () => {
+    const [copy] = parseStudyListJson(exportStudyList(ramp));
+    expect(copy).toMatchObject({ name: ramp.name, description: "Easy to hard", entries: ramp.entries });
+    expect(copy.id).not.toBe(ramp.id);
+  });
+
+  it("reads arrays of lists and drops empty notes and unknown fields", () => {
+    const text = JSON.stringify([
+      { version: 1, name: "A", entries: [{ id: 1, note: "" }, { id: 2, extra: true }] },
+      { name: "  B  ", description: 7, entries: [] },
+    ]);
+    const lists = parseStudyListJson(text);
+    expect(lists.map(({ name, description, entries }) => ({ name, description, entries }))).toEqual([
+      { name: "A", description: undefined, entries: [{ id: 1 }, { id: 2 }] },
+      { name: "B", description: undefined, entries: [] },
+    ]);
+  });
+
+  it.each([
+    ["{", "Not valid JSON"],
+    ["null", "expected an object"],
+    ['{"entries": []}', 'missing "name"'],
+    ['{"name": " ", "entries": []}', 'missing "name"'],
+    ['{"name": "A"}', 'missing "entries"'],
+    ['{"name": "A", "entries": [{"id": 1}, {"id": "2"}]}', 'entry 2 has no numeric "id"'],
+    ['{"name": "A", "entries": [{"id": 1.5}]}', 'entry 1 has no numeric "id"'],
+    ['[{"name": "A", "entries": []}, {"name": "B", "entries": [null]}]', 'List 2: entry 1 has no numeric "id"'],
+  ])("rejects %s", (text, message) => {
+    expect(() => parseStudyListJson(text)).toThrow(new StudyListFormatError(message));
+  });
+});
+
+describe("share links", () => {
+  it("round-trips the name and problem order", () => {
+    const params = new URLSearchParams(`?${buildShareParams(ramp).toString()}`);
+    expect(params.get("name")).toBe("Sliding window ramp 1400→2200");
+    expect(parseShareIds(params.get("ids"))).toEqual([1004, 424, 3]);
+  });
+
+  it("keeps names with separators intact", () => {
+    const params = new URLSearchParams(buildShareParams(createStudyList("DP & graphs, part 2=hard?", [{ id: 1 }])).toString());
+    expect(params.get("name")).toBe("DP & graphs, part 2=hard?");
+  });
+
+  it("drops repeats and anything that isn't a positive whole number", () => {
+    expect(parseShareIds("5, 3,5,,0,-2,1.5,12abc,abc,7")).toEqual([5, 3, 7]);
+    expect(parseShareIds("")).toEqual([]);
+    expect(parseShareIds(null)).toEqual([]);
+  });
+});
+
+describe("parseStoredStudyLists", () => {
+  it("keeps well-formed lists as they are", () => {
+    const deleted = { id: "x", name: "Old", entries: [], createdAt: "2026-01-01", updatedAt: "2026-01-02", deletedAt: "2026-01-02" };
+    expect(parseStoredStudyLists([ramp, deleted])).toEqual([ramp, deleted]);
+  });
+
+  it("drops lists without an id or name and entries without an id", () => {
+    const stored = [
+      { id: "a", name: "A", entries: [{ id: 1 }, { id: "2" }, null, { id: 3, note: 4 }], createdAt: "2026-01-01", updatedAt: "2026-01-01" },
+      { name: "No id", entries: [] },
+      { id: "c", entries: [] },
+      "junk",
+      { id: "d", name: "D", description: null, entries: "1,2" },
+    ];
+    expect(parseStoredStudyLists(stored)).toEqual([
+      { id: "a", name: "A", entries: [{ id: 1 }, { id: 3 }], createdAt: "2026-01-01", updatedAt: "2026-01-01" },
+      { id: "d", name: "D", entries: [], createdAt: "", updatedAt: "" },
+    ]);
+  });
+
+  it("reads anything but an array as no lists", () => {
+    expect(parseStoredStudyLists({ lists: [ramp] })).toEqual([]);
+    expect(parseStoredStudyLists(null)).toEqual([]);
+  });
+});
@@ -0,0 +1,175 @@
+import { pushUserState } from "~/lib/account-sync";
+
+// Named, ordered problem lists kept in the browser, e.g. "Sliding window ramp 1400→2200".
+// Completion comes from the progress map, so solving a problem ticks it off in every list.
+
+export interface StudyListEntry {
+  // LeetCodeProblem.ID
+  id: number;
+  note?: string;
+}
+
+export interface StudyList {
+  id: string;
+  name: string;
+  description?: string;
+  entries: StudyListEntry[];
+  createdAt: string;
+  updatedAt: string;
+  // Deleted lists stay behind as empty markers, so the deletion wins over an older copy of the
+  // list when the account merges in another device's lists
+  deletedAt?: string;
+}
+
+export class StudyListFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "StudyListFormatError";
+  }
+}
+
+const newListId = () => `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
+export function createStudyList(name: string, entries: StudyListEntry[] = [], description?: string): StudyList {
+  const now = new Date().toISOString();
+  return { id: newListId(), name: name.trim() || "Untitled list", description, entries, createdAt: now, updatedAt: now };
+}
+
+// Returns a copy with the update applied and the timestamp bumped
+export function updateStudyList(list: StudyList, update: Partial<Omit<StudyList, "id" | "createdAt">>): StudyList {
+  return { ...list, ...update, updatedAt: new Date().toISOString() };
+}
+
+export function deleteStudyList(list: StudyList): StudyList {
+  const { name, createdAt } = list;
+  const now = new Date().toISOString();
+  return { id: list.id, name, entries: [], createdAt, updatedAt: now, deletedAt: now };
+}
+
+// Appends problems not already on the list, keeping the existing order
+export function addEntries(list: StudyList, ids: number[]): StudyList {
+  const present = new Set(list.entries.map(entry => entry.id));
+  const added: StudyListEntry[] = [];
+  ids.forEach(id => {
+    if (present.has(id)) return;
+    present.add(id);
+    added.push({ id });
+  });
+  return added.length > 0 ? updateStudyList(list, { entries: [...list.entries, ...added] }) : list;
+}
+
+export function moveEntry(list: StudyList, from: number, to: number): StudyList {
+  if (to < 0 || to >= list.entries.length || from === to) return list;
+  const entries = [...list.entries];
+  const [moved] = entries.splice(from, 1);
+  entries.splice(to, 0, moved);
+  return updateStudyList(list, { entries });
+}
+
+// Exported file format; the version leaves room to change it without breaking old files
+interface StudyListFile {
+  version: 1;
+  name: string;
+  description?: string;
+  entries: StudyListEntry[];
+}
+
+export function exportStudyList(list: StudyList): string {
+  const file: StudyListFile = { version: 1, name: list.name, description: list.description, entries: list.entries };
+  return JSON.stringify(file, null, 2);
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// An entry as stored or exported, or null when it has no whole-number id
+function parseEntry(value: unknown): StudyListEntry | null {
+  if (!isRecord(value) || typeof value.id !== "number" || !Number.isInteger(value.id)) return null;
+  return typeof value.note === "string" && value.note ? { id: value.id, note: value.note } : { id: value.id };
+}
+
+// Accepts a single exported list or an array of them
+export function parseStudyListJson(text: string): StudyList[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new StudyListFormatError("Not valid JSON");
+  }
+
+  const files = Array.isArray(parsed) ? parsed : [parsed];
+  return files.map((file, index) => {
+    const label = files.length > 1 ? `List ${index + 1}: ` : "";
+    if (!isRecord(file)) {
+      throw new StudyListFormatError(`${label}expected an object`);
+    }
+    const { name, description, entries } = file as Partial<StudyListFile>;
+    if (typeof name !== "string" || !name.trim()) {
+      throw new StudyListFormatError(`${label}missing "name"`);
+    }
+    if (!Array.isArray(entries)) {
+      throw new StudyListFormatError(`${label}missing "entries"`);
+    }
+    const checked = entries.map((entry: unknown, position) => {
+      const parsed = parseEntry(entry);
+      if (!parsed) throw new StudyListFormatError(`${label}entry ${position + 1} has no numeric "id"`);
+      return parsed;
+    });
+    return createStudyList(name, checked, typeof description === "string" ? description : undefined);
+  });
+}
+
+// Share links carry only the name and problem IDs, e.g. /lists/import?name=Ramp&ids=1004,424,3
+export function buildShareParams(list: StudyList): URLSearchParams {
+  return new URLSearchParams({ name: list.name, ids: list.entries.map(entry => entry.id).join(",") });
+}
+
+export function parseShareIds(value: string | null): number[] {
+  if (!value) return [];
+  return Array.from(new Set(
+    value.split(",").map(part => part.trim()).filter(part => /^\d+$/.test(part)).map(Number).filter(id => id > 0)
+  ));
+}
+
+export const STUDY_LISTS_STORAGE_KEY = "leetcode-dashboard-study-lists";
+
+// Lists as saved in the browser or an account, which older versions, other devices or hand
+// edits may have left malformed. Lists without an id or name are dropped, as are entries
+// without an id; missing timestamps sort before any real one, so another copy wins a merge.
+export function parseStoredStudyLists(value: unknown): StudyList[] {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((item: unknown): StudyList[] => {
+    if (!isRecord(item) || typeof item.id !== "string" || typeof item.name !== "string") return [];
+    const text = (field: unknown) => (typeof field === "string" ? field : undefined);
+    const list: StudyList = {
+      id: item.id,
+      name: item.name,
+      entries: Array.isArray(item.entries) ? item.entries.flatMap(entry => parseEntry(entry) ?? []) : [],
+      createdAt: text(item.createdAt) ?? "",
+      updatedAt: text(item.updatedAt) ?? "",
+    };
+    const description = text(item.description);
+    const deletedAt = text(item.deletedAt);
+    if (description !== undefined) list.description = description;
+    if (deletedAt !== undefined) list.deletedAt = deletedAt;
+    return [list];
+  });
+}
+
+export function loadStudyLists(): StudyList[] {
+  const saved = localStorage.getItem(STUDY_LISTS_STORAGE_KEY);
+  if (!saved) return [];
+
+  try {
+    return parseStoredStudyLists(JSON.parse(saved));
+  } catch (e) {
+    console.error("Failed to load study lists:", e);
+    return [];
+  }
+}
+
+export function saveStudyLists(lists: StudyList[]) {
+  const value = JSON.stringify(lists);
+  localStorage.setItem(STUDY_LISTS_STORAGE_KEY, value);
+  pushUserState("studyLists", value);
+}
@@ -0,0 +1,85 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { ProgressMap } from "~/lib/progress";
+import { matchSubmissions, mergeImportedProgress, parseSubmissions, type ImportableProblem } from "~/lib/submissions-import";
+
+const problems: ImportableProblem[] = [
+  { ID: 1, Title: "Two Sum", TitleSlug: "two-sum", questionId: "1" },
+  { ID: 3000, Title: "Hard One", TitleSlug: "hard-one", questionId: "3100" },
+];
+
+// Local times, so the expected dates hold in any time zone
+const seconds = (local: string) => String(new Date(local).getTime() / 1000);
+
+describe("parseSubmissions", () => {
+  it("dates rows by the local day", () => {
+    const [row] = parseSubmissions(JSON.stringify([{ title_slug: "two-sum", status_display: "Accepted", timestamp: seconds("2026-03-01T23:30:00") }]));
+    expect(row.date).toBe("2026-03-01");
+  });
+
+  it("reads CSV with spaced headers and millisecond timestamps", () => {
+    const ms = String(new Date("2026-03-02T00:15:00").getTime());
+    const [row] = parseSubmissions(`Title Slug,Status,Time\nhard-one,Wrong Answer,${ms}\n`);
+    expect(row).toMatchObject({ row: 2, slug: "hard-one", accepted: false, date: "2026-03-02" });
+  });
+});
+
+describe("matchSubmissions", () => {
+  it("keeps the first submission and the first accepted one", () => {
+    const rows = parseSubmissions(JSON.stringify({
+      submissions_dump: [
+        { title_slug: "two-sum", status_display: "Accepted", timestamp: seconds("2026-03-05T10:00:00") },
+        { title_slug: "two-sum", status_display: "Wrong Answer", timestamp: seconds("2026-03-03T10:00:00") },
+        { title_slug: "two-sum", status_display: "Accepted", timestamp: seconds("2026-03-04T10:00:00") },
+        { question_id: "3100", status_display: "Time Limit Exceeded", timestamp: seconds("2026-03-07T10:00:00") },
+        { question_id: "3100", status_display: "Wrong Answer", timestamp: seconds("2026-03-06T10:00:00") },
+        { title_slug: "not-rated", status_display: "Accepted" },
+      ],
+    }));
+    const { matched, unmatched } = matchSubmissions(rows, problems);
+    expect(matched).toEqual([
+      { id: 1, title: "Two Sum", status: "solved", solvedAt: "2026-03-04", firstSubmittedAt: "2026-03-03", submissions: 3 },
+      { id: 3000, title: "Hard One", status: "attempted", firstSubmittedAt: "2026-03-06", submissions: 2 },
+    ]);
+    expect(unmatched).toEqual([{ row: 6, label: "not-rated", reason: "Not a rated contest problem" }]);
+  });
+});
+
+describe("mergeImportedProgress", () => {
+  const now = new Date("2026-04-01T12:00:00");
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(now);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("stamps new entries with the day they were solved or first tried", () => {
+    const merged = mergeImportedProgress({}, [
+      { id: 1, title: "Two Sum", status: "solved", solvedAt: "2026-03-04", firstSubmittedAt: "2026-03-03", submissions: 3 },
+      { id: 3000, title: "Hard One", status: "attempted", firstSubmittedAt: "2026-03-06", submissions: 2 },
+    ]);
+    expect(merged[1]).toEqual({ status: "solved", solvedAt: "2026-03-04", updatedAt: new Date("2026-03-04T00:00:00").toISOString() });
+    expect(merged[3000]).toEqual({ status: "attempted", updatedAt: new Date("2026-03-06T00:00:00").toISOString() });
+  });
+
+  it("falls back to the import time without dates", () => {
+    const merged = mergeImportedProgress({}, [{ id: 3000, title: "Hard One", status: "attempted", submissions: 1 }]);
+    expect(merged[3000].updatedAt).toBe(now.toISOString());
+  });
+
+  it("stamps changes to existing entries with the import time and never downgrades", () => {
+    const progress: ProgressMap = {
+      1: { status: "attempted", notes: "hash map", updatedAt: "2026-01-01T00:00:00.000Z" },
+      3000: { status: "revisit", updatedAt: "2026-01-01T00:00:00.000Z" },
+    };
+    const merged = mergeImportedProgress(progress, [
+      { id: 1, title: "Two Sum", status: "solved", solvedAt: "2026-03-04", firstSubmittedAt: "2026-03-03", submissions: 3 },
+      { id: 3000, title: "Hard One", status: "attempted", firstSubmittedAt: "2026-03-06", submissions: 2 },
+    ]);
+    expect(merged[1]).toEqual({ status: "solved", notes: "hash map", solvedAt: "2026-03-04", updatedAt: now.toISOString() });
+    expect(merged[3000]).toBe(progress[3000]);
+  });
+});
@@ -0,0 +1,233 @@
+import { toLocalISODate, type ProblemProgress, type ProblemStatus, type ProgressMap } from "~/lib/progress";
+
+// Seeds progress from a LeetCode submissions export, read entirely in the browser. Accepts
+// the JSON LeetCode's submissions API returns ({ submissions_dump: [...] }), a plain array of
+// submissions in either snake_case or camelCase, or a CSV with a header row. Each row is
+// matched by title slug, then LeetCode's internal question ID, then the problem number.
+
+export class SubmissionsFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SubmissionsFormatError";
+  }
+}
+
+// What the page needs to know about each problem to match rows against it
+export interface ImportableProblem {
+  ID: number;
+  Title: string;
+  TitleSlug: string;
+  // problemDetails.questionId, when known
+  questionId: string | null;
+}
+
+export interface SubmissionRow {
+  // 1-based position in the file, for pointing at unmatched rows
+  row: number;
+  slug: string | null;
+  questionId: string | null;
+  frontendId: string | null;
+  title: string | null;
+  accepted: boolean;
+  // Local YYYY-MM-DD, when the row has a readable timestamp
+  date: string | null;
+}
+
+export interface ImportedProblem {
+  id: number;
+  title: string;
+  status: Extract<ProblemStatus, "attempted" | "solved">;
+  // First accepted submission
+  solvedAt?: string;
+  // First submission of any kind, so attempted problems keep a date too
+  firstSubmittedAt?: string;
+  submissions: number;
+}
+
+export interface UnmatchedRow {
+  row: number;
+  // Whatever identified the row in the file
+  label: string;
+  reason: string;
+}
+
+export interface SubmissionsPreview {
+  matched: ImportedProblem[];
+  unmatched: UnmatchedRow[];
+}
+
+// Lower-cased with separators dropped, so "title_slug", "titleSlug" and "Title Slug" agree
+const normalizeKey = (key: string) => key.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+const FIELD_NAMES = {
+  slug: ["titleslug", "slug", "questionslug", "problemslug"],
+  questionId: ["questionid"],
+  frontendId: ["frontendquestionid", "questionfrontendid", "frontendid", "problemid", "problemnumber"],
+  title: ["title", "questiontitle", "problemtitle", "problem"],
+  status: ["statusdisplay", "status", "result", "verdict"],
+  time: ["timestamp", "time", "submittedat", "submissiontime", "date", "createdat"],
+};
+
+function pick(record: Record<string, unknown>, names: string[]): string | null {
+  for (const name of names) {
+    const value = record[name];
+    if (value !== undefined && value !== null && String(value).trim() !== "") return String(value).trim();
+  }
+  return null;
+}
+
+// Unix seconds or milliseconds, or anything Date can parse
+function toDate(value: string | null): string | null {
+  if (!value) return null;
+  const numeric = /^\d+(\.\d+)?$/.test(value) ? Number(value) : null;
+  const date = numeric !== null ? new Date(numeric < 1e11 ? numeric * 1000 : numeric) : new Date(value);
+  return Number.isNaN(date.getTime()) ? null : toLocalISODate(date);
+}
+
+// LeetCode reports "Accepted" as status_display, or status code 10
+const isAccepted = (status: string | null) => status !== null && (/^accepted$/i.test(status) || status === "10");
+
+function toRow(record: Record<string, unknown>, row: number): SubmissionRow {
+  const normalized: Record<string, unknown> = {};
+  Object.entries(record).forEach(([key, value]) => (normalized[normalizeKey(key)] = value));
+  return {
+    row,
+    slug: pick(normalized, FIELD_NAMES.slug),
+    questionId: pick(normalized, FIELD_NAMES.questionId),
+    frontendId: pick(normalized, FIELD_NAMES.frontendId),
+    title: pick(normalized, FIELD_NAMES.title),
+    accepted: isAccepted(pick(normalized, FIELD_NAMES.status)),
+    date: toDate(pick(normalized, FIELD_NAMES.time)),
+  };
+}
+
+// RFC 4180 fields: quoted fields may hold commas, doubled quotes and line breaks
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ""));
+}
+
+export function parseSubmissions(text: string): SubmissionRow[] {
+  const trimmed = text.replace(/^\uFEFF/, "").trim();
+  if (!trimmed) throw new SubmissionsFormatError("The file is empty");
+
+  if (trimmed.startsWith("{") || trimmed.startsWith("[")) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(trimmed);
+    } catch {
+      throw new SubmissionsFormatError("The file looks like JSON but can't be parsed");
+    }
+    const list = Array.isArray(parsed)
+      ? parsed
+      : Object.values(parsed as Record<string, unknown>).find(Array.isArray);
+    if (!list) throw new SubmissionsFormatError("No list of submissions found in the JSON");
+    return list
+      .filter((item): item is Record<string, unknown> => typeof item === "object" && item !== null)
+      .map((item, index) => toRow(item, index + 1));
+  }
+
+  const [header, ...records] = parseCsv(trimmed);
+  if (!header || records.length === 0) throw new SubmissionsFormatError("The CSV needs a header row and at least one submission");
+  // Data rows start on line 2
+  return records.map((cells, index) =>
+    toRow(Object.fromEntries(header.map((name, column) => [name, cells[column] ?? ""])), index + 2)
+  );
+}
+
+export function matchSubmissions(rows: SubmissionRow[], problems: ImportableProblem[]): SubmissionsPreview {
+  const bySlug = new Map(problems.map(problem => [problem.TitleSlug, problem]));
+  const byQuestionId = new Map(problems.flatMap(problem => (problem.questionId ? [[problem.questionId, problem] as const] : [])));
+  const byId = new Map(problems.map(problem => [String(problem.ID), problem]));
+
+  const matched = new Map<number, ImportedProblem>();
+  const unmatched: UnmatchedRow[] = [];
+
+  rows.forEach(row => {
+    const problem =
+      (row.slug && bySlug.get(row.slug)) ||
+      (row.questionId && byQuestionId.get(row.questionId)) ||
+      (row.frontendId && byId.get(row.frontendId)) ||
+      undefined;
+    if (!problem) {
+      const label = row.title ?? row.slug ?? row.frontendId ?? row.questionId ?? "(no identifier)";
+      const reason = row.slug || row.questionId || row.frontendId ? "Not a rated contest problem" : "No title slug or question ID";
+      unmatched.push({ row: row.row, label, reason });
+      return;
+    }
+
+    const entry = matched.get(problem.ID) ?? { id: problem.ID, title: problem.Title, status: "attempted", submissions: 0 };
+    entry.submissions++;
+    if (row.date && (!entry.firstSubmittedAt || row.date < entry.firstSubmittedAt)) entry.firstSubmittedAt = row.date;
+    if (row.accepted) {
+      entry.status = "solved";
+      if (row.date && (!entry.solvedAt || row.date < entry.solvedAt)) entry.solvedAt = row.date;
+    }
+    matched.set(problem.ID, entry);
+  });
+
+  return { matched: Array.from(matched.values()).sort((a, b) => a.id - b.id), unmatched };
+}
+
+// Local midnight of a YYYY-MM-DD date, as an ISO timestamp
+const startOfDay = (date: string) => new Date(`${date}T00:00:00`).toISOString();
+
+// Never downgrades: problems already solved or marked for revisit keep their status and
+// notes, and only gain a solved date if they had none. Problems the import starts tracking
+// are stamped with when they were solved or first tried; changes to entries the learner
+// already had are stamped with the import time, so they win over older copies when syncing.
+export function mergeImportedProgress(progress: ProgressMap, imported: ImportedProblem[]): ProgressMap {
+  const now = new Date().toISOString();
+  const result = { ...progress };
+  imported.forEach(({ id, status, solvedAt, firstSubmittedAt }) => {
+    const current = progress[id];
+    let next: ProblemProgress | undefined;
+    if (!current || current.status === "unsolved") {
+      const date = status === "solved" ? solvedAt : firstSubmittedAt;
+      next = { ...current, status, updatedAt: date && !current ? startOfDay(date) : now };
+      if (status === "solved") next.solvedAt = solvedAt;
+    } else if (current.status === "attempted" && status === "solved") {
+      next = { ...current, status, solvedAt, updatedAt: now };
+    } else if (status === "solved" && current.status !== "attempted" && !current.solvedAt && solvedAt) {
+      next = { ...current, solvedAt, updatedAt: now };
+    }
+    if (next) {
+      if (!next.solvedAt) delete next.solvedAt;
+      result[id] = next;
+    }
+  });
+  return result;
+}
@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+import { checkTagQuery, parseTagQuery, TagQueryError, validateTagQuery } from "~/lib/tag-query";
+import { buildTaxonomy, createTagNameResolver, TAXONOMY_DEFINITIONS } from "~/lib/taxonomy";
+import { problem } from "~/lib/test-fixtures";
+
+const tag = (name: string) => ({ type: "tag", name });
+
+const errorAt = (input: string) => {
+  try {
+    parseTagQuery(input);
+  } catch (e) {
+    if (e instanceof TagQueryError) return { message: e.message, position: e.position };
+    throw e;
+  }
+  return null;
+};
+
+describe("parseTagQuery", () => {
+  it("binds AND tighter than OR", () => {
+    expect(parseTagQuery("Graph OR Tree AND Greedy")).toEqual({
+      type: "or",
+      operands: [tag("Graph"), { type: "and", operands: [tag("Tree"), tag("Greedy")] }],
+    });
+    expect(parseTagQuery("Graph AND Tree OR Greedy")).toEqual({
+      type: "or",
+      operands: [{ type: "and", operands: [tag("Graph"), tag("Tree")] }, tag("Greedy")],
+    });
+  });
+
+  it("applies NOT to the nearest operand and allows it to repeat", () => {
+    expect(parseTagQuery("NOT Graph AND Tree")).toEqual({ type: "and", operands: [{ type: "not", operand: tag("Graph") }, tag("Tree")] });
+    expect(parseTagQuery("!!Graph")).toEqual({ type: "not", operand: { type: "not", operand: tag("Graph") } });
+  });
+
+  it("groups with parentheses", () => {
+    expect(parseTagQuery("(Binary Search OR Two Pointers) AND NOT (Greedy | Math)")).toEqual({
+      type: "and",
+      operands: [
+        { type: "or", operands: [tag("Binary Search"), tag("Two Pointers")] },
+        { type: "not", operand: { type: "or", operands: [tag("Greedy"), tag("Math")] } },
+      ],
+    });
+  });
+
+  it("accepts symbols, doubled symbols and lower-case words inside names", () => {
+    expect(parseTagQuery("Graph && Tree || Fast and Slow Pointers")).toEqual({
+      type: "or",
+      operands: [{ type: "and", operands: [tag("Graph"), tag("Tree")] }, tag("Fast and Slow Pointers")],
+    });
+  });
+
+  it("reads quoted names whole, operators and parentheses included", () => {
+    expect(parseTagQuery('"Heap (Priority Queue)" & !"Sorting AND Searching"')).toEqual({
+      type: "and",
+      operands: [tag("Heap (Priority Queue)"), { type: "not", operand: tag("Sorting AND Searching") }],
+    });
+    expect(parseTagQuery("Graph > Shortest Path")).toEqual(tag("Graph > Shortest Path"));
+  });
+
+  it("reports where the query goes wrong", () => {
+    expect(errorAt("")).toEqual({ message: "Query is empty", position: 0 });
+    expect(errorAt("Graph AND")).toEqual({ message: "Expected a tag name", position: 9 });
+    expect(errorAt("Graph AND OR Tree")).toEqual({ message: "Expected a tag name", position: 10 });
+    expect(errorAt("(Graph OR Tree")).toEqual({ message: "Missing closing parenthesis", position: 14 });
+    expect(errorAt("Graph) AND Tree")).toEqual({ message: "Unmatched closing parenthesis", position: 5 });
+    expect(errorAt('Graph AND "Tree')).toEqual({ message: "Unterminated quote", position: 10 });
+    expect(errorAt('Graph "Tree"')).toEqual({ message: "Expected AND or OR", position: 6 });
+  });
+});
+
+describe("validateTagQuery", () => {
+  const { taxonomy } = buildTaxonomy([
+    problem(1, {
+      topicTags: [
+        { name: "Array", slug: "array" },
+        { name: "Graph", slug: "graph", subtags: ["Shortest Path"] },
+        { name: "Breadth-First Search", slug: "breadth-first-search" },
+      ],
+    }),
+  ], TAXONOMY_DEFINITIONS);
+  const resolve = (name: string) => taxonomy.resolve(name)?.name;
+  const known = taxonomy.names();
+
+  it("accepts plurals and aliases the taxonomy resolves", () => {
+    expect(validateTagQuery(parseTagQuery("Arrays AND BFS AND graphs > shortest paths"), known, resolve)).toEqual([]);
+  });
+
+  it("suggests the closest name for unknown ones", () => {
+    expect(validateTagQuery(parseTagQuery("Grpah OR Tree"), known, resolve)).toEqual([
+      'Unknown tag "Grpah". Did you mean "Graph"?',
+      'Unknown tag "Tree"',
+    ]);
+    expect(validateTagQuery(parseTagQuery("Graph > Dijkstra"), known, resolve)).toEqual(['Unknown tag "Graph > Dijkstra"']);
+  });
+
+  it("matches the client's resolver built from the tag index", () => {
+    const clientResolve = createTagNameResolver(known, { BFS: "Breadth-First Search" });
+    ["Arrays", "bfs", "Breadth-First Searches", "Graph > Shortest Paths", "Nope"].forEach(name => {
+      const node = parseTagQuery(`"${name}"`);
+      expect(validateTagQuery(node, known, clientResolve)).toEqual(validateTagQuery(node, known, resolve));
+    });
+  });
+
+  it("turns syntax errors into messages with a 1-based position", () => {
+    expect(checkTagQuery("Graph AND", known, resolve)).toEqual({ node: null, errors: ["Expected a tag name at position 10"] });
+    expect(checkTagQuery("arrays", known, resolve)).toEqual({ node: tag("arrays"), errors: [] });
+  });
+});
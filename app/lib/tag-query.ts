@@ -0,0 +1,278 @@
+import type { Taxonomy } from "~/lib/taxonomy";
+import type { LeetCodeProblem } from "~/lib/types";
+
+// Boolean expressions over tag and subtag names, e.g.
+//   Graph AND NOT Tree
+//   (Binary Search OR Two Pointers) AND Greedy
+//   "Heap (Priority Queue)" & !Sorting
+//
+// Operators are upper-case (AND, OR, NOT) or symbolic (&, |, !) so that lower-case words
+// inside names such as "Fast and Slow Pointers" stay part of the name. Adjacent words form
+// one name; names containing parentheses or operator symbols must be double-quoted.
+// A name matches a problem that has it as either a tag or a subtag; "Graph > Shortest Path"
+// matches the subtag only under that tag.
+
+export type TagQueryNode =
+  | { type: "tag"; name: string }
+  | { type: "not"; operand: TagQueryNode }
+  | { type: "and"; operands: TagQueryNode[] }
+  | { type: "or"; operands: TagQueryNode[] };
+
+export class TagQueryError extends Error {
+  constructor(message: string, public position: number) {
+    super(message);
+    this.name = "TagQueryError";
+  }
+}
+
+type Token =
+  | { type: "and" | "or" | "not" | "lparen" | "rparen"; position: number }
+  | { type: "word"; value: string; quoted: boolean; position: number };
+
+const OPERATOR_WORDS: Record<string, "and" | "or" | "not"> = { AND: "and", OR: "or", NOT: "not" };
+const SYMBOLS: Record<string, "and" | "or" | "not" | "lparen" | "rparen"> = {
+  "&": "and",
+  "|": "or",
+  "!": "not",
+  "(": "lparen",
+  ")": "rparen",
+};
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (SYMBOLS[char]) {
+      tokens.push({ type: SYMBOLS[char], position: i });
+      // Accept the doubled forms && and ||
+      i += (char === "&" || char === "|") && input[i + 1] === char ? 2 : 1;
+    } else if (char === '"') {
+      const end = input.indexOf('"', i + 1);
+      if (end === -1) {
+        throw new TagQueryError("Unterminated quote", i);
+      }
+      tokens.push({ type: "word", value: input.slice(i + 1, end), quoted: true, position: i });
+      i = end + 1;
+    } else {
+      const start = i;
+      while (i < input.length && !/[\s"&|!()]/.test(input[i])) i++;
+      const word = input.slice(start, i);
+      const operator = OPERATOR_WORDS[word];
+      tokens.push(operator ? { type: operator, position: start } : { type: "word", value: word, quoted: false, position: start });
+    }
+  }
+
+  return tokens;
+}
+
+class Parser {
+  private index = 0;
+
+  constructor(private tokens: Token[], private inputLength: number) {}
+
+  parse(): TagQueryNode {
+    if (this.tokens.length === 0) {
+      throw new TagQueryError("Query is empty", 0);
+    }
+    const node = this.parseOr();
+    const extra = this.peek();
+    if (extra) {
+      throw new TagQueryError(extra.type === "rparen" ? "Unmatched closing parenthesis" : "Expected AND or OR", extra.position);
+    }
+    return node;
+  }
+
+  private peek() {
+    return this.tokens[this.index];
+  }
+
+  private parseOr(): TagQueryNode {
+    const operands = [this.parseAnd()];
+    while (this.peek()?.type === "or") {
+      this.index++;
+      operands.push(this.parseAnd());
+    }
+    return operands.length === 1 ? operands[0] : { type: "or", operands };
+  }
+
+  private parseAnd(): TagQueryNode {
+    const operands = [this.parseUnary()];
+    while (this.peek()?.type === "and") {
+      this.index++;
+      operands.push(this.parseUnary());
+    }
+    return operands.length === 1 ? operands[0] : { type: "and", operands };
+  }
+
+  private parseUnary(): TagQueryNode {
+    if (this.peek()?.type === "not") {
+      this.index++;
+      return { type: "not", operand: this.parseUnary() };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): TagQueryNode {
+    const token = this.peek();
+    if (!token) {
+      throw new TagQueryError("Expected a tag name", this.inputLength);
+    }
+
+    if (token.type === "lparen") {
+      this.index++;
+      const node = this.parseOr();
+      if (this.peek()?.type !== "rparen") {
+        throw new TagQueryError("Missing closing parenthesis", this.peek()?.position ?? this.inputLength);
+      }
+      this.index++;
+      return node;
+    }
+
+    if (token.type !== "word") {
+      throw new TagQueryError("Expected a tag name", token.position);
+    }
+
+    // Consecutive bare words make up one multi-word name
+    const words: string[] = [];
+    let next = this.peek();
+    while (next?.type === "word") {
+      words.push(next.value);
+      this.index++;
+      if (next.quoted) break;
+      next = this.peek();
+      if (next?.type === "word" && next.quoted) break;
+    }
+    return { type: "tag", name: words.join(" ") };
+  }
+}
+
+export function parseTagQuery(input: string): TagQueryNode {
+  return new Parser(tokenize(input), input.length).parse();
+}
+
+export const collectTagNames = (node: TagQueryNode): string[] => {
+  switch (node.type) {
+    case "tag": return [node.name];
+    case "not": return collectTagNames(node.operand);
+    default: return node.operands.flatMap(collectTagNames);
+  }
+};
+
+const editDistance = (a: string, b: string) => {
+  const row = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return row[b.length];
+};
+
+// Returns a message for every name in the query that `resolve` doesn't know, on either side of
+// "tag > subtag". Pass the taxonomy's resolver so plurals and aliases pass exactly when they
+// would match; without one, names have to match a known name apart from case.
+export function validateTagQuery(
+  node: TagQueryNode,
+  knownNames: Iterable<string>,
+  resolve?: (name: string) => string | undefined
+): string[] {
+  const known = Array.from(knownNames);
+  const knownLower = new Set(known.map(name => name.toLowerCase()));
+  const isKnown = (name: string) => (resolve ? resolve(name) !== undefined : knownLower.has(name.toLowerCase()));
+
+  return collectTagNames(node)
+    .filter(name => !name.split(" > ").every(isKnown))
+    .map(name => {
+      const lower = name.toLowerCase();
+      const suggestion = known
+        .map(candidate => ({ candidate, distance: editDistance(lower, candidate.toLowerCase()) }))
+        .sort((a, b) => a.distance - b.distance)[0];
+      return suggestion && suggestion.distance <= Math.max(2, Math.floor(name.length / 4))
+        ? `Unknown tag "${name}". Did you mean "${suggestion.candidate}"?`
+        : `Unknown tag "${name}"`;
+    });
+}
+
+export interface CheckedTagQuery {
+  node: TagQueryNode | null;
+  errors: string[];
+}
+
+// Parses and validates in one go, turning syntax errors into messages
+export function checkTagQuery(
+  input: string,
+  knownNames: Iterable<string>,
+  resolve?: (name: string) => string | undefined
+): CheckedTagQuery {
+  try {
+    const node = parseTagQuery(input);
+    const errors = validateTagQuery(node, knownNames, resolve);
+    return { node: errors.length > 0 ? null : node, errors };
+  } catch (e) {
+    if (!(e instanceof TagQueryError)) throw e;
+    return { node: null, errors: [`${e.message} at position ${e.position + 1}`] };
+  }
+}
+
+// Lower-cased "tag", "subtag" and "tag > subtag" names for one problem. With a taxonomy
+// the names are canonical and hierarchical: a problem also carries every ancestor of its
+// tags, so "Graph" matches a problem tagged only "Shortest Path", and every ancestor pairs
+// with the tag, so "Graph > Dijkstra's Algorithm" matches through "Shortest Path".
+export function problemTagNames(problem: LeetCodeProblem, taxonomy?: Taxonomy): Set<string> {
+  const canonical = (name: string) => (taxonomy?.resolve(name)?.name ?? name).toLowerCase();
+  const names = new Set<string>();
+  problem.topicTags?.forEach(tag => {
+    const tagName = canonical(tag.name);
+    names.add(tagName);
+    tag.subtags?.forEach(subtag => {
+      names.add(canonical(subtag));
+      names.add(`${tagName} > ${canonical(subtag)}`);
+    });
+  });
+  taxonomy?.problemNodes(problem).forEach(node => {
+    taxonomy.ancestors(node.slug).forEach(ancestor => {
+      names.add(ancestor.name.toLowerCase());
+      names.add(`${ancestor.name.toLowerCase()} > ${node.name.toLowerCase()}`);
+    });
+  });
+  return names;
+}
+
+// Rewrites every name in the query (both sides of "tag > subtag") with `resolve`, keeping
+// names it doesn't know. Used to turn aliases into the canonical names problemTagNames yields.
+export function canonicalizeTagQuery(node: TagQueryNode, resolve: (name: string) => string | undefined): TagQueryNode {
+  switch (node.type) {
+    case "tag":
+      return { type: "tag", name: node.name.split(" > ").map(part => resolve(part) ?? part).join(" > ") };
+    case "not":
+      return { type: "not", operand: canonicalizeTagQuery(node.operand, resolve) };
+    default:
+      return { type: node.type, operands: node.operands.map(operand => canonicalizeTagQuery(operand, resolve)) };
+  }
+}
+
+// The search box accepts "free text tags: <query>"; either part may be empty
+const TAG_QUERY_PREFIX = /(^|\s)tags:/i;
+
+export function splitSearchInput(input: string): { searchTerm: string; tagQuery: string } {
+  const match = TAG_QUERY_PREFIX.exec(input);
+  if (!match) return { searchTerm: input.trim(), tagQuery: "" };
+
+  return {
+    searchTerm: input.slice(0, match.index).trim(),
+    tagQuery: input.slice(match.index + match[0].length).trim(),
+  };
+}
+
+export function joinSearchInput(searchTerm: string, tagQuery: string): string {
+  return tagQuery ? `${searchTerm ? `${searchTerm} ` : ""}tags: ${tagQuery}` : searchTerm;
+}
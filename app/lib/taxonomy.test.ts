@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import { buildTaxonomy, slugifyTag, type TaxonomyDefinitions } from "~/lib/taxonomy";
+import { problem } from "~/lib/test-fixtures";
+
+const definitions: TaxonomyDefinitions = {
+  parents: { "Shortest Path": "Graph", "Missing Child": "Graph" },
+  aliases: { "Breadth-First Search": ["BFS"] },
+};
+
+const problems = [
+  problem(1, { topicTags: [{ name: "Graph", slug: "graph", subtags: ["Dijkstra", "BFS"] }, { name: "Shortest Path", slug: "shortest-path" }] }),
+  problem(2, { topicTags: [{ name: "Greedy", slug: "greedy", subtags: ["Optimization", "Exchange Argument"] }] }),
+  problem(3, { topicTags: [{ name: "Greedy", slug: "greedy", subtags: ["Optimizations"] }] }),
+  // Uses "Optimization" as a tag of its own, with no Greedy tag
+  problem(4, { topicTags: [{ name: "Sorting", slug: "sorting" }, { name: "Optimization" }] }),
+  problem(5, { topicTags: [{ name: "Strings" }, { name: "String", slug: "string" }, { name: "Breadth-First  Search", slug: "breadth-first-search" }] }),
+  problem(6, { topicTags: [{ name: "Sorting", slug: "sorting" }, { name: "Lonely Idea" }] }),
+];
+
+const { taxonomy, issues } = buildTaxonomy(problems, definitions);
+const names = (nodes: { name: string }[]) => nodes.map(node => node.name);
+
+describe("buildTaxonomy names", () => {
+  it("folds case, spacing and plural variants into one node", () => {
+    expect(taxonomy.resolve("strings")?.name).toBe("String");
+    expect(taxonomy.resolve("OPTIMIZATIONS")?.name).toBe("Optimization");
+    expect(taxonomy.resolve("breadth-first   search")?.name).toBe("Breadth-First Search");
+    expect(taxonomy.get("string")?.aliases).toEqual(["Strings"]);
+  });
+
+  it("keeps words ending in a double s or shorter than four letters", () => {
+    const { taxonomy: small } = buildTaxonomy([problem(1, { topicTags: [{ name: "Class" }, { name: "Clas" }, { name: "Bus" }, { name: "Bu" }] })]);
+    expect(names(small.nodes).sort()).toEqual(["Bu", "Bus", "Clas", "Class"]);
+  });
+
+  it("folds defined aliases into the canonical name", () => {
+    const bfs = taxonomy.resolve("BFS");
+    expect(bfs?.name).toBe("Breadth-First Search");
+    expect(bfs?.aliases).toEqual(["BFS", "Breadth-First  Search"]);
+    expect(bfs?.problemCount).toBe(2);
+    expect(taxonomy.problemNodes(problems[0]).map(node => node.name)).toContain("Breadth-First Search");
+  });
+
+  it("prefers LeetCode's spelling and slug", () => {
+    expect(taxonomy.resolve("shortest-path")?.name).toBe("Shortest Path");
+    expect(slugifyTag("Dijkstra's Algorithm")).toBe("dijkstras-algorithm");
+  });
+});
+
+describe("buildTaxonomy parents", () => {
+  it("only takes parents from the definitions", () => {
+    expect(taxonomy.resolve("Shortest Path")?.parent).toBe("graph");
+    expect(names(taxonomy.ancestors("shortest-path"))).toEqual(["Graph"]);
+    // Listed under Greedy on two problems, but not defined there
+    expect(taxonomy.resolve("Optimization")?.parent).toBeNull();
+    expect(taxonomy.ancestors("optimization")).toEqual([]);
+  });
+
+  it("shows names without a parent under the tag they're listed with", () => {
+    expect(taxonomy.resolve("Optimization")?.listedUnder).toBe("greedy");
+    expect(names(taxonomy.children("greedy"))).toEqual(["Exchange Argument", "Optimization"]);
+    expect(names(taxonomy.descendants("graph"))).toEqual(["Dijkstra", "Shortest Path"]);
+    expect(names(taxonomy.roots())).toEqual(["Breadth-First Search", "Graph", "Greedy", "Lonely Idea", "Sorting", "String"]);
+  });
+
+  it("suggests parents for names used as tags instead of applying them", () => {
+    expect(issues.filter(issue => issue.kind === "suggested-parent")).toEqual([
+      {
+        kind: "suggested-parent",
+        name: "Optimization",
+        message: 'Most often listed under "Greedy"; define it as the parent to count it there',
+      },
+      {
+        kind: "suggested-parent",
+        name: "Lonely Idea",
+        message: 'Most often tagged next to "Sorting"; define it as the parent to count it there',
+      },
+    ].sort((a, b) => a.name.localeCompare(b.name)));
+  });
+
+  it("reports definitions the data doesn't have", () => {
+    expect(issues).toContainEqual(expect.objectContaining({ kind: "unknown-definition", name: "Missing Child" }));
+  });
+
+  it("breaks defined cycles", () => {
+    const { taxonomy: looped, issues: loopIssues } = buildTaxonomy(
+      [problem(1, { topicTags: [{ name: "A", slug: "a" }, { name: "B", slug: "b" }] })],
+      { parents: { A: "B", B: "A" }, aliases: {} }
+    );
+    expect(loopIssues.some(issue => issue.kind === "cycle")).toBe(true);
+    expect(looped.roots().length).toBeGreaterThan(0);
+    looped.nodes.forEach(node => expect(looped.ancestors(node.slug).length).toBeLessThan(2));
+  });
+});
@@ -0,0 +1,398 @@
+import type { LeetCodeProblem } from "~/lib/types";
+
+// The canonical tag tree. The dataset mixes LeetCode's own topic tags with subtag names
+// from enrichment, and the same idea often shows up both ways ("Shortest Path" is a LeetCode
+// tag and a subtag of "Graph") or under several spellings ("BFS", "Strings"). The taxonomy
+// folds those into one node per idea, each with a stable slug, its aliases and a parent,
+// so the filter panel, analytics and search all agree on what a tag is.
+//
+// Only TAXONOMY_DEFINITIONS makes one tag part of another, so a filter on a tag never picks
+// up problems through a guess. Names without a defined parent are still shown below the tag
+// the dataset most often lists them under, and that tag is offered as a suggestion.
+
+export interface TaxonomyNode {
+  slug: string;
+  name: string;
+  // Slug of the parent node from the definitions; a problem carrying this node also counts
+  // for the parent. Null when none is defined
+  parent: string | null;
+  // Slug of the tag the dataset most often lists this name under as a subtag, for names
+  // without a parent. Only decides where the name is shown, never what it matches
+  listedUnder: string | null;
+  // Slugs of the nodes shown below this one, whether by parent or by listing, ordered by name
+  children: string[];
+  // Other spellings that resolve to this node
+  aliases: string[];
+  // One of LeetCode's topic tags, as opposed to a subtag name
+  leetcode: boolean;
+  // Problems carrying the name or one of its aliases, as a tag or a subtag
+  problemCount: number;
+}
+
+// The plain nested shape sent to the client, e.g. for the tag picker
+export interface TagTreeNode {
+  name: string;
+  children: TagTreeNode[];
+}
+
+export interface TaxonomyDefinitions {
+  // LeetCode tags that are really a technique within another tag, child name to parent name
+  parents: Record<string, string>;
+  // Canonical name to the other spellings it should absorb
+  aliases: Record<string, string[]>;
+}
+
+export const TAXONOMY_DEFINITIONS: TaxonomyDefinitions = {
+  parents: {
+    "Shortest Path": "Graph",
+    "Topological Sort": "Graph",
+    "Minimum Spanning Tree": "Graph",
+    "Strongly Connected Component": "Graph",
+    "Biconnected Component": "Graph",
+    "Eulerian Circuit": "Graph",
+    "Binary Tree": "Tree",
+    "Binary Search Tree": "Tree",
+    "Monotonic Stack": "Stack",
+    "Monotonic Queue": "Queue",
+    "Merge Sort": "Sorting",
+    "Counting Sort": "Sorting",
+    "Bucket Sort": "Sorting",
+    "Radix Sort": "Sorting",
+    "Quickselect": "Sorting",
+    "Number Theory": "Math",
+    "Combinatorics": "Math",
+    "Geometry": "Math",
+    "Probability and Statistics": "Math",
+    "Reservoir Sampling": "Randomized",
+    "Rejection Sampling": "Randomized",
+    "Rolling Hash": "Hash Function",
+    "String Matching": "String",
+    "Suffix Array": "String",
+    "Bitmask": "Bit Manipulation",
+    "Memoization": "Dynamic Programming",
+    "Doubly-Linked List": "Linked List",
+  },
+  aliases: {
+    "Union Find": ["Disjoint Set Union", "DSU"],
+    "Depth-First Search": ["DFS"],
+    "Breadth-First Search": ["BFS"],
+    "Heap (Priority Queue)": ["Priority Queue", "Heap"],
+    "Dynamic Programming": ["DP"],
+    "Binary Indexed Tree": ["Fenwick Tree", "BIT"],
+    "Sorting": ["Sort"],
+    "Math": ["Mathematical"],
+    "Hash Function": ["Hashing"],
+    "Modular Arithmetic": ["Modulo Arithmetic"],
+    "XOR Tricks": ["XOR"],
+  },
+};
+
+export type TaxonomyIssueKind = "variant" | "suggested-parent" | "unplaced" | "cycle" | "unknown-definition";
+
+export const taxonomyIssueKindLabels: Record<TaxonomyIssueKind, string> = {
+  variant: "Spelling variant",
+  "suggested-parent": "Suggested parent",
+  unplaced: "No parent",
+  cycle: "Parent cycle",
+  "unknown-definition": "Stale definition",
+};
+
+export interface TaxonomyIssue {
+  kind: TaxonomyIssueKind;
+  name: string;
+  message: string;
+}
+
+// Names that differ only in case, spacing or a plural "s" are the same tag
+const variantKey = (name: string) => {
+  const key = name.trim().toLowerCase().replace(/\s+/g, " ");
+  return key.length > 3 && key.endsWith("s") && !key.endsWith("ss") ? key.slice(0, -1) : key;
+};
+
+// Resolves names to canonical ones the way Taxonomy.resolve does, from the plain names and
+// aliases the client gets in the tag index
+export function createTagNameResolver(names: Iterable<string>, aliases: Record<string, string>) {
+  const byKey = new Map<string, string>();
+  Array.from(names).forEach(name => byKey.set(variantKey(name), name));
+  Object.entries(aliases).forEach(([alias, name]) => byKey.set(variantKey(alias), name));
+  return (name: string): string | undefined => byKey.get(variantKey(name));
+}
+
+export const slugifyTag = (name: string) =>
+  name.toLowerCase().replace(/['’]/g, "").replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "");
+
+// Strictly higher count wins, ties go to the alphabetically first name
+const mostFrequent = (counts: Map<string, number>): string | undefined =>
+  Array.from(counts).sort(([a, x], [b, y]) => y - x || a.localeCompare(b))[0]?.[0];
+
+const increment = (counts: Map<string, number>, key: string) => counts.set(key, (counts.get(key) ?? 0) + 1);
+
+export class Taxonomy {
+  private bySlug: Map<string, TaxonomyNode>;
+  private byKey = new Map<string, TaxonomyNode>();
+  private problemCache = new WeakMap<LeetCodeProblem, TaxonomyNode[]>();
+
+  constructor(readonly nodes: TaxonomyNode[]) {
+    this.bySlug = new Map(nodes.map(node => [node.slug, node]));
+    nodes.forEach(node => {
+      [node.name, ...node.aliases].forEach(name => this.byKey.set(variantKey(name), node));
+    });
+  }
+
+  get(slug: string): TaxonomyNode | undefined {
+    return this.bySlug.get(slug);
+  }
+
+  // By name, alias or slug, ignoring case and plurals
+  resolve(name: string): TaxonomyNode | undefined {
+    return this.byKey.get(variantKey(name)) ?? this.bySlug.get(name);
+  }
+
+  // The top level of the tree as shown, i.e. nodes neither defined nor listed under another
+  roots(): TaxonomyNode[] {
+    return this.nodes.filter(node => node.parent === null && node.listedUnder === null);
+  }
+
+  children(slug: string): TaxonomyNode[] {
+    return (this.bySlug.get(slug)?.children ?? []).flatMap(child => this.bySlug.get(child) ?? []);
+  }
+
+  // Depth-first, each node before its own children
+  descendants(slug: string): TaxonomyNode[] {
+    return this.children(slug).flatMap(child => [child, ...this.descendants(child.slug)]);
+  }
+
+  // Nearest first, by defined parents only
+  ancestors(slug: string): TaxonomyNode[] {
+    const parent = this.bySlug.get(slug)?.parent;
+    const node = parent ? this.bySlug.get(parent) : undefined;
+    return node ? [node, ...this.ancestors(node.slug)] : [];
+  }
+
+  root(slug: string): TaxonomyNode | undefined {
+    return this.ancestors(slug).at(-1) ?? this.bySlug.get(slug);
+  }
+
+  tree(): TagTreeNode[] {
+    const toTree = (node: TaxonomyNode): TagTreeNode => ({ name: node.name, children: this.children(node.slug).map(toTree) });
+    return this.roots().map(toTree);
+  }
+
+  // Canonical names and aliases, e.g. for validating tag queries
+  names(): string[] {
+    return Array.from(new Set(this.nodes.flatMap(node => [node.name, ...node.aliases]))).sort();
+  }
+
+  // The nodes a problem's tags and subtags resolve to, without duplicates
+  problemNodes(problem: LeetCodeProblem): TaxonomyNode[] {
+    const cached = this.problemCache.get(problem);
+    if (cached) return cached;
+
+    const nodes = new Set<TaxonomyNode>();
+    problem.topicTags?.forEach(tag => {
+      [tag.name, ...(tag.subtags ?? [])].forEach(name => {
+        const node = this.resolve(name);
+        if (node) nodes.add(node);
+      });
+    });
+    const result = Array.from(nodes);
+    this.problemCache.set(problem, result);
+    return result;
+  }
+}
+
+interface NameGroup {
+  spellings: Map<string, number>;
+  leetcodeSlug?: string;
+  // Used as a top-level tag by some problem, not only as a subtag
+  topLevel: boolean;
+  problemIds: Set<number>;
+  // Group keys of the tags this name was listed under as a subtag
+  listedUnder: Map<string, number>;
+  // Group keys of LeetCode tags on the problems where this name is a top-level tag
+  coTagged: Map<string, number>;
+}
+
+// Builds the tree from the names the dataset actually uses. Names only get a parent from
+// `definitions`. Any other name that isn't a LeetCode tag is shown under the tag it is most
+// often listed under; names used as top-level tags also get that tag, or failing that the
+// LeetCode tag they most often appear next to, reported as a suggested parent.
+export function buildTaxonomy(
+  problems: LeetCodeProblem[],
+  definitions: TaxonomyDefinitions = TAXONOMY_DEFINITIONS
+): { taxonomy: Taxonomy; issues: TaxonomyIssue[] } {
+  const issues: TaxonomyIssue[] = [];
+
+  const aliasTargets = new Map<string, string>();
+  Object.entries(definitions.aliases).forEach(([canonical, aliases]) => {
+    aliases.forEach(alias => aliasTargets.set(variantKey(alias), variantKey(canonical)));
+  });
+  const groupKey = (name: string) => aliasTargets.get(variantKey(name)) ?? variantKey(name);
+
+  const groups = new Map<string, NameGroup>();
+  const groupFor = (name: string) => {
+    const key = groupKey(name);
+    let group = groups.get(key);
+    if (!group) {
+      group = { spellings: new Map(), topLevel: false, problemIds: new Set(), listedUnder: new Map(), coTagged: new Map() };
+      groups.set(key, group);
+    }
+    return group;
+  };
+
+  problems.forEach(problem => {
+    const tags = (problem.topicTags ?? []).filter(tag => tag.name.trim());
+    const leetcodeTags = tags.filter(tag => tag.slug).map(tag => groupKey(tag.name));
+
+    tags.forEach(tag => {
+      const key = groupKey(tag.name);
+      const group = groupFor(tag.name);
+      increment(group.spellings, tag.name);
+      group.topLevel = true;
+      group.problemIds.add(problem.ID);
+      if (tag.slug) group.leetcodeSlug ??= tag.slug;
+      leetcodeTags.filter(other => other !== key).forEach(other => increment(group.coTagged, other));
+
+      tag.subtags?.filter(subtag => subtag.trim()).forEach(subtag => {
+        const subgroup = groupFor(subtag);
+        increment(subgroup.spellings, subtag);
+        subgroup.problemIds.add(problem.ID);
+        if (groupKey(subtag) !== key) increment(subgroup.listedUnder, key);
+      });
+    });
+  });
+
+  // Canonical names: a defined one, else LeetCode's, else the most used spelling
+  const definedNames = new Map(Object.keys(definitions.aliases).map(name => [groupKey(name), name]));
+  const names = new Map<string, string>();
+  groups.forEach((group, key) => {
+    const leetcodeName = group.leetcodeSlug
+      ? Array.from(group.spellings.keys()).find(name => slugifyTag(name) === group.leetcodeSlug)
+      : undefined;
+    names.set(key, definedNames.get(key) ?? leetcodeName ?? mostFrequent(group.spellings) ?? key);
+  });
+
+  const slugs = new Map<string, string>();
+  const usedSlugs = new Set<string>();
+  Array.from(groups.keys()).sort().forEach(key => {
+    const base = slugifyTag(names.get(key) ?? key) || "tag";
+    let slug = base;
+    for (let n = 2; usedSlugs.has(slug); n++) slug = `${base}-${n}`;
+    usedSlugs.add(slug);
+    slugs.set(key, slug);
+  });
+
+  const parents = new Map<string, string | null>();
+  const definedParents = new Map(Object.entries(definitions.parents).map(([child, parent]) => [groupKey(child), parent]));
+  Object.entries(definitions.parents).forEach(([child, parent]) => {
+    const known = groups.has(groupKey(child));
+    if (!known || !groups.has(groupKey(parent))) {
+      issues.push({
+        kind: "unknown-definition",
+        name: names.get(groupKey(child)) ?? child,
+        message: `Defined under "${parent}", but ${known ? `"${parent}"` : "the tag"} isn't in the dataset`,
+      });
+    }
+  });
+
+  const listedUnder = new Map<string, string | null>();
+  groups.forEach((group, key) => {
+    const defined = definedParents.get(key);
+    if (defined !== undefined && groups.has(groupKey(defined))) {
+      parents.set(key, groupKey(defined));
+      listedUnder.set(key, null);
+    } else if (group.leetcodeSlug) {
+      parents.set(key, null);
+      listedUnder.set(key, null);
+    } else {
+      parents.set(key, null);
+      listedUnder.set(key, mostFrequent(group.listedUnder) ?? null);
+      // Subtag-only names are always seen under the tag they're listed with; a name used as
+      // a tag of its own is where a missing parent changes what a tag filter finds
+      if (group.topLevel) {
+        const listed = mostFrequent(group.listedUnder);
+        const suggested = listed ?? mostFrequent(group.coTagged);
+        issues.push(suggested
+          ? {
+              kind: "suggested-parent",
+              name: names.get(key) ?? key,
+              message: `${listed ? "Most often listed under" : "Most often tagged next to"} "${names.get(suggested) ?? suggested}"; ` +
+                "define it as the parent to count it there",
+            }
+          : {
+              kind: "unplaced",
+              name: names.get(key) ?? key,
+              message: "Not a LeetCode tag and never listed under one, so it stays a top-level tag",
+            });
+      }
+    }
+
+    if (group.spellings.size > 1 || !group.spellings.has(names.get(key) ?? key)) {
+      const variants = Array.from(group.spellings.keys()).filter(name => name !== names.get(key));
+      issues.push({
+        kind: "variant",
+        name: names.get(key) ?? key,
+        message: `Also spelled ${variants.map(name => `"${name}"`).join(", ")} in the dataset`,
+      });
+    }
+  });
+
+  // A name defined under its own descendant would loop; cut the loop where it's found
+  groups.forEach((_, key) => {
+    const seen = new Set([key]);
+    for (let parent = parents.get(key); parent; parent = parents.get(parent)) {
+      if (seen.has(parent)) {
+        issues.push({
+          kind: "cycle",
+          name: names.get(key) ?? key,
+          message: `Its parent chain loops back through "${names.get(parent) ?? parent}", so it was made top-level`,
+        });
+        parents.set(key, null);
+        break;
+      }
+      seen.add(parent);
+    }
+  });
+
+  // Listings can loop the same way, e.g. two names each listed under the other; those just
+  // go back to the top level
+  const shownUnder = (key: string) => parents.get(key) ?? listedUnder.get(key) ?? null;
+  groups.forEach((_, key) => {
+    const seen = new Set([key]);
+    for (let above = shownUnder(key); above; above = shownUnder(above)) {
+      if (seen.has(above)) {
+        listedUnder.set(key, null);
+        break;
+      }
+      seen.add(above);
+    }
+  });
+
+  const nodes = Array.from(groups, ([key, group]): TaxonomyNode => {
+    const name = names.get(key) ?? key;
+    const parent = parents.get(key);
+    const listed = listedUnder.get(key);
+    return {
+      slug: slugs.get(key) ?? key,
+      name,
+      parent: parent ? slugs.get(parent) ?? null : null,
+      listedUnder: listed ? slugs.get(listed) ?? null : null,
+      children: [],
+      aliases: Array.from(new Set([
+        ...group.spellings.keys(),
+        ...Object.entries(definitions.aliases).filter(([canonical]) => groupKey(canonical) === key).flatMap(([, aliases]) => aliases),
+      ])).filter(alias => alias !== name).sort(),
+      leetcode: group.leetcodeSlug !== undefined,
+      problemCount: group.problemIds.size,
+    };
+  }).sort((a, b) => a.name.localeCompare(b.name));
+
+  const bySlug = new Map(nodes.map(node => [node.slug, node]));
+  nodes.forEach(node => {
+    const above = node.parent ?? node.listedUnder;
+    if (above) bySlug.get(above)?.children.push(node.slug);
+  });
+
+  issues.sort((a, b) => a.kind.localeCompare(b.kind) || a.name.localeCompare(b.name));
+  return { taxonomy: new Taxonomy(nodes), issues };
+}
@@ -0,0 +1,15 @@
+import type { LeetCodeProblem } from "~/lib/types";
+
+// A rated contest problem for tests; every field not given is a placeholder derived from the ID
+export const problem = (ID: number, fields: Partial<LeetCodeProblem> = {}): LeetCodeProblem => ({
+  ID,
+  Rating: 1500,
+  Title: `Problem ${ID}`,
+  TitleZH: "",
+  TitleSlug: `problem-${ID}`,
+  ContestSlug: "weekly-contest-1",
+  ProblemIndex: "Q1",
+  ContestID_en: "Weekly Contest 1",
+  ContestID_zh: "",
+  ...fields,
+});
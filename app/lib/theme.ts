@@ -0,0 +1,14 @@
+import { pushUserState } from "~/lib/account-sync";
+
+export type Theme = "dark" | "light";
+
+export const THEME_STORAGE_KEY = "leetcode-dashboard-theme";
+
+// Dark unless explicitly light
+export const loadTheme = (): Theme => (localStorage.getItem(THEME_STORAGE_KEY) === "light" ? "light" : "dark");
+
+export function saveTheme(theme: Theme) {
+  if (localStorage.getItem(THEME_STORAGE_KEY) === theme) return;
+  localStorage.setItem(THEME_STORAGE_KEY, theme);
+  pushUserState("theme", theme);
+}
@@ -5,9 +5,14 @@ export interface TopicTag {
   subtags?: string[];
 }
 
+export type Difficulty = "Easy" | "Medium" | "Hard";
+
+export const DIFFICULTIES: Difficulty[] = ["Easy", "Medium", "Hard"];
+
 export interface ProblemDetails {
   title: string;
-  difficulty: "Easy" | "Medium" | "Hard";
+  // Missing until the problem has been looked up on LeetCode
+  difficulty?: Difficulty;
   questionId: string;
   hasUserSubmission?: boolean;
 }
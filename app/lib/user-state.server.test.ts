@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { createUser } from "~/lib/accounts.server";
+import type { ProgressMap } from "~/lib/progress";
+import { getUserState, mergeIntoUserState, migrateUserState } from "~/lib/user-state.server";
+
+const progress = (entries: ProgressMap) => JSON.stringify(entries);
+
+describe("mergeIntoUserState", () => {
+  it("keeps both devices' progress when they save in turn", () => {
+    const user = createUser("two-devices@example.com", "long enough");
+    const laptop = { 1: { status: "solved", updatedAt: "2026-02-01T10:00:00.000Z" } } as const;
+    const phone = { 2: { status: "attempted", updatedAt: "2026-02-01T11:00:00.000Z" } } as const;
+
+    migrateUserState(user, { progress: progress(laptop), theme: "dark" });
+    // The phone signed in before the laptop's save and never saw it
+    mergeIntoUserState(user.id, { progress: progress(phone), theme: "light" });
+
+    const state = getUserState(user.id);
+    expect(JSON.parse(state.progress ?? "{}")).toEqual({ ...laptop, ...phone });
+    expect(state.theme).toBe("light");
+  });
+
+  it("removes keys saved as null and leaves unsent keys alone", () => {
+    const user = createUser("clearing@example.com", "long enough");
+    mergeIntoUserState(user.id, { filters: "saved-filters", theme: "dark" });
+    mergeIntoUserState(user.id, { filters: null });
+    expect(getUserState(user.id)).toEqual({ theme: "dark" });
+  });
+});
@@ -0,0 +1,57 @@
+import type { User } from "~/lib/accounts.server";
+import { getDatabase } from "~/lib/db.server";
+import { mergeUserState, USER_STATE_KEYS, type UserState, type UserStateKey } from "~/lib/user-state";
+
+export function getUserState(userId: number): UserState {
+  const rows = getDatabase()
+    .prepare("SELECT key, value FROM user_state WHERE user_id = ?")
+    .all(userId) as { key: string; value: string }[];
+  const state: UserState = {};
+  rows.forEach(({ key, value }) => {
+    if (USER_STATE_KEYS.includes(key as UserStateKey)) state[key as UserStateKey] = value;
+  });
+  return state;
+}
+
+// Writes the given keys and leaves the rest alone; null deletes a key
+export function saveUserState(userId: number, values: UserState) {
+  const db = getDatabase();
+  const upsert = db.prepare(
+    `INSERT INTO user_state (user_id, key, value, updated_at) VALUES (?, ?, ?, ?)
+     ON CONFLICT (user_id, key) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at`
+  );
+  const remove = db.prepare("DELETE FROM user_state WHERE user_id = ? AND key = ?");
+  const now = new Date().toISOString();
+  db.transaction(() => {
+    Object.entries(values).forEach(([key, value]) => {
+      if (value === null || value === undefined) remove.run(userId, key);
+      else upsert.run(userId, key, value, now);
+    });
+  })();
+}
+
+// A browser signing in for the first time folds its localStorage into the account, so data
+// from the laptop and the phone ends up together. Records when the account first took any.
+export function migrateUserState(user: User, local: UserState): UserState {
+  const db = getDatabase();
+  return db.transaction(() => {
+    const merged = mergeUserState(getUserState(user.id), local);
+    saveUserState(user.id, merged);
+    db.prepare("UPDATE users SET migrated_at = coalesce(migrated_at, ?) WHERE id = ?").run(new Date().toISOString(), user.id);
+    return merged;
+  })();
+}
+
+// A signed-in browser's save. Keys it clears (null) are removed; the rest are merged into what
+// the account holds, since the browser may not have seen another device's latest saves.
+export function mergeIntoUserState(userId: number, values: UserState) {
+  const db = getDatabase();
+  db.transaction(() => {
+    const merged = mergeUserState(getUserState(userId), values, "local");
+    const changes: UserState = {};
+    (Object.keys(values) as UserStateKey[]).forEach(key => {
+      changes[key] = values[key] === null ? null : merged[key];
+    });
+    saveUserState(userId, changes);
+  })();
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import type { ProgressMap } from "~/lib/progress";
+import type { ReviewState } from "~/lib/review";
+import type { StudyList } from "~/lib/study-lists";
+import { mergeUserState, parseUserState, UserStateFormatError } from "~/lib/user-state";
+
+const list = (id: string, updatedAt: string, extra: Partial<StudyList> = {}): StudyList =>
+  ({ id, name: `List ${id}`, entries: [], createdAt: "2026-01-01T00:00:00.000Z", updatedAt, ...extra });
+
+const parsed = <T>(value: string | null | undefined) => JSON.parse(value ?? "null") as T;
+
+describe("mergeUserState", () => {
+  it("keeps whichever progress entry was updated last", () => {
+    const account: ProgressMap = {
+      1: { status: "solved", solvedAt: "2026-01-02", updatedAt: "2026-01-02T00:00:00.000Z" },
+      2: { status: "attempted", updatedAt: "2026-01-05T00:00:00.000Z" },
+    };
+    const local: ProgressMap = {
+      1: { status: "revisit", updatedAt: "2026-01-03T00:00:00.000Z" },
+      2: { status: "solved", updatedAt: "2026-01-04T00:00:00.000Z" },
+      3: { status: "attempted", updatedAt: "2026-01-01T00:00:00.000Z" },
+    };
+    const merged = parsed<ProgressMap>(mergeUserState({ progress: JSON.stringify(account) }, { progress: JSON.stringify(local) }).progress);
+    expect(merged).toEqual({ 1: local[1], 2: account[2], 3: local[3] });
+  });
+
+  it("lets a newer cleared entry or deleted list win", () => {
+    const progress = mergeUserState(
+      { progress: JSON.stringify({ 1: { status: "solved", updatedAt: "2026-01-01T00:00:00.000Z" } }) },
+      { progress: JSON.stringify({ 1: { status: "unsolved", updatedAt: "2026-01-02T00:00:00.000Z" } }) },
+      "local"
+    ).progress;
+    expect(parsed<ProgressMap>(progress)[1].status).toBe("unsolved");
+
+    const deleted = list("a", "2026-01-03T00:00:00.000Z", { deletedAt: "2026-01-03T00:00:00.000Z" });
+    const lists = mergeUserState(
+      { studyLists: JSON.stringify([list("a", "2026-01-02T00:00:00.000Z", { entries: [{ id: 1 }] })]) },
+      { studyLists: JSON.stringify([deleted, list("b", "2026-01-01T00:00:00.000Z")]) }
+    ).studyLists;
+    expect(parsed<StudyList[]>(lists)).toEqual([deleted, list("b", "2026-01-01T00:00:00.000Z")]);
+  });
+
+  it("drops malformed lists from either side before merging", () => {
+    const lists = mergeUserState(
+      { studyLists: JSON.stringify([list("a", "2026-01-01T00:00:00.000Z"), { name: "No id" }]) },
+      { studyLists: JSON.stringify([{ id: "b", name: "B", entries: [{ id: "1" }, { id: 2 }] }]) }
+    ).studyLists;
+    expect(parsed<StudyList[]>(lists)).toEqual([
+      list("a", "2026-01-01T00:00:00.000Z"),
+      { id: "b", name: "B", entries: [{ id: 2 }], createdAt: "", updatedAt: "" },
+    ]);
+  });
+
+  it("combines review cards and review days", () => {
+    const card = (lastReviewed: string) => ({ ease: 2.5, interval: 1, repetitions: 1, lapses: 0, due: lastReviewed, lastReviewed });
+    const account: ReviewState = { cards: { 1: card("2026-01-01"), 2: card("2026-01-04") }, reviewDays: ["2026-01-01", "2026-01-04"] };
+    const local: ReviewState = { cards: { 1: card("2026-01-03") }, reviewDays: ["2026-01-03", "2026-01-01"] };
+    const merged = parsed<ReviewState>(mergeUserState({ reviews: JSON.stringify(account) }, { reviews: JSON.stringify(local) }).reviews);
+    expect(merged.cards).toEqual({ 1: local.cards[1], 2: account.cards[2] });
+    expect(merged.reviewDays).toEqual(["2026-01-01", "2026-01-03", "2026-01-04"]);
+  });
+
+  it("takes filters and theme whole from the side it keeps", () => {
+    const account = { filters: "account-filters", theme: "dark" };
+    const local = { filters: "local-filters", theme: "light" };
+    expect(mergeUserState(account, local)).toMatchObject({ filters: "account-filters", theme: "dark" });
+    expect(mergeUserState(account, local, "local")).toMatchObject({ filters: "local-filters", theme: "light" });
+    expect(mergeUserState({}, local)).toMatchObject({ filters: "local-filters", theme: "light" });
+  });
+
+  it("falls back to the side that parses", () => {
+    const progress = JSON.stringify({ 1: { status: "solved", updatedAt: "2026-01-01T00:00:00.000Z" } });
+    expect(mergeUserState({ progress: "{broken" }, { progress }).progress).toBe(progress);
+    expect(mergeUserState({ progress }, { progress: "{broken" }).progress).toBe(progress);
+    expect(mergeUserState({ studyLists: "{}" }, { studyLists: "[]" }).studyLists).toBe("[]");
+  });
+});
+
+describe("parseUserState", () => {
+  it("accepts known keys with strings or null", () => {
+    expect(parseUserState({ theme: "dark", filters: null })).toEqual({ theme: "dark", filters: null });
+  });
+
+  it("rejects unknown keys and other values", () => {
+    expect(() => parseUserState({ password: "x" })).toThrow(UserStateFormatError);
+    expect(() => parseUserState({ theme: 1 })).toThrow('"theme" must be a string or null');
+    expect(() => parseUserState([])).toThrow(UserStateFormatError);
+  });
+});
@@ -0,0 +1,121 @@
+import { FILTERS_STORAGE_KEY } from "~/lib/filters";
+import { PROGRESS_STORAGE_KEY, type ProgressMap } from "~/lib/progress";
+import { REVIEW_STORAGE_KEY, type ReviewState } from "~/lib/review";
+import { parseStoredStudyLists, STUDY_LISTS_STORAGE_KEY, type StudyList } from "~/lib/study-lists";
+import { THEME_STORAGE_KEY } from "~/lib/theme";
+
+// What follows a signed-in user between devices. Each key mirrors one localStorage entry and
+// is stored as the exact string the browser keeps, so localStorage stays the working copy and
+// the account only has to hold and hand back text.
+export type UserStateKey = "progress" | "studyLists" | "reviews" | "filters" | "theme";
+
+export const USER_STATE_KEYS: UserStateKey[] = ["progress", "studyLists", "reviews", "filters", "theme"];
+
+export const userStateStorageKeys: Record<UserStateKey, string> = {
+  progress: PROGRESS_STORAGE_KEY,
+  studyLists: STUDY_LISTS_STORAGE_KEY,
+  reviews: REVIEW_STORAGE_KEY,
+  filters: FILTERS_STORAGE_KEY,
+  theme: THEME_STORAGE_KEY,
+};
+
+// null clears a key, the way localStorage.removeItem does
+export type UserState = Partial<Record<UserStateKey, string | null>>;
+
+// Generous for thousands of notes, small enough that one request can't fill the disk
+export const USER_STATE_MAX_LENGTH = 1_000_000;
+
+export class UserStateFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UserStateFormatError";
+  }
+}
+
+export function parseUserState(value: unknown): UserState {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new UserStateFormatError("Expected an object of values by key");
+  }
+  const state: UserState = {};
+  Object.entries(value).forEach(([key, item]) => {
+    if (!USER_STATE_KEYS.includes(key as UserStateKey)) throw new UserStateFormatError(`Unknown key "${key}"`);
+    if (item !== null && typeof item !== "string") throw new UserStateFormatError(`"${key}" must be a string or null`);
+    if (item && item.length > USER_STATE_MAX_LENGTH) throw new UserStateFormatError(`"${key}" is too large`);
+    state[key as UserStateKey] = item;
+  });
+  return state;
+}
+
+function parseJson<T>(value: string | null | undefined): T | null {
+  if (!value) return null;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return null;
+  }
+}
+
+// Per problem, the entry updated last wins
+function mergeProgress(account: ProgressMap, local: ProgressMap): ProgressMap {
+  const result = { ...account };
+  Object.entries(local).forEach(([id, entry]) => {
+    const current = result[Number(id)];
+    if (!current || entry.updatedAt > current.updatedAt) result[Number(id)] = entry;
+  });
+  return result;
+}
+
+// Lists are matched by id; the copy updated last wins and new ones are appended
+function mergeStudyLists(account: StudyList[], local: StudyList[]): StudyList[] {
+  const result = [...account];
+  local.forEach(list => {
+    const index = result.findIndex(existing => existing.id === list.id);
+    if (index === -1) result.push(list);
+    else if (list.updatedAt > result[index].updatedAt) result[index] = list;
+  });
+  return result;
+}
+
+function mergeReviews(account: ReviewState, local: ReviewState): ReviewState {
+  const cards = { ...account.cards };
+  Object.entries(local.cards).forEach(([id, card]) => {
+    const current = cards[Number(id)];
+    if (!current || card.lastReviewed > current.lastReviewed) cards[Number(id)] = card;
+  });
+  return { cards, reviewDays: Array.from(new Set([...account.reviewDays, ...local.reviewDays])).sort() };
+}
+
+// Folds a browser's data into an account: everything it has the first time it signs in there,
+// then each save it pushes, so two devices writing in turn don't undo each other. Progress,
+// lists and reviews are combined entry by entry; filters and theme are taken whole from
+// `keep`, the account on first sign-in and the browser on a save. A side that can't be
+// parsed is dropped in favour of the other.
+export function mergeUserState(account: UserState, local: UserState, keep: "account" | "local" = "account"): UserState {
+  const result: UserState = {};
+  USER_STATE_KEYS.forEach(key => {
+    const accountValue = account[key] ?? null;
+    const localValue = local[key] ?? null;
+    if (!accountValue || !localValue) {
+      result[key] = accountValue ?? localValue;
+      return;
+    }
+
+    if (key === "progress") {
+      const [a, b] = [parseJson<ProgressMap>(accountValue), parseJson<ProgressMap>(localValue)];
+      result[key] = a && b ? JSON.stringify(mergeProgress(a, b)) : a ? accountValue : localValue;
+    } else if (key === "studyLists") {
+      const [a, b] = [parseJson<unknown>(accountValue), parseJson<unknown>(localValue)];
+      result[key] = Array.isArray(a) && Array.isArray(b)
+        ? JSON.stringify(mergeStudyLists(parseStoredStudyLists(a), parseStoredStudyLists(b)))
+        : Array.isArray(a) ? accountValue : localValue;
+    } else if (key === "reviews") {
+      const [a, b] = [parseJson<ReviewState>(accountValue), parseJson<ReviewState>(localValue)];
+      result[key] = a?.cards && b?.cards
+        ? JSON.stringify(mergeReviews({ cards: a.cards, reviewDays: a.reviewDays ?? [] }, { cards: b.cards, reviewDays: b.reviewDays ?? [] }))
+        : a?.cards ? accountValue : localValue;
+    } else {
+      result[key] = keep === "account" ? accountValue : localValue;
+    }
+  });
+  return result;
+}
@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import { finishRun, performanceRating, ratingAfter, type VirtualProblem, type VirtualResult } from "~/lib/virtual-contest";
+
+// 400 * log10(7): the distance at which a 1-in-8 (or 7-in-8) solve chance sits
+const EIGHTH = 400 * Math.log10(7);
+
+describe("performanceRating", () => {
+  it("lands on the middle of a symmetric set at half the solves", () => {
+    expect(performanceRating([1500, 1500, 1500, 1500], 2)).toBe(1500);
+    expect(performanceRating([1200, 1400, 1600, 1800], 2)).toBe(1500);
+  });
+
+  it("counts zero solves as half a problem", () => {
+    // Four problems at 1500 with half a solve expected: each at 1 in 8
+    expect(performanceRating([1500, 1500, 1500, 1500], 0)).toBe(Math.round(1500 - EIGHTH));
+    expect(performanceRating([1500, 1500, 1500, 1500], 0)).toBe(1162);
+  });
+
+  it("counts all solves as half a problem short", () => {
+    expect(performanceRating([1500, 1500, 1500, 1500], 4)).toBe(Math.round(1500 + EIGHTH));
+    expect(performanceRating([1500, 1500, 1500, 1500], 4)).toBe(1838);
+  });
+
+  it("puts a single problem's zero and full solve at its rating", () => {
+    expect(performanceRating([1700], 0)).toBe(1700);
+    expect(performanceRating([1700], 1)).toBe(1700);
+  });
+
+  it("rises with every extra solve", () => {
+    const ratings = [1300, 1700, 2100, 2500];
+    const performances = [0, 1, 2, 3, 4].map(solved => performanceRating(ratings, solved));
+    expect(performances).toEqual([...performances].sort((a, b) => a - b));
+    expect(new Set(performances).size).toBe(5);
+  });
+
+  it("starts from the initial rating without problems", () => {
+    expect(performanceRating([], 0)).toBe(1500);
+  });
+});
+
+describe("ratingAfter", () => {
+  it("moves halfway on the first contest", () => {
+    expect(ratingAfter(1500, 1800, 0)).toBe(1650);
+    expect(ratingAfter(1500, 1200, 0)).toBe(1350);
+  });
+
+  it("damps later contests", () => {
+    // 1 / (1 + 1 + 5/7) = 7/19 of the difference
+    expect(ratingAfter(1500, 1800, 1)).toBe(Math.round(1500 + 300 * 7 / 19));
+    expect(ratingAfter(1500, 1800, 1)).toBe(1611);
+    // The weight settles at 2/9
+    expect(ratingAfter(1500, 1800, 100)).toBe(1567);
+  });
+
+  it("leaves the rating alone for a matching performance", () => {
+    expect(ratingAfter(1720, 1720, 5)).toBe(1720);
+  });
+});
+
+describe("finishRun", () => {
+  const problems: VirtualProblem[] = [1500, 1500, 1500, 1500].map((Rating, i) => ({
+    ID: 100 + i,
+    Title: `Q${i + 1}`,
+    TitleSlug: `q${i + 1}`,
+    ProblemIndex: `Q${i + 1}`,
+    Rating,
+  }));
+  const run = { slug: "weekly-contest-1", startedAt: "2026-05-01T10:00:00.000Z", solves: { 100: 300, 101: 1500 } };
+
+  it("rates the first run from the initial rating", () => {
+    const result = finishRun(run, "Weekly Contest 1", problems, [], new Date("2026-05-01T11:30:00.000Z"));
+    expect(result).toEqual({
+      slug: "weekly-contest-1",
+      title: "Weekly Contest 1",
+      startedAt: "2026-05-01T10:00:00.000Z",
+      finishedAt: "2026-05-01T11:30:00.000Z",
+      solves: [
+        { problemId: 100, problemIndex: "Q1", rating: 1500, seconds: 300 },
+        { problemId: 101, problemIndex: "Q2", rating: 1500, seconds: 1500 },
+        { problemId: 102, problemIndex: "Q3", rating: 1500, seconds: null },
+        { problemId: 103, problemIndex: "Q4", rating: 1500, seconds: null },
+      ],
+      performance: 1500,
+      previousRating: 1500,
+      newRating: 1500,
+    });
+  });
+
+  it("continues from the last result and damps by the runs before", () => {
+    const history = [{ newRating: 1400 }, { newRating: 1300 }] as VirtualResult[];
+    const result = finishRun({ ...run, solves: {} }, "Weekly Contest 1", problems, history);
+    expect(result.performance).toBe(1162);
+    expect(result.previousRating).toBe(1300);
+    expect(result.newRating).toBe(ratingAfter(1300, 1162, 2));
+  });
+});
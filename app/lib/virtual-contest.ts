@@ -0,0 +1,144 @@
+import { solveProbability } from "~/lib/recommend";
+
+// Weekly and biweekly contests both run for 90 minutes
+export const CONTEST_DURATION_SECONDS = 90 * 60;
+
+// Rating a first virtual contest is measured against, same as LeetCode's starting rating
+export const INITIAL_VIRTUAL_RATING = 1500;
+
+export interface VirtualProblem {
+  ID: number;
+  Title: string;
+  TitleSlug: string;
+  ProblemIndex: string;
+  Rating: number;
+}
+
+// A run in progress; solve times are seconds since the start
+export interface VirtualRun {
+  slug: string;
+  startedAt: string;
+  solves: Record<number, number>;
+}
+
+export interface VirtualSolve {
+  problemId: number;
+  problemIndex: string;
+  rating: number;
+  // null when the problem wasn't solved in time
+  seconds: number | null;
+}
+
+export interface VirtualResult {
+  slug: string;
+  title: string;
+  startedAt: string;
+  finishedAt: string;
+  solves: VirtualSolve[];
+  performance: number;
+  previousRating: number;
+  newRating: number;
+}
+
+// The problem ratings come from the same logistic model: a problem's rating is the contestant
+// rating with a 50% chance of solving it. Performance is the rating whose expected number of
+// solves matches the actual count. Zero or full solves have no finite answer, so they count
+// as half a problem away from the edge.
+export function performanceRating(problemRatings: number[], solvedCount: number): number {
+  if (problemRatings.length === 0) return INITIAL_VIRTUAL_RATING;
+  const target = Math.min(Math.max(solvedCount, 0.5), problemRatings.length - 0.5);
+  const expectedSolves = (rating: number) =>
+    problemRatings.reduce((sum, problemRating) => sum + solveProbability(rating, problemRating), 0);
+
+  let low = 0;
+  let high = 4000;
+  for (let i = 0; i < 50; i++) {
+    const mid = (low + high) / 2;
+    if (expectedSolves(mid) < target) low = mid;
+    else high = mid;
+  }
+  return Math.round((low + high) / 2);
+}
+
+// LeetCode's damping: the more contests already played, the less one result moves the rating.
+// f(k) = 1 / (1 + sum of (5/7)^i for i = 0..k), which settles around 2/9.
+export function ratingAfter(previousRating: number, performance: number, contestsPlayed: number): number {
+  let weight = 0;
+  for (let i = 0; i <= contestsPlayed; i++) weight += Math.pow(5 / 7, i);
+  return Math.round(previousRating + (performance - previousRating) / (1 + weight));
+}
+
+export function finishRun(
+  run: VirtualRun,
+  title: string,
+  problems: VirtualProblem[],
+  history: VirtualResult[],
+  finishedAt = new Date()
+): VirtualResult {
+  const solves = problems.map(problem => ({
+    problemId: problem.ID,
+    problemIndex: problem.ProblemIndex,
+    rating: problem.Rating,
+    seconds: run.solves[problem.ID] ?? null,
+  }));
+  const solvedCount = solves.filter(solve => solve.seconds !== null).length;
+  const performance = performanceRating(problems.map(problem => problem.Rating), solvedCount);
+  const previousRating = history.length > 0 ? history[history.length - 1].newRating : INITIAL_VIRTUAL_RATING;
+
+  return {
+    slug: run.slug,
+    title,
+    startedAt: run.startedAt,
+    finishedAt: finishedAt.toISOString(),
+    solves,
+    performance,
+    previousRating,
+    newRating: ratingAfter(previousRating, performance, history.length),
+  };
+}
+
+export const elapsedSeconds = (run: VirtualRun, now = Date.now()) =>
+  Math.floor((now - new Date(run.startedAt).getTime()) / 1000);
+
+export const formatDuration = (seconds: number) => {
+  const clamped = Math.max(0, seconds);
+  const minutes = Math.floor(clamped / 60);
+  return `${minutes}:${String(clamped % 60).padStart(2, "0")}`;
+};
+
+const RUN_STORAGE_KEY = "leetcode-dashboard-virtual-run";
+const HISTORY_STORAGE_KEY = "leetcode-dashboard-virtual-history";
+
+export function loadActiveRun(): VirtualRun | null {
+  const saved = localStorage.getItem(RUN_STORAGE_KEY);
+  if (!saved) return null;
+
+  try {
+    return JSON.parse(saved) as VirtualRun;
+  } catch (e) {
+    console.error("Failed to load virtual contest:", e);
+    return null;
+  }
+}
+
+export function saveActiveRun(run: VirtualRun | null) {
+  if (run) localStorage.setItem(RUN_STORAGE_KEY, JSON.stringify(run));
+  else localStorage.removeItem(RUN_STORAGE_KEY);
+}
+
+// Oldest first
+export function loadVirtualHistory(): VirtualResult[] {
+  const saved = localStorage.getItem(HISTORY_STORAGE_KEY);
+  if (!saved) return [];
+
+  try {
+    return JSON.parse(saved) as VirtualResult[];
+  } catch (e) {
+    console.error("Failed to load virtual contest history:", e);
+    return [];
+  }
+}
+
+export function saveVirtualHistory(history: VirtualResult[]) {
+  localStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(history));
+}
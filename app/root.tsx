@@ -4,8 +4,13 @@ import {
   Outlet,
   Scripts,
   ScrollRestoration,
+  useLoaderData,
 } from "@remix-run/react";
-import type { LinksFunction } from "@remix-run/node";
+import type { LinksFunction, LoaderFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { getSessionUser } from "~/lib/session.server";
+import { THEME_STORAGE_KEY } from "~/lib/theme";
+import { useAccountSync } from "~/hooks/use-account-sync";
 
 import "./tailwind.css";
 
@@ -22,6 +27,9 @@ export const links: LinksFunction = () => [
   },
 ];
 
+// Applies the saved theme before first paint so server-rendered pages don't flash
+const themeScript = `document.documentElement.classList.toggle("dark", localStorage.getItem("${THEME_STORAGE_KEY}") !== "light");`;
+
 export function Layout({ children }: { children: React.ReactNode }) {
   return (
     <html lang="en">
@@ -30,7 +38,7 @@ export function Layout({ children }: { children: React.ReactNode }) {
         <meta name="viewport" content="width=device-width, initial-scale=1" />
         <Meta />
         <Links />
-
+        <script dangerouslySetInnerHTML={{ __html: themeScript }} />
       </head>
       <body className="font-sans antialiased">
         {children}
@@ -41,6 +49,14 @@ export function Layout({ children }: { children: React.ReactNode }) {
   );
 }
 
+// Who is signed in, for the account menu and syncing
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const user = await getSessionUser(request);
+  return json({ user: user ? { email: user.email } : null });
+};
+
 export default function App() {
+  const { user } = useLoaderData<typeof loader>();
+  useAccountSync(user?.email ?? null);
   return <Outlet />;
 }
\ No newline at end of file
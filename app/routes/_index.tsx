@@ -1,19 +1,71 @@
 import type { MetaFunction, LoaderFunctionArgs } from "@remix-run/node";
 import { json } from "@remix-run/node";
-import { useLoaderData } from "@remix-run/react";
+import { Link, useFetcher, useLoaderData, useRevalidator, useSearchParams } from "@remix-run/react";
 import { useState, useMemo, useEffect, useCallback, useRef } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "~/components/ui/card";
 import { Badge } from "~/components/ui/badge";
 import { Input } from "~/components/ui/input";
 import { Button } from "~/components/ui/button";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "~/components/ui/table";
-import { difficultyColors, tagColors, type LeetCodeProblem } from "~/lib/types";
-import problemsData from "~/data/problems.json";
-import { X, Moon, Sun, Filter } from "lucide-react";
+import { DifficultyBadge } from "~/components/difficulty-badge";
+import { TagTreePicker, type TagMode } from "~/components/tag-tree-picker";
+import { Highlight } from "~/components/highlight";
+import { SearchSuggestions } from "~/components/search-suggestions";
+import { ReviewQueue } from "~/components/review-queue";
+import { AccountMenu } from "~/components/account-menu";
+import { ExportMenu } from "~/components/export-menu";
+import { RatingBuckets } from "~/components/rating-buckets";
+import { tagColors, DIFFICULTIES } from "~/lib/types";
+import {
+  buildFilterParams,
+  clearSavedFilters,
+  createDefaultFilters,
+  hasFilterParams,
+  loadSavedFilters,
+  parseFilterParams,
+  parsePageParam,
+  removeFilter,
+  saveFilters,
+  DEFAULT_RATING_MAX,
+  DEFAULT_RATING_MIN,
+  DEFAULT_SORT,
+  SORT_OPTIONS,
+  type AppliedFilters,
+  type FilterChip,
+} from "~/lib/filters";
+import { getContests, getFacetCounts, getTagIndex, queryProblems, PAGE_SIZE } from "~/lib/problems.server";
+import { getProgressStatuses } from "~/lib/progress.server";
+import {
+  progressFilterLabels,
+  statusColors,
+  statusLabels,
+  PROBLEM_STATUSES,
+  PROGRESS_FILTERS,
+  type ProblemStatus,
+  type ProgressFilter,
+} from "~/lib/progress";
+import { describeSort, parseSort, toProblemQuery } from "~/lib/query";
+import { hasCJK } from "~/lib/search";
+import { loadTheme, saveTheme, THEME_STORAGE_KEY } from "~/lib/theme";
+import { checkTagQuery, joinSearchInput, splitSearchInput } from "~/lib/tag-query";
+import { createTagNameResolver } from "~/lib/taxonomy";
+import { useProgress } from "~/hooks/use-progress";
+import type { loader as facetsLoader } from "~/routes/facets";
+import { X, Moon, Sun, Filter, ExternalLink } from "lucide-react";
 
-export const loader = async () => {
-  const problems = problemsData as LeetCodeProblem[];
-  return json({ problems });
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { searchParams } = new URL(request.url);
+  const filters = parseFilterParams(searchParams);
+  const page = parsePageParam(searchParams);
+
+  // Only the requested page is sent to the browser, along with the tag index for the filter panel
+  const statuses = getProgressStatuses(request);
+  const { problems, total, page: currentPage, totalPages, tagQueryErrors, searchTerms } = queryProblems(toProblemQuery(filters, page, PAGE_SIZE), statuses);
+  const facets = getFacetCounts(filters, statuses);
+  const { allTags, subtagsByTag, aliases: tagAliases, tree: tagTree } = getTagIndex();
+  const contests = getContests().map(({ slug, title }) => ({ slug, title }));
+
+  return json({ problems, total, page: currentPage, totalPages, pageSize: PAGE_SIZE, allTags, subtagsByTag, tagAliases, tagTree, facets, contests, tagQueryErrors, searchTerms });
 };
 
 export const meta: MetaFunction = () => {
@@ -23,31 +75,57 @@ export const meta: MetaFunction = () => {
   ];
 };
 
-interface AppliedFilters {
-  searchTerm: string;
-  difficulty: string;
-  tags: Set<string>;
-  subtags: Set<string>;
-  ratingMin: number;
-  ratingMax: number;
-  sortBy: string;
-}
-
 interface PendingFilters {
+  // Free text plus an optional "tags: <query>" part, as typed into the search box
   searchTerm: string;
   difficulty: string;
   selectedTags: Set<string>;
+  requiredTags: Set<string>;
+  excludedTags: Set<string>;
   selectedSubtags: Set<string>;
+  contest: string;
   ratingMin: string;
   ratingMax: string;
   sortBy: string;
+  progress: ProgressFilter;
 }
 
+const toPendingFilters = (filters: AppliedFilters): PendingFilters => ({
+  searchTerm: joinSearchInput(filters.searchTerm, filters.tagQuery),
+  difficulty: filters.difficulty,
+  selectedTags: new Set(filters.tags),
+  requiredTags: new Set(filters.requiredTags),
+  excludedTags: new Set(filters.excludedTags),
+  selectedSubtags: new Set(filters.subtags),
+  contest: filters.contest,
+  ratingMin: filters.ratingMin > DEFAULT_RATING_MIN ? String(filters.ratingMin) : "",
+  ratingMax: filters.ratingMax < DEFAULT_RATING_MAX ? String(filters.ratingMax) : "",
+  sortBy: filters.sortBy,
+  progress: filters.progress
+});
+
+// Sort is left as picked; applying a fresh search may still switch it to relevance
+const fromPendingFilters = (pending: PendingFilters): AppliedFilters => {
+  const { searchTerm, tagQuery } = splitSearchInput(pending.searchTerm);
+  return {
+    searchTerm,
+    difficulty: pending.difficulty,
+    tags: new Set(pending.selectedTags),
+    requiredTags: new Set(pending.requiredTags),
+    excludedTags: new Set(pending.excludedTags),
+    subtags: new Set(pending.selectedSubtags),
+    tagQuery,
+    contest: pending.contest,
+    ratingMin: pending.ratingMin ? parseInt(pending.ratingMin) : DEFAULT_RATING_MIN,
+    ratingMax: pending.ratingMax ? parseInt(pending.ratingMax) : DEFAULT_RATING_MAX,
+    sortBy: pending.sortBy,
+    progress: pending.progress
+  };
+};
+
 export default function Index() {
-  const { problems } = useLoaderData<typeof loader>();
-  
-  // Theme loading state
-  const [themeLoaded, setThemeLoaded] = useState(false);
+  const { problems, total, page: currentPage, totalPages, pageSize, allTags, subtagsByTag, tagAliases, tagTree, facets: appliedFacets, contests, tagQueryErrors, searchTerms } = useLoaderData<typeof loader>();
+  const [searchParams, setSearchParams] = useSearchParams();
   
   // Mobile filters modal state
   const [showFiltersModal, setShowFiltersModal] = useState(false);
@@ -62,323 +140,193 @@ export default function Index() {
   const [canScrollDown, setCanScrollDown] = useState(false);
   const verticalScrollRef = useRef<HTMLDivElement>(null);
   
-  // Dark mode state
-  const [darkMode, setDarkMode] = useState(() => {
-    if (typeof window !== 'undefined') {
-      const saved = localStorage.getItem('leetcode-dashboard-theme');
-      return saved === 'light' ? false : true; // Default to dark unless explicitly light
-    }
-    return true; // Default to dark
-  });
+  // Dark mode state; the inline script in root.tsx has already applied the saved theme before hydration
+  const [darkMode, setDarkMode] = useState(true);
+  const [themeLoaded, setThemeLoaded] = useState(false);
+
+  // Pick up the saved theme once mounted so the server render and hydration agree
+  useEffect(() => {
+    setDarkMode(loadTheme() === 'dark');
+    setThemeLoaded(true);
+
+    // Follow a theme changed in another tab or pulled from the account
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === null || event.key === THEME_STORAGE_KEY) setDarkMode(loadTheme() === 'dark');
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, []);
 
-  // Apply theme changes and set loaded state
+  // Apply theme changes
   useEffect(() => {
+    if (!themeLoaded) return;
+
     if (darkMode) {
       document.documentElement.classList.add('dark');
-      localStorage.setItem('leetcode-dashboard-theme', 'dark');
+      saveTheme('dark');
     } else {
       document.documentElement.classList.remove('dark');
-      localStorage.setItem('leetcode-dashboard-theme', 'light');
+      saveTheme('light');
     }
-    
-    // Add slight delay to show loader
-    setTimeout(() => {
-      setThemeLoaded(true);
-    }, 500);
-  }, [darkMode]);
+  }, [darkMode, themeLoaded]);
 
-  // Applied filters (what's actually filtering the data)
-  const [appliedFilters, setAppliedFilters] = useState<AppliedFilters>({
-    searchTerm: "",
-    difficulty: "all",
-    tags: new Set(),
-    subtags: new Set(),
-    ratingMin: 0,
-    ratingMax: 4000,
-    sortBy: "rating-asc"
-  });
+  // Applied filters live in the URL, so links, bookmarks and back/forward all restore the same view
+  const appliedFilters = useMemo(() => parseFilterParams(searchParams), [searchParams]);
+  const appliedFiltersKey = useMemo(() => buildFilterParams(appliedFilters).toString(), [appliedFilters]);
 
   // Pending filters (what user is currently setting)
-  const [pendingFilters, setPendingFilters] = useState<PendingFilters>({
-    searchTerm: "",
-    difficulty: "all",
-    selectedTags: new Set(),
-    selectedSubtags: new Set(),
-    ratingMin: "",
-    ratingMax: "",
-    sortBy: "rating-asc"
-  });
-
-  // Pagination for better performance
-  const [currentPage, setCurrentPage] = useState(1);
-  const pageSize = 50;
+  const [pendingFilters, setPendingFilters] = useState<PendingFilters>(() => toPendingFilters(appliedFilters));
 
-  // Load filters from localStorage on mount
+  // Counts next to each filter option follow the panel as it's edited, not just the applied
+  // filters, so a choice that would leave nothing can be seen (and disabled) before applying
+  const { load: loadFacets, data: pendingFacets } = useFetcher<typeof facetsLoader>();
+  const pendingFiltersKey = useMemo(() => buildFilterParams(fromPendingFilters(pendingFilters)).toString(), [pendingFilters]);
+  const facetsUpToDate = pendingFiltersKey === appliedFiltersKey;
   useEffect(() => {
-    const savedFilters = localStorage.getItem('leetcode-dashboard-filters');
-    if (savedFilters) {
-      try {
-        const filters = JSON.parse(savedFilters);
-        setAppliedFilters({
-          searchTerm: filters.searchTerm || "",
-          difficulty: filters.difficulty || "all",
-          tags: new Set(filters.tags || []),
-          subtags: new Set(filters.subtags || []),
-          ratingMin: filters.ratingMin || 0,
-          ratingMax: filters.ratingMax || 4000,
-          sortBy: filters.sortBy || "rating-asc"
-        });
-        setPendingFilters({
-          searchTerm: filters.searchTerm || "",
-          difficulty: filters.difficulty || "all",
-          selectedTags: new Set(filters.tags || []),
-          selectedSubtags: new Set(filters.subtags || []),
-          ratingMin: filters.ratingMin || "",
-          ratingMax: filters.ratingMax || "",
-          sortBy: filters.sortBy || "rating-asc"
-        });
-      } catch (e) {
-        console.error('Failed to load saved filters:', e);
-      }
-    }
-  }, []);
-
-  // Memoize expensive computations with proper dependencies
-  const computedData = useMemo(() => {
-    // Get all unique tags
-    const allTagsSet = new Set<string>();
-    problems.forEach(problem => {
-      if (problem.topicTags) {
-        problem.topicTags.forEach(tag => allTagsSet.add(tag.name));
-      }
-    });
-    const allTags = Array.from(allTagsSet).sort();
-
-    return { allTags };
-  }, [problems]);
-
-  // Get subtags for currently selected tags (optimized)
-  const availableSubtags = useMemo(() => {
-    if (pendingFilters.selectedTags.size === 0) return [];
-    
-    const subtagsSet = new Set<string>();
-    const selectedTagsArray = Array.from(pendingFilters.selectedTags);
-    
-    problems.forEach(problem => {
-      if (problem.topicTags) {
-        problem.topicTags.forEach(tag => {
-          if (selectedTagsArray.includes(tag.name) && tag.subtags) {
-            tag.subtags.forEach(subtag => subtagsSet.add(subtag));
-          }
-        });
-      }
-    });
-    return Array.from(subtagsSet).sort();
-  }, [problems, pendingFilters.selectedTags]);
-
-  // Helper function to generate LeetCode problem slug
-  const generateSlug = (title: string) => {
-    return title
-      .toLowerCase()
-      .replace(/[^a-z0-9\s-]/g, '') // Remove special characters except spaces and hyphens
-      .replace(/\s+/g, '-') // Replace spaces with hyphens
-      .replace(/-+/g, '-') // Replace multiple hyphens with single hyphen
-      .replace(/^-|-$/g, ''); // Remove leading/trailing hyphens
-  };
+    if (facetsUpToDate) return;
+    const timeout = setTimeout(() => loadFacets(`/facets?${pendingFiltersKey}`), 150);
+    return () => clearTimeout(timeout);
+  }, [pendingFiltersKey, facetsUpToDate, loadFacets]);
+  const facets = facetsUpToDate || !pendingFacets ? appliedFacets : pendingFacets;
 
-  // Optimized filtering and sorting
-  const filteredAndSortedProblems = useMemo(() => {
-    let filtered = problems;
+  // Keep the filter panel in step with the URL, e.g. after back/forward navigation.
+  // Keyed on the filters alone so paging doesn't discard unapplied edits.
+  useEffect(() => {
+    setPendingFilters(toPendingFilters(appliedFilters));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [appliedFiltersKey]);
 
-    // Apply filters only if they exist
-    if (appliedFilters.searchTerm) {
-      const searchLower = appliedFilters.searchTerm.toLowerCase();
-      filtered = filtered.filter(problem => 
-        problem.Title.toLowerCase().includes(searchLower) ||
-        problem.ID.toString().includes(searchLower)
-      );
-    }
+  // Fall back to the saved filters when the URL doesn't carry any
+  useEffect(() => {
+    if (hasFilterParams(searchParams)) return;
 
-    if (appliedFilters.difficulty !== "all") {
-      filtered = filtered.filter(problem => 
-        (problem.problemDetails?.difficulty || "Hard") === appliedFilters.difficulty
-      );
+    const restored = loadSavedFilters();
+    if (restored) {
+      setSearchParams(buildFilterParams(restored), { replace: true });
     }
+    // Only runs on mount; later URL changes come from the filter panel itself
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
 
-    if (appliedFilters.tags.size > 0) {
-      const tagsArray = Array.from(appliedFilters.tags);
-      filtered = filtered.filter(problem => 
-        problem.topicTags?.some(tag => tagsArray.includes(tag.name))
-      );
-    }
+  // Validate the "tags:" part of the search box as the user types
+  const knownTagNames = useMemo(
+    () => Array.from(new Set([...allTags, ...Object.values(subtagsByTag).flat(), ...Object.keys(tagAliases)])),
+    [allTags, subtagsByTag, tagAliases]
+  );
+  const resolveTagName = useMemo(() => createTagNameResolver(knownTagNames, tagAliases), [knownTagNames, tagAliases]);
+  const pendingTagQueryErrors = useMemo(() => {
+    const { tagQuery } = splitSearchInput(pendingFilters.searchTerm);
+    return tagQuery ? checkTagQuery(tagQuery, knownTagNames, resolveTagName).errors : [];
+  }, [pendingFilters.searchTerm, knownTagNames, resolveTagName]);
 
-    if (appliedFilters.subtags.size > 0) {
-      const subtagsArray = Array.from(appliedFilters.subtags);
-      filtered = filtered.filter(problem =>
-        problem.topicTags?.some(tag => 
-          tag.subtags?.some(subtag => subtagsArray.includes(subtag))
-        )
-      );
-    }
+  const contestTitles = useMemo(() => new Map(contests.map(({ slug, title }) => [slug, title])), [contests]);
 
-    if (appliedFilters.ratingMin > 0 || appliedFilters.ratingMax < 4000) {
-      filtered = filtered.filter(problem => 
-        problem.Rating >= appliedFilters.ratingMin && 
-        problem.Rating <= appliedFilters.ratingMax
-      );
-    }
+  // Type-ahead only shows while the search box has focus
+  const [searchFocused, setSearchFocused] = useState(false);
+  const pendingSearchText = useMemo(() => splitSearchInput(pendingFilters.searchTerm).searchTerm, [pendingFilters.searchTerm]);
 
-    // Sort the filtered results
-    filtered.sort((a, b) => {
-      switch (appliedFilters.sortBy) {
-        case "rating-desc": return b.Rating - a.Rating;
-        case "rating-asc": return a.Rating - b.Rating;
-        case "id-asc": return a.ID - b.ID;
-        case "id-desc": return b.ID - a.ID;
-        case "title-asc": return a.Title.localeCompare(b.Title);
-        case "title-desc": return b.Title.localeCompare(a.Title);
-        default: return a.Rating - b.Rating;
+  // Picking a tag suggestion swaps the typed text for an included tag
+  // Top-level tags go into the tag filter, anything deeper into the subtag filter, as in the tag tree
+  const selectSuggestedTag = useCallback((tagName: string) => {
+    setPendingFilters(prev => {
+      const searchTerm = joinSearchInput("", splitSearchInput(prev.searchTerm).tagQuery);
+      if (!allTags.includes(tagName)) {
+        return { ...prev, searchTerm, selectedSubtags: new Set(prev.selectedSubtags).add(tagName) };
       }
+      const selectedTags = new Set(prev.selectedTags);
+      if (!prev.requiredTags.has(tagName) && !prev.excludedTags.has(tagName)) selectedTags.add(tagName);
+      return { ...prev, searchTerm, selectedTags };
     });
+  }, [allTags]);
+
+  // Matches on the Chinese title are only visible if that title is shown
+  const showChineseTitles = useMemo(() => hasCJK(searchTerms), [searchTerms]);
 
-    return [...filtered];
-  }, [problems, appliedFilters]);
+  // Personal progress; the loader sees it through the progress cookie
+  const { progress, updateProgress } = useProgress();
+  const revalidator = useRevalidator();
 
-  // Paginated results for better performance
-  const paginatedProblems = useMemo(() => {
-    const startIndex = (currentPage - 1) * pageSize;
-    return filteredAndSortedProblems.slice(startIndex, startIndex + pageSize);
-  }, [filteredAndSortedProblems, currentPage, pageSize]);
+  const updateStatus = useCallback((id: number, status: ProblemStatus) => {
+    updateProgress(id, { status });
+    // A status change can move the problem in or out of a progress-filtered view
+    if (appliedFilters.progress !== "all") {
+      revalidator.revalidate();
+    }
+  }, [updateProgress, appliedFilters.progress, revalidator]);
 
-  const totalPages = Math.ceil(filteredAndSortedProblems.length / pageSize);
+  const goToPage = useCallback((page: number) => {
+    setSearchParams(buildFilterParams(appliedFilters, page));
+  }, [appliedFilters, setSearchParams]);
 
   // Optimized callbacks to prevent unnecessary re-renders
   const applyFilters = useCallback(() => {
-    const newFilters = {
-      searchTerm: pendingFilters.searchTerm,
-      difficulty: pendingFilters.difficulty,
-      tags: new Set(pendingFilters.selectedTags),
-      subtags: new Set(pendingFilters.selectedSubtags),
-      ratingMin: pendingFilters.ratingMin ? parseInt(pendingFilters.ratingMin) : 0,
-      ratingMax: pendingFilters.ratingMax ? parseInt(pendingFilters.ratingMax) : 4000,
-      sortBy: pendingFilters.sortBy
-    };
-    
-    setAppliedFilters(newFilters);
-    setCurrentPage(1);
-    
-    // Save to localStorage
-    localStorage.setItem('leetcode-dashboard-filters', JSON.stringify({
-      ...newFilters,
-      tags: Array.from(newFilters.tags),
-      subtags: Array.from(newFilters.subtags)
-    }));
-  }, [pendingFilters]);
-
-  const clearAllFilters = useCallback(() => {
-    const resetFilters = {
-      searchTerm: "",
-      difficulty: "all",
-      selectedTags: new Set<string>(),
-      selectedSubtags: new Set<string>(),
-      ratingMin: "",
-      ratingMax: "",
-      sortBy: "rating-asc"
-    };
-    setPendingFilters(resetFilters);
-    setAppliedFilters({
-      searchTerm: "",
-      difficulty: "all",
-      tags: new Set(),
-      subtags: new Set(),
-      ratingMin: 0,
-      ratingMax: 4000,
-      sortBy: "rating-asc"
-    });
-    setCurrentPage(1);
-    
-    // Clear localStorage
-    localStorage.removeItem('leetcode-dashboard-filters');
-  }, []);
+    const newFilters = fromPendingFilters(pendingFilters);
+    // A fresh search ranks by relevance unless another sort was picked
+    if (newFilters.searchTerm && !appliedFilters.searchTerm && newFilters.sortBy === DEFAULT_SORT) {
+      newFilters.sortBy = "relevance";
+    }
 
-  const removeAppliedFilter = useCallback((type: string, value?: string) => {
-    const newApplied = { ...appliedFilters };
-    const newPending = { ...pendingFilters };
+    setSearchParams(buildFilterParams(newFilters));
+    saveFilters(newFilters);
+  }, [pendingFilters, appliedFilters.searchTerm, setSearchParams]);
 
-    switch (type) {
-      case "search":
-        newApplied.searchTerm = "";
-        newPending.searchTerm = "";
-        break;
-      case "difficulty":
-        newApplied.difficulty = "all";
-        newPending.difficulty = "all";
-        break;
-      case "tag":
-        if (value) {
-          newApplied.tags.delete(value);
-          newPending.selectedTags.delete(value);
-          newApplied.tags = new Set(newApplied.tags);
-          newPending.selectedTags = new Set(newPending.selectedTags);
-        }
-        break;
-      case "subtag":
-        if (value) {
-          newApplied.subtags.delete(value);
-          newPending.selectedSubtags.delete(value);
-          newApplied.subtags = new Set(newApplied.subtags);
-          newPending.selectedSubtags = new Set(newPending.selectedSubtags);
-        }
-        break;
-      case "rating":
-        newApplied.ratingMin = 0;
-        newApplied.ratingMax = 4000;
-        newPending.ratingMin = "";
-        newPending.ratingMax = "";
-        break;
+  const clearAllFilters = useCallback(() => {
+    setSearchParams(buildFilterParams(createDefaultFilters()));
+    clearSavedFilters();
+  }, [setSearchParams]);
 
-    }
+  // The filter panel resyncs from the URL, so only the applied filters need updating here
+  const removeAppliedFilter = useCallback((chip: FilterChip, value?: string) => {
+    const newApplied = removeFilter(appliedFilters, chip, value);
+    setSearchParams(buildFilterParams(newApplied));
+    saveFilters(newApplied);
+  }, [appliedFilters, setSearchParams]);
 
-    setAppliedFilters(newApplied);
-    setPendingFilters(newPending);
-    setCurrentPage(1);
-  }, [appliedFilters, pendingFilters]);
+  const getTagMode = (tagName: string): TagMode | null => {
+    if (pendingFilters.selectedTags.has(tagName)) return "include";
+    if (pendingFilters.requiredTags.has(tagName)) return "require";
+    if (pendingFilters.excludedTags.has(tagName)) return "exclude";
+    return null;
+  };
 
-  const toggleTag = useCallback((tagName: string) => {
+  // A tag is in at most one of include (any of), require (all of) and exclude (none of)
+  const setTagMode = useCallback((tagName: string, mode: TagMode | null) => {
     setPendingFilters(prev => {
       const newSelectedTags = new Set(prev.selectedTags);
+      const newRequiredTags = new Set(prev.requiredTags);
+      const newExcludedTags = new Set(prev.excludedTags);
       const newSelectedSubtags = new Set(prev.selectedSubtags);
-      
-      if (newSelectedTags.has(tagName)) {
-        newSelectedTags.delete(tagName);
-        // Remove subtags for this tag
-        problems.forEach(problem => {
-          if (problem.topicTags) {
-            const tag = problem.topicTags.find(t => t.name === tagName);
-            if (tag && tag.subtags) {
-              tag.subtags.forEach(subtag => newSelectedSubtags.delete(subtag));
-            }
-          }
-        });
-      } else {
-        newSelectedTags.add(tagName);
+
+      newSelectedTags.delete(tagName);
+      newRequiredTags.delete(tagName);
+      newExcludedTags.delete(tagName);
+      if (mode === "include") newSelectedTags.add(tagName);
+      if (mode === "require") newRequiredTags.add(tagName);
+      if (mode === "exclude") {
+        newExcludedTags.add(tagName);
+        // Subtags of an excluded tag could never match
+        subtagsByTag[tagName]?.forEach(subtag => newSelectedSubtags.delete(subtag));
       }
-      
+
       return {
         ...prev,
         selectedTags: newSelectedTags,
+        requiredTags: newRequiredTags,
+        excludedTags: newExcludedTags,
         selectedSubtags: newSelectedSubtags
       };
     });
-  }, [problems]);
+  }, [subtagsByTag]);
 
-  const toggleSubtag = useCallback((subtagName: string) => {
+  // Selecting a subtag drops its own selected descendants, which it already takes in
+  const toggleSubtag = useCallback((subtagName: string, descendants: string[] = []) => {
     setPendingFilters(prev => {
       const newSelectedSubtags = new Set(prev.selectedSubtags);
       if (newSelectedSubtags.has(subtagName)) {
         newSelectedSubtags.delete(subtagName);
       } else {
         newSelectedSubtags.add(subtagName);
+        descendants.forEach(descendant => newSelectedSubtags.delete(descendant));
       }
       return {
         ...prev,
@@ -421,29 +369,19 @@ export default function Index() {
     return () => {
       window.removeEventListener('resize', checkScroll);
     };
-  }, [checkScrollCapability, checkVerticalScrollCapability, filteredAndSortedProblems]);
+  }, [checkScrollCapability, checkVerticalScrollCapability, problems]);
 
   const hasActiveFilters = appliedFilters.searchTerm ||
+                          appliedFilters.tagQuery ||
                           appliedFilters.difficulty !== "all" ||
                           appliedFilters.tags.size > 0 ||
+                          appliedFilters.requiredTags.size > 0 ||
+                          appliedFilters.excludedTags.size > 0 ||
                           appliedFilters.subtags.size > 0 ||
+                          appliedFilters.contest !== "" ||
                           appliedFilters.ratingMin > 0 ||
-                          appliedFilters.ratingMax < 4000;
-
-  // Show loader until theme is loaded
-  if (!themeLoaded) {
-    return (
-      <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 flex items-center justify-center">
-        <div className="text-center space-y-4">
-          <div className="animate-spin h-8 w-8 border-4 border-blue-500 border-t-transparent rounded-full mx-auto"></div>
-          <h1 className="text-2xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent">
-            StepCode
-          </h1>
-          <p className="text-slate-600">Loading...</p>
-        </div>
-      </div>
-    );
-  }
+                          appliedFilters.ratingMax < 4000 ||
+                          appliedFilters.progress !== "all";
 
   return (
     <>
@@ -510,6 +448,27 @@ export default function Index() {
               StepCode
             </h1>
             <p className="text-slate-600 dark:text-slate-400 text-md">Leetcode problems with granular tags & subtags plus difficulty rating based on ELO.</p>
+            <nav className="flex justify-center gap-4 text-sm">
+              <Link to="/recommend" className="text-blue-600 dark:text-blue-400 hover:underline">
+                Recommended for you
+              </Link>
+              <Link to="/analytics" className="text-blue-600 dark:text-blue-400 hover:underline">
+                Topic mastery
+              </Link>
+              <Link to="/contests" className="text-blue-600 dark:text-blue-400 hover:underline">
+                Contests
+              </Link>
+              <Link to="/lists" className="text-blue-600 dark:text-blue-400 hover:underline">
+                Study lists
+              </Link>
+              <Link to="/ladder" className="text-blue-600 dark:text-blue-400 hover:underline">
+                Rating ladders
+              </Link>
+              <Link to="/progress/import" className="text-blue-600 dark:text-blue-400 hover:underline">
+                Import submissions
+              </Link>
+              <AccountMenu />
+            </nav>
           </div>
         </div>
       </div>
@@ -542,24 +501,54 @@ export default function Index() {
                         <X className="h-3 w-3 ml-1" onClick={() => removeAppliedFilter("difficulty")} />
                       </Badge>
                     )}
+                    {appliedFilters.tagQuery && (
+                      <Badge variant="secondary" className="cursor-pointer hover:bg-red-100 dark:hover:bg-red-800">
+                        Tag query: {appliedFilters.tagQuery}
+                        <X className="h-3 w-3 ml-1" onClick={() => removeAppliedFilter("tagQuery")} />
+                      </Badge>
+                    )}
                     {Array.from(appliedFilters.tags).map((tag) => (
                       <Badge key={tag} variant="secondary" className="cursor-pointer hover:bg-red-100 dark:hover:bg-red-800">
                         Tag: {tag}
                         <X className="h-3 w-3 ml-1" onClick={() => removeAppliedFilter("tag", tag)} />
                       </Badge>
                     ))}
+                    {Array.from(appliedFilters.requiredTags).map((tag) => (
+                      <Badge key={tag} variant="secondary" className="cursor-pointer hover:bg-red-100 dark:hover:bg-red-800">
+                        Require: {tag}
+                        <X className="h-3 w-3 ml-1" onClick={() => removeAppliedFilter("requiredTag", tag)} />
+                      </Badge>
+                    ))}
+                    {Array.from(appliedFilters.excludedTags).map((tag) => (
+                      <Badge key={tag} variant="secondary" className="cursor-pointer hover:bg-red-100 dark:hover:bg-red-800">
+                        Exclude: {tag}
+                        <X className="h-3 w-3 ml-1" onClick={() => removeAppliedFilter("excludedTag", tag)} />
+                      </Badge>
+                    ))}
                     {Array.from(appliedFilters.subtags).map((subtag) => (
                       <Badge key={subtag} variant="secondary" className="cursor-pointer hover:bg-red-100 dark:hover:bg-red-800">
                         Subtag: {subtag}
                         <X className="h-3 w-3 ml-1" onClick={() => removeAppliedFilter("subtag", subtag)} />
                       </Badge>
                     ))}
+                    {appliedFilters.contest && (
+                      <Badge variant="secondary" className="cursor-pointer hover:bg-red-100 dark:hover:bg-red-800">
+                        Contest: {contestTitles.get(appliedFilters.contest) ?? appliedFilters.contest}
+                        <X className="h-3 w-3 ml-1" onClick={() => removeAppliedFilter("contest")} />
+                      </Badge>
+                    )}
                     {(appliedFilters.ratingMin > 0 || appliedFilters.ratingMax < 4000) && (
                       <Badge variant="secondary" className="cursor-pointer hover:bg-red-100 dark:hover:bg-red-800">
                         Rating: {appliedFilters.ratingMin}-{appliedFilters.ratingMax}
                         <X className="h-3 w-3 ml-1" onClick={() => removeAppliedFilter("rating")} />
                       </Badge>
                     )}
+                    {appliedFilters.progress !== "all" && (
+                      <Badge variant="secondary" className="cursor-pointer hover:bg-red-100 dark:hover:bg-red-800">
+                        Progress: {progressFilterLabels[appliedFilters.progress]}
+                        <X className="h-3 w-3 ml-1" onClick={() => removeAppliedFilter("progress")} />
+                      </Badge>
+                    )}
 
                     <Button variant="ghost" size="sm" onClick={clearAllFilters} className="h-6 px-2 text-xs">
                       Clear All
@@ -605,24 +594,54 @@ export default function Index() {
                             <X className="h-3 w-3 ml-1" onClick={() => removeAppliedFilter("difficulty")} />
                           </Badge>
                         )}
+                        {appliedFilters.tagQuery && (
+                          <Badge variant="secondary" className="cursor-pointer hover:bg-red-100 dark:hover:bg-red-800">
+                            Tag query: {appliedFilters.tagQuery}
+                            <X className="h-3 w-3 ml-1" onClick={() => removeAppliedFilter("tagQuery")} />
+                          </Badge>
+                        )}
                         {Array.from(appliedFilters.tags).map((tag) => (
                           <Badge key={tag} variant="secondary" className="cursor-pointer hover:bg-red-100 dark:hover:bg-red-800">
                             Tag: {tag}
                             <X className="h-3 w-3 ml-1" onClick={() => removeAppliedFilter("tag", tag)} />
                           </Badge>
                         ))}
+                        {Array.from(appliedFilters.requiredTags).map((tag) => (
+                          <Badge key={tag} variant="secondary" className="cursor-pointer hover:bg-red-100 dark:hover:bg-red-800">
+                            Require: {tag}
+                            <X className="h-3 w-3 ml-1" onClick={() => removeAppliedFilter("requiredTag", tag)} />
+                          </Badge>
+                        ))}
+                        {Array.from(appliedFilters.excludedTags).map((tag) => (
+                          <Badge key={tag} variant="secondary" className="cursor-pointer hover:bg-red-100 dark:hover:bg-red-800">
+                            Exclude: {tag}
+                            <X className="h-3 w-3 ml-1" onClick={() => removeAppliedFilter("excludedTag", tag)} />
+                          </Badge>
+                        ))}
                         {Array.from(appliedFilters.subtags).map((subtag) => (
                           <Badge key={subtag} variant="secondary" className="cursor-pointer hover:bg-red-100 dark:hover:bg-red-800">
                             Subtag: {subtag}
                             <X className="h-3 w-3 ml-1" onClick={() => removeAppliedFilter("subtag", subtag)} />
                           </Badge>
                         ))}
+                        {appliedFilters.contest && (
+                          <Badge variant="secondary" className="cursor-pointer hover:bg-red-100 dark:hover:bg-red-800">
+                            Contest: {contestTitles.get(appliedFilters.contest) ?? appliedFilters.contest}
+                            <X className="h-3 w-3 ml-1" onClick={() => removeAppliedFilter("contest")} />
+                          </Badge>
+                        )}
                         {(appliedFilters.ratingMin > 0 || appliedFilters.ratingMax < 4000) && (
                           <Badge variant="secondary" className="cursor-pointer hover:bg-red-100 dark:hover:bg-red-800">
                             Rating: {appliedFilters.ratingMin}-{appliedFilters.ratingMax}
                             <X className="h-3 w-3 ml-1" onClick={() => removeAppliedFilter("rating")} />
                           </Badge>
                         )}
+                        {appliedFilters.progress !== "all" && (
+                          <Badge variant="secondary" className="cursor-pointer hover:bg-red-100 dark:hover:bg-red-800">
+                            Progress: {progressFilterLabels[appliedFilters.progress]}
+                            <X className="h-3 w-3 ml-1" onClick={() => removeAppliedFilter("progress")} />
+                          </Badge>
+                        )}
 
                         <Button variant="ghost" size="sm" onClick={clearAllFilters} className="h-6 px-2 text-xs">
                           Clear All
@@ -644,12 +663,24 @@ export default function Index() {
                   {/* Search */}
                   <div className="space-y-2">
                     <label className="text-sm font-medium text-slate-600 dark:text-slate-300">Search</label>
-                    <Input
-                      placeholder="Search by title or ID..."
-                      value={pendingFilters.searchTerm}
-                      onChange={(e) => setPendingFilters(prev => ({...prev, searchTerm: e.target.value}))}
-                      className="dark:bg-gray-700 dark:border-gray-600 dark:text-white focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400"
-                    />
+                    <div className="relative">
+                      <Input
+                        placeholder="Title, ID, contest or topic, or tags: Graph AND NOT Tree"
+                        value={pendingFilters.searchTerm}
+                        onChange={(e) => setPendingFilters(prev => ({...prev, searchTerm: e.target.value}))}
+                        onFocus={() => setSearchFocused(true)}
+                        onBlur={() => setSearchFocused(false)}
+                        className="dark:bg-gray-700 dark:border-gray-600 dark:text-white focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400"
+                      />
+                      <SearchSuggestions query={pendingSearchText} open={searchFocused} onSelectTag={selectSuggestedTag} />
+                    </div>
+                    {pendingTagQueryErrors.length > 0 && (
+                      <ul className="text-xs text-red-600 dark:text-red-400 space-y-1">
+                        {pendingTagQueryErrors.map((error) => (
+                          <li key={error}>{error}</li>
+                        ))}
+                      </ul>
+                    )}
                   </div>
 
                   {/* Filter Controls */}
@@ -661,10 +692,15 @@ export default function Index() {
                         onChange={(e) => setPendingFilters(prev => ({...prev, difficulty: e.target.value}))}
                         className="w-full px-3 py-2 text-sm border rounded-lg dark:bg-gray-700 dark:border-gray-600 dark:text-white focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400 focus:border-transparent"
                       >
-                        <option value="all">All Difficulties</option>
-                        <option value="Easy">Easy</option>
-                        <option value="Medium">Medium</option>
-                        <option value="Hard">Hard</option>
+                        {(["all", ...DIFFICULTIES] as const).map(difficulty => (
+                          <option
+                            key={difficulty}
+                            value={difficulty}
+                            disabled={facets.difficulties[difficulty] === 0 && pendingFilters.difficulty !== difficulty}
+                          >
+                            {difficulty === "all" ? "All Difficulties" : difficulty} ({facets.difficulties[difficulty]})
+                          </option>
+                        ))}
                       </select>
                     </div>
                     
@@ -681,6 +717,39 @@ export default function Index() {
                         <option value="id-desc">ID (Descending)</option>
                         <option value="title-asc">Title (A-Z)</option>
                         <option value="title-desc">Title (Z-A)</option>
+                        <option value="relevance">Relevance (search)</option>
+                        {/* Multi-key orders only come from links; keep them showing once picked */}
+                        {!(SORT_OPTIONS as readonly string[]).includes(pendingFilters.sortBy) && (
+                          <option value={pendingFilters.sortBy}>{describeSort(parseSort(pendingFilters.sortBy))}</option>
+                        )}
+                      </select>
+                    </div>
+
+                    <div className="space-y-2">
+                      <label htmlFor="progress-filter" className="text-sm font-medium text-slate-600 dark:text-slate-300">Progress</label>
+                      <select
+                        id="progress-filter"
+                        value={pendingFilters.progress}
+                        onChange={(e) => setPendingFilters(prev => ({...prev, progress: e.target.value as ProgressFilter}))}
+                        className="w-full px-3 py-2 text-sm border rounded-lg dark:bg-gray-700 dark:border-gray-600 dark:text-white focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400 focus:border-transparent"
+                      >
+                        {PROGRESS_FILTERS.map((filter) => (
+                          <option key={filter} value={filter}>{progressFilterLabels[filter]}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div className="space-y-2">
+                      <label htmlFor="contest-filterNone" className="text-sm font-medium text-slate-600 dark:text-slate-300">Contest</label>
+                      <select
+                        id="contest-filterNone"
+                        value={pendingFilters.contest}
+                        onChange={(e) => setPendingFilters(prev => ({...prev, contest: e.target.value}))}
+                        className="w-full px-3 py-2 text-sm border rounded-lg dark:bg-gray-700 dark:border-gray-600 dark:text-white focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400 focus:border-transparent"
+                      >
+                        <option value="">All Contests</option>
+                        {contests.map(({ slug, title }) => (
+                          <option key={slug} value={slug}>{title}</option>
+                        ))}
                       </select>
                     </div>
                   </div>
@@ -703,51 +772,27 @@ export default function Index() {
                         className="w-36 text-sm dark:bg-gray-700 dark:border-gray-600 dark:text-white focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400"
                       />
                     </div>
+                    <RatingBuckets
+                      buckets={facets.ratingBuckets}
+                      ratingMin={pendingFilters.ratingMin}
+                      ratingMax={pendingFilters.ratingMax}
+                      onSelect={(min, max) => setPendingFilters(prev => ({...prev, ratingMin: String(min), ratingMax: String(max)}))}
+                    />
                   </div>
 
                   {/* Tags */}
                   <div className="space-y-2">
-                    <label className="text-sm font-medium text-slate-600 dark:text-slate-300">Filter by Tags</label>
-                    <div className="flex flex-wrap gap-2 max-h-32 overflow-y-auto">
-                      {computedData.allTags.map((tag) => (
-                        <Badge
-                          key={tag}
-                          variant={pendingFilters.selectedTags.has(tag) ? "default" : "outline"}
-                          className={`cursor-pointer hover:scale-105 ${
-                            pendingFilters.selectedTags.has(tag) 
-                              ? "shadow-sm bg-blue-600 text-white hover:bg-blue-700" 
-                              : "bg-gray-100 text-gray-700 hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600"
-                          }`}
-                          onClick={() => toggleTag(tag)}
-                        >
-                          {tag}
-                        </Badge>
-                      ))}
-                    </div>
+                    <span className="text-sm font-medium text-slate-600 dark:text-slate-300">Filter by Tags</span>
+                    <TagTreePicker
+                      tree={tagTree}
+                      counts={facets.tags}
+                      aliases={tagAliases}
+                      getTagMode={getTagMode}
+                      onTagModeChange={setTagMode}
+                      selectedSubtags={pendingFilters.selectedSubtags}
+                      onSubtagToggle={toggleSubtag}
+                    />
                   </div>
-
-                  {/* Subtags */}
-                  {availableSubtags.length > 0 && (
-                    <div className="space-y-2">
-                      <label className="text-sm font-medium text-slate-600 dark:text-slate-300">Filter by Subtags</label>
-                      <div className="flex flex-wrap gap-2 max-h-32 overflow-y-auto">
-                        {availableSubtags.map((subtag) => (
-                          <Badge
-                            key={subtag}
-                            variant={pendingFilters.selectedSubtags.has(subtag) ? "default" : "outline"}
-                            className={`cursor-pointer hover:scale-105 text-xs ${
-                              pendingFilters.selectedSubtags.has(subtag) 
-                                ? "shadow-sm bg-purple-600 text-white hover:bg-purple-700" 
-                                : "bg-gray-100 text-gray-700 hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600"
-                            }`}
-                            onClick={() => toggleSubtag(subtag)}
-                          >
-                            {subtag}
-                          </Badge>
-                        ))}
-                      </div>
-                    </div>
-                  )}
                   </CardContent>
                 </Card>
               </div>
@@ -758,7 +803,7 @@ export default function Index() {
                   <CardContent className="px-6 py-4 bg-slate-50 dark:bg-gray-700 rounded-lg">
                     <div className="flex gap-2">
                       <Button onClick={applyFilters} className="flex-1 bg-blue-600 hover:bg-blue-700 text-white shadow-sm">
-                        Apply Filters
+                        Apply Filters ({facets.total})
                       </Button>
                       <Button variant="outline" onClick={clearAllFilters} className="px-4">
                         Clear All
@@ -769,18 +814,27 @@ export default function Index() {
               </div>
             </div>
 
-            {/* Right Column - Table */}
-            <div className="lg:col-span-8">
+            {/* Right Column - Review queue and table */}
+            <div className="lg:col-span-8 space-y-6">
+              <ReviewQueue progress={progress} onStatusChange={updateStatus} />
               <Card className="dark:bg-gray-800 dark:border-gray-700 flex flex-col shadow-lg border border-gray-200 dark:border-gray-600">
               <CardHeader className="bg-slate-50 dark:bg-gray-700 border-b border-gray-200 dark:border-gray-600 px-6 py-4 rounded-t-lg">
-                <CardTitle className="dark:text-white truncate">
-                  Problems ({filteredAndSortedProblems.length})
-                </CardTitle>
+                <div className="flex items-center justify-between gap-3">
+                  <CardTitle className="dark:text-white truncate">
+                    Problems ({total})
+                  </CardTitle>
+                  <ExportMenu filterParams={appliedFiltersKey} total={total} />
+                </div>
                 <CardDescription className="dark:text-slate-400">
-                  Showing {Math.min((currentPage - 1) * pageSize + 1, filteredAndSortedProblems.length)} - {Math.min(currentPage * pageSize, filteredAndSortedProblems.length)} of {filteredAndSortedProblems.length} problems
+                  Showing {Math.min((currentPage - 1) * pageSize + 1, total)} - {Math.min(currentPage * pageSize, total)} of {total} problems
                   {appliedFilters.sortBy && (
                     <span className="ml-2">
-                      • Sorted by {appliedFilters.sortBy.replace("-", " ").replace("desc", "(descending)").replace("asc", "(ascending)")}
+                      • Sorted by {describeSort(parseSort(appliedFilters.sortBy))}
+                    </span>
+                  )}
+                  {tagQueryErrors.length > 0 && (
+                    <span className="block text-red-600 dark:text-red-400">
+                      Tag query ignored: {tagQueryErrors.join("; ")}
                     </span>
                   )}
                 </CardDescription>
@@ -813,15 +867,16 @@ export default function Index() {
                           <div className="grid grid-cols-12 gap-3 md:gap-4 lg:gap-4 p-2 lg:p-4 text-xs lg:text-sm font-medium text-slate-600 dark:text-slate-300">
                             <div className="col-span-1">ID</div>
                             <div className="col-span-4 lg:col-span-4">Title</div>
-                            <div className="col-span-2">Diff</div>
+                            <div className="col-span-1">Diff</div>
                             <div className="col-span-1">Rating</div>
-                            <div className="col-span-4">Tags</div>
+                            <div className="col-span-2">Status</div>
+                            <div className="col-span-3">Tags</div>
                           </div>
                         </div>
                         
                         {/* Table Body */}
                         <div className="divide-y divide-gray-200 dark:divide-gray-700">
-                    {paginatedProblems.length === 0 ? (
+                    {problems.length === 0 ? (
                       <div className="flex flex-col items-center justify-center py-12 text-center">
                         <div className="text-gray-400 dark:text-gray-500 mb-2">
                           <svg className="w-12 h-12 mx-auto" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -836,30 +891,61 @@ export default function Index() {
                         </p>
                       </div>
                     ) : (
-                      paginatedProblems.map((problem) => (
+                      problems.map((problem) => (
                       <div key={problem.ID} className="grid grid-cols-12 gap-3 md:gap-4 lg:gap-4 p-2 lg:p-4 hover:bg-slate-50 dark:hover:bg-gray-700 border-b dark:border-gray-600">
                         <div className="col-span-1 font-mono text-xs lg:text-sm dark:text-slate-300">{problem.ID}</div>
                         <div className="col-span-4">
-                          <div 
-                            className="font-medium text-sm lg:text-base text-blue-600 dark:text-blue-400 cursor-pointer hover:underline hover:text-blue-700 dark:hover:text-blue-300 transition-colors break-words"
-                            onClick={() => window.open(`https://leetcode.com/problems/${generateSlug(problem.Title)}/`, '_blank')}
-                            title={`Open ${problem.Title} on LeetCode`}
-                          >
-                            {problem.Title}
+                          <div className="flex items-start gap-1">
+                            <Link
+                              to={`/problems/${problem.TitleSlug}`}
+                              className="font-medium text-sm lg:text-base text-blue-600 dark:text-blue-400 hover:underline hover:text-blue-700 dark:hover:text-blue-300 transition-colors break-words"
+                            >
+                              <Highlight text={problem.Title} terms={searchTerms} />
+                            </Link>
+                            <a
+                              href={`https://leetcode.com/problems/${problem.TitleSlug}/`}
+                              target="_blank"
+                              rel="noreferrer"
+                              title={`Open ${problem.Title} on LeetCode`}
+                              className="mt-1 text-slate-400 hover:text-blue-600 dark:text-slate-500 dark:hover:text-blue-400"
+                            >
+                              <ExternalLink className="h-3 w-3" />
+                            </a>
                           </div>
+                          {showChineseTitles && (
+                            <div className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+                              <Highlight text={problem.TitleZH} terms={searchTerms} />
+                            </div>
+                          )}
                           <div className="text-xs text-slate-400 dark:text-slate-500 mt-1 hidden lg:block">
-                            {problem.ContestID_en} • {problem.ProblemIndex}
+                            <Highlight text={problem.ContestID_en} terms={searchTerms} /> • {problem.ProblemIndex}
                           </div>
                         </div>
-                        <div className="col-span-2">
-                          <Badge className={difficultyColors[(problem.problemDetails?.difficulty || "Hard") as keyof typeof difficultyColors]}>
-                            {problem.problemDetails?.difficulty || "Hard"}
-                          </Badge>
+                        <div className="col-span-1">
+                          <DifficultyBadge difficulty={problem.problemDetails?.difficulty} />
                         </div>
                         <div className="col-span-1 font-mono text-xs lg:text-sm dark:text-slate-300">
                           {Math.round(problem.Rating)}
                         </div>
-                        <div className="col-span-4">
+                        <div className="col-span-2">
+                          <select
+                            aria-label={`Status for ${problem.Title}`}
+                            value={progress[problem.ID]?.status ?? "unsolved"}
+                            onChange={(e) => updateStatus(problem.ID, e.target.value as ProblemStatus)}
+                            title={progress[problem.ID]?.notes}
+                            className={`w-full px-2 py-1 text-xs border rounded-md focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400 ${statusColors[progress[problem.ID]?.status ?? "unsolved"]}`}
+                          >
+                            {PROBLEM_STATUSES.map((status) => (
+                              <option key={status} value={status}>{statusLabels[status]}</option>
+                            ))}
+                          </select>
+                          {progress[problem.ID]?.solvedAt && (
+                            <div className="text-xs text-slate-400 dark:text-slate-500 mt-1">
+                              {progress[problem.ID]?.solvedAt}
+                            </div>
+                          )}
+                        </div>
+                        <div className="col-span-3">
                           <div className="max-h-20 lg:max-h-32 overflow-y-auto space-y-1">
                             {problem.topicTags && problem.topicTags.length > 0 ? problem.topicTags.map((tag, tagIndex) => (
                               <div key={tag.name} className="flex items-start gap-1 flex-wrap">
@@ -867,7 +953,7 @@ export default function Index() {
                                   className="text-xs flex-shrink-0 border-gray-300 dark:border-gray-600"
                                   variant="outline"
                                 >
-                                  {tag.name}
+                                  <Highlight text={tag.name} terms={searchTerms} />
                                 </Badge>
                                 {tag.subtags && tag.subtags.length > 0 && (
                                   <div className="flex flex-wrap gap-1 max-w-32 lg:max-w-40 overflow-x-auto">
@@ -877,7 +963,7 @@ export default function Index() {
                                         variant="secondary"
                                         className="text-xs flex-shrink-0 border-gray-300 dark:border-gray-600"
                                       >
-                                        {subtag}
+                                        <Highlight text={subtag} terms={searchTerms} />
                                       </Badge>
                                     ))}
                                   </div>
@@ -908,7 +994,7 @@ export default function Index() {
                         <Button
                           variant="outline"
                           size="sm"
-                          onClick={() => setCurrentPage(prev => Math.max(1, prev - 1))}
+                          onClick={() => goToPage(currentPage - 1)}
                           disabled={currentPage === 1}
                         >
                           Previous
@@ -916,7 +1002,7 @@ export default function Index() {
                         <Button
                           variant="outline"
                           size="sm"
-                          onClick={() => setCurrentPage(prev => Math.min(totalPages, prev + 1))}
+                          onClick={() => goToPage(currentPage + 1)}
                           disabled={currentPage === totalPages}
                         >
                           Next
@@ -953,12 +1039,24 @@ export default function Index() {
                     {/* Search */}
                     <div className="space-y-2">
                       <label className="text-sm font-medium text-slate-600 dark:text-slate-300">Search</label>
-                      <Input
-                        placeholder="Search by title or ID..."
-                        value={pendingFilters.searchTerm}
-                        onChange={(e) => setPendingFilters(prev => ({...prev, searchTerm: e.target.value}))}
-                        className="dark:bg-gray-700 dark:border-gray-600 dark:text-white focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400"
-                      />
+                      <div className="relative">
+                        <Input
+                          placeholder="Title, ID, contest or topic, or tags: Graph AND NOT Tree"
+                          value={pendingFilters.searchTerm}
+                          onChange={(e) => setPendingFilters(prev => ({...prev, searchTerm: e.target.value}))}
+                          onFocus={() => setSearchFocused(true)}
+                          onBlur={() => setSearchFocused(false)}
+                          className="dark:bg-gray-700 dark:border-gray-600 dark:text-white focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400"
+                        />
+                        <SearchSuggestions query={pendingSearchText} open={searchFocused} onSelectTag={selectSuggestedTag} />
+                      </div>
+                      {pendingTagQueryErrors.length > 0 && (
+                        <ul className="text-xs text-red-600 dark:text-red-400 space-y-1">
+                          {pendingTagQueryErrors.map((error) => (
+                            <li key={error}>{error}</li>
+                          ))}
+                        </ul>
+                      )}
                     </div>
 
                     {/* Filter Controls */}
@@ -970,10 +1068,15 @@ export default function Index() {
                           onChange={(e) => setPendingFilters(prev => ({...prev, difficulty: e.target.value}))}
                           className="w-full px-3 py-2 text-sm border rounded-lg dark:bg-gray-700 dark:border-gray-600 dark:text-white focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400 focus:border-transparent"
                         >
-                          <option value="all">All Difficulties</option>
-                          <option value="Easy">Easy</option>
-                          <option value="Medium">Medium</option>
-                          <option value="Hard">Hard</option>
+                          {(["all", ...DIFFICULTIES] as const).map(difficulty => (
+                            <option
+                              key={difficulty}
+                              value={difficulty}
+                              disabled={facets.difficulties[difficulty] === 0 && pendingFilters.difficulty !== difficulty}
+                            >
+                              {difficulty === "all" ? "All Difficulties" : difficulty} ({facets.difficulties[difficulty]})
+                            </option>
+                          ))}
                         </select>
                       </div>
                       
@@ -990,6 +1093,39 @@ export default function Index() {
                           <option value="id-desc">ID (Descending)</option>
                           <option value="title-asc">Title (A-Z)</option>
                           <option value="title-desc">Title (Z-A)</option>
+                          <option value="relevance">Relevance (search)</option>
+                        {/* Multi-key orders only come from links; keep them showing once picked */}
+                        {!(SORT_OPTIONS as readonly string[]).includes(pendingFilters.sortBy) && (
+                          <option value={pendingFilters.sortBy}>{describeSort(parseSort(pendingFilters.sortBy))}</option>
+                        )}
+                        </select>
+                      </div>
+
+                      <div className="space-y-2">
+                        <label htmlFor="progress-filter-mobile" className="text-sm font-medium text-slate-600 dark:text-slate-300">Progress</label>
+                        <select
+                          id="progress-filter-mobile"
+                          value={pendingFilters.progress}
+                          onChange={(e) => setPendingFilters(prev => ({...prev, progress: e.target.value as ProgressFilter}))}
+                          className="w-full px-3 py-2 text-sm border rounded-lg dark:bg-gray-700 dark:border-gray-600 dark:text-white focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400 focus:border-transparent"
+                        >
+                          {PROGRESS_FILTERS.map((filter) => (
+                            <option key={filter} value={filter}>{progressFilterLabels[filter]}</option>
+                          ))}
+                        </select>
+                      </div>
+                      <div className="space-y-2">
+                        <label htmlFor="contest-filter-mobile" className="text-sm font-medium text-slate-600 dark:text-slate-300">Contest</label>
+                        <select
+                          id="contest-filter-mobile"
+                          value={pendingFilters.contest}
+                          onChange={(e) => setPendingFilters(prev => ({...prev, contest: e.target.value}))}
+                          className="w-full px-3 py-2 text-sm border rounded-lg dark:bg-gray-700 dark:border-gray-600 dark:text-white focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400 focus:border-transparent"
+                        >
+                          <option value="">All Contests</option>
+                          {contests.map(({ slug, title }) => (
+                            <option key={slug} value={slug}>{title}</option>
+                          ))}
                         </select>
                       </div>
                     </div>
@@ -1012,51 +1148,27 @@ export default function Index() {
                           className="flex-1 text-sm dark:bg-gray-700 dark:border-gray-600 dark:text-white focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400"
                         />
                       </div>
+                      <RatingBuckets
+                        buckets={facets.ratingBuckets}
+                        ratingMin={pendingFilters.ratingMin}
+                        ratingMax={pendingFilters.ratingMax}
+                        onSelect={(min, max) => setPendingFilters(prev => ({...prev, ratingMin: String(min), ratingMax: String(max)}))}
+                      />
                     </div>
 
                     {/* Tags */}
                     <div className="space-y-2">
-                      <label className="text-sm font-medium text-slate-600 dark:text-slate-300">Filter by Tags</label>
-                      <div className="flex flex-wrap gap-2 max-h-40 overflow-y-auto">
-                        {computedData.allTags.map((tag) => (
-                          <Badge
-                            key={tag}
-                            variant={pendingFilters.selectedTags.has(tag) ? "default" : "outline"}
-                            className={`cursor-pointer hover:scale-105 ${
-                              pendingFilters.selectedTags.has(tag) 
-                                ? "shadow-sm bg-blue-600 text-white hover:bg-blue-700" 
-                                : "bg-gray-100 text-gray-700 hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600"
-                            }`}
-                            onClick={() => toggleTag(tag)}
-                          >
-                            {tag}
-                          </Badge>
-                        ))}
-                      </div>
+                      <span className="text-sm font-medium text-slate-600 dark:text-slate-300">Filter by Tags</span>
+                      <TagTreePicker
+                        tree={tagTree}
+                        counts={facets.tags}
+                        aliases={tagAliases}
+                        getTagMode={getTagMode}
+                        onTagModeChange={setTagMode}
+                        selectedSubtags={pendingFilters.selectedSubtags}
+                        onSubtagToggle={toggleSubtag}
+                      />
                     </div>
-
-                    {/* Subtags */}
-                    {availableSubtags.length > 0 && (
-                      <div className="space-y-2">
-                        <label className="text-sm font-medium text-slate-600 dark:text-slate-300">Filter by Subtags</label>
-                        <div className="flex flex-wrap gap-2 max-h-40 overflow-y-auto">
-                          {availableSubtags.map((subtag) => (
-                            <Badge
-                              key={subtag}
-                              variant={pendingFilters.selectedSubtags.has(subtag) ? "default" : "outline"}
-                              className={`cursor-pointer hover:scale-105 text-xs ${
-                                pendingFilters.selectedSubtags.has(subtag) 
-                                  ? "shadow-sm bg-purple-600 text-white hover:bg-purple-700" 
-                                  : "bg-gray-100 text-gray-700 hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600"
-                              }`}
-                              onClick={() => toggleSubtag(subtag)}
-                            >
-                              {subtag}
-                            </Badge>
-                          ))}
-                        </div>
-                      </div>
-                    )}
                   </div>
                   
                   <div className="flex-shrink-0 p-4 border-t border-gray-200 dark:border-gray-600 bg-slate-50 dark:bg-gray-700 shadow-inner rounded-b-lg">
@@ -1068,7 +1180,7 @@ export default function Index() {
                         }} 
                         className="flex-1 bg-blue-600 hover:bg-blue-700 text-white shadow-sm"
                       >
-                        Apply Filters
+                        Apply Filters ({facets.total})
                       </Button>
                       <Button variant="outline" onClick={clearAllFilters} className="px-4">
                         Clear All
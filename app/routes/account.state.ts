@@ -0,0 +1,42 @@
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { getSessionUser } from "~/lib/session.server";
+import { parseUserState, UserStateFormatError } from "~/lib/user-state";
+import { getUserState, mergeIntoUserState, migrateUserState } from "~/lib/user-state.server";
+
+// The signed-in user's synced state. GET returns every stored key; POST takes
+// { values: { key: string | null } } to merge into it, or { values, migrate: true } to fold in
+// a browser's localStorage the first time it signs in, answering with the merged state.
+
+const NO_STORE = { "Cache-Control": "no-store" };
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const user = await getSessionUser(request);
+  if (!user) return json({ error: "Sign in to read account data" }, { status: 401, headers: NO_STORE });
+  return json({ email: user.email, state: getUserState(user.id) }, { headers: NO_STORE });
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  if (request.method !== "POST") return json({ error: "Method not allowed" }, { status: 405 });
+  const user = await getSessionUser(request);
+  if (!user) return json({ error: "Sign in to save account data" }, { status: 401 });
+
+  let body: { values?: unknown; migrate?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return json({ error: "Expected a JSON body" }, { status: 400 });
+  }
+
+  try {
+    const values = parseUserState(body.values);
+    if (body.migrate === true) {
+      return json({ email: user.email, state: migrateUserState(user, values) }, { headers: NO_STORE });
+    }
+    mergeIntoUserState(user.id, values);
+    return json({ email: user.email, saved: Object.keys(values) }, { headers: NO_STORE });
+  } catch (e) {
+    if (e instanceof UserStateFormatError) return json({ error: e.message }, { status: 400 });
+    throw e;
+  }
+};
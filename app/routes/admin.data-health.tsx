@@ -0,0 +1,173 @@
+import type { MetaFunction, LoaderFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { Link, useLoaderData } from "@remix-run/react";
+import { ArrowLeft } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "~/components/ui/card";
+import { Badge } from "~/components/ui/badge";
+import { Button } from "~/components/ui/button";
+import { getDataHealth, getProblemById, getTaxonomy } from "~/lib/problems.server";
+import { dataIssueKindLabels } from "~/lib/data-health";
+import type { DataIssueKind } from "~/lib/schema";
+import { taxonomyIssueKindLabels } from "~/lib/taxonomy";
+
+const ISSUES_PER_PAGE = 100;
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { searchParams } = new URL(request.url);
+  const kindParam = searchParams.get("kind") || "";
+  const kind = Object.keys(dataIssueKindLabels).includes(kindParam) ? kindParam as DataIssueKind : null;
+
+  const { summary, issues, taxonomyIssues } = getDataHealth();
+  // Errors first, then in file order
+  const matching = issues
+    .filter(issue => !kind || issue.kind === kind)
+    .sort((a, b) => Number(b.severity === "error") - Number(a.severity === "error") || a.index - b.index);
+
+  const shown = matching.slice(0, ISSUES_PER_PAGE).map(issue => ({
+    ...issue,
+    slug: issue.problemId !== null ? getProblemById(issue.problemId)?.TitleSlug ?? null : null,
+  }));
+
+  const { nodes } = getTaxonomy();
+  const taxonomy = {
+    nodes: nodes.length,
+    roots: getTaxonomy().roots().length,
+    aliases: nodes.reduce((count, node) => count + node.aliases.length, 0),
+    issues: taxonomyIssues,
+  };
+  return json({ summary, kind, issues: shown, matching: matching.length, taxonomy });
+};
+
+export const meta: MetaFunction = () => {
+  return [{ title: "Data Health | StepCode" }];
+};
+
+export default function DataHealth() {
+  const { summary, kind, issues, matching, taxonomy } = useLoaderData<typeof loader>();
+
+  const stats = [
+    { label: "Entries in problems.json", value: summary.total },
+    { label: "Loaded", value: summary.loaded },
+    { label: "Errors", value: summary.errors },
+    { label: "Warnings", value: summary.warnings },
+  ];
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 dark:from-gray-900 dark:to-gray-900 p-6">
+      <div className="mx-auto max-w-5xl space-y-6">
+        <div className="flex items-center justify-between">
+          <Button asChild variant="ghost" size="sm" className="text-slate-600 hover:text-slate-900 dark:text-slate-400 dark:hover:text-slate-100">
+            <Link to="/">
+              <ArrowLeft className="h-4 w-4" />
+              All problems
+            </Link>
+          </Button>
+          <Link to="/" className="text-2xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent">
+            StepCode
+          </Link>
+        </div>
+
+        <Card className="dark:bg-gray-800 dark:border-gray-700 shadow-lg border border-gray-200 dark:border-gray-600">
+          <CardHeader className="bg-slate-50 dark:bg-gray-700 border-b border-gray-200 dark:border-gray-600 px-6 py-4 rounded-t-lg">
+            <CardTitle className="dark:text-white">Data Health</CardTitle>
+            <CardDescription className="dark:text-slate-400">
+              Checked against the problem schema when the server started. Entries with errors in required fields are not loaded.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="px-6 py-4 space-y-4">
+            <dl className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+              {stats.map(({ label, value }) => (
+                <div key={label}>
+                  <dt className="text-xs text-slate-500 dark:text-slate-400">{label}</dt>
+                  <dd className="text-2xl font-bold font-mono dark:text-white">{value}</dd>
+                </div>
+              ))}
+            </dl>
+            <nav className="flex flex-wrap gap-2 text-sm" aria-label="Issue kinds">
+              <Link
+                to="?"
+                className={`px-3 py-1 border rounded-full ${!kind ? "bg-blue-600 text-white border-blue-600" : "dark:border-gray-600 dark:text-slate-300"}`}
+              >
+                All ({summary.errors + summary.warnings})
+              </Link>
+              {Object.entries(dataIssueKindLabels).map(([value, label]) => (
+                <Link
+                  key={value}
+                  to={`?kind=${value}`}
+                  className={`px-3 py-1 border rounded-full ${kind === value ? "bg-blue-600 text-white border-blue-600" : "dark:border-gray-600 dark:text-slate-300"}`}
+                >
+                  {label} ({summary.byKind[value as DataIssueKind]})
+                </Link>
+              ))}
+            </nav>
+          </CardContent>
+        </Card>
+
+        <Card className="dark:bg-gray-800 dark:border-gray-700 shadow-lg border border-gray-200 dark:border-gray-600">
+          <CardHeader className="bg-slate-50 dark:bg-gray-700 border-b border-gray-200 dark:border-gray-600 px-6 py-4 rounded-t-lg">
+            <CardTitle className="dark:text-white">{kind ? dataIssueKindLabels[kind] : "All Issues"}</CardTitle>
+            {matching > issues.length && (
+              <CardDescription className="dark:text-slate-400">Showing the first {issues.length} of {matching}</CardDescription>
+            )}
+          </CardHeader>
+          <CardContent className="p-0">
+            {issues.length === 0 ? (
+              <p className="px-6 py-4 text-sm text-slate-500 dark:text-slate-400">Nothing to report.</p>
+            ) : (
+              <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+                {issues.map((issue) => (
+                  <li key={`${issue.index}-${issue.field}-${issue.message}`} className="flex flex-wrap items-center gap-3 px-6 py-3 text-sm">
+                    <Badge
+                      variant="outline"
+                      className={issue.severity === "error"
+                        ? "text-red-700 border-red-300 dark:text-red-300 dark:border-red-700"
+                        : "text-yellow-700 border-yellow-300 dark:text-yellow-300 dark:border-yellow-700"}
+                    >
+                      {issue.severity}
+                    </Badge>
+                    <span className="w-20 font-mono text-xs text-slate-500 dark:text-slate-400">
+                      {issue.slug ? (
+                        <Link to={`/problems/${issue.slug}`} className="text-blue-600 dark:text-blue-400 hover:underline">#{issue.problemId}</Link>
+                      ) : (
+                        `entry ${issue.index}`
+                      )}
+                    </span>
+                    {issue.field && <code className="text-xs text-slate-500 dark:text-slate-400">{issue.field}</code>}
+                    <span className="min-w-0 flex-1 dark:text-slate-300">{issue.message}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="dark:bg-gray-800 dark:border-gray-700 shadow-lg border border-gray-200 dark:border-gray-600">
+          <CardHeader className="bg-slate-50 dark:bg-gray-700 border-b border-gray-200 dark:border-gray-600 px-6 py-4 rounded-t-lg">
+            <CardTitle className="dark:text-white">Tag Taxonomy</CardTitle>
+            <CardDescription className="dark:text-slate-400">
+              {taxonomy.nodes} tags and subtags, {taxonomy.roots} of them top-level, with {taxonomy.aliases} aliases.
+              Spelling variants resolve to one tag; fixing them in the data keeps the dataset tidy.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="p-0">
+            {taxonomy.issues.length === 0 ? (
+              <p className="px-6 py-4 text-sm text-slate-500 dark:text-slate-400">Nothing to report.</p>
+            ) : (
+              <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+                {taxonomy.issues.map((issue) => (
+                  <li key={`${issue.kind}-${issue.name}`} className="flex flex-wrap items-center gap-3 px-6 py-3 text-sm">
+                    <Badge variant="outline" className="text-yellow-700 border-yellow-300 dark:text-yellow-300 dark:border-yellow-700">
+                      {taxonomyIssueKindLabels[issue.kind]}
+                    </Badge>
+                    <span className="font-medium dark:text-white">{issue.name}</span>
+                    <span className="min-w-0 flex-1 dark:text-slate-300">{issue.message}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
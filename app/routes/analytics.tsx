@@ -0,0 +1,168 @@
+import type { MetaFunction, LoaderFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { Link, useLoaderData } from "@remix-run/react";
+import { ArrowLeft } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "~/components/ui/card";
+import { Button } from "~/components/ui/button";
+import { RatingHistogram } from "~/components/rating-histogram";
+import {
+  computeSubtagStats,
+  computeTagStats,
+  computeTopicStats,
+  getBucketEdges,
+  BUCKET_SIZE,
+  type TopicStats,
+} from "~/lib/analytics";
+import { getAllProblems, getTaxonomy } from "~/lib/problems.server";
+import { getProgressStatuses } from "~/lib/progress.server";
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { searchParams } = new URL(request.url);
+  const problems = getAllProblems();
+  const statuses = getProgressStatuses(request);
+  const edges = getBucketEdges(problems);
+  const taxonomy = getTaxonomy();
+
+  const overall = computeTopicStats("All problems", problems, statuses, edges);
+  const tags = computeTagStats(problems, statuses, edges, taxonomy);
+
+  // Drill-down into one tag's subtags; aliases in the URL land on the canonical tag
+  const tagName = taxonomy.resolve(searchParams.get("tag") || "")?.name;
+  const selectedTag = tags.find(tag => tag.name === tagName) ?? null;
+  const subtags = selectedTag ? computeSubtagStats(selectedTag.name, problems, statuses, edges, taxonomy) : [];
+
+  return json({ overall, tags, selectedTag, subtags, bucketSize: BUCKET_SIZE });
+};
+
+export const meta: MetaFunction = () => {
+  return [
+    { title: "Topic Mastery | StepCode" },
+    { name: "description", content: "Coverage and rating distribution for every tag and subtag" },
+  ];
+};
+
+const percent = (stats: TopicStats) => stats.total > 0 ? Math.round((stats.solved / stats.total) * 100) : 0;
+
+function StatsTable({ rows, bucketSize, linkRows }: { rows: TopicStats[]; bucketSize: number; linkRows: boolean }) {
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full min-w-[640px] text-sm">
+        <thead>
+          <tr className="border-b border-gray-300 dark:border-gray-500 text-left text-slate-600 dark:text-slate-300">
+            <th className="px-4 py-2 font-medium">Topic</th>
+            <th className="px-4 py-2 font-medium text-right">Problems</th>
+            <th className="px-4 py-2 font-medium text-right">Solved</th>
+            <th className="px-4 py-2 font-medium text-right">Highest solved</th>
+            <th className="px-4 py-2 font-medium w-48">Distribution</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+          {rows.map((row) => (
+            <tr key={row.name} className="hover:bg-slate-50 dark:hover:bg-gray-700">
+              <td className="px-4 py-2 dark:text-slate-200">
+                {linkRows ? (
+                  <Link
+                    to={`?tag=${encodeURIComponent(row.name)}`}
+                    className="font-medium text-blue-600 dark:text-blue-400 hover:underline"
+                  >
+                    {row.name}
+                  </Link>
+                ) : (
+                  row.name
+                )}
+              </td>
+              <td className="px-4 py-2 text-right font-mono dark:text-slate-300">{row.total}</td>
+              <td className="px-4 py-2 text-right font-mono dark:text-slate-300">
+                {row.solved} <span className="text-slate-400 dark:text-slate-500">({percent(row)}%)</span>
+              </td>
+              <td className="px-4 py-2 text-right font-mono dark:text-slate-300">{row.highestSolved ?? "—"}</td>
+              <td className="px-4 py-2">
+                <RatingHistogram buckets={row.histogram} bucketSize={bucketSize} compact />
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function SummaryCard({ stats, bucketSize, description }: { stats: TopicStats; bucketSize: number; description: string }) {
+  return (
+    <Card className="dark:bg-gray-800 dark:border-gray-700 shadow-lg border border-gray-200 dark:border-gray-600">
+      <CardHeader className="bg-slate-50 dark:bg-gray-700 border-b border-gray-200 dark:border-gray-600 px-6 py-4 rounded-t-lg">
+        <CardTitle className="dark:text-white">{stats.name}</CardTitle>
+        <CardDescription className="dark:text-slate-400">{description}</CardDescription>
+      </CardHeader>
+      <CardContent className="px-6 py-4 space-y-4">
+        <dl className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+          {[
+            { label: "Problems", value: stats.total },
+            { label: "Solved", value: `${stats.solved} (${percent(stats)}%)` },
+            { label: "Attempted", value: stats.attempted },
+            { label: "Highest solved", value: stats.highestSolved ?? "—" },
+          ].map(({ label, value }) => (
+            <div key={label}>
+              <dt className="text-xs font-medium uppercase text-slate-500 dark:text-slate-400">{label}</dt>
+              <dd className="text-xl font-mono dark:text-slate-200">{value}</dd>
+            </div>
+          ))}
+        </dl>
+        <RatingHistogram buckets={stats.histogram} bucketSize={bucketSize} />
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function Analytics() {
+  const { overall, tags, selectedTag, subtags, bucketSize } = useLoaderData<typeof loader>();
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 dark:from-gray-900 dark:to-gray-900 p-6">
+      <div className="mx-auto max-w-5xl space-y-6">
+        <div className="flex items-center justify-between">
+          <Button asChild variant="ghost" size="sm" className="text-slate-600 hover:text-slate-900 dark:text-slate-400 dark:hover:text-slate-100">
+            <Link to={selectedTag ? "/analytics" : "/"}>
+              <ArrowLeft className="h-4 w-4" />
+              {selectedTag ? "All topics" : "All problems"}
+            </Link>
+          </Button>
+          <Link to="/" className="text-2xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent">
+            StepCode
+          </Link>
+        </div>
+
+        {selectedTag ? (
+          <>
+            <SummaryCard stats={selectedTag} bucketSize={bucketSize} description="Problems tagged with this topic, by rating" />
+            <Card className="dark:bg-gray-800 dark:border-gray-700 shadow-lg border border-gray-200 dark:border-gray-600">
+              <CardHeader className="bg-slate-50 dark:bg-gray-700 border-b border-gray-200 dark:border-gray-600 px-6 py-4 rounded-t-lg">
+                <CardTitle className="dark:text-white">Subtags ({subtags.length})</CardTitle>
+              </CardHeader>
+              <CardContent className="p-0">
+                {subtags.length === 0 ? (
+                  <p className="px-6 py-4 text-sm text-slate-500 dark:text-slate-400">This tag has no subtags.</p>
+                ) : (
+                  <StatsTable rows={subtags} bucketSize={bucketSize} linkRows={false} />
+                )}
+              </CardContent>
+            </Card>
+          </>
+        ) : (
+          <>
+            <SummaryCard stats={overall} bucketSize={bucketSize} description="Your coverage of the whole problem set, by rating" />
+            <Card className="dark:bg-gray-800 dark:border-gray-700 shadow-lg border border-gray-200 dark:border-gray-600">
+              <CardHeader className="bg-slate-50 dark:bg-gray-700 border-b border-gray-200 dark:border-gray-600 px-6 py-4 rounded-t-lg">
+                <CardTitle className="dark:text-white">Tags ({tags.length})</CardTitle>
+                <CardDescription className="dark:text-slate-400">Select a tag to drill into its subtags</CardDescription>
+              </CardHeader>
+              <CardContent className="p-0">
+                <StatsTable rows={tags} bucketSize={bucketSize} linkRows />
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,11 @@
+import type { LoaderFunctionArgs } from "@remix-run/node";
+import { toApiContest } from "~/lib/api";
+import { apiError, apiResponse } from "~/lib/api.server";
+import { getContestBySlug } from "~/lib/problems.server";
+
+// Public API: one contest with its problems in order
+export const loader = async ({ request, params }: LoaderFunctionArgs) => {
+  const contest = getContestBySlug(params.slug ?? "");
+  if (!contest) return apiError(404, `No contest "${params.slug}"`);
+  return apiResponse(request, toApiContest(contest));
+};
@@ -0,0 +1,7 @@
+import type { LoaderFunctionArgs } from "@remix-run/node";
+import { toApiContestSummary } from "~/lib/api";
+import { apiResponse } from "~/lib/api.server";
+import { getContests } from "~/lib/problems.server";
+
+// Public API: every contest, newest first
+export const loader = async ({ request }: LoaderFunctionArgs) => apiResponse(request, getContests().map(toApiContestSummary));
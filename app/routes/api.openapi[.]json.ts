@@ -0,0 +1,6 @@
+import type { LoaderFunctionArgs } from "@remix-run/node";
+import { apiResponse } from "~/lib/api.server";
+import { openApiDocument } from "~/lib/openapi";
+
+// Public API: the OpenAPI description of everything under /api
+export const loader = async ({ request }: LoaderFunctionArgs) => apiResponse(request, openApiDocument);
@@ -0,0 +1,14 @@
+import type { LoaderFunctionArgs } from "@remix-run/node";
+import { toApiProblem } from "~/lib/api";
+import { apiError, apiResponse } from "~/lib/api.server";
+import { getProblemById } from "~/lib/problems.server";
+
+// Public API: one problem by its LeetCode ID
+export const loader = async ({ request, params }: LoaderFunctionArgs) => {
+  const id = Number(params.id);
+  if (!Number.isInteger(id)) return apiError(400, "id must be a whole number");
+
+  const problem = getProblemById(id);
+  if (!problem) return apiError(404, `No problem with ID ${id}`);
+  return apiResponse(request, toApiProblem(problem));
+};
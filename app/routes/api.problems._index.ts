@@ -0,0 +1,27 @@
+import type { LoaderFunctionArgs } from "@remix-run/node";
+import { API_DEFAULT_PAGE_SIZE, API_MAX_PAGE_SIZE, toApiProblem, type ApiProblemPage } from "~/lib/api";
+import { apiResponse, handleApiRequest, parseApiFilters, parseIntegerParam } from "~/lib/api.server";
+import { queryProblems } from "~/lib/problems.server";
+import { toProblemQuery } from "~/lib/query";
+
+// Public API: the index's filters, sort and paging as JSON
+export const loader = async ({ request }: LoaderFunctionArgs) => handleApiRequest(() => {
+  const { searchParams } = new URL(request.url);
+  const filters = parseApiFilters(searchParams);
+  const page = parseIntegerParam(searchParams, "page", 1, 1, Number.MAX_SAFE_INTEGER);
+  const pageSize = parseIntegerParam(searchParams, "pageSize", API_DEFAULT_PAGE_SIZE, 1, API_MAX_PAGE_SIZE);
+
+  const result = queryProblems(toProblemQuery(filters, page, pageSize));
+  // The index shows the last page for a page past the end; the API answers with an empty one,
+  // so clients can page until nothing comes back
+  const pastEnd = page > result.totalPages;
+  const body: ApiProblemPage = {
+    problems: pastEnd ? [] : result.problems.map(toApiProblem),
+    total: result.total,
+    page,
+    pageSize,
+    totalPages: result.totalPages,
+    tagQueryErrors: result.tagQueryErrors,
+  };
+  return apiResponse(request, body);
+});
@@ -0,0 +1,11 @@
+import type { LoaderFunctionArgs } from "@remix-run/node";
+import { toApiProblem } from "~/lib/api";
+import { apiError, apiResponse, parseApiFilters } from "~/lib/api.server";
+import { filterProblems } from "~/lib/problems.server";
+
+// Public API: one problem picked at random from those matching the filters
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const matching = filterProblems(parseApiFilters(new URL(request.url).searchParams));
+  if (matching.length === 0) return apiError(404, "No problem matches the filters");
+  return apiResponse(request, toApiProblem(matching[Math.floor(Math.random() * matching.length)]), { cache: false });
+};
@@ -0,0 +1,7 @@
+import type { LoaderFunctionArgs } from "@remix-run/node";
+import { toApiTags } from "~/lib/api";
+import { apiResponse } from "~/lib/api.server";
+import { getTaxonomy } from "~/lib/problems.server";
+
+// Public API: the tag taxonomy, top-level tags first
+export const loader = async ({ request }: LoaderFunctionArgs) => apiResponse(request, toApiTags(getTaxonomy()));
@@ -0,0 +1,210 @@
+import type { MetaFunction, LoaderFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { Form, Link, useLoaderData, useSearchParams } from "@remix-run/react";
+import { ArrowLeft, ExternalLink } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "~/components/ui/card";
+import { Badge } from "~/components/ui/badge";
+import { Button } from "~/components/ui/button";
+import { DifficultyBadge } from "~/components/difficulty-badge";
+import { getContests } from "~/lib/problems.server";
+import {
+  contestKindLabels,
+  contestSortLabels,
+  sortContests,
+  CONTEST_KINDS,
+  CONTEST_SORTS,
+  type ContestKind,
+  type ContestSort,
+} from "~/lib/contests";
+import { statusColors, statusLabels } from "~/lib/progress";
+import { useProgress } from "~/hooks/use-progress";
+
+const CONTESTS_PER_PAGE = 20;
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { searchParams } = new URL(request.url);
+  const kindParam = searchParams.get("kind") || "all";
+  const sortParam = searchParams.get("sort") || "newest";
+  const kind = (CONTEST_KINDS as string[]).includes(kindParam) ? kindParam as ContestKind : "all";
+  const sort = (CONTEST_SORTS as readonly string[]).includes(sortParam) ? sortParam as ContestSort : "newest";
+
+  const contests = sortContests(getContests().filter(contest => kind === "all" || contest.kind === kind), sort);
+  const totalPages = Math.max(1, Math.ceil(contests.length / CONTESTS_PER_PAGE));
+  const requestedPage = parseInt(searchParams.get("page") || "1", 10) || 1;
+  const page = Math.min(Math.max(1, requestedPage), totalPages);
+
+  // Only what the list shows, so a page doesn't carry every problem's tag tree
+  const pageContests = contests
+    .slice((page - 1) * CONTESTS_PER_PAGE, page * CONTESTS_PER_PAGE)
+    .map(({ problems, ...contest }) => ({
+      ...contest,
+      problems: problems.map(problem => ({
+        ID: problem.ID,
+        Title: problem.Title,
+        TitleSlug: problem.TitleSlug,
+        ProblemIndex: problem.ProblemIndex,
+        Rating: problem.Rating,
+        difficulty: problem.problemDetails?.difficulty ?? null,
+      })),
+    }));
+
+  return json({ contests: pageContests, total: contests.length, page, totalPages, kind, sort });
+};
+
+export const meta: MetaFunction = () => {
+  return [
+    { title: "Contests | StepCode" },
+    { name: "description", content: "Past weekly and biweekly contests with their four problems and overall difficulty" },
+  ];
+};
+
+export default function Contests() {
+  const { contests, total, page, totalPages, kind, sort } = useLoaderData<typeof loader>();
+  const [searchParams] = useSearchParams();
+  const { progress } = useProgress();
+
+  const pageLink = (target: number) => {
+    const params = new URLSearchParams(searchParams);
+    params.set("page", String(target));
+    return `?${params}`;
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 dark:from-gray-900 dark:to-gray-900 p-6">
+      <div className="mx-auto max-w-5xl space-y-6">
+        <div className="flex items-center justify-between">
+          <Button asChild variant="ghost" size="sm" className="text-slate-600 hover:text-slate-900 dark:text-slate-400 dark:hover:text-slate-100">
+            <Link to="/">
+              <ArrowLeft className="h-4 w-4" />
+              All problems
+            </Link>
+          </Button>
+          <Link to="/" className="text-2xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent">
+            StepCode
+          </Link>
+        </div>
+
+        <Card className="dark:bg-gray-800 dark:border-gray-700 shadow-lg border border-gray-200 dark:border-gray-600">
+          <CardHeader className="bg-slate-50 dark:bg-gray-700 border-b border-gray-200 dark:border-gray-600 px-6 py-4 rounded-t-lg">
+            <div className="flex flex-wrap items-end justify-between gap-4">
+              <div>
+                <CardTitle className="dark:text-white">Contests ({total})</CardTitle>
+                <CardDescription className="dark:text-slate-400">
+                  Every rated contest set, with the total and average rating of its problems •{" "}
+                  <Link to="/virtual" className="text-blue-600 dark:text-blue-400 hover:underline">Virtual contest history</Link>
+                </CardDescription>
+              </div>
+              <Form method="get" className="flex flex-wrap items-center gap-2">
+                <label htmlFor="contest-kind" className="text-sm font-medium text-slate-600 dark:text-slate-300">Type</label>
+                <select
+                  id="contest-kind"
+                  name="kind"
+                  defaultValue={kind}
+                  onChange={(e) => e.currentTarget.form?.requestSubmit()}
+                  className="px-3 py-2 text-sm border rounded-lg dark:bg-gray-700 dark:border-gray-600 dark:text-white focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400"
+                >
+                  <option value="all">All contests</option>
+                  {CONTEST_KINDS.map((option) => (
+                    <option key={option} value={option}>{contestKindLabels[option]}</option>
+                  ))}
+                </select>
+                <label htmlFor="contest-sort" className="text-sm font-medium text-slate-600 dark:text-slate-300">Sort</label>
+                <select
+                  id="contest-sort"
+                  name="sort"
+                  defaultValue={sort}
+                  onChange={(e) => e.currentTarget.form?.requestSubmit()}
+                  className="px-3 py-2 text-sm border rounded-lg dark:bg-gray-700 dark:border-gray-600 dark:text-white focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400"
+                >
+                  {CONTEST_SORTS.map((option) => (
+                    <option key={option} value={option}>{contestSortLabels[option]}</option>
+                  ))}
+                </select>
+              </Form>
+            </div>
+          </CardHeader>
+          <CardContent className="p-0">
+            <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+              {contests.map((contest) => {
+                const solved = contest.problems.filter(problem => {
+                  const status = progress[problem.ID]?.status;
+                  return status === "solved" || status === "revisit";
+                }).length;
+
+                return (
+                  <li key={contest.slug} className="px-6 py-4 space-y-3">
+                    <div className="flex flex-wrap items-center gap-3">
+                      <h2 className="font-semibold dark:text-white">{contest.title}</h2>
+                      <span className="text-sm text-slate-400 dark:text-slate-500">{contest.titleZH}</span>
+                      <Badge variant="outline" className="dark:border-gray-600 dark:text-slate-300">{contestKindLabels[contest.kind]}</Badge>
+                      <span className="text-sm text-slate-500 dark:text-slate-400">
+                        Total <span className="font-mono">{contest.totalRating}</span> • Avg <span className="font-mono">{contest.averageRating}</span>
+                        {solved > 0 && <> • {solved}/{contest.problems.length} solved</>}
+                      </span>
+                      <div className="ml-auto flex gap-2">
+                        <Button asChild variant="outline" size="sm">
+                          <Link to={`/?contest=${contest.slug}`}>Show in table</Link>
+                        </Button>
+                        <Button asChild variant="outline" size="sm">
+                          <Link to={`/virtual/${contest.slug}`}>Virtual</Link>
+                        </Button>
+                        <Button asChild variant="outline" size="sm">
+                          <a href={`https://leetcode.com/contest/${contest.slug}/`} target="_blank" rel="noreferrer">
+                            LeetCode <ExternalLink className="h-4 w-4" />
+                          </a>
+                        </Button>
+                      </div>
+                    </div>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-2">
+                      {contest.problems.map((problem) => {
+                        const status = progress[problem.ID]?.status ?? "unsolved";
+                        return (
+                          <div key={problem.ID} className="rounded-lg border border-gray-200 dark:border-gray-600 p-3 space-y-2">
+                            <div className="flex items-center justify-between gap-2">
+                              <span className="font-mono text-xs text-slate-400 dark:text-slate-500">{problem.ProblemIndex}</span>
+                              <span className="font-mono text-sm dark:text-slate-300">{Math.round(problem.Rating)}</span>
+                            </div>
+                            <Link
+                              to={`/problems/${problem.TitleSlug}`}
+                              className="block text-sm font-medium text-blue-600 dark:text-blue-400 hover:underline hover:text-blue-700 dark:hover:text-blue-300"
+                            >
+                              {problem.ID}. {problem.Title}
+                            </Link>
+                            <div className="flex flex-wrap gap-1">
+                              <DifficultyBadge difficulty={problem.difficulty} />
+                              {status !== "unsolved" && (
+                                <Badge variant="outline" className={statusColors[status]}>{statusLabels[status]}</Badge>
+                              )}
+                            </div>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+
+            {totalPages > 1 && (
+              <div className="flex items-center justify-between px-6 py-3 border-t dark:border-gray-600">
+                <div className="text-sm text-slate-500 dark:text-slate-400">Page {page} of {totalPages}</div>
+                <div className="flex gap-2">
+                  {page > 1 ? (
+                    <Button asChild variant="outline" size="sm"><Link to={pageLink(page - 1)}>Previous</Link></Button>
+                  ) : (
+                    <Button variant="outline" size="sm" disabled>Previous</Button>
+                  )}
+                  {page < totalPages ? (
+                    <Button asChild variant="outline" size="sm"><Link to={pageLink(page + 1)}>Next</Link></Button>
+                  ) : (
+                    <Button variant="outline" size="sm" disabled>Next</Button>
+                  )}
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
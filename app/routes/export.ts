@@ -0,0 +1,32 @@
+import type { LoaderFunctionArgs } from "@remix-run/node";
+import { EXPORT_FORMATS, exportProblems, parseExportColumns, type ExportFormat } from "~/lib/export";
+import { parseFilterParams } from "~/lib/filters";
+import { filterProblems } from "~/lib/problems.server";
+import { getProgressStatuses } from "~/lib/progress.server";
+
+// Download of every problem matching the index's filters, in the index's order:
+//   /export?format=csv&column=id&column=title&tag=Graph
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { searchParams } = new URL(request.url);
+  const format = searchParams.get("format") ?? "csv";
+  if (!(EXPORT_FORMATS as string[]).includes(format)) {
+    return new Response(`Unknown format "${format}"; use ${EXPORT_FORMATS.join(", ")}`, { status: 400 });
+  }
+
+  const statuses = getProgressStatuses(request);
+  const problems = filterProblems(parseFilterParams(searchParams), statuses);
+  const file = exportProblems(problems, {
+    format: format as ExportFormat,
+    columns: parseExportColumns(searchParams.getAll("column")),
+    statuses,
+  });
+
+  return new Response(file.body, {
+    headers: {
+      "Content-Type": file.contentType,
+      "Content-Disposition": `attachment; filename="${file.filename}"`,
+      // Depends on the progress cookie
+      "Cache-Control": "private, no-store",
+    },
+  });
+};
@@ -0,0 +1,11 @@
+import type { LoaderFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { parseFilterParams } from "~/lib/filters";
+import { getFacetCounts } from "~/lib/problems.server";
+import { getProgressStatuses } from "~/lib/progress.server";
+
+// Resource route behind the filter panel's live counts; takes the same parameters as the index
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const filters = parseFilterParams(new URL(request.url).searchParams);
+  return json(getFacetCounts(filters, getProgressStatuses(request)));
+};
@@ -0,0 +1,46 @@
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
+import { executeGraphQL, type GraphQLRequest } from "~/lib/graphql.server";
+
+// GraphQL over HTTP: queries as GET parameters or as a JSON POST body, the way
+// leetcode.com/graphql takes them. Everything is read-only.
+
+const respond = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json; charset=utf-8", "Access-Control-Allow-Origin": "*" },
+  });
+
+const badRequest = (message: string) => respond({ errors: [{ message }] }, 400);
+
+async function run(request: GraphQLRequest) {
+  const result = await executeGraphQL(request);
+  // No data at all means the query itself couldn't run (syntax or validation errors)
+  return respond(result, "data" in result ? 200 : 400);
+}
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { searchParams } = new URL(request.url);
+  const query = searchParams.get("query");
+  if (!query) return badRequest("Missing query parameter");
+
+  let variables: Record<string, unknown> | null = null;
+  try {
+    variables = JSON.parse(searchParams.get("variables") || "null");
+  } catch {
+    return badRequest("variables must be JSON");
+  }
+  return run({ query, variables, operationName: searchParams.get("operationName") });
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  if (request.method !== "POST") return badRequest("Use GET or POST");
+
+  let body: Partial<GraphQLRequest>;
+  try {
+    body = await request.json();
+  } catch {
+    return badRequest("Body must be JSON");
+  }
+  if (typeof body?.query !== "string") return badRequest("Missing query");
+  return run({ query: body.query, variables: body.variables ?? null, operationName: body.operationName ?? null });
+};
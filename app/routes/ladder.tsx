@@ -0,0 +1,294 @@
+import type { MetaFunction, LoaderFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { Form, Link, useLoaderData, useNavigate, useSearchParams } from "@remix-run/react";
+import { ArrowLeft } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "~/components/ui/card";
+import { Badge } from "~/components/ui/badge";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { DifficultyBadge } from "~/components/difficulty-badge";
+import { ProgressBar } from "~/components/progress-bar";
+import { getAllProblems, getTagIndex, getTaxonomy } from "~/lib/problems.server";
+import { buildLadder, DEFAULT_LADDER_STEP, LADDER_STEPS } from "~/lib/ladder";
+import { statusColors, statusLabels } from "~/lib/progress";
+import { createStudyList } from "~/lib/study-lists";
+import { useProgress } from "~/hooks/use-progress";
+import { useStudyLists } from "~/hooks/use-study-lists";
+
+const MAX_LADDER_RATING = 4000;
+
+const parseRating = (value: string | null) => {
+  const rating = parseInt(value || "", 10);
+  return Number.isNaN(rating) ? undefined : Math.min(Math.max(rating, 0), MAX_LADDER_RATING);
+};
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { searchParams } = new URL(request.url);
+  const { allTags, subtagsByTag } = getTagIndex();
+
+  const tagParam = searchParams.get("tag") || "";
+  const taxonomy = getTaxonomy();
+  const tag = taxonomy.resolve(tagParam)?.name ?? null;
+  const requestedStep = parseInt(searchParams.get("step") || "", 10);
+  const step = LADDER_STEPS.includes(requestedStep) ? requestedStep : DEFAULT_LADDER_STEP;
+  const skip = new Set(
+    (searchParams.get("skip") || "").split(",").map(id => parseInt(id, 10)).filter(id => Number.isInteger(id))
+  );
+
+  if (!tag) {
+    return json({ allTags, subtagsByTag, tag, step, ladder: null });
+  }
+
+  const { from, to, rungs, gaps } = buildLadder(getAllProblems(), {
+    tag,
+    step,
+    from: parseRating(searchParams.get("from")),
+    to: parseRating(searchParams.get("to")),
+    skip,
+  }, taxonomy);
+
+  // Only what the page shows, so the payload doesn't carry every rung's tag tree
+  const ladder = {
+    from,
+    to,
+    gaps,
+    skipped: skip.size,
+    rungs: rungs.map(({ target, problem, sharedSubtags, alternatives }) => ({
+      target,
+      sharedSubtags,
+      alternatives,
+      problem: {
+        ID: problem.ID,
+        Title: problem.Title,
+        TitleSlug: problem.TitleSlug,
+        Rating: problem.Rating,
+        difficulty: problem.problemDetails?.difficulty ?? null,
+      },
+    })),
+  };
+  return json({ allTags, subtagsByTag, tag, step, ladder });
+};
+
+export const meta: MetaFunction<typeof loader> = ({ data }) => {
+  return [
+    { title: data?.tag ? `${data.tag} Ladder | StepCode` : "Rating Ladders | StepCode" },
+    { name: "description", content: "Climb a topic one rating step at a time, with neighbouring problems sharing techniques" },
+  ];
+};
+
+export default function RatingLadder() {
+  const { allTags, subtagsByTag, tag, step, ladder } = useLoaderData<typeof loader>();
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const { progress, updateProgress } = useProgress();
+  const { saveList } = useStudyLists();
+
+  const isDone = (id: number) => {
+    const status = progress[id]?.status;
+    return status === "solved" || status === "revisit";
+  };
+  const done = ladder?.rungs.filter(rung => isDone(rung.problem.ID)).length ?? 0;
+  const nextRung = ladder?.rungs.find(rung => !isDone(rung.problem.ID));
+
+  // Skipping keeps the rest of the URL, so the ladder rebuilds around the remaining problems
+  const skipUrl = (id: number) => {
+    const params = new URLSearchParams(searchParams);
+    params.set("skip", [params.get("skip"), id].filter(Boolean).join(","));
+    return `?${params.toString()}`;
+  };
+  const resetSkipsUrl = () => {
+    const params = new URLSearchParams(searchParams);
+    params.delete("skip");
+    return `?${params.toString()}`;
+  };
+
+  const saveAsList = () => {
+    if (!ladder || !tag) return;
+    const list = createStudyList(
+      `${tag} ladder ${ladder.from}→${ladder.to}`,
+      ladder.rungs.map(rung => ({ id: rung.problem.ID })),
+      `Rating ladder in steps of ${step}`
+    );
+    saveList(list);
+    navigate(`/lists/${list.id}`);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 dark:from-gray-900 dark:to-gray-900 p-6">
+      <div className="mx-auto max-w-5xl space-y-6">
+        <div className="flex items-center justify-between">
+          <Button asChild variant="ghost" size="sm" className="text-slate-600 hover:text-slate-900 dark:text-slate-400 dark:hover:text-slate-100">
+            <Link to="/">
+              <ArrowLeft className="h-4 w-4" />
+              All problems
+            </Link>
+          </Button>
+          <Link to="/" className="text-2xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent">
+            StepCode
+          </Link>
+        </div>
+
+        <Card className="dark:bg-gray-800 dark:border-gray-700 shadow-lg border border-gray-200 dark:border-gray-600">
+          <CardHeader className="bg-slate-50 dark:bg-gray-700 border-b border-gray-200 dark:border-gray-600 px-6 py-4 rounded-t-lg">
+            <CardTitle className="dark:text-white">Rating Ladder</CardTitle>
+            <CardDescription className="dark:text-slate-400">
+              One problem per rating step, with neighbouring rungs sharing subtags where the topic allows
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="px-6 py-4">
+            <Form method="get" className="flex flex-wrap items-end gap-3">
+              <div className="space-y-1">
+                <label htmlFor="ladder-tag" className="block text-sm font-medium text-slate-600 dark:text-slate-300">Topic</label>
+                <select
+                  id="ladder-tag"
+                  name="tag"
+                  defaultValue={tag ?? ""}
+                  className="px-3 py-2 text-sm border rounded-lg dark:bg-gray-700 dark:border-gray-600 dark:text-white focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400"
+                >
+                  <option value="" disabled>Pick a tag or subtag</option>
+                  {allTags.map((name) => (
+                    <optgroup key={name} label={name}>
+                      <option value={name}>{name} (all)</option>
+                      {subtagsByTag[name]?.map((subtag) => (
+                        <option key={subtag} value={subtag}>{subtag}</option>
+                      ))}
+                    </optgroup>
+                  ))}
+                </select>
+              </div>
+              <div className="space-y-1">
+                <label htmlFor="ladder-step" className="block text-sm font-medium text-slate-600 dark:text-slate-300">Step</label>
+                <select
+                  id="ladder-step"
+                  name="step"
+                  defaultValue={step}
+                  className="px-3 py-2 text-sm border rounded-lg dark:bg-gray-700 dark:border-gray-600 dark:text-white focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400"
+                >
+                  {LADDER_STEPS.map((option) => (
+                    <option key={option} value={option}>+{option}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="space-y-1">
+                <label htmlFor="ladder-from" className="block text-sm font-medium text-slate-600 dark:text-slate-300">From</label>
+                <Input
+                  id="ladder-from"
+                  name="from"
+                  type="number"
+                  step={50}
+                  defaultValue={searchParams.get("from") ?? ""}
+                  placeholder={ladder ? String(ladder.from) : "1200"}
+                  className="w-24 dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                />
+              </div>
+              <div className="space-y-1">
+                <label htmlFor="ladder-to" className="block text-sm font-medium text-slate-600 dark:text-slate-300">To</label>
+                <Input
+                  id="ladder-to"
+                  name="to"
+                  type="number"
+                  step={50}
+                  defaultValue={searchParams.get("to") ?? ""}
+                  placeholder={ladder ? String(ladder.to) : "2400"}
+                  className="w-24 dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                />
+              </div>
+              <Button type="submit" className="bg-blue-600 hover:bg-blue-700 text-white">Build ladder</Button>
+            </Form>
+          </CardContent>
+        </Card>
+
+        {ladder && tag && (
+          <Card className="dark:bg-gray-800 dark:border-gray-700 shadow-lg border border-gray-200 dark:border-gray-600">
+            <CardHeader className="bg-slate-50 dark:bg-gray-700 border-b border-gray-200 dark:border-gray-600 px-6 py-4 rounded-t-lg space-y-3">
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <div>
+                  <CardTitle className="dark:text-white">{tag}: {ladder.from} → {ladder.to}</CardTitle>
+                  <CardDescription className="dark:text-slate-400">
+                    {ladder.rungs.length} rungs in steps of {step}
+                    {ladder.skipped > 0 && (
+                      <>
+                        {" • "}{ladder.skipped} skipped{" "}
+                        <Link to={resetSkipsUrl()} className="text-blue-600 dark:text-blue-400 hover:underline">bring back</Link>
+                      </>
+                    )}
+                  </CardDescription>
+                </div>
+                <Button variant="outline" size="sm" onClick={saveAsList} disabled={ladder.rungs.length === 0}>
+                  Save as study list
+                </Button>
+              </div>
+              <ProgressBar done={done} total={ladder.rungs.length} />
+            </CardHeader>
+            <CardContent className="p-0">
+              {ladder.rungs.length === 0 ? (
+                <p className="px-6 py-4 text-sm text-slate-500 dark:text-slate-400">No {tag} problems in this rating range.</p>
+              ) : (
+                <ol className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {ladder.rungs.map(({ target, problem, sharedSubtags, alternatives }) => {
+                    const status = progress[problem.ID]?.status ?? "unsolved";
+                    const current = nextRung?.problem.ID === problem.ID;
+                    return (
+                      <li
+                        key={target}
+                        className={`flex flex-wrap items-center gap-3 px-6 py-3 ${current ? "bg-blue-50 dark:bg-blue-900/20" : ""}`}
+                      >
+                        <span className="w-12 font-mono text-sm text-slate-400 dark:text-slate-500">{target}</span>
+                        <div className="min-w-0 flex-1 space-y-1">
+                          <div className="flex flex-wrap items-center gap-2">
+                            <Link
+                              to={`/problems/${problem.TitleSlug}`}
+                              className="font-medium text-blue-600 dark:text-blue-400 hover:underline hover:text-blue-700 dark:hover:text-blue-300"
+                            >
+                              {problem.ID}. {problem.Title}
+                            </Link>
+                            <DifficultyBadge difficulty={problem.difficulty} />
+                            <span className="font-mono text-xs dark:text-slate-300">{Math.round(problem.Rating)}</span>
+                            {status !== "unsolved" && (
+                              <Badge variant="outline" className={statusColors[status]}>{statusLabels[status]}</Badge>
+                            )}
+                          </div>
+                          {sharedSubtags.length > 0 && (
+                            <div className="flex flex-wrap items-center gap-1 text-xs text-slate-500 dark:text-slate-400">
+                              <span>Builds on the previous rung:</span>
+                              {sharedSubtags.map((subtag) => (
+                                <Badge key={subtag} variant="secondary" className="text-xs">{subtag}</Badge>
+                              ))}
+                            </div>
+                          )}
+                        </div>
+                        <div className="flex gap-1">
+                          {isDone(problem.ID) ? (
+                            <Button variant="ghost" size="sm" onClick={() => updateProgress(problem.ID, { status: "unsolved" })}>
+                              Undo
+                            </Button>
+                          ) : (
+                            <Button variant="outline" size="sm" onClick={() => updateProgress(problem.ID, { status: "solved" })}>
+                              Mark done
+                            </Button>
+                          )}
+                          {alternatives > 0 && !isDone(problem.ID) && (
+                            <Button asChild variant="ghost" size="sm">
+                              <Link to={skipUrl(problem.ID)} preventScrollReset title={`${alternatives} other problems at this rung`}>
+                                Skip
+                              </Link>
+                            </Button>
+                          )}
+                        </div>
+                      </li>
+                    );
+                  })}
+                </ol>
+              )}
+              {ladder.gaps.length > 0 && (
+                <p className="px-6 py-2 text-xs text-slate-400 dark:text-slate-500 border-t border-gray-200 dark:border-gray-700">
+                  No problems left at {ladder.gaps.join(", ")}
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,255 @@
+import type { MetaFunction } from "@remix-run/node";
+import { Link, useFetcher, useNavigate, useParams } from "@remix-run/react";
+import { useEffect, useMemo, useState } from "react";
+import { ArrowDown, ArrowLeft, ArrowUp, X } from "lucide-react";
+import { Card, CardContent, CardHeader } from "~/components/ui/card";
+import { Badge } from "~/components/ui/badge";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { DifficultyBadge } from "~/components/difficulty-badge";
+import { ProgressBar } from "~/components/progress-bar";
+import { statusColors, statusLabels } from "~/lib/progress";
+import {
+  addEntries,
+  buildShareParams,
+  exportStudyList,
+  moveEntry,
+  parseShareIds,
+  updateStudyList,
+  type StudyList,
+} from "~/lib/study-lists";
+import { useStudyLists } from "~/hooks/use-study-lists";
+import { useProgress } from "~/hooks/use-progress";
+import type { loader as summariesLoader } from "~/routes/problem-summaries";
+
+export const meta: MetaFunction = () => {
+  return [{ title: "Study List | StepCode" }];
+};
+
+// Edited locally and saved on blur, like the notes on the problem page
+function EntryNote({ note, onSave }: { note?: string; onSave: (note: string) => void }) {
+  const [value, setValue] = useState(note ?? "");
+  useEffect(() => {
+    setValue(note ?? "");
+  }, [note]);
+
+  return (
+    <Input
+      aria-label="Note"
+      value={value}
+      onChange={(e) => setValue(e.target.value)}
+      onBlur={() => {
+        if (value !== (note ?? "")) onSave(value);
+      }}
+      placeholder="Add a note..."
+      className="h-8 text-xs dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+    />
+  );
+}
+
+function ListHeader({ list, onSave }: { list: StudyList; onSave: (list: StudyList) => void }) {
+  const [name, setName] = useState(list.name);
+  const [description, setDescription] = useState(list.description ?? "");
+  useEffect(() => {
+    setName(list.name);
+    setDescription(list.description ?? "");
+  }, [list.name, list.description]);
+
+  return (
+    <div className="space-y-2">
+      <Input
+        aria-label="List name"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        onBlur={() => {
+          if (name.trim() && name !== list.name) onSave(updateStudyList(list, { name: name.trim() }));
+        }}
+        className="text-lg font-semibold dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+      />
+      <Input
+        aria-label="Description"
+        value={description}
+        onChange={(e) => setDescription(e.target.value)}
+        onBlur={() => {
+          if (description !== (list.description ?? "")) onSave(updateStudyList(list, { description: description || undefined }));
+        }}
+        placeholder="What is this list for?"
+        className="text-sm dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+      />
+    </div>
+  );
+}
+
+export default function StudyListDetail() {
+  const { id } = useParams();
+  const navigate = useNavigate();
+  const { lists, loaded, saveList, deleteList } = useStudyLists();
+  const { progress } = useProgress();
+  const { load, data } = useFetcher<typeof summariesLoader>();
+
+  const [idsToAdd, setIdsToAdd] = useState("");
+  const [shareUrl, setShareUrl] = useState<string | null>(null);
+
+  const list = lists.find(candidate => candidate.id === id);
+
+  // Lists only hold IDs; titles and ratings come from the server
+  const idsKey = list?.entries.map(entry => entry.id).join(",") ?? "";
+  useEffect(() => {
+    if (idsKey) load(`/problem-summaries?ids=${idsKey}`);
+  }, [idsKey, load]);
+  const summaries = useMemo(() => new Map(data?.problems.map(problem => [problem.ID, problem])), [data]);
+
+  if (!loaded) return null;
+
+  if (!list) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 dark:from-gray-900 dark:to-gray-900 p-6">
+        <div className="mx-auto max-w-5xl space-y-4 text-slate-600 dark:text-slate-300">
+          <p>This list doesn&apos;t exist in this browser.</p>
+          <Link to="/lists" className="text-blue-600 dark:text-blue-400 hover:underline">Back to your lists</Link>
+        </div>
+      </div>
+    );
+  }
+
+  const done = list.entries.filter(entry => {
+    const status = progress[entry.id]?.status;
+    return status === "solved" || status === "revisit";
+  }).length;
+
+  const addProblems = () => {
+    const ids = parseShareIds(idsToAdd.replace(/[\s;]+/g, ","));
+    if (ids.length > 0) saveList(addEntries(list, ids));
+    setIdsToAdd("");
+  };
+
+  const download = () => {
+    const url = URL.createObjectURL(new Blob([exportStudyList(list)], { type: "application/json" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `${list.name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "study-list"}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const share = async () => {
+    const url = `${window.location.origin}/lists/import?${buildShareParams(list)}`;
+    setShareUrl(url);
+    await navigator.clipboard?.writeText(url).catch(() => undefined);
+  };
+
+  const remove = () => {
+    if (!window.confirm(`Delete "${list.name}"?`)) return;
+    deleteList(list.id);
+    navigate("/lists");
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 dark:from-gray-900 dark:to-gray-900 p-6">
+      <div className="mx-auto max-w-5xl space-y-6">
+        <div className="flex items-center justify-between">
+          <Button asChild variant="ghost" size="sm" className="text-slate-600 hover:text-slate-900 dark:text-slate-400 dark:hover:text-slate-100">
+            <Link to="/lists">
+              <ArrowLeft className="h-4 w-4" />
+              All lists
+            </Link>
+          </Button>
+          <Link to="/" className="text-2xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent">
+            StepCode
+          </Link>
+        </div>
+
+        <Card className="dark:bg-gray-800 dark:border-gray-700 shadow-lg border border-gray-200 dark:border-gray-600">
+          <CardHeader className="bg-slate-50 dark:bg-gray-700 border-b border-gray-200 dark:border-gray-600 px-6 py-4 rounded-t-lg space-y-3">
+            <ListHeader list={list} onSave={saveList} />
+            <ProgressBar done={done} total={list.entries.length} />
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" size="sm" onClick={download}>Export JSON</Button>
+              <Button variant="outline" size="sm" onClick={share}>Copy share link</Button>
+              <Button variant="ghost" size="sm" onClick={remove} className="text-red-600 dark:text-red-400">Delete list</Button>
+            </div>
+            {shareUrl && (
+              <Input aria-label="Share link" readOnly value={shareUrl} onFocus={(e) => e.currentTarget.select()} className="text-xs font-mono dark:bg-gray-700 dark:border-gray-600 dark:text-white" />
+            )}
+          </CardHeader>
+          <CardContent className="p-0">
+            {list.entries.length === 0 ? (
+              <p className="px-6 py-4 text-sm text-slate-500 dark:text-slate-400">
+                Empty so far. Add problems by ID below or from a problem&apos;s page.
+              </p>
+            ) : (
+              <ol className="divide-y divide-gray-200 dark:divide-gray-700">
+                {list.entries.map((entry, index) => {
+                  const problem = summaries.get(entry.id);
+                  const status = progress[entry.id]?.status ?? "unsolved";
+                  return (
+                    <li key={entry.id} className="grid grid-cols-12 items-center gap-3 px-6 py-3">
+                      <span className="col-span-1 font-mono text-sm text-slate-400 dark:text-slate-500">{index + 1}</span>
+                      <div className="col-span-6 space-y-1">
+                        <div className="flex flex-wrap items-center gap-2">
+                          {problem ? (
+                            <Link
+                              to={`/problems/${problem.TitleSlug}`}
+                              className="font-medium text-blue-600 dark:text-blue-400 hover:underline hover:text-blue-700 dark:hover:text-blue-300"
+                            >
+                              {problem.ID}. {problem.Title}
+                            </Link>
+                          ) : (
+                            <span className="font-medium text-slate-500 dark:text-slate-400">#{entry.id}</span>
+                          )}
+                          {problem && (
+                            <>
+                              <DifficultyBadge difficulty={problem.difficulty} />
+                              <span className="font-mono text-xs dark:text-slate-300">{Math.round(problem.Rating)}</span>
+                            </>
+                          )}
+                          {status !== "unsolved" && (
+                            <Badge variant="outline" className={statusColors[status]}>{statusLabels[status]}</Badge>
+                          )}
+                        </div>
+                        <EntryNote
+                          note={entry.note}
+                          onSave={(note) => saveList(updateStudyList(list, {
+                            entries: list.entries.map(existing => existing.id === entry.id ? { ...existing, note: note || undefined } : existing),
+                          }))}
+                        />
+                      </div>
+                      <div className="col-span-5 flex justify-end gap-1">
+                        <Button variant="ghost" size="sm" aria-label="Move up" disabled={index === 0} onClick={() => saveList(moveEntry(list, index, index - 1))}>
+                          <ArrowUp className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" aria-label="Move down" disabled={index === list.entries.length - 1} onClick={() => saveList(moveEntry(list, index, index + 1))}>
+                          <ArrowDown className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          aria-label="Remove from list"
+                          onClick={() => saveList(updateStudyList(list, { entries: list.entries.filter(existing => existing.id !== entry.id) }))}
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </li>
+                  );
+                })}
+              </ol>
+            )}
+            <div className="flex flex-wrap items-center gap-2 px-6 py-4 border-t border-gray-200 dark:border-gray-600">
+              <label htmlFor="add-problem-ids" className="text-sm font-medium text-slate-600 dark:text-slate-300">Add problems</label>
+              <Input
+                id="add-problem-ids"
+                value={idsToAdd}
+                onChange={(e) => setIdsToAdd(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && addProblems()}
+                placeholder="IDs, e.g. 1004, 424, 2024"
+                className="max-w-xs dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+              />
+              <Button variant="outline" size="sm" onClick={addProblems} disabled={!idsToAdd.trim()}>Add</Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,157 @@
+import type { MetaFunction } from "@remix-run/node";
+import { Link, useNavigate } from "@remix-run/react";
+import { useState } from "react";
+import { ArrowLeft } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "~/components/ui/card";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { ProgressBar } from "~/components/progress-bar";
+import { createStudyList, parseStudyListJson, StudyListFormatError } from "~/lib/study-lists";
+import { useStudyLists } from "~/hooks/use-study-lists";
+import { useProgress } from "~/hooks/use-progress";
+
+export const meta: MetaFunction = () => {
+  return [
+    { title: "Study Lists | StepCode" },
+    { name: "description", content: "Your ordered problem lists, with completion and sharing" },
+  ];
+};
+
+export default function StudyLists() {
+  const { lists, loaded, saveList } = useStudyLists();
+  const { progress } = useProgress();
+  const navigate = useNavigate();
+
+  const [newName, setNewName] = useState("");
+  const [importText, setImportText] = useState("");
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const create = () => {
+    const list = createStudyList(newName);
+    saveList(list);
+    navigate(`/lists/${list.id}`);
+  };
+
+  const importLists = (text: string) => {
+    try {
+      const imported = parseStudyListJson(text);
+      imported.forEach(saveList);
+      setImportText("");
+      setImportError(null);
+    } catch (e) {
+      if (!(e instanceof StudyListFormatError)) throw e;
+      setImportError(e.message);
+    }
+  };
+
+  const importFile = async (file: File | undefined) => {
+    if (file) importLists(await file.text());
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 dark:from-gray-900 dark:to-gray-900 p-6">
+      <div className="mx-auto max-w-5xl space-y-6">
+        <div className="flex items-center justify-between">
+          <Button asChild variant="ghost" size="sm" className="text-slate-600 hover:text-slate-900 dark:text-slate-400 dark:hover:text-slate-100">
+            <Link to="/">
+              <ArrowLeft className="h-4 w-4" />
+              All problems
+            </Link>
+          </Button>
+          <Link to="/" className="text-2xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent">
+            StepCode
+          </Link>
+        </div>
+
+        <Card className="dark:bg-gray-800 dark:border-gray-700 shadow-lg border border-gray-200 dark:border-gray-600">
+          <CardHeader className="bg-slate-50 dark:bg-gray-700 border-b border-gray-200 dark:border-gray-600 px-6 py-4 rounded-t-lg">
+            <CardTitle className="dark:text-white">Study Lists ({lists.length})</CardTitle>
+            <CardDescription className="dark:text-slate-400">
+              Saved in this browser. A problem counts as done once you mark it solved.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="p-0">
+            {loaded && lists.length === 0 && (
+              <p className="px-6 py-4 text-sm text-slate-500 dark:text-slate-400">No lists yet. Create one below or import a teammate&apos;s.</p>
+            )}
+            <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+              {lists.map((list) => {
+                const done = list.entries.filter(entry => {
+                  const status = progress[entry.id]?.status;
+                  return status === "solved" || status === "revisit";
+                }).length;
+                return (
+                  <li key={list.id} className="px-6 py-4 space-y-2 hover:bg-slate-50 dark:hover:bg-gray-700">
+                    <div className="flex flex-wrap items-baseline justify-between gap-2">
+                      <Link
+                        to={`/lists/${list.id}`}
+                        className="font-medium text-blue-600 dark:text-blue-400 hover:underline hover:text-blue-700 dark:hover:text-blue-300"
+                      >
+                        {list.name}
+                      </Link>
+                      <span className="text-xs text-slate-400 dark:text-slate-500">{list.entries.length} problems</span>
+                    </div>
+                    {list.description && <p className="text-sm text-slate-600 dark:text-slate-400">{list.description}</p>}
+                    <ProgressBar done={done} total={list.entries.length} />
+                  </li>
+                );
+              })}
+            </ul>
+          </CardContent>
+        </Card>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <Card className="dark:bg-gray-800 dark:border-gray-700 shadow-lg border border-gray-200 dark:border-gray-600">
+            <CardHeader className="bg-slate-50 dark:bg-gray-700 border-b border-gray-200 dark:border-gray-600 px-6 py-4 rounded-t-lg">
+              <CardTitle className="dark:text-white">New List</CardTitle>
+            </CardHeader>
+            <CardContent className="px-6 py-4 space-y-3">
+              <label htmlFor="new-list-name" className="text-sm font-medium text-slate-600 dark:text-slate-300">Name</label>
+              <Input
+                id="new-list-name"
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && create()}
+                placeholder="Sliding window ramp 1400→2200"
+                className="dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+              />
+              <Button onClick={create} className="bg-blue-600 hover:bg-blue-700 text-white">Create</Button>
+            </CardContent>
+          </Card>
+
+          <Card className="dark:bg-gray-800 dark:border-gray-700 shadow-lg border border-gray-200 dark:border-gray-600">
+            <CardHeader className="bg-slate-50 dark:bg-gray-700 border-b border-gray-200 dark:border-gray-600 px-6 py-4 rounded-t-lg">
+              <CardTitle className="dark:text-white">Import</CardTitle>
+              <CardDescription className="dark:text-slate-400">Paste or upload an exported list. Share links import themselves when opened.</CardDescription>
+            </CardHeader>
+            <CardContent className="px-6 py-4 space-y-3">
+              <label htmlFor="import-json" className="text-sm font-medium text-slate-600 dark:text-slate-300">JSON</label>
+              <textarea
+                id="import-json"
+                value={importText}
+                onChange={(e) => setImportText(e.target.value)}
+                rows={4}
+                placeholder='{"version": 1, "name": "...", "entries": [{"id": 1004}]}'
+                className="w-full px-3 py-2 text-sm font-mono border rounded-lg dark:bg-gray-700 dark:border-gray-600 dark:text-white focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400"
+              />
+              {importError && <p className="text-xs text-red-600 dark:text-red-400">{importError}</p>}
+              <div className="flex flex-wrap items-center gap-3">
+                <Button onClick={() => importLists(importText)} disabled={!importText.trim()} variant="outline">
+                  Import
+                </Button>
+                <label htmlFor="import-file" className="text-sm text-slate-600 dark:text-slate-300">or upload</label>
+                <input
+                  id="import-file"
+                  type="file"
+                  accept="application/json,.json"
+                  onChange={(e) => importFile(e.target.files?.[0])}
+                  className="text-sm text-slate-600 dark:text-slate-300"
+                />
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
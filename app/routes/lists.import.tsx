@@ -0,0 +1,91 @@
+import type { MetaFunction, LoaderFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { Link, useLoaderData, useNavigate } from "@remix-run/react";
+import { ArrowLeft } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "~/components/ui/card";
+import { Button } from "~/components/ui/button";
+import { DifficultyBadge } from "~/components/difficulty-badge";
+import { getProblemSummaries } from "~/lib/problems.server";
+import { createStudyList, parseShareIds } from "~/lib/study-lists";
+import { useStudyLists } from "~/hooks/use-study-lists";
+
+// Landing page for share links: shows what the list contains before saving a copy
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { searchParams } = new URL(request.url);
+  const ids = parseShareIds(searchParams.get("ids"));
+  const problems = getProblemSummaries(ids);
+
+  return json({
+    name: searchParams.get("name")?.trim() || "Shared list",
+    problems,
+    unknownIds: ids.filter(id => !problems.some(problem => problem.ID === id)),
+  });
+};
+
+export const meta: MetaFunction<typeof loader> = ({ data }) => {
+  return [{ title: `Import "${data?.name ?? "list"}" | StepCode` }];
+};
+
+export default function ImportStudyList() {
+  const { name, problems, unknownIds } = useLoaderData<typeof loader>();
+  const { saveList } = useStudyLists();
+  const navigate = useNavigate();
+
+  const save = () => {
+    const list = createStudyList(name, problems.map(problem => ({ id: problem.ID })));
+    saveList(list);
+    navigate(`/lists/${list.id}`);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 dark:from-gray-900 dark:to-gray-900 p-6">
+      <div className="mx-auto max-w-5xl space-y-6">
+        <div className="flex items-center justify-between">
+          <Button asChild variant="ghost" size="sm" className="text-slate-600 hover:text-slate-900 dark:text-slate-400 dark:hover:text-slate-100">
+            <Link to="/lists">
+              <ArrowLeft className="h-4 w-4" />
+              All lists
+            </Link>
+          </Button>
+          <Link to="/" className="text-2xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent">
+            StepCode
+          </Link>
+        </div>
+
+        <Card className="dark:bg-gray-800 dark:border-gray-700 shadow-lg border border-gray-200 dark:border-gray-600">
+          <CardHeader className="bg-slate-50 dark:bg-gray-700 border-b border-gray-200 dark:border-gray-600 px-6 py-4 rounded-t-lg">
+            <div className="flex flex-wrap items-center justify-between gap-4">
+              <div>
+                <CardTitle className="dark:text-white">{name}</CardTitle>
+                <CardDescription className="dark:text-slate-400">
+                  Shared study list with {problems.length} problems
+                  {unknownIds.length > 0 && ` (${unknownIds.length} unknown IDs skipped: ${unknownIds.join(", ")})`}
+                </CardDescription>
+              </div>
+              <Button onClick={save} disabled={problems.length === 0} className="bg-blue-600 hover:bg-blue-700 text-white">
+                Save to my lists
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="p-0">
+            <ol className="divide-y divide-gray-200 dark:divide-gray-700">
+              {problems.map((problem, index) => (
+                <li key={problem.ID} className="flex flex-wrap items-center gap-3 px-6 py-3">
+                  <span className="font-mono text-sm text-slate-400 dark:text-slate-500">{index + 1}</span>
+                  <Link
+                    to={`/problems/${problem.TitleSlug}`}
+                    className="font-medium text-blue-600 dark:text-blue-400 hover:underline hover:text-blue-700 dark:hover:text-blue-300"
+                  >
+                    {problem.ID}. {problem.Title}
+                  </Link>
+                  <DifficultyBadge difficulty={problem.difficulty} />
+                  <span className="font-mono text-sm dark:text-slate-300">{Math.round(problem.Rating)}</span>
+                </li>
+              ))}
+            </ol>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+import type { ActionFunctionArgs, LoaderFunctionArgs, MetaFunction } from "@remix-run/node";
+import { json, redirect } from "@remix-run/node";
+import { Form, Link, useActionData, useLoaderData, useNavigation } from "@remix-run/react";
+import { ArrowLeft } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "~/components/ui/card";
+import { Input } from "~/components/ui/input";
+import { Button } from "~/components/ui/button";
+import { AccountError, createLoginToken, createUser, MIN_PASSWORD_LENGTH, verifyLogin } from "~/lib/accounts.server";
+import { sendMail } from "~/lib/mail.server";
+import { createUserSession, getSessionUser, safeRedirect } from "~/lib/session.server";
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { searchParams } = new URL(request.url);
+  const redirectTo = safeRedirect(searchParams.get("redirectTo"));
+  if (await getSessionUser(request)) return redirect(redirectTo);
+  // Set when an emailed link turned out to be stale
+  return json({ redirectTo, linkError: searchParams.get("error"), minPasswordLength: MIN_PASSWORD_LENGTH });
+};
+
+export const meta: MetaFunction = () => {
+  return [{ title: "Sign in | StepCode" }];
+};
+
+// One form, three buttons: sign in, create an account, or email a sign-in link
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const form = await request.formData();
+  const intent = form.get("intent");
+  const email = String(form.get("email") ?? "");
+  const password = String(form.get("password") ?? "");
+  const redirectTo = safeRedirect(form.get("redirectTo"));
+
+  try {
+    if (intent === "email-link") {
+      const { email: to, token } = createLoginToken(email);
+      const link = new URL("/login/magic", request.url);
+      link.search = new URLSearchParams({ token, redirectTo }).toString();
+      sendMail({
+        to,
+        subject: "Your StepCode sign-in link",
+        text: `Open this link within 15 minutes to sign in:\n\n${link}\n\nIf you didn't ask for it, ignore this email.`,
+      });
+      return json({ error: null, sentTo: to });
+    }
+    const user = intent === "sign-up" ? createUser(email, password) : verifyLogin(email, password);
+    return createUserSession(request, user, redirectTo);
+  } catch (e) {
+    if (!(e instanceof AccountError)) throw e;
+    return json({ error: e.message, sentTo: null });
+  }
+};
+
+export default function Login() {
+  const { redirectTo, linkError, minPasswordLength } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const busy = navigation.state !== "idle";
+  const error = actionData ? actionData.error : linkError;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 dark:from-gray-900 dark:to-gray-900 p-6">
+      <div className="mx-auto max-w-md space-y-6">
+        <div className="flex items-center justify-between">
+          <Button asChild variant="ghost" size="sm" className="text-slate-600 hover:text-slate-900 dark:text-slate-400 dark:hover:text-slate-100">
+            <Link to={redirectTo}>
+              <ArrowLeft className="h-4 w-4" />
+              Back
+            </Link>
+          </Button>
+          <Link to="/" className="text-2xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent">
+            StepCode
+          </Link>
+        </div>
+
+        <Card className="dark:bg-gray-800 dark:border-gray-700 shadow-lg border border-gray-200 dark:border-gray-600">
+          <CardHeader className="bg-slate-50 dark:bg-gray-700 border-b border-gray-200 dark:border-gray-600 px-6 py-4 rounded-t-lg">
+            <CardTitle className="dark:text-white">Sign in</CardTitle>
+            <CardDescription className="dark:text-slate-400">
+              An account keeps your progress, study lists, reviews, filters and theme in step across devices. Whatever
+              this browser already has is added to the account the first time you sign in here.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="px-6 py-4">
+            {actionData?.sentTo ? (
+              <p className="text-sm text-slate-600 dark:text-slate-300">
+                A sign-in link is on its way to <strong>{actionData.sentTo}</strong>. It works once, for 15 minutes.
+              </p>
+            ) : (
+              <Form method="post" className="space-y-3">
+                <input type="hidden" name="redirectTo" value={redirectTo} />
+                <label htmlFor="login-email" className="text-sm font-medium text-slate-600 dark:text-slate-300">Email</label>
+                <Input
+                  id="login-email"
+                  name="email"
+                  type="email"
+                  autoComplete="email"
+                  required
+                  className="dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                />
+                <label htmlFor="login-password" className="text-sm font-medium text-slate-600 dark:text-slate-300">Password</label>
+                <Input
+                  id="login-password"
+                  name="password"
+                  type="password"
+                  autoComplete="current-password"
+                  placeholder={`At least ${minPasswordLength} characters to sign up`}
+                  className="dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                />
+                {error && <p className="text-xs text-red-600 dark:text-red-400">{error}</p>}
+                <div className="flex flex-wrap gap-2 pt-1">
+                  <Button type="submit" name="intent" value="sign-in" disabled={busy} className="bg-blue-600 hover:bg-blue-700 text-white">
+                    Sign in
+                  </Button>
+                  <Button type="submit" name="intent" value="sign-up" disabled={busy} variant="outline">
+                    Create account
+                  </Button>
+                  <Button type="submit" name="intent" value="email-link" disabled={busy} variant="ghost">
+                    Email me a sign-in link
+                  </Button>
+                </div>
+              </Form>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+import type { ActionFunctionArgs, LoaderFunctionArgs, MetaFunction } from "@remix-run/node";
+import { json, redirect } from "@remix-run/node";
+import { Form, Link, useLoaderData, useNavigation } from "@remix-run/react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "~/components/ui/card";
+import { Button } from "~/components/ui/button";
+import { AccountError, consumeLoginToken } from "~/lib/accounts.server";
+import { createUserSession, safeRedirect } from "~/lib/session.server";
+
+// Target of the emailed sign-in link. Mail scanners and link previews open links on their
+// own, so opening it only asks to confirm; the token is spent by the button's POST.
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { searchParams } = new URL(request.url);
+  return json({ token: searchParams.get("token") ?? "", redirectTo: safeRedirect(searchParams.get("redirectTo")) });
+};
+
+export const meta: MetaFunction = () => {
+  return [{ title: "Sign in | StepCode" }];
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const form = await request.formData();
+  const redirectTo = safeRedirect(form.get("redirectTo"));
+  try {
+    const user = consumeLoginToken(String(form.get("token") ?? ""));
+    return createUserSession(request, user, redirectTo);
+  } catch (e) {
+    if (!(e instanceof AccountError)) throw e;
+    return redirect(`/login?${new URLSearchParams({ error: e.message, redirectTo })}`);
+  }
+};
+
+export default function MagicLogin() {
+  const { token, redirectTo } = useLoaderData<typeof loader>();
+  const navigation = useNavigation();
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 dark:from-gray-900 dark:to-gray-900 p-6">
+      <div className="mx-auto max-w-md space-y-6">
+        <div className="flex items-center justify-end">
+          <Link to="/" className="text-2xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent">
+            StepCode
+          </Link>
+        </div>
+
+        <Card className="dark:bg-gray-800 dark:border-gray-700 shadow-lg border border-gray-200 dark:border-gray-600">
+          <CardHeader className="bg-slate-50 dark:bg-gray-700 border-b border-gray-200 dark:border-gray-600 px-6 py-4 rounded-t-lg">
+            <CardTitle className="dark:text-white">Sign in</CardTitle>
+            <CardDescription className="dark:text-slate-400">
+              Finish signing in with the link from your email. It works once.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="px-6 py-4">
+            <Form method="post">
+              <input type="hidden" name="token" value={token} />
+              <input type="hidden" name="redirectTo" value={redirectTo} />
+              <Button type="submit" disabled={navigation.state !== "idle"} className="bg-blue-600 hover:bg-blue-700 text-white">
+                Continue
+              </Button>
+            </Form>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,8 @@
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { redirect } from "@remix-run/node";
+import { destroyUserSession } from "~/lib/session.server";
+
+// POST only, so a prefetched or crawled link can't sign anyone out
+export const loader = () => redirect("/");
+
+export const action = ({ request }: ActionFunctionArgs) => destroyUserSession(request, "/");
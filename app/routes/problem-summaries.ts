@@ -0,0 +1,10 @@
+import type { LoaderFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { getProblemSummaries } from "~/lib/problems.server";
+import { parseShareIds } from "~/lib/study-lists";
+
+// Resource route for client-side collections (study lists) that only know problem IDs
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const ids = parseShareIds(new URL(request.url).searchParams.get("ids"));
+  return json({ problems: getProblemSummaries(ids) });
+};
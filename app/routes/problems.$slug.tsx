@@ -0,0 +1,289 @@
+import type { MetaFunction, LoaderFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { Link, useLoaderData } from "@remix-run/react";
+import { useEffect, useState } from "react";
+import { ArrowLeft, ExternalLink } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "~/components/ui/card";
+import { Badge } from "~/components/ui/badge";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { DifficultyBadge } from "~/components/difficulty-badge";
+import { getProblemBySlug, getSimilarProblems } from "~/lib/problems.server";
+import { statusColors, statusLabels, PROBLEM_STATUSES, type ProblemStatus } from "~/lib/progress";
+import { addEntries, createStudyList } from "~/lib/study-lists";
+import { useProgress } from "~/hooks/use-progress";
+import { useStudyLists } from "~/hooks/use-study-lists";
+
+export const loader = async ({ params }: LoaderFunctionArgs) => {
+  const problem = getProblemBySlug(params.slug ?? "");
+  if (!problem) {
+    throw new Response("Problem not found", { status: 404 });
+  }
+
+  return json({ problem, similarProblems: getSimilarProblems(problem) });
+};
+
+export const meta: MetaFunction<typeof loader> = ({ data }) => {
+  if (!data) {
+    return [{ title: "Problem not found | StepCode" }];
+  }
+  return [
+    { title: `${data.problem.ID}. ${data.problem.Title} | StepCode` },
+    { name: "description", content: `${data.problem.Title} (rating ${Math.round(data.problem.Rating)}) with topic tags and subtags` },
+  ];
+};
+
+// Fixed locale and time zone so the server render and hydration produce the same string
+const dateFormatter = new Intl.DateTimeFormat("en-US", {
+  dateStyle: "medium",
+  timeStyle: "short",
+  timeZone: "UTC",
+});
+
+function ProgressCard({ problemId }: { problemId: number }) {
+  const { progress, updateProgress } = useProgress();
+  const entry = progress[problemId];
+  const status = entry?.status ?? "unsolved";
+
+  // Notes are edited locally and saved on blur so every keystroke doesn't hit localStorage
+  const [notes, setNotes] = useState("");
+  useEffect(() => {
+    setNotes(entry?.notes ?? "");
+  }, [entry?.notes]);
+
+  return (
+    <Card className="dark:bg-gray-800 dark:border-gray-700 shadow-lg border border-gray-200 dark:border-gray-600">
+      <CardHeader className="bg-slate-50 dark:bg-gray-700 border-b border-gray-200 dark:border-gray-600 px-6 py-4 rounded-t-lg">
+        <CardTitle className="dark:text-white">Your Progress</CardTitle>
+        <CardDescription className="dark:text-slate-400">Saved in this browser</CardDescription>
+      </CardHeader>
+      <CardContent className="px-6 py-4 space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <label htmlFor="progress-status" className="text-sm font-medium text-slate-600 dark:text-slate-300">Status</label>
+            <select
+              id="progress-status"
+              value={status}
+              onChange={(e) => updateProgress(problemId, { status: e.target.value as ProblemStatus })}
+              className={`w-full px-3 py-2 text-sm border rounded-lg focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400 ${statusColors[status]}`}
+            >
+              {PROBLEM_STATUSES.map((option) => (
+                <option key={option} value={option}>{statusLabels[option]}</option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-2">
+            <label htmlFor="progress-solved-at" className="text-sm font-medium text-slate-600 dark:text-slate-300">Solved on</label>
+            <Input
+              id="progress-solved-at"
+              type="date"
+              value={entry?.solvedAt ?? ""}
+              disabled={status !== "solved" && status !== "revisit"}
+              onChange={(e) => updateProgress(problemId, { solvedAt: e.target.value || undefined })}
+              className="dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+            />
+          </div>
+        </div>
+        <div className="space-y-2">
+          <label htmlFor="progress-notes" className="text-sm font-medium text-slate-600 dark:text-slate-300">Notes</label>
+          <textarea
+            id="progress-notes"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            onBlur={() => {
+              if (notes !== (entry?.notes ?? "")) updateProgress(problemId, { notes });
+            }}
+            rows={4}
+            placeholder="Approach, pitfalls, complexity..."
+            className="w-full px-3 py-2 text-sm border rounded-lg dark:bg-gray-700 dark:border-gray-600 dark:text-white focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400"
+          />
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+const NEW_LIST = "new";
+
+function StudyListsCard({ problemId, problemTitle }: { problemId: number; problemTitle: string }) {
+  const { lists, saveList } = useStudyLists();
+  const [target, setTarget] = useState(NEW_LIST);
+
+  const containing = lists.filter(list => list.entries.some(entry => entry.id === problemId));
+  const available = lists.filter(list => !containing.includes(list));
+  const selected = available.some(list => list.id === target) ? target : NEW_LIST;
+
+  const add = () => {
+    const list = available.find(candidate => candidate.id === selected);
+    saveList(list ? addEntries(list, [problemId]) : createStudyList(problemTitle, [{ id: problemId }]));
+  };
+
+  return (
+    <Card className="dark:bg-gray-800 dark:border-gray-700 shadow-lg border border-gray-200 dark:border-gray-600">
+      <CardHeader className="bg-slate-50 dark:bg-gray-700 border-b border-gray-200 dark:border-gray-600 px-6 py-4 rounded-t-lg">
+        <CardTitle className="dark:text-white">Study Lists</CardTitle>
+        <CardDescription className="dark:text-slate-400">
+          {containing.length > 0 ? "On " : "Not on any of your "}
+          {containing.length > 0
+            ? containing.map((list, index) => (
+              <span key={list.id}>
+                {index > 0 && ", "}
+                <Link to={`/lists/${list.id}`} className="text-blue-600 dark:text-blue-400 hover:underline">{list.name}</Link>
+              </span>
+            ))
+            : <Link to="/lists" className="text-blue-600 dark:text-blue-400 hover:underline">study lists</Link>}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="px-6 py-4 flex flex-wrap items-center gap-2">
+        <select
+          aria-label="Study list"
+          value={selected}
+          onChange={(e) => setTarget(e.target.value)}
+          className="px-3 py-2 text-sm border rounded-lg dark:bg-gray-700 dark:border-gray-600 dark:text-white focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400"
+        >
+          {available.map((list) => (
+            <option key={list.id} value={list.id}>{list.name}</option>
+          ))}
+          <option value={NEW_LIST}>New list</option>
+        </select>
+        <Button variant="outline" size="sm" onClick={add}>Add to list</Button>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function ProblemDetail() {
+  const { problem, similarProblems } = useLoaderData<typeof loader>();
+
+  const details = [
+    { label: "Rating", value: problem.Rating.toFixed(2) },
+    { label: "Problem ID", value: problem.ID },
+    { label: "Question ID", value: problem.problemDetails?.questionId ?? "—" },
+    { label: "Contest", value: `${problem.ContestID_en} (${problem.ContestID_zh})` },
+    { label: "Contest slug", value: problem.ContestSlug },
+    { label: "Problem index", value: problem.ProblemIndex },
+    { label: "Tags enhanced", value: problem.enhancedAt ? `${dateFormatter.format(new Date(problem.enhancedAt))} UTC` : "Not enhanced" },
+  ];
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 dark:from-gray-900 dark:to-gray-900 p-6">
+      <div className="mx-auto max-w-5xl space-y-6">
+        <div className="flex items-center justify-between">
+          <Button asChild variant="ghost" size="sm" className="text-slate-600 hover:text-slate-900 dark:text-slate-400 dark:hover:text-slate-100">
+            <Link to="/">
+              <ArrowLeft className="h-4 w-4" />
+              All problems
+            </Link>
+          </Button>
+          <Link to="/" className="text-2xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent">
+            StepCode
+          </Link>
+        </div>
+
+        <Card className="dark:bg-gray-800 dark:border-gray-700 shadow-lg border border-gray-200 dark:border-gray-600">
+          <CardHeader className="bg-slate-50 dark:bg-gray-700 border-b border-gray-200 dark:border-gray-600 px-6 py-4 rounded-t-lg">
+            <div className="flex flex-wrap items-center gap-3">
+              <CardTitle className="dark:text-white text-2xl">
+                {problem.ID}. {problem.Title}
+              </CardTitle>
+              <DifficultyBadge difficulty={problem.problemDetails?.difficulty} />
+            </div>
+            <CardDescription className="dark:text-slate-400 text-base">{problem.TitleZH}</CardDescription>
+          </CardHeader>
+          <CardContent className="px-6 py-4 space-y-6">
+            <dl className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-3">
+              {details.map(({ label, value }) => (
+                <div key={label}>
+                  <dt className="text-xs font-medium uppercase text-slate-500 dark:text-slate-400">{label}</dt>
+                  <dd className="font-mono text-sm dark:text-slate-200">{value}</dd>
+                </div>
+              ))}
+            </dl>
+
+            <div className="flex flex-wrap gap-2">
+              <Button asChild variant="outline" size="sm">
+                <a href={`https://leetcode.com/problems/${problem.TitleSlug}/`} target="_blank" rel="noreferrer">
+                  LeetCode <ExternalLink className="h-4 w-4" />
+                </a>
+              </Button>
+              <Button asChild variant="outline" size="sm">
+                <a href={`https://leetcode.cn/problems/${problem.TitleSlug}/`} target="_blank" rel="noreferrer">
+                  力扣 (leetcode.cn) <ExternalLink className="h-4 w-4" />
+                </a>
+              </Button>
+              <Button asChild variant="outline" size="sm">
+                <a href={`https://leetcode.com/contest/${problem.ContestSlug}/`} target="_blank" rel="noreferrer">
+                  {problem.ContestID_en} <ExternalLink className="h-4 w-4" />
+                </a>
+              </Button>
+            </div>
+
+            <div className="space-y-3">
+              <h2 className="text-sm font-medium text-slate-600 dark:text-slate-300">Topic Tags</h2>
+              {problem.topicTags && problem.topicTags.length > 0 ? (
+                <ul className="space-y-2">
+                  {problem.topicTags.map((tag) => (
+                    <li key={tag.name} className="flex items-start gap-2 flex-wrap">
+                      <Badge variant="outline" className="border-gray-300 dark:border-gray-600 dark:text-slate-200">
+                        {tag.name}
+                      </Badge>
+                      {tag.subtags?.map((subtag) => (
+                        <Badge key={subtag} variant="secondary" className="text-xs border-gray-300 dark:border-gray-600">
+                          {subtag}
+                        </Badge>
+                      ))}
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-sm text-slate-400 dark:text-slate-500">No tags</p>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        <ProgressCard problemId={problem.ID} />
+
+        <StudyListsCard problemId={problem.ID} problemTitle={problem.Title} />
+
+        <Card className="dark:bg-gray-800 dark:border-gray-700 shadow-lg border border-gray-200 dark:border-gray-600">
+          <CardHeader className="bg-slate-50 dark:bg-gray-700 border-b border-gray-200 dark:border-gray-600 px-6 py-4 rounded-t-lg">
+            <CardTitle className="dark:text-white">Similar Problems</CardTitle>
+            <CardDescription className="dark:text-slate-400">
+              Sharing subtags, within 200 rating of {Math.round(problem.Rating)}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="p-0">
+            {similarProblems.length === 0 ? (
+              <p className="px-6 py-4 text-sm text-slate-500 dark:text-slate-400">No similar problems found.</p>
+            ) : (
+              <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+                {similarProblems.map(({ problem: similar, sharedSubtags }) => (
+                  <li key={similar.ID} className="grid grid-cols-12 gap-3 px-6 py-3 hover:bg-slate-50 dark:hover:bg-gray-700">
+                    <div className="col-span-1 font-mono text-sm dark:text-slate-300">{similar.ID}</div>
+                    <div className="col-span-6">
+                      <Link
+                        to={`/problems/${similar.TitleSlug}`}
+                        className="font-medium text-blue-600 dark:text-blue-400 hover:underline hover:text-blue-700 dark:hover:text-blue-300"
+                      >
+                        {similar.Title}
+                      </Link>
+                    </div>
+                    <div className="col-span-1 font-mono text-sm dark:text-slate-300">{Math.round(similar.Rating)}</div>
+                    <div className="col-span-4 flex flex-wrap gap-1">
+                      {sharedSubtags.map((subtag) => (
+                        <Badge key={subtag} variant="secondary" className="text-xs">
+                          {subtag}
+                        </Badge>
+                      ))}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,184 @@
+import type { MetaFunction } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { Link, useLoaderData } from "@remix-run/react";
+import { useMemo, useState, type ChangeEvent } from "react";
+import { ArrowLeft } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "~/components/ui/card";
+import { Badge } from "~/components/ui/badge";
+import { Button } from "~/components/ui/button";
+import { getAllProblems } from "~/lib/problems.server";
+import { statusColors, statusLabels } from "~/lib/progress";
+import {
+  matchSubmissions,
+  mergeImportedProgress,
+  parseSubmissions,
+  SubmissionsFormatError,
+  type ImportableProblem,
+  type SubmissionsPreview,
+} from "~/lib/submissions-import";
+import { useProgress } from "~/hooks/use-progress";
+
+// Only what matching needs; the uploaded file itself is read in the browser and never sent
+export const loader = async () => {
+  const problems: ImportableProblem[] = getAllProblems().map(problem => ({
+    ID: problem.ID,
+    Title: problem.Title,
+    TitleSlug: problem.TitleSlug,
+    questionId: problem.problemDetails?.questionId ?? null,
+  }));
+  return json({ problems });
+};
+
+export const meta: MetaFunction = () => {
+  return [{ title: "Import Submissions | StepCode" }];
+};
+
+// Unmatched rows are usually problems outside the contest set, so only the first few are listed
+const VISIBLE_UNMATCHED = 50;
+
+export default function ImportSubmissions() {
+  const { problems } = useLoaderData<typeof loader>();
+  const { progress, replaceProgress } = useProgress();
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [preview, setPreview] = useState<SubmissionsPreview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [imported, setImported] = useState<number | null>(null);
+
+  const readFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    setPreview(null);
+    setError(null);
+    setImported(null);
+    if (!file) return;
+
+    setFileName(file.name);
+    try {
+      setPreview(matchSubmissions(parseSubmissions(await file.text()), problems));
+    } catch (e) {
+      if (!(e instanceof SubmissionsFormatError)) throw e;
+      setError(e.message);
+    }
+  };
+
+  // What each matched problem would become, given the progress already recorded
+  const merged = useMemo(() => (preview ? mergeImportedProgress(progress, preview.matched) : null), [preview, progress]);
+  const changes = useMemo(
+    () => preview?.matched.filter(entry => merged?.[entry.id] !== progress[entry.id]) ?? [],
+    [preview, merged, progress]
+  );
+
+  const commit = () => {
+    if (!preview) return;
+    replaceProgress(current => mergeImportedProgress(current, preview.matched));
+    setImported(changes.length);
+  };
+
+  const slugs = useMemo(() => new Map(problems.map(problem => [problem.ID, problem.TitleSlug])), [problems]);
+  const solvedCount = preview?.matched.filter(entry => entry.status === "solved").length ?? 0;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 dark:from-gray-900 dark:to-gray-900 p-6">
+      <div className="mx-auto max-w-5xl space-y-6">
+        <div className="flex items-center justify-between">
+          <Button asChild variant="ghost" size="sm" className="text-slate-600 hover:text-slate-900 dark:text-slate-400 dark:hover:text-slate-100">
+            <Link to="/">
+              <ArrowLeft className="h-4 w-4" />
+              All problems
+            </Link>
+          </Button>
+          <Link to="/" className="text-2xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent">
+            StepCode
+          </Link>
+        </div>
+
+        <Card className="dark:bg-gray-800 dark:border-gray-700 shadow-lg border border-gray-200 dark:border-gray-600">
+          <CardHeader className="bg-slate-50 dark:bg-gray-700 border-b border-gray-200 dark:border-gray-600 px-6 py-4 rounded-t-lg">
+            <CardTitle className="dark:text-white">Import submissions</CardTitle>
+            <CardDescription className="dark:text-slate-400">
+              Mark problems solved or attempted from a LeetCode submissions export (JSON or CSV with title slug, status
+              and timestamp). The file is read in your browser and never uploaded. Problems you already solved or marked
+              for revisit keep their status.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4 p-6">
+            <input
+              type="file"
+              accept=".json,.csv,application/json,text/csv"
+              aria-label="Submissions export file"
+              onChange={readFile}
+              className="block w-full text-sm text-slate-600 dark:text-slate-300 file:mr-4 file:rounded-md file:border-0 file:bg-blue-600 file:px-4 file:py-2 file:text-sm file:font-medium file:text-white hover:file:bg-blue-700"
+            />
+            {error && <p className="text-sm text-red-600 dark:text-red-400">{fileName}: {error}</p>}
+            {imported !== null && (
+              <p className="text-sm text-green-700 dark:text-green-400">
+                Updated {imported} problems. <Link to="/?progress=only-solved" className="underline">See solved problems</Link>
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        {preview && (
+          <Card className="dark:bg-gray-800 dark:border-gray-700 shadow-lg border border-gray-200 dark:border-gray-600">
+            <CardHeader className="bg-slate-50 dark:bg-gray-700 border-b border-gray-200 dark:border-gray-600 px-6 py-4 rounded-t-lg">
+              <div className="flex flex-wrap items-center justify-between gap-4">
+                <div>
+                  <CardTitle className="dark:text-white">Preview</CardTitle>
+                  <CardDescription className="dark:text-slate-400">
+                    {preview.matched.length} problems matched ({solvedCount} solved, {preview.matched.length - solvedCount} attempted),{" "}
+                    {changes.length} would change; {preview.unmatched.length} rows not matched
+                  </CardDescription>
+                </div>
+                <Button onClick={commit} disabled={changes.length === 0 || imported !== null} className="bg-blue-600 hover:bg-blue-700 text-white">
+                  Import {changes.length} problems
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent className="p-0">
+              <ol className="divide-y divide-gray-200 dark:divide-gray-700">
+                {preview.matched.map(entry => {
+                  const before = progress[entry.id]?.status ?? "unsolved";
+                  const after = merged?.[entry.id]?.status ?? before;
+                  const changed = merged?.[entry.id] !== progress[entry.id];
+                  return (
+                    <li key={entry.id} className={`flex flex-wrap items-center gap-3 px-6 py-3 ${changed ? "" : "opacity-60"}`}>
+                      <Link to={`/problems/${slugs.get(entry.id)}`} className="font-medium text-blue-600 dark:text-blue-400 hover:underline">
+                        {entry.id}. {entry.title}
+                      </Link>
+                      <Badge variant="outline" className={statusColors[before]}>{statusLabels[before]}</Badge>
+                      {after !== before && (
+                        <>
+                          <span className="text-slate-400">→</span>
+                          <Badge variant="outline" className={statusColors[after]}>{statusLabels[after]}</Badge>
+                        </>
+                      )}
+                      {entry.solvedAt && <span className="text-xs text-slate-500 dark:text-slate-400">first accepted {entry.solvedAt}</span>}
+                      {!entry.solvedAt && entry.firstSubmittedAt && (
+                        <span className="text-xs text-slate-500 dark:text-slate-400">first tried {entry.firstSubmittedAt}</span>
+                      )}
+                      <span className="ml-auto text-xs text-slate-400 dark:text-slate-500">{entry.submissions} submissions</span>
+                    </li>
+                  );
+                })}
+              </ol>
+              {preview.unmatched.length > 0 && (
+                <div className="border-t border-gray-200 dark:border-gray-700 px-6 py-4">
+                  <h3 className="mb-2 text-sm font-medium text-slate-600 dark:text-slate-300">Not matched</h3>
+                  <ul className="space-y-1 text-sm text-slate-500 dark:text-slate-400">
+                    {preview.unmatched.slice(0, VISIBLE_UNMATCHED).map(row => (
+                      <li key={row.row}>
+                        Row {row.row}: {row.label} <span className="text-slate-400 dark:text-slate-500">({row.reason})</span>
+                      </li>
+                    ))}
+                  </ul>
+                  {preview.unmatched.length > VISIBLE_UNMATCHED && (
+                    <p className="mt-2 text-xs text-slate-400 dark:text-slate-500">and {preview.unmatched.length - VISIBLE_UNMATCHED} more</p>
+                  )}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+import type { MetaFunction, LoaderFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { Form, Link, useLoaderData, useRevalidator } from "@remix-run/react";
+import { useCallback } from "react";
+import { ArrowLeft } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "~/components/ui/card";
+import { Button } from "~/components/ui/button";
+import { DifficultyBadge } from "~/components/difficulty-badge";
+import { getAllProblems } from "~/lib/problems.server";
+import { getProgressStatuses } from "~/lib/progress.server";
+import { recommendProblems } from "~/lib/recommend";
+import { statusColors, statusLabels, PROBLEM_STATUSES, type ProblemStatus } from "~/lib/progress";
+import { useProgress } from "~/hooks/use-progress";
+
+const COUNT_OPTIONS = [5, 10, 20];
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { searchParams } = new URL(request.url);
+  const requested = parseInt(searchParams.get("count") || "10", 10);
+  const count = COUNT_OPTIONS.includes(requested) ? requested : 10;
+
+  const { estimate, recommendations } = recommendProblems(getAllProblems(), getProgressStatuses(request), { count });
+  return json({ count, estimate, recommendations });
+};
+
+export const meta: MetaFunction = () => {
+  return [
+    { title: "Recommended Problems | StepCode" },
+    { name: "description", content: "Next problems to practise, picked from your estimated rating and weakest topics" },
+  ];
+};
+
+export default function Recommend() {
+  const { count, estimate, recommendations } = useLoaderData<typeof loader>();
+  const { progress, updateProgress } = useProgress();
+  const revalidator = useRevalidator();
+
+  // The estimate and picks come from the loader, so refresh them once the cookie has the new status
+  const updateStatus = useCallback((id: number, status: ProblemStatus) => {
+    updateProgress(id, { status });
+    revalidator.revalidate();
+  }, [updateProgress, revalidator]);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 dark:from-gray-900 dark:to-gray-900 p-6">
+      <div className="mx-auto max-w-5xl space-y-6">
+        <div className="flex items-center justify-between">
+          <Button asChild variant="ghost" size="sm" className="text-slate-600 hover:text-slate-900 dark:text-slate-400 dark:hover:text-slate-100">
+            <Link to="/">
+              <ArrowLeft className="h-4 w-4" />
+              All problems
+            </Link>
+          </Button>
+          <Link to="/" className="text-2xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent">
+            StepCode
+          </Link>
+        </div>
+
+        <Card className="dark:bg-gray-800 dark:border-gray-700 shadow-lg border border-gray-200 dark:border-gray-600">
+          <CardHeader className="bg-slate-50 dark:bg-gray-700 border-b border-gray-200 dark:border-gray-600 px-6 py-4 rounded-t-lg">
+            <CardTitle className="dark:text-white">Estimated Rating</CardTitle>
+            <CardDescription className="dark:text-slate-400">
+              Fitted to the ratings of the problems you marked solved or attempted
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="px-6 py-4 flex flex-wrap items-end justify-between gap-4">
+            <div className="flex items-end gap-6">
+              <div className="text-4xl font-bold font-mono dark:text-white">{estimate.rating}</div>
+              <div className="text-sm text-slate-500 dark:text-slate-400">
+                {estimate.solved} solved • {estimate.failed} attempted without solving
+              </div>
+            </div>
+            <Form method="get" className="flex items-center gap-2">
+              <label htmlFor="recommend-count" className="text-sm font-medium text-slate-600 dark:text-slate-300">Show</label>
+              <select
+                id="recommend-count"
+                name="count"
+                defaultValue={count}
+                onChange={(e) => e.currentTarget.form?.requestSubmit()}
+                className="px-3 py-2 text-sm border rounded-lg dark:bg-gray-700 dark:border-gray-600 dark:text-white focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400"
+              >
+                {COUNT_OPTIONS.map((option) => (
+                  <option key={option} value={option}>{option} problems</option>
+                ))}
+              </select>
+            </Form>
+          </CardContent>
+          {estimate.solved + estimate.failed === 0 && (
+            <CardContent className="px-6 pb-4 pt-0 text-sm text-slate-500 dark:text-slate-400">
+              No tracked problems yet, so this starts from a default of 1500. Mark problems as solved or attempted to calibrate it.
+            </CardContent>
+          )}
+        </Card>
+
+        <Card className="dark:bg-gray-800 dark:border-gray-700 shadow-lg border border-gray-200 dark:border-gray-600">
+          <CardHeader className="bg-slate-50 dark:bg-gray-700 border-b border-gray-200 dark:border-gray-600 px-6 py-4 rounded-t-lg">
+            <CardTitle className="dark:text-white">Next Problems</CardTitle>
+            <CardDescription className="dark:text-slate-400">
+              Just above your level, weighted toward the topics you struggle with most
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="p-0">
+            {recommendations.length === 0 ? (
+              <p className="px-6 py-4 text-sm text-slate-500 dark:text-slate-400">
+                Nothing left in your rating range. Great work!
+              </p>
+            ) : (
+              <ol className="divide-y divide-gray-200 dark:divide-gray-700">
+                {recommendations.map(({ problem, reasons }, index) => {
+                  const status = progress[problem.ID]?.status ?? "unsolved";
+                  return (
+                    <li key={problem.ID} className="px-6 py-4 space-y-2 hover:bg-slate-50 dark:hover:bg-gray-700">
+                      <div className="flex flex-wrap items-center gap-3">
+                        <span className="font-mono text-sm text-slate-400 dark:text-slate-500">#{index + 1}</span>
+                        <Link
+                          to={`/problems/${problem.TitleSlug}`}
+                          className="font-medium text-blue-600 dark:text-blue-400 hover:underline hover:text-blue-700 dark:hover:text-blue-300"
+                        >
+                          {problem.ID}. {problem.Title}
+                        </Link>
+                        <DifficultyBadge difficulty={problem.problemDetails?.difficulty} />
+                        <span className="font-mono text-sm dark:text-slate-300">{Math.round(problem.Rating)}</span>
+                        <select
+                          aria-label={`Status for ${problem.Title}`}
+                          value={status}
+                          onChange={(e) => updateStatus(problem.ID, e.target.value as ProblemStatus)}
+                          className={`ml-auto px-2 py-1 text-xs border rounded-md focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400 ${statusColors[status]}`}
+                        >
+                          {PROBLEM_STATUSES.map((option) => (
+                            <option key={option} value={option}>{statusLabels[option]}</option>
+                          ))}
+                        </select>
+                      </div>
+                      <ul className="list-disc pl-10 text-sm text-slate-600 dark:text-slate-400">
+                        {reasons.map((reason) => (
+                          <li key={reason}>{reason}</li>
+                        ))}
+                      </ul>
+                    </li>
+                  );
+                })}
+              </ol>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
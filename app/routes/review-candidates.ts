@@ -0,0 +1,26 @@
+import type { LoaderFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { getAllProblems } from "~/lib/problems.server";
+import { getProgressStatuses } from "~/lib/progress.server";
+import type { ReviewCandidate } from "~/lib/review";
+
+// Resource route for the review queue: the solved problems the schedule is built from.
+// The schedule itself stays in the browser, so due dates are worked out there.
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const statuses = getProgressStatuses(request);
+  const candidates: ReviewCandidate[] = getAllProblems()
+    .filter(problem => {
+      const status = statuses.get(problem.ID);
+      return status === "solved" || status === "revisit";
+    })
+    .map(problem => ({
+      ID: problem.ID,
+      Title: problem.Title,
+      TitleSlug: problem.TitleSlug,
+      Rating: problem.Rating,
+      tags: (problem.topicTags ?? []).map(tag => tag.name),
+      subtags: (problem.topicTags ?? []).flatMap(tag => tag.subtags ?? []),
+    }));
+
+  return json({ candidates });
+};
@@ -0,0 +1,9 @@
+import type { LoaderFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { suggestSearch } from "~/lib/problems.server";
+
+// Resource route behind the search box's type-ahead
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const query = new URL(request.url).searchParams.get("q") ?? "";
+  return json(suggestSearch(query));
+};
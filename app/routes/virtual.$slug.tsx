@@ -0,0 +1,243 @@
+import type { MetaFunction, LoaderFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { Link, useLoaderData } from "@remix-run/react";
+import { useCallback, useEffect, useState } from "react";
+import { ArrowLeft, ExternalLink } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "~/components/ui/card";
+import { Button } from "~/components/ui/button";
+import { getContestBySlug } from "~/lib/problems.server";
+import {
+  elapsedSeconds,
+  finishRun,
+  formatDuration,
+  loadActiveRun,
+  loadVirtualHistory,
+  saveActiveRun,
+  saveVirtualHistory,
+  CONTEST_DURATION_SECONDS,
+  type VirtualProblem,
+  type VirtualResult,
+  type VirtualRun,
+} from "~/lib/virtual-contest";
+
+export const loader = async ({ params }: LoaderFunctionArgs) => {
+  const contest = getContestBySlug(params.slug ?? "");
+  if (!contest) {
+    throw new Response("Contest not found", { status: 404 });
+  }
+
+  const problems: VirtualProblem[] = contest.problems.map(({ ID, Title, TitleSlug, ProblemIndex, Rating }) => ({
+    ID,
+    Title,
+    TitleSlug,
+    ProblemIndex,
+    Rating,
+  }));
+  return json({ slug: contest.slug, title: contest.title, titleZH: contest.titleZH, problems });
+};
+
+export const meta: MetaFunction<typeof loader> = ({ data }) => {
+  if (!data) {
+    return [{ title: "Contest not found | StepCode" }];
+  }
+  return [
+    { title: `Virtual ${data.title} | StepCode` },
+    { name: "description", content: `Timed virtual run of ${data.title} with a simulated rating change` },
+  ];
+};
+
+function ResultCard({ result }: { result: VirtualResult }) {
+  const delta = result.newRating - result.previousRating;
+  const solved = result.solves.filter(solve => solve.seconds !== null).length;
+
+  return (
+    <Card className="dark:bg-gray-800 dark:border-gray-700 shadow-lg border border-gray-200 dark:border-gray-600">
+      <CardHeader className="bg-slate-50 dark:bg-gray-700 border-b border-gray-200 dark:border-gray-600 px-6 py-4 rounded-t-lg">
+        <CardTitle className="dark:text-white">Result</CardTitle>
+        <CardDescription className="dark:text-slate-400">
+          {solved} of {result.solves.length} solved • saved to your <Link to="/virtual" className="text-blue-600 dark:text-blue-400 hover:underline">virtual contest history</Link>
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="px-6 py-4 space-y-4">
+        <div className="flex flex-wrap items-end gap-8">
+          <div>
+            <div className="text-xs font-medium uppercase text-slate-500 dark:text-slate-400">Performance</div>
+            <div className="text-4xl font-bold font-mono dark:text-white">{result.performance}</div>
+          </div>
+          <div>
+            <div className="text-xs font-medium uppercase text-slate-500 dark:text-slate-400">Virtual rating</div>
+            <div className="text-2xl font-mono dark:text-white">
+              {result.previousRating} → {result.newRating}{" "}
+              <span className={delta >= 0 ? "text-green-600 dark:text-green-400" : "text-red-600 dark:text-red-400"}>
+                ({delta >= 0 ? "+" : ""}{delta})
+              </span>
+            </div>
+          </div>
+        </div>
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+          {result.solves.map((solve) => (
+            <li key={solve.problemId} className="flex items-center justify-between py-2 dark:text-slate-300">
+              <span className="font-mono">{solve.problemIndex} • {Math.round(solve.rating)}</span>
+              <span className="font-mono">{solve.seconds === null ? "—" : formatDuration(solve.seconds)}</span>
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function VirtualContest() {
+  const { slug, title, titleZH, problems } = useLoaderData<typeof loader>();
+
+  // The run lives in localStorage so a reload or a closed tab doesn't lose it
+  const [loaded, setLoaded] = useState(false);
+  const [run, setRun] = useState<VirtualRun | null>(null);
+  const [otherRun, setOtherRun] = useState<VirtualRun | null>(null);
+  const [result, setResult] = useState<VirtualResult | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const active = loadActiveRun();
+    setRun(active?.slug === slug ? active : null);
+    setOtherRun(active && active.slug !== slug ? active : null);
+    setResult(null);
+    setNow(Date.now());
+    setLoaded(true);
+  }, [slug]);
+
+  useEffect(() => {
+    if (!run) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [run]);
+
+  const finish = useCallback(() => {
+    if (!run) return;
+    const history = loadVirtualHistory();
+    const final = finishRun(run, title, problems, history);
+    saveVirtualHistory([...history, final]);
+    saveActiveRun(null);
+    setRun(null);
+    setResult(final);
+  }, [run, title, problems]);
+
+  const remaining = run ? CONTEST_DURATION_SECONDS - elapsedSeconds(run, now) : CONTEST_DURATION_SECONDS;
+
+  // Also covers a run whose time ran out while the page was closed
+  useEffect(() => {
+    if (run && remaining <= 0) finish();
+  }, [run, remaining, finish]);
+
+  const start = () => {
+    const next: VirtualRun = { slug, startedAt: new Date().toISOString(), solves: {} };
+    saveActiveRun(next);
+    setRun(next);
+    setOtherRun(null);
+    setResult(null);
+    setNow(Date.now());
+  };
+
+  const abandon = () => {
+    saveActiveRun(null);
+    setRun(null);
+  };
+
+  const toggleSolved = (problemId: number) => {
+    if (!run) return;
+    const solves = { ...run.solves };
+    if (problemId in solves) delete solves[problemId];
+    else solves[problemId] = Math.min(elapsedSeconds(run), CONTEST_DURATION_SECONDS);
+    const next = { ...run, solves };
+    saveActiveRun(next);
+    setRun(next);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 dark:from-gray-900 dark:to-gray-900 p-6">
+      <div className="mx-auto max-w-5xl space-y-6">
+        <div className="flex items-center justify-between">
+          <Button asChild variant="ghost" size="sm" className="text-slate-600 hover:text-slate-900 dark:text-slate-400 dark:hover:text-slate-100">
+            <Link to="/contests">
+              <ArrowLeft className="h-4 w-4" />
+              All contests
+            </Link>
+          </Button>
+          <Link to="/" className="text-2xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent">
+            StepCode
+          </Link>
+        </div>
+
+        <Card className="dark:bg-gray-800 dark:border-gray-700 shadow-lg border border-gray-200 dark:border-gray-600">
+          <CardHeader className="bg-slate-50 dark:bg-gray-700 border-b border-gray-200 dark:border-gray-600 px-6 py-4 rounded-t-lg">
+            <div className="flex flex-wrap items-center justify-between gap-4">
+              <div>
+                <CardTitle className="dark:text-white">Virtual {title}</CardTitle>
+                <CardDescription className="dark:text-slate-400">{titleZH} • 90 minutes, {problems.length} problems</CardDescription>
+              </div>
+              {run && (
+                <div className={`text-3xl font-bold font-mono ${remaining <= 300 ? "text-red-600 dark:text-red-400" : "dark:text-white"}`}>
+                  {formatDuration(remaining)}
+                </div>
+              )}
+            </div>
+          </CardHeader>
+          <CardContent className="px-6 py-4 space-y-4">
+            {!loaded ? null : run ? (
+              <>
+                <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {problems.map((problem) => {
+                    const solvedAt = run.solves[problem.ID];
+                    return (
+                      <li key={problem.ID} className="flex flex-wrap items-center gap-3 py-3">
+                        <span className="font-mono text-sm text-slate-400 dark:text-slate-500">{problem.ProblemIndex}</span>
+                        <a
+                          href={`https://leetcode.com/problems/${problem.TitleSlug}/`}
+                          target="_blank"
+                          rel="noreferrer"
+                          className="inline-flex items-center gap-1 font-medium text-blue-600 dark:text-blue-400 hover:underline"
+                        >
+                          {problem.ID}. {problem.Title} <ExternalLink className="h-3 w-3" />
+                        </a>
+                        <div className="ml-auto flex items-center gap-3">
+                          {solvedAt !== undefined && (
+                            <span className="font-mono text-sm text-green-600 dark:text-green-400">Solved at {formatDuration(solvedAt)}</span>
+                          )}
+                          <Button variant="outline" size="sm" onClick={() => toggleSolved(problem.ID)}>
+                            {solvedAt !== undefined ? "Undo" : "Mark solved"}
+                          </Button>
+                        </div>
+                      </li>
+                    );
+                  })}
+                </ul>
+                <div className="flex gap-2">
+                  <Button onClick={finish} className="bg-blue-600 hover:bg-blue-700 text-white">Finish now</Button>
+                  <Button variant="ghost" onClick={abandon}>Abandon</Button>
+                </div>
+              </>
+            ) : (
+              <>
+                <p className="text-sm text-slate-600 dark:text-slate-400">
+                  Problem titles and ratings stay hidden until you start. Open each problem on LeetCode, then mark it
+                  solved here when it&apos;s accepted. Your performance is rated from the problems you solve.
+                </p>
+                {otherRun && (
+                  <p className="text-sm text-amber-600 dark:text-amber-400">
+                    You have a virtual run of <Link to={`/virtual/${otherRun.slug}`} className="underline">{otherRun.slug}</Link> in
+                    progress. Starting this one abandons it.
+                  </p>
+                )}
+                <Button onClick={start} className="bg-blue-600 hover:bg-blue-700 text-white">
+                  {result ? "Start again" : "Start virtual contest"}
+                </Button>
+              </>
+            )}
+          </CardContent>
+        </Card>
+
+        {result && <ResultCard result={result} />}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,138 @@
+import type { MetaFunction } from "@remix-run/node";
+import { Link } from "@remix-run/react";
+import { useEffect, useState } from "react";
+import { ArrowLeft } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "~/components/ui/card";
+import { Button } from "~/components/ui/button";
+import { RatingChart } from "~/components/rating-chart";
+import {
+  formatDuration,
+  loadActiveRun,
+  loadVirtualHistory,
+  saveVirtualHistory,
+  INITIAL_VIRTUAL_RATING,
+  type VirtualResult,
+  type VirtualRun,
+} from "~/lib/virtual-contest";
+
+export const meta: MetaFunction = () => {
+  return [
+    { title: "Virtual Contests | StepCode" },
+    { name: "description", content: "Your virtual contest results and simulated rating over time" },
+  ];
+};
+
+const dateFormatter = new Intl.DateTimeFormat("en-US", { dateStyle: "medium" });
+
+export default function VirtualHistory() {
+  // History is only kept in this browser, so there is nothing to load on the server
+  const [history, setHistory] = useState<VirtualResult[]>([]);
+  const [activeRun, setActiveRun] = useState<VirtualRun | null>(null);
+
+  useEffect(() => {
+    setHistory(loadVirtualHistory());
+    setActiveRun(loadActiveRun());
+  }, []);
+
+  const clearHistory = () => {
+    if (!window.confirm("Delete all virtual contest results?")) return;
+    saveVirtualHistory([]);
+    setHistory([]);
+  };
+
+  const currentRating = history.length > 0 ? history[history.length - 1].newRating : INITIAL_VIRTUAL_RATING;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 dark:from-gray-900 dark:to-gray-900 p-6">
+      <div className="mx-auto max-w-5xl space-y-6">
+        <div className="flex items-center justify-between">
+          <Button asChild variant="ghost" size="sm" className="text-slate-600 hover:text-slate-900 dark:text-slate-400 dark:hover:text-slate-100">
+            <Link to="/contests">
+              <ArrowLeft className="h-4 w-4" />
+              All contests
+            </Link>
+          </Button>
+          <Link to="/" className="text-2xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent">
+            StepCode
+          </Link>
+        </div>
+
+        {activeRun && (
+          <p className="text-sm text-amber-600 dark:text-amber-400">
+            A virtual run of {activeRun.slug} is in progress. <Link to={`/virtual/${activeRun.slug}`} className="underline">Go back to it</Link>
+          </p>
+        )}
+
+        <Card className="dark:bg-gray-800 dark:border-gray-700 shadow-lg border border-gray-200 dark:border-gray-600">
+          <CardHeader className="bg-slate-50 dark:bg-gray-700 border-b border-gray-200 dark:border-gray-600 px-6 py-4 rounded-t-lg">
+            <CardTitle className="dark:text-white">Virtual Rating</CardTitle>
+            <CardDescription className="dark:text-slate-400">
+              Starts at {INITIAL_VIRTUAL_RATING} and moves toward each contest&apos;s performance, like a LeetCode rating
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="px-6 py-4 space-y-4">
+            <div className="flex items-end gap-6">
+              <div className="text-4xl font-bold font-mono dark:text-white">{currentRating}</div>
+              <div className="text-sm text-slate-500 dark:text-slate-400">{history.length} virtual contests</div>
+            </div>
+            {history.length > 0 ? (
+              <RatingChart
+                points={history.map(result => ({ label: result.title, rating: result.newRating, performance: result.performance }))}
+              />
+            ) : (
+              <p className="text-sm text-slate-500 dark:text-slate-400">
+                No virtual contests yet. Pick one from the <Link to="/contests" className="text-blue-600 dark:text-blue-400 hover:underline">contest list</Link>.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        {history.length > 0 && (
+          <Card className="dark:bg-gray-800 dark:border-gray-700 shadow-lg border border-gray-200 dark:border-gray-600">
+            <CardHeader className="bg-slate-50 dark:bg-gray-700 border-b border-gray-200 dark:border-gray-600 px-6 py-4 rounded-t-lg">
+              <div className="flex items-center justify-between">
+                <CardTitle className="dark:text-white">History</CardTitle>
+                <Button variant="ghost" size="sm" onClick={clearHistory}>Clear history</Button>
+              </div>
+            </CardHeader>
+            <CardContent className="p-0">
+              <div className="grid grid-cols-12 gap-3 px-6 py-3 text-xs font-medium uppercase text-slate-500 dark:text-slate-400 border-b border-gray-200 dark:border-gray-600">
+                <div className="col-span-4">Contest</div>
+                <div className="col-span-2">Date</div>
+                <div className="col-span-2">Solved</div>
+                <div className="col-span-2">Performance</div>
+                <div className="col-span-2">Rating</div>
+              </div>
+              <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+                {[...history].reverse().map((result) => {
+                  const delta = result.newRating - result.previousRating;
+                  const solved = result.solves.filter(solve => solve.seconds !== null);
+                  const lastSolve = Math.max(0, ...solved.map(solve => solve.seconds ?? 0));
+                  return (
+                    <li key={result.startedAt} className="grid grid-cols-12 gap-3 px-6 py-3 text-sm dark:text-slate-300">
+                      <Link to={`/virtual/${result.slug}`} className="col-span-4 text-blue-600 dark:text-blue-400 hover:underline">
+                        {result.title}
+                      </Link>
+                      <div className="col-span-2">{dateFormatter.format(new Date(result.finishedAt))}</div>
+                      <div className="col-span-2 font-mono">
+                        {solved.length}/{result.solves.length}
+                        {solved.length > 0 && <span className="text-slate-400 dark:text-slate-500"> ({formatDuration(lastSolve)})</span>}
+                      </div>
+                      <div className="col-span-2 font-mono">{result.performance}</div>
+                      <div className="col-span-2 font-mono">
+                        {result.newRating}{" "}
+                        <span className={delta >= 0 ? "text-green-600 dark:text-green-400" : "text-red-600 dark:text-red-400"}>
+                          ({delta >= 0 ? "+" : ""}{delta})
+                        </span>
+                      </div>
+                    </li>
+                  );
+                })}
+              </ul>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,18 @@
+// The dataset lives in two places: app/data/problems.json is bundled into the server and
+// public/data.json is served as-is. Scripts always write both from the same data.
+import { readFile, writeFile } from "node:fs/promises";
+import { serializeDataset } from "~/lib/dataset";
+import type { LeetCodeProblem } from "~/lib/types";
+
+export const DATASET_PATH = "app/data/problems.json";
+export const OUTPUT_PATHS = [DATASET_PATH, "public/data.json"];
+
+export const readJson = async (path: string): Promise<unknown> => JSON.parse(await readFile(path, "utf8"));
+
+export const readDataset = async () => (await readJson(DATASET_PATH)) as LeetCodeProblem[];
+
+export async function writeDataset(problems: LeetCodeProblem[]) {
+  const output = serializeDataset(problems);
+  await Promise.all(OUTPUT_PATHS.map(path => writeFile(path, output)));
+  console.log(`\nWrote ${OUTPUT_PATHS.join(" and ")}`);
+}
@@ -0,0 +1,100 @@
+// Adds subtags to problems that were never enhanced, or were enhanced too long ago:
+//
+//   npm run enrich -- [--provider rules] [--stale-days 90] [--force] [--replace] [--ids 1004,424] [--limit 50] [--dry-run]
+//   npm run enrich -- --provider openai --base-url http://localhost:11434/v1 --model qwen2.5:7b
+//
+// The OpenAI-compatible provider reads OPENAI_API_KEY when --api-key isn't given.
+import { parseArgs } from "node:util";
+import { enrichProblems, type EnrichmentProvider } from "~/lib/enrichment";
+import { createOpenAICompatibleProvider } from "~/lib/enrichment-openai";
+import { createRulesProvider } from "~/lib/enrichment-rules";
+import type { LeetCodeProblem } from "~/lib/types";
+import { readDataset, writeDataset } from "./dataset-files";
+
+const USAGE = "Usage: npm run enrich -- [--provider rules|openai] [--base-url <url> --model <name> [--api-key <key>]] " +
+  "[--stale-days <n>] [--force] [--replace] [--ids <id,id>] [--limit <n>] [--dry-run]";
+
+const fail = (message: string): never => {
+  console.error(message);
+  process.exit(1);
+};
+
+const parsePositive = (value: string | undefined, flag: string) => {
+  if (value === undefined) return undefined;
+  const parsed = parseInt(value, 10);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : fail(`${flag} must be a positive number`);
+};
+
+const subtagVocabulary = (problems: LeetCodeProblem[]) =>
+  Array.from(new Set(problems.flatMap(problem => problem.topicTags?.flatMap(tag => tag.subtags ?? []) ?? []))).sort();
+
+function createProvider(values: Record<string, string | boolean | undefined>, problems: LeetCodeProblem[]): EnrichmentProvider {
+  const provider = values.provider ?? "rules";
+  if (provider === "rules") return createRulesProvider();
+  if (provider !== "openai") return fail(`Unknown provider "${provider}"\n${USAGE}`);
+
+  const baseUrl = typeof values["base-url"] === "string" ? values["base-url"] : fail(`--base-url is required for openai\n${USAGE}`);
+  const model = typeof values.model === "string" ? values.model : fail(`--model is required for openai\n${USAGE}`);
+  return createOpenAICompatibleProvider({
+    baseUrl,
+    model,
+    apiKey: typeof values["api-key"] === "string" ? values["api-key"] : process.env.OPENAI_API_KEY,
+    vocabulary: subtagVocabulary(problems),
+  });
+}
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      provider: { type: "string" },
+      "base-url": { type: "string" },
+      model: { type: "string" },
+      "api-key": { type: "string" },
+      "stale-days": { type: "string" },
+      force: { type: "boolean", default: false },
+      replace: { type: "boolean", default: false },
+      ids: { type: "string" },
+      limit: { type: "string" },
+      "dry-run": { type: "boolean", default: false },
+    },
+  });
+
+  const problems = await readDataset();
+  const provider = createProvider(values, problems);
+  const staleDays = parsePositive(values["stale-days"], "--stale-days");
+  const ids = values.ids
+    ? new Set(values.ids.split(",").map(id => parsePositive(id.trim(), "--ids") as number))
+    : undefined;
+
+  const result = await enrichProblems(problems, provider, {
+    staleBefore: staleDays ? new Date(Date.now() - staleDays * 86400000).toISOString() : undefined,
+    force: values.force,
+    replace: values.replace,
+    ids,
+    limit: parsePositive(values.limit, "--limit"),
+    onProgress: ({ problem, done, total, changed, error }) => {
+      if (error) {
+        console.log(`[${done}/${total}] ${problem.ID}. ${problem.Title}: failed, ${error}`);
+      } else if (changed) {
+        const subtags = (problem.topicTags ?? [])
+          .filter(tag => tag.subtags?.length)
+          .map(tag => `${tag.name} > ${tag.subtags?.join(", ")}`);
+        console.log(`[${done}/${total}] ${problem.ID}. ${problem.Title}: ${subtags.join("; ")}`);
+      }
+    },
+  });
+
+  console.log(
+    `\n${provider.name}: ${result.enriched.length} enriched, ${result.failed.length} failed, ${result.skipped} already up to date`
+  );
+  if (result.deferred > 0) console.log(`${result.deferred} more due, left for the next run`);
+  if (result.stoppedEarly) console.log(`Stopped early: ${result.stoppedEarly}`);
+
+  if (values["dry-run"]) {
+    console.log("Dry run, nothing written");
+    return;
+  }
+  if (result.enriched.length > 0) await writeDataset(result.problems);
+}
+
+main();
@@ -0,0 +1,78 @@
+// Refreshes the dataset from a raw ratings file and, optionally, a LeetCode tag dump:
+//
+//   npm run ingest -- --ratings ratings.json [--tags tags.json] [--prune] [--dry-run]
+//
+// Writes both copies of the dataset from the same merged data, so they can't drift apart.
+import { parseArgs } from "node:util";
+import { checkDataset } from "~/lib/data-health";
+import {
+  mergeDataset,
+  parseRawRatings,
+  parseTagDump,
+  DatasetFormatError,
+  type MergeReport,
+} from "~/lib/dataset";
+import type { LeetCodeProblem } from "~/lib/types";
+import { readDataset, readJson, writeDataset } from "./dataset-files";
+
+// Enough of each list to eyeball; the counts are always complete
+const REPORT_LIMIT = 20;
+
+const describe = (problem: LeetCodeProblem) => `${problem.ID}. ${problem.Title} (${Math.round(problem.Rating)})`;
+
+function printSection<T>(heading: string, items: T[], format: (item: T) => string) {
+  console.log(`\n${heading}: ${items.length}`);
+  items.slice(0, REPORT_LIMIT).forEach(item => console.log(`  ${format(item)}`));
+  if (items.length > REPORT_LIMIT) console.log(`  ...and ${items.length - REPORT_LIMIT} more`);
+}
+
+function printReport({ added, changed, missing, removed }: MergeReport) {
+  printSection("Added", added, describe);
+  printSection("Changed", changed, ({ problem, fields, previousRating }) => {
+    const rating = fields.includes("Rating") ? ` ${Math.round(previousRating)} → ${Math.round(problem.Rating)}` : "";
+    return `${problem.ID}. ${problem.Title}${rating} [${fields.join(", ")}]`;
+  });
+  if (missing.length > 0) printSection("Not in the ratings file, kept (pass --prune to remove)", missing, describe);
+  printSection("Removed", removed, describe);
+}
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      ratings: { type: "string" },
+      tags: { type: "string" },
+      prune: { type: "boolean", default: false },
+      "dry-run": { type: "boolean", default: false },
+    },
+  });
+  if (!values.ratings) {
+    console.error("Usage: npm run ingest -- --ratings <file> [--tags <file>] [--prune] [--dry-run]");
+    process.exit(1);
+  }
+
+  const existing = await readDataset();
+  const ratings = parseRawRatings(await readJson(values.ratings));
+  const tagDump = values.tags ? parseTagDump(await readJson(values.tags)) : [];
+
+  const { problems, report } = mergeDataset(existing, ratings, tagDump, { prune: values.prune });
+  console.log(`${existing.length} problems before, ${problems.length} after`);
+  printReport(report);
+
+  const { issues } = checkDataset(problems);
+  const errors = issues.filter(issue => issue.severity === "error").length;
+  console.log(`\nData health: ${errors} errors, ${issues.length - errors} warnings (details on /admin/data-health)`);
+
+  if (values["dry-run"]) {
+    console.log("\nDry run, nothing written");
+    return;
+  }
+  await writeDataset(problems);
+}
+
+main().catch(error => {
+  if (error instanceof DatasetFormatError || error instanceof SyntaxError) {
+    console.error(error.message);
+    process.exit(1);
+  }
+  throw error;
+});
@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { vitePlugin as remix } from "@remix-run/dev";
 import { defineConfig } from "vite";
 import tsconfigPaths from "vite-tsconfig-paths";
@@ -10,7 +11,8 @@ declare module "@remix-run/node" {
 
 export default defineConfig({
   plugins: [
-    remix({
+    // Unit tests only need path aliases, not the Remix build
+    !process.env.VITEST && remix({
       future: {
         v3_fetcherPersist: true,
         v3_relativeSplatPath: true,
@@ -21,4 +23,9 @@ export default defineConfig({
     }),
     tsconfigPaths(),
   ],
+  test: {
+    include: ["app/**/*.test.ts"],
+    // Account tests get a fresh database per test file instead of touching .data
+    env: { DATABASE_PATH: ":memory:" },
+  },
 });